@@ -20,39 +20,71 @@
  *  Extension icon   →   action.onClicked           → sendMessage("toggleSidebar")
  *  Options page btn →   "openOptionsPage"           → chrome.runtime.openOptionsPage()
  *  Web page login   →   "SYNC_WEB_USER"             → Firestore uid/email lookup
- *  Popup Fill btn   →   "triggerFillFromPopup"      → runAIFill()
- *  Sidebar Fill btn →   "triggerFillFromSidebar"    → processFormStep()
+ *  Popup Fill btn   →   "triggerFillFromPopup"      → startAutopilot()
+ *  Sidebar Fill btn →   "triggerFillFromSidebar"    → startAutopilot()
+ *  Sidebar controls →   "autopilotControl"          → controlAutopilot()
  *  Content script   →   "processFieldsAI"           → processFieldsAI()
- *  Sidebar chat     →   "processChatAI"             → geminiService.generateChatReply()
- *  Autopilot link   →   "openAutopilotLink"         → chrome.tabs.create()
+ *  Content script   →   "recordSiteRecipe"          → recordFilledRecipe()
+ *  Content script   →   "recordCorrection"          → learnFromEdit()
+ *  Field inspector  →   "inspectFields"             → inspectFields()
+ *  Sidebar profiles →   "vault"                     → handleVaultRequest()
+ *  Alt+F shortcut   →   "scanFrames", "fillFrames",
+ *                       "clickNextInFrame"          → frameRegistry
+ *  Sidebar scan     →   "countFrameFields"          → countFrameFields()
+ *  Undo / Alt+Z     →   "undoLastFill"              → undoLastFill()
+ *  Sidebar chat     →   "processChatAI"             → llmService.generateChatReply()
+ *  Autopilot link   →   "openAutopilotLink"         → chrome.tabs.create() + startAutopilot()
  *
- *  Tab navigation   →   tabs.onUpdated              → processFormStep() (autopilot)
- *  Storage change   →   storage.onChanged           → domainCache.clear()
+ *  Tab navigation   →   tabs.onUpdated              → handleAutopilotTabUpdated()
+ *  Tab closed       →   tabs.onRemoved              → handleAutopilotTabRemoved()
+ *  Autopilot alarm  →   alarms.onAlarm              → handleAutopilotWatchdog()
+ *  Auto-lock alarm  →   alarms.onAlarm              → storageService.autoLockIfIdle()
  *
  * ─── DEPENDENCY DIRECTION
  *   background.ts  ← YOU ARE HERE (top of the tree)
- *     ├── geminiService         (direct: only for processChatAI)
- *     ├── backgroundUtils       (getActiveUserData, getHostname, badge, status)
- *     ├── domainCache           (domainCache.clear() on config change)
- *     └── formStepProcessor     (processFieldsAI, runAIFill, processFormStep)
- *           └── (see formStepProcessor.ts for its own deps)
+ *     ├── llmService            (direct: only for processChatAI)
+ *     ├── backgroundUtils       (getActiveUserData, badge)
+ *     ├── autopilot             (startAutopilot, controlAutopilot, tab/alarm handlers)
+ *     │     └── formStepProcessor.runFormStep
+ *     ├── formStepProcessor     (processFieldsAI, recordFilledRecipe, inspectFields)
+ *     │     └── (see formStepProcessor.ts for its own deps)
+ *     ├── correctionLearner     (learnFromEdit)
+ *     ├── frameRegistry         (scan / fill / click / undo across frames)
+ *     └── vaultBridge           (handleVaultRequest)
  *
  */
 
-import { geminiService } from "../services/geminiService";
+import { llmService } from "../services/llmService";
+import { loadLLMSettings, getLLMConfigError } from "../services/llm";
 import {
   getActiveUserData,
-  getHostname,
   showBadge,
   clearBadge,
-  sendSidebarStatus,
 } from "./modules/backgroundUtils";
-import { domainCache } from "./modules/domainCache";
+import { storageService } from "../services/storageService";
 import {
   processFieldsAI,
-  runAIFill,
-  processFormStep,
+  recordFilledRecipe,
+  inspectFields,
 } from "./modules/formStepProcessor";
+import { learnFromEdit } from "./modules/correctionLearner";
+import { handleVaultRequest } from "./modules/vaultBridge";
+import {
+  analyzeFrames,
+  clickNextInFrame,
+  countFrameFields,
+  fillFrames,
+  formFrame,
+  undoLastFill,
+} from "./modules/frameRegistry";
+import {
+  AUTOPILOT_WATCHDOG_ALARM,
+  startAutopilot,
+  controlAutopilot,
+  handleAutopilotTabUpdated,
+  handleAutopilotTabRemoved,
+  handleAutopilotWatchdog,
+} from "./modules/autopilot";
 
 /**
  * Background service worker for Aullevo.
@@ -115,7 +147,7 @@ chrome.action.onClicked.addListener((tab) => {
  * Blocks that need async work return `true` to keep the message channel open
  * until sendResponse() is called.
  */
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   // ── openOptionsPage ─────────────────────────────────────────
   // Opens the extension's settings page. Sent by the popup when the user
   // clicks the "Settings" icon. Uses openOptionsPage() API with a fallback
@@ -234,78 +266,32 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true; // Keep message channel open for async response
   }
 
-  // ── triggerFillFromPopup ────────────────────────────────────
-  // Fired when the user clicks the "Fill Form" button in the popup.
-  // Also triggered by the Ctrl+M keyboard shortcut in some configurations.
+  // ── triggerFillFromPopup / triggerFillFromSidebar ──────────
+  // Fired when the user clicks "Fill" in the popup or the sidebar panel.
   //
-  // Delegates entirely to runAIFill() which sets up the autopilot session
-  // and starts the processFormStep() loop.
-  if (request.action === "triggerFillFromPopup") {
-    runAIFill().then(() => sendResponse({ success: true }));
-    return true;
-  }
-
-  // ── triggerFillFromSidebar ──────────────────────────────────
-  // Fired when the user clicks "Fill" inside the sidebar panel.
-  // Similar to triggerFillFromPopup but:
-  //   • Reads the active tab from within the handler (sidebar has its own tabId).
-  //   • Sends sendResponse({ success: true }) immediately (fire and forget)
-  //     so the sidebar UI can update right away.
-  //   • processFormStep() runs asynchronously and updates the sidebar via
-  //     sendSidebarStatus() messages throughout the fill process.
-  if (request.action === "triggerFillFromSidebar") {
+  // Both start a fresh autopilot session on the active tab and ACK as soon
+  // as it is stored, so the UI can update right away. The run itself
+  // continues in autopilot.ts and reports progress to the sidebar via
+  // sendSidebarStatus() messages.
+  if (
+    request.action === "triggerFillFromPopup" ||
+    request.action === "triggerFillFromSidebar"
+  ) {
     (async () => {
       try {
         const [tab] = await chrome.tabs.query({
           active: true,
           currentWindow: true,
         });
-        if (!tab?.id)
+        if (!tab?.id) {
+          showBadge("!", "#f87171"); // Red "!" if no active tab found
           return sendResponse({ success: false, error: "No active tab found" });
-
-        const tabId = tab.id;
-        const tabHostname = getHostname(tab.url || "");
-
-        const stored = await chrome.storage.local.get([
-          "resumeFileData",
-          "resumeFileName",
-          "autoSubmit",
-        ]);
-        const userData = await getActiveUserData();
-        const autoSubmit = !!stored.autoSubmit;
-
-        // Initialise or clear the autopilot session before starting
-        if (autoSubmit) {
-          await chrome.storage.local.set({
-            autopilotSession: {
-              tabId: tabId,
-              step: 0,
-              hostname: tabHostname,
-              fingerprints: [],
-            },
-          });
-        } else {
-          await chrome.storage.local.remove(["autopilotSession"]);
         }
 
-        showBadge("⏳", "#3B82F6"); // Blue hourglass = working
-
-        // Kick off recursive processFormStep asynchronously so callback completes immediately
-        // The sidebar will receive status updates via sendSidebarStatus() as filling progresses.
-        processFormStep(
-          tabId,
-          userData,
-          0,
-          tabHostname,
-          stored.resumeFileData as string | undefined,
-          stored.resumeFileName as string | undefined,
-        ).catch((err) => {
-          console.error("Sidebar initiated fill failed:", err);
-          sendSidebarStatus(tabId, err.message || "Filling failed", "error");
-        });
-
-        sendResponse({ success: true }); // Immediately ACK the sidebar
+        await startAutopilot(tab.id, tab.url || "");
+        sendResponse({ success: true });
       } catch (err: any) {
+        console.error("Aullevo: could not start autopilot", err);
         showBadge("✗", "#f87171");
         setTimeout(clearBadge, 3000);
         sendResponse({ success: false, error: err.message });
@@ -314,6 +300,16 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // ── autopilotControl ────────────────────────────────────────
+  // Pause / Resume / Cancel / Dismiss from the sidebar's autopilot card.
+  // Only the session running in the sender's own tab can be controlled.
+  if (request.action === "autopilotControl") {
+    controlAutopilot(request.command, sender.tab?.id)
+      .then((result) => sendResponse(result))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
   // ── processFieldsAI ─────────────────────────────────────────
   // Fired by the content script when it has already collected FormField[]
   // and wants the background to match + resolve values.
@@ -321,38 +317,137 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   // The content script is responsible for injecting the returned mappings
   // into the DOM — background.ts just returns data, no DOM interaction here.
   if (request.action === "processFieldsAI") {
-    const hostname = getHostname(request.tabUrl || "");
-    processFieldsAI(request.fields, hostname)
+    processFieldsAI(request.fields, request.tabUrl || "")
       .then((result) => sendResponse(result))
       .catch((err) => sendResponse({ success: false, error: err.message }));
     return true;
   }
 
+  // ── inspectFields ───────────────────────────────────────────
+  // Fired by the sidebar's field inspector. Dry run of the fill pipeline
+  // so each outlined field can show its mapping status.
+  if (request.action === "inspectFields") {
+    inspectFields(request.fields || [], request.tabUrl || "")
+      .then((result) => sendResponse(result))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  // ── recordSiteRecipe ────────────────────────────────────────
+  // Sent by the content script after it filled the mappings returned by
+  // processFieldsAI. Saves what was actually filled as the site recipe so
+  // the next visit to this form replays it without matching again.
+  if (request.action === "recordSiteRecipe") {
+    recordFilledRecipe(
+      request.tabUrl || "",
+      request.fields || [],
+      request.data?.fieldMappings || [],
+      request.filledIds || [],
+    ).then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  // ── Frame-wide actions ──────────────────────────────────────
+  // The Alt+F fill runs in the top frame but works on every frame of the
+  // sender's tab: it scans through here, fills with the returned routes
+  // and clicks "Next" in the frame that holds the form. The sidebar's
+  // field count and Undo (button and Alt+Z) cover every frame the same way.
+  if (
+    request.action === "scanFrames" ||
+    request.action === "fillFrames" ||
+    request.action === "clickNextInFrame" ||
+    request.action === "countFrameFields" ||
+    request.action === "undoLastFill"
+  ) {
+    const tabId = sender.tab?.id;
+    if (tabId === undefined) {
+      sendResponse({ success: false, error: "No tab" });
+      return false;
+    }
+    (async () => {
+      switch (request.action) {
+        case "scanFrames": {
+          const scan = await analyzeFrames(tabId);
+          return {
+            success: scan.success,
+            fields: scan.fields,
+            frameRoutes: scan.routes,
+            formFrameId: formFrame(scan.fields),
+            message: scan.message,
+          };
+        }
+        case "fillFrames":
+          return fillFrames(
+            tabId,
+            request.data?.fieldMappings || [],
+            request.frameRoutes || {},
+            { fieldSignature: request.data?.fieldSignature },
+          );
+        case "clickNextInFrame":
+          return clickNextInFrame(
+            tabId,
+            request.frameId ?? 0,
+            !!request.allowSubmit,
+          );
+        case "countFrameFields":
+          return { success: true, fieldCount: await countFrameFields(tabId) };
+        default:
+          return undoLastFill(tabId);
+      }
+    })()
+      .then(sendResponse)
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  // ── recordCorrection ────────────────────────────────────────
+  // Sent by the content script's correction watcher when the user edits
+  // a field shortly after a fill. Learns what the field should have been.
+  if (request.action === "recordCorrection" && request.edit) {
+    learnFromEdit(
+      request.tabUrl || "",
+      request.data?.fieldSignature || "",
+      request.edit,
+    )
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  // ── vault ───────────────────────────────────────────────────
+  // Profile reads and writes from the sidebar, which can't reach session
+  // storage (where the unlocked vault key lives). Only this extension's
+  // own scripts may ask.
+  if (request.action === "vault") {
+    if (sender.id !== chrome.runtime.id) {
+      sendResponse({ success: false, error: "Not allowed" });
+      return false;
+    }
+    handleVaultRequest(request.op, request.args).then(sendResponse);
+    return true;
+  }
+
   // ── processChatAI ───────────────────────────────────────────
   // Fired by the sidebar chat panel when the user sends a message.
-  // Uses geminiService.generateChatReply() to produce an AI response
+  // Uses llmService.generateChatReply() to produce an AI response
   // given the full conversation history and the user's profile data.
   //
-  // This is the only place geminiService is used directly in background.ts;
+  // This is the only place llmService is used directly in background.ts;
   // all form-related AI calls go through formStepProcessor.ts instead.
   if (request.action === "processChatAI") {
     (async () => {
       try {
-        const stored = await chrome.storage.local.get(["geminiApiKey"]);
+        const llmSettings = await loadLLMSettings();
         const userData = await getActiveUserData();
-        const apiKey = ((stored.geminiApiKey || "") as string).trim();
-
-        if (!apiKey) {
-          sendResponse({
-            success: false,
-            error:
-              "No API key found. Save your Gemini API key in the extension settings.",
-          });
+
+        const configError = getLLMConfigError(llmSettings);
+        if (configError) {
+          sendResponse({ success: false, error: configError });
           return;
         }
 
-        geminiService.setApiKey(apiKey);
-        const replyText = await geminiService.generateChatReply(
+        llmService.configure(llmSettings);
+        const replyText = await llmService.generateChatReply(
           request.conversationHistory || [],
           userData,
         );
@@ -382,19 +477,16 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 
   // ── openAutopilotLink ───────────────────────────────────────
-  // Opens a new tab at the given URL and initialises an autopilot session
-  // for it. Used when the AI suggests applying to a job at an external link.
-  // The tab's onUpdated event will pick up the session and start filling.
+  // Opens a new tab at the given URL and starts an autopilot session for
+  // it. Used when the AI suggests applying to a job at an external link.
+  // The session waits in "waiting" until tabs.onUpdated reports the page
+  // has loaded, then starts filling.
   if (request.action === "openAutopilotLink") {
     chrome.tabs.create({ url: request.url }, (tab) => {
       if (tab.id) {
-        chrome.storage.local.set({
-          autopilotSession: {
-            // tabId: tab.id,
-            step: 0,
-            hostname: getHostname(request.url || ""),
-          },
-        });
+        startAutopilot(tab.id, request.url || "", { waitForLoad: true }).catch(
+          (err) => console.error("Aullevo: could not start autopilot", err),
+        );
       }
     });
     sendResponse({ success: true });
@@ -402,112 +494,69 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 });
 
-// TAB NAVIGATION LISTENER  (Autopilot continuation)
+// TAB EVENTS  (Autopilot drivers)
 
 /**
  * Fires whenever a tab finishes loading (changeInfo.status === "complete").
  *
  * PURPOSE: Autopilot multi-page support.
- * When processFormStep() clicks "Next" and the page navigates away,
- * the background script can't await the new page load.  Instead, this
- * listener detects when the SAME tab finishes loading and resumes the
- * autopilot session from where it left off.
- *
- * Safety checks:
- *   • Is there an active autopilot session for this specific tab? (session.tabId === tabId)
- *   • Has the user navigated AWAY from the original hostname?
- *     If yes → cancel autopilot (they left the job site).
- *   • Has the step counter exceeded 30? → stop to avoid infinite loops.
- *
- * A 2-second delay (setTimeout) is applied before resuming to let the new
- * page's content script fully initialise before "analyzeForm" is sent.
+ * When the autopilot clicks "Next" and the page navigates away, the
+ * session sits in "advancing". This listener tells autopilot.ts the page
+ * has loaded; it waits a short grace period for the new content script,
+ * then scans the next step. It also cancels the session when the user
+ * navigates away from the application's hostname.
  */
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   if (changeInfo.status === "complete") {
-    chrome.storage.local.get(["autopilotSession"], (result) => {
-      const session = result.autopilotSession as any;
-      if (session && session.tabId === tabId) {
-        const currentHostname = getHostname(tab.url || "");
-
-        // If the user navigated to a different domain, cancel autopilot
-        if (session.hostname && currentHostname !== session.hostname) {
-          chrome.storage.local.remove(["autopilotSession"]);
-          clearBadge();
-          return;
-        }
-
-        console.log(
-          `Aullevo Autopilot: Tab loaded, resuming auto-fill step ${session.step}...`,
-        );
-        showBadge("⏳", "#3B82F6");
-
-        // Delay 2 s to let the new page's content script inject and initialise
-        setTimeout(async () => {
-          try {
-            const stored = await chrome.storage.local.get([
-              "resumeFileData",
-              "resumeFileName",
-            ]);
-            const userData = await getActiveUserData();
-
-            const nextStep = session.step + 1;
-            if (nextStep > 30) {
-              // Hard cap: stop if we've been through 30+ steps
-              chrome.storage.local.remove(["autopilotSession"]);
-              showBadge("✓", "#34d399");
-              setTimeout(clearBadge, 4000);
-              return;
-            }
-
-            // Increment the step counter in storage so the next navigation
-            // starts at the right step if the page loads again.
-            await chrome.storage.local.set({
-              autopilotSession: { ...session, step: nextStep },
-            });
-
-            // Resume the fill loop for the new page
-            await processFormStep(
-              tabId,
-              userData,
-              session.step,
-              currentHostname,
-              stored.resumeFileData as string | undefined,
-              stored.resumeFileName as string | undefined,
-            );
-          } catch (error) {
-            console.error("Autopilot fill error:", error);
-            showBadge("✗", "#f87171");
-            setTimeout(clearBadge, 3000);
-            chrome.storage.local.remove(["autopilotSession"]);
-          }
-        }, 2000); // 2 s grace period for new page to load
-      }
-    });
+    handleAutopilotTabUpdated(tabId, tab.url || "").catch((err) =>
+      console.error("Autopilot tab update error:", err),
+    );
   }
 });
 
-// STORAGE CHANGE LISTENER  (Cache invalidation)
+/**
+ * Closing the tab ends its autopilot session.
+ */
+chrome.tabs.onRemoved.addListener((tabId) => {
+  handleAutopilotTabRemoved(tabId).catch((err) =>
+    console.error("Autopilot tab removal error:", err),
+  );
+});
+
+// ─────────────────────────────────────────────────────────────
+// VAULT SESSION & AUTO-LOCK
+// ─────────────────────────────────────────────────────────────
 
 /**
- * Clears the entire domain cache whenever the user changes settings that
- * would affect how fields are mapped:
- *
- *   • userData       — profile changed → different values to fill
- *   • matchingMode   — switched AI ↔ heuristic → different mapping results
- *   • geminiApiKey   — API key changed → need to re-authenticate with Gemini
- *
- * Without this, a cached AI result from the old profile/mode would be used
- * on the next fill, causing incorrect data to be entered.
+ * In passphrase mode the unlocked vault key and the userData mirror live in
+ * chrome.storage.session. It stays closed to content scripts — a page could
+ * otherwise reach the raw key — so the sidebar uses the "vault" message.
+ * Set explicitly in case an earlier version opened it up.
  */
-chrome.storage.onChanged.addListener((changes, areaName) => {
-  if (areaName === "local") {
-    if (changes.userData || changes.matchingMode || changes.geminiApiKey) {
-      domainCache.clear();
-      console.log(
-        "Aullevo: domainCache cleared due to configuration/profile change.",
-      );
-    }
+chrome.storage.session
+  .setAccessLevel({ accessLevel: "TRUSTED_CONTEXTS" })
+  .catch((e) =>
+    console.warn("Aullevo: could not restrict session storage:", e),
+  );
+
+/**
+ * Checks once a minute whether the unlocked vault has been idle longer than
+ * the configured auto-lock timeout, and locks it if so.
+ */
+const VAULT_AUTOLOCK_ALARM = "aullevo-vault-autolock";
+chrome.alarms.create(VAULT_AUTOLOCK_ALARM, { periodInMinutes: 1 });
+chrome.alarms.onAlarm.addListener((alarm) => {
+  // Autopilot watchdog: resumes a session whose worker was terminated
+  if (alarm.name === AUTOPILOT_WATCHDOG_ALARM) {
+    handleAutopilotWatchdog().catch((err) =>
+      console.error("Autopilot watchdog error:", err),
+    );
+    return;
   }
+  if (alarm.name !== VAULT_AUTOLOCK_ALARM) return;
+  storageService.autoLockIfIdle().then((locked) => {
+    if (locked) console.log("Aullevo: vault auto-locked after inactivity.");
+  });
 });
 
 // Service worker successfully loaded
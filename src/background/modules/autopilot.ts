@@ -0,0 +1,763 @@
+/**
+ * @file autopilot.ts
+ * @module background/modules
+ *
+ * ─── ROLE IN THE ARCHITECTURE
+ * The AUTOPILOT STATE MACHINE — drives a (multi-page) application form
+ * from the first step to the last, one runFormStep() call at a time.
+ *
+ * The whole run lives in ONE persisted object, "autopilotSession" in
+ * chrome.storage.local. Nothing important is kept on the call stack, so
+ * when Chrome terminates the MV3 service worker between (or during) steps,
+ * the next worker picks the session up where it stopped.
+ *
+ * ─── PHASES
+ *
+ *   waiting ──(tab loaded)──┐
+ *                           ▼
+ *   scanning → matching → filling → verifying ─┬─→ advancing ──→ scanning …
+ *       ▲                                       ├─→ review     (next click would submit)
+ *       │                                       ├─→ done       (last step / no autoSubmit)
+ *       └──────────── paused ◄──(pause)─────────┤
+ *                                               └─→ failed     (error / stuck step)
+ *   any non-terminal phase ──(cancel / tab closed / left the site)──→ cancelled
+ *
+ *   Every transition is appended to session.history with its step number
+ *   and a timestamp; the sidebar shows the latest ones.
+ *
+ *   Autopilot never clicks a final "Submit" / "Apply" / "Pay" / "Sign"
+ *   button unless the user allowed it for the site ("submitAllowedSites").
+ *   It stops in "review" instead, with a summary of every filled field.
+ *
+ *   Each filled step is also merged into an application-tracker draft;
+ *   "review" / "done" log it as an application — "applied" only when the
+ *   run clicked the final submit button, "pending" otherwise — and
+ *   "failed" / "cancelled" drop it.
+ *
+ * ─── DRIVERS (what moves the machine forward)
+ *   • startAutopilot()              — sidebar / popup "Fill", openAutopilotLink
+ *   • handleAutopilotTabUpdated()   — tabs.onUpdated "complete" (page loaded)
+ *   • handleAutopilotWatchdog()     — chrome.alarms every 30 s; resumes a
+ *                                     session whose worker was killed
+ *   • controlAutopilot()            — sidebar Pause / Resume / Cancel
+ *
+ * ─── DEPENDENCY DIRECTION
+ *   background.ts
+ *     └── autopilot.ts   ← YOU ARE HERE
+ *           ├── formStepProcessor  (runFormStep: one scan → fill → verify)
+ *           ├── applicationTracker (application log drafts → entries)
+ *           ├── frameRegistry      (clickNext in the frame holding the form)
+ *           └── backgroundUtils    (user data, tab messaging, badge, status)
+ *
+ */
+
+import type {
+  AutopilotPhase,
+  AutopilotSession,
+  AutopilotTransition,
+  FieldMapping,
+  FieldVerification,
+} from "../../types";
+import {
+  applicationTracker,
+  summarizeFill,
+} from "../../services/applicationTracker";
+import { storageService } from "../../services/storageService";
+import {
+  getActiveUserData,
+  getHostname,
+  sendToTab,
+  sleep,
+  showBadge,
+  clearBadge,
+  sendSidebarStatus,
+} from "./backgroundUtils";
+import { runFormStep, type StepHooks } from "./formStepProcessor";
+import { clickNextInFrame, TOP_FRAME } from "./frameRegistry";
+
+export const AUTOPILOT_WATCHDOG_ALARM = "aullevo-autopilot-watchdog";
+
+const SESSION_KEY = "autopilotSession";
+const MAX_STEPS = 30; // Safety cap for misbehaving forms
+const MAX_HISTORY = 40;
+const NAV_SETTLE_MS = 3000; // After "Next": time for the page to navigate or re-render
+const ROW_SETTLE_MS = 1500; // After "Add row": time for the new row to appear
+const LOAD_GRACE_MS = 2000; // After a page load: time for the content script to initialise
+
+const RUNNABLE: AutopilotPhase[] = [
+  "scanning",
+  "matching",
+  "filling",
+  "verifying",
+];
+const TERMINAL: AutopilotPhase[] = ["review", "done", "failed", "cancelled"];
+
+// Session ids with a runSession() loop in THIS worker. Lost on restart —
+// that is exactly how the watchdog recognises an orphaned session.
+const running = new Set<string>();
+
+// Session storage access
+
+async function readSession(): Promise<AutopilotSession | null> {
+  const stored = await chrome.storage.local.get([SESSION_KEY]);
+  const session = stored[SESSION_KEY] as AutopilotSession | undefined;
+  // Sessions written by older versions have no history and cannot resume
+  if (!session || !Array.isArray(session.history)) return null;
+  return session;
+}
+
+/**
+ * Read-modify-write calls are chained so concurrent drivers (the run
+ * loop, a sidebar command, a tab event) never overwrite each other.
+ */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(task);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+function mutateSession(
+  update: (session: AutopilotSession) => AutopilotSession | null,
+): Promise<AutopilotSession | null> {
+  return enqueue(async () => {
+    const session = await readSession();
+    if (!session) return null;
+    const updated = update(session);
+    if (!updated) return null;
+    await chrome.storage.local.set({ [SESSION_KEY]: updated });
+    return updated;
+  });
+}
+
+function withTransition(
+  session: AutopilotSession,
+  phase: AutopilotPhase,
+  note?: string,
+  patch: Partial<AutopilotSession> = {},
+): AutopilotSession {
+  const now = Date.now();
+  const entry: AutopilotTransition = {
+    phase,
+    step: patch.step ?? session.step,
+    at: now,
+    ...(note ? { note } : {}),
+  };
+  return {
+    ...session,
+    ...patch,
+    phase,
+    updatedAt: now,
+    history: [...session.history, entry].slice(-MAX_HISTORY),
+  };
+}
+
+/**
+ * Moves session `id` to `phase` unless it has ended or been replaced.
+ * Returns the updated session, or null when nothing was changed.
+ */
+function transition(
+  id: string,
+  phase: AutopilotPhase,
+  note?: string,
+  patch: Partial<AutopilotSession> = {},
+): Promise<AutopilotSession | null> {
+  return mutateSession((session) => {
+    if (session.id !== id || TERMINAL.includes(session.phase)) return null;
+    return withTransition(session, phase, note, patch);
+  });
+}
+
+function ensureWatchdog() {
+  chrome.alarms.create(AUTOPILOT_WATCHDOG_ALARM, { periodInMinutes: 0.5 });
+}
+
+function stopWatchdog() {
+  chrome.alarms.clear(AUTOPILOT_WATCHDOG_ALARM);
+}
+
+// finish  (Terminal transitions)
+
+/**
+ * finish
+ * ──────
+ * Ends the session: records the terminal phase, tells the sidebar and
+ * sets the toolbar badge. The session object stays in storage so the
+ * sidebar can show how the run ended until the user dismisses it.
+ *
+ * CALLED BY: runSession(), controlAutopilot(), tab event handlers
+ */
+async function finish(
+  id: string,
+  phase: "review" | "done" | "failed" | "cancelled",
+  message: string,
+  warn = false,
+) {
+  const session = await transition(id, phase, message, {
+    pauseRequested: false,
+    resumeAt: undefined,
+  });
+  if (!session) return;
+  stopWatchdog();
+
+  // A completed run becomes an entry in the application log; it only
+  // counts as applied once the final submit button was clicked
+  const tracked =
+    phase === "done" || phase === "review"
+      ? applicationTracker.finalize(
+          id,
+          session.submitted ? "applied" : "pending",
+        )
+      : applicationTracker.discardDraft(id);
+  await tracked.catch((err) =>
+    console.warn("Aullevo: could not update the application log", err),
+  );
+
+  if (phase === "done" || phase === "review") {
+    showBadge(warn ? "!" : "✓", warn ? "#fbbf24" : "#34d399");
+    setTimeout(clearBadge, 4000);
+  } else if (phase === "failed") {
+    showBadge("✗", "#f87171");
+    setTimeout(clearBadge, 3000);
+  } else {
+    clearBadge();
+  }
+  sendSidebarStatus(
+    session.tabId,
+    message,
+    phase === "failed" ? "error" : "success",
+  );
+}
+
+/**
+ * Parks the session in "paused". Resume from the sidebar starts the
+ * current step again from a fresh scan.
+ */
+async function pause(id: string, note: string) {
+  const session = await transition(id, "paused", note, {
+    pauseRequested: false,
+    resumeAt: undefined,
+  });
+  if (!session) return;
+  stopWatchdog();
+  showBadge("❚❚", "#fbbf24");
+  // "success" ends the sidebar's processing state; the card shows Resume
+  sendSidebarStatus(session.tabId, note, "success");
+}
+
+/**
+ * Adds this step's filled fields to the session summary. A step that runs
+ * again (resume, restart) replaces its earlier entries.
+ */
+function recordFilled(id: string, step: number, report: FieldVerification[]) {
+  return mutateSession((session) => {
+    if (session.id !== id) return null;
+    const earlier = (session.filled || []).filter((f) => f.step !== step);
+    return {
+      ...session,
+      filled: [
+        ...earlier,
+        ...report.map((v) => ({
+          step,
+          label: v.label || v.fieldId,
+          status: v.status,
+        })),
+      ],
+    };
+  });
+}
+
+/**
+ * Merges one step into the application-tracker draft: company / role
+ * from the page, the active profile, uploaded files and the answers given
+ * to free-text questions. Tracking never interrupts the run.
+ */
+async function trackStep(session: AutopilotSession, filled: FieldMapping[]) {
+  try {
+    const [jobResponse, profile] = await Promise.all([
+      sendToTab(session.tabId, { action: "extractJobInfo" }, TOP_FRAME),
+      storageService.getActiveProfileName(),
+    ]);
+    const job = jobResponse?.job;
+    await applicationTracker.saveDraft(session.id, {
+      company: job?.company,
+      role: job?.role,
+      url: job?.url,
+      hostname: session.hostname,
+      profile,
+      ...summarizeFill(filled),
+    });
+  } catch (err) {
+    console.warn("Aullevo: could not record the application step", err);
+  }
+}
+
+/**
+ * One-line summary for the final review, e.g.
+ * "Filled 23 field(s) across 4 step(s) — 2 need attention."
+ */
+function describeFilled(session: AutopilotSession): string {
+  const filled = session.filled || [];
+  const steps = new Set(filled.map((f) => f.step)).size;
+  const problems = filled.filter(
+    (f) => f.status !== "ok" && f.status !== "unverified",
+  ).length;
+  const filledCount = filled.filter((f) => f.status !== "missing").length;
+  return (
+    `Filled ${filledCount} field(s) across ${steps} step(s)` +
+    (problems > 0 ? ` — ${problems} need attention.` : ".")
+  );
+}
+
+// runSession  (The step loop)
+
+/**
+ * Hooks handed to runFormStep(). Each phase entry is persisted; a pause
+ * requested mid-step takes effect here, and a cancelled or replaced
+ * session stops the step.
+ */
+function stepHooks(id: string, step: number): StepHooks {
+  return {
+    async enter(phase, note) {
+      const current = await readSession();
+      if (!current || current.id !== id || !RUNNABLE.includes(current.phase))
+        return false;
+      if (current.pauseRequested) {
+        await pause(id, "Autopilot paused.");
+        return false;
+      }
+      if (current.phase === phase && !note) return true; // Already there (fresh start / resume)
+      return !!(await transition(id, phase, note));
+    },
+    async recordFingerprint(hash) {
+      let stuck = false;
+      await mutateSession((session) => {
+        if (session.id !== id) return null;
+        stuck = session.fingerprints.some(
+          (f) => f.hash === hash && f.step !== step,
+        );
+        if (stuck) return null;
+        return {
+          ...session,
+          fingerprints: [...session.fingerprints, { step, hash }],
+        };
+      });
+      return !stuck;
+    },
+  };
+}
+
+/**
+ * runSession
+ * ──────────
+ * Runs the session for `tabId`'s current step, then keeps going for as
+ * long as the machine has something to do in this worker:
+ *
+ *   advancing / waiting → sleep until resumeAt, then claim "scanning"
+ *   scanning … verifying → runFormStep(), then decide:
+ *       filled    → done (autoSubmit off), paused (invalid fields),
+ *                   review (the next button would submit the application),
+ *                   or click "Next" → advancing (step + 1)
+ *       row_added → advancing (step + 1), same page
+ *       complete  → done;  failed → failed;  cancelled → cancelled
+ *       halted    → someone paused / cancelled meanwhile — just stop
+ *
+ * Every decision is written to storage BEFORE the next wait, so if the
+ * worker dies in a sleep the watchdog alarm resumes from the same place.
+ *
+ * CALLED BY: startAutopilot(), controlAutopilot("resume"),
+ *            handleAutopilotTabUpdated(), handleAutopilotWatchdog()
+ */
+async function runSession(id: string): Promise<void> {
+  if (running.has(id)) return;
+  running.add(id);
+  try {
+    for (;;) {
+      let session = await readSession();
+      if (!session || session.id !== id) return;
+
+      if (session.phase === "advancing" || session.phase === "waiting") {
+        if (session.resumeAt === undefined) return; // Waiting for the tab to load
+        const wait = session.resumeAt - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+          continue; // A tab event may have pushed resumeAt back meanwhile
+        }
+        session = await transition(id, "scanning", undefined, {
+          resumeAt: undefined,
+        });
+        if (!session) return;
+      }
+      if (!RUNNABLE.includes(session.phase)) return;
+
+      const { tabId, step } = session;
+      if (step >= MAX_STEPS) {
+        await finish(
+          id,
+          "done",
+          "Form filling completed (maximum step limit reached).",
+        );
+        return;
+      }
+
+      const stored = await chrome.storage.local.get([
+        "resumeFileData",
+        "resumeFileName",
+      ]);
+      const userData = await getActiveUserData();
+      const outcome = await runFormStep(
+        tabId,
+        userData,
+        step,
+        stepHooks(id, step),
+        stored.resumeFileData as string | undefined,
+        stored.resumeFileName as string | undefined,
+      );
+
+      switch (outcome.kind) {
+        case "halted":
+          return;
+        case "complete":
+          await finish(id, "done", outcome.message);
+          return;
+        case "failed":
+          await finish(id, "failed", outcome.message);
+          return;
+        case "cancelled":
+          await finish(id, "cancelled", outcome.message);
+          return;
+        case "row_added":
+          await recordFilled(id, step, outcome.report);
+          await trackStep(session, outcome.filled);
+          if (
+            !(await transition(id, "advancing", "Added a row", {
+              step: step + 1,
+              resumeAt: Date.now() + ROW_SETTLE_MS,
+            }))
+          )
+            return;
+          continue;
+        case "filled":
+          break;
+      }
+
+      // ── filled: decide whether to advance
+      const { filledCount, problemCount, invalidCount } = outcome;
+      await recordFilled(id, step, outcome.report);
+      await trackStep(session, outcome.filled);
+      if (!session.autoSubmit) {
+        await finish(
+          id,
+          "done",
+          problemCount > 0
+            ? `Filled ${filledCount} field(s) — ${problemCount} need attention.`
+            : `Filled ${filledCount} field(s) successfully!`,
+          problemCount > 0,
+        );
+        return;
+      }
+
+      // Never advance past a step whose fields the site is rejecting
+      if (invalidCount > 0) {
+        await pause(
+          id,
+          `Autopilot paused: ${invalidCount} field(s) show validation errors. Fix them, then resume.`,
+        );
+        return;
+      }
+
+      await sleep(1000); // Let the user see the filled fields briefly
+      const latest = await readSession();
+      if (!latest || latest.id !== id || !RUNNABLE.includes(latest.phase))
+        return;
+      if (latest.pauseRequested) {
+        await pause(id, "Autopilot paused.");
+        return;
+      }
+
+      // Final submit buttons are only clicked on sites the user opted in
+      const { submitAllowedSites } = await chrome.storage.local.get([
+        "submitAllowedSites",
+      ]);
+      const allowSubmit = ((submitAllowedSites as string[]) || []).includes(
+        latest.hostname,
+      );
+
+      sendSidebarStatus(tabId, "➡️ Moving to next step...", "info");
+      const nextResponse = await clickNextInFrame(
+        tabId,
+        outcome.formFrameId,
+        allowSubmit,
+      );
+      if (nextResponse?.blocked) {
+        // Final step: stop with a summary and let the user submit
+        await finish(
+          id,
+          "review",
+          `Ready for your review. ${describeFilled(latest)} ${nextResponse.message}`,
+          (latest.filled || []).some(
+            (f) => f.status !== "ok" && f.status !== "unverified",
+          ),
+        );
+        return;
+      }
+      if (!nextResponse?.success) {
+        // "Next" button not found — we're probably on the last step
+        await finish(
+          id,
+          "done",
+          "Form filling complete! (Next page not found).",
+          problemCount > 0,
+        );
+        return;
+      }
+      // The click either navigates (tabs.onUpdated pushes resumeAt back
+      // until the new page has loaded) or reveals a new section in place.
+      if (
+        !(await transition(id, "advancing", "Clicked Next", {
+          step: step + 1,
+          resumeAt: Date.now() + NAV_SETTLE_MS,
+          ...(nextResponse.submitted && { submitted: true }),
+        }))
+      )
+        return;
+    }
+  } catch (error) {
+    console.error("Aullevo fill step error:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    await finish(id, "failed", `Filling failed: ${message}`);
+  } finally {
+    running.delete(id);
+  }
+}
+
+// startAutopilot  (Sidebar / popup / openAutopilotLink entry point)
+
+/**
+ * startAutopilot
+ * ──────────────
+ * Creates a fresh session for `tabId` (replacing any previous one) and
+ * starts running it. With `waitForLoad` the session starts in "waiting"
+ * and the first scan happens once the tab has finished loading.
+ *
+ * Resolves once the session is stored — the run itself continues in the
+ * background and reports through sidebar status messages.
+ *
+ * CALLED BY: background.ts → "triggerFillFromSidebar",
+ *            "triggerFillFromPopup", "openAutopilotLink"
+ */
+export async function startAutopilot(
+  tabId: number,
+  url: string,
+  options: { waitForLoad?: boolean } = {},
+): Promise<void> {
+  const { autoSubmit } = await chrome.storage.local.get(["autoSubmit"]);
+  const now = Date.now();
+  const phase: AutopilotPhase = options.waitForLoad ? "waiting" : "scanning";
+  const session: AutopilotSession = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    tabId,
+    hostname: getHostname(url),
+    phase,
+    step: 0,
+    autoSubmit: !!autoSubmit,
+    fingerprints: [],
+    filled: [],
+    history: [{ phase, step: 0, at: now }],
+    startedAt: now,
+    updatedAt: now,
+  };
+
+  // Queued behind pending writes so an older run cannot overwrite it
+  const replaced = await enqueue(async () => {
+    const previous = await readSession();
+    await chrome.storage.local.set({ [SESSION_KEY]: session });
+    return previous;
+  });
+  // An unfinished run that is being replaced never reaches finish()
+  if (replaced && !TERMINAL.includes(replaced.phase)) {
+    applicationTracker.discardDraft(replaced.id).catch(() => {});
+  }
+  ensureWatchdog();
+  showBadge("⏳", "#3B82F6"); // Blue hourglass = working
+
+  void runSession(session.id);
+}
+
+// controlAutopilot  (Sidebar Pause / Resume / Cancel)
+
+/**
+ * controlAutopilot
+ * ────────────────
+ *   pause   — a running step stops at its next phase boundary; a session
+ *             that is between steps pauses immediately.
+ *   resume  — a paused session scans its current step again.
+ *   cancel  — ends the session; a running step stops at its next phase
+ *             boundary without filling anything further.
+ *   dismiss — removes a finished session so the sidebar card goes away.
+ *
+ * `tabId` is the sender's tab: the sidebar can only control the session
+ * running in its own tab.
+ *
+ * CALLED BY: background.ts → "autopilotControl" message handler
+ */
+export async function controlAutopilot(
+  command: "pause" | "resume" | "cancel" | "dismiss",
+  tabId?: number,
+): Promise<{ success: boolean; error?: string }> {
+  const session = await readSession();
+  if (!session || (tabId !== undefined && session.tabId !== tabId)) {
+    return { success: false, error: "No autopilot session in this tab." };
+  }
+  const { id } = session;
+
+  if (command === "dismiss") {
+    if (!TERMINAL.includes(session.phase)) {
+      return { success: false, error: "Autopilot is still running." };
+    }
+    await enqueue(() => chrome.storage.local.remove([SESSION_KEY]));
+    return { success: true };
+  }
+
+  if (command === "cancel") {
+    await finish(id, "cancelled", "Autopilot cancelled.");
+    return { success: true };
+  }
+
+  if (command === "pause") {
+    if (session.phase === "advancing" || session.phase === "waiting") {
+      await pause(id, "Autopilot paused.");
+    } else if (RUNNABLE.includes(session.phase)) {
+      await mutateSession((s) =>
+        s.id === id ? { ...s, pauseRequested: true } : null,
+      );
+      if (!running.has(id)) await pause(id, "Autopilot paused.");
+    } else {
+      return { success: false, error: `Autopilot is ${session.phase}.` };
+    }
+    return { success: true };
+  }
+
+  // resume
+  if (session.phase !== "paused") {
+    return { success: false, error: `Autopilot is ${session.phase}.` };
+  }
+  await transition(id, "scanning", "Resumed");
+  ensureWatchdog();
+  showBadge("⏳", "#3B82F6");
+  void runSession(id);
+  return { success: true };
+}
+
+// Tab events
+
+/**
+ * handleAutopilotTabUpdated
+ * ─────────────────────────
+ * A tab finished loading. For the session's tab:
+ *   • waiting   — the link opened by openAutopilotLink is ready; adopt
+ *                 the final hostname (job boards redirect) and start.
+ *   • left the application's hostname — cancel.
+ *   • otherwise — push resumeAt back by LOAD_GRACE_MS so the new page's
+ *                 content script can initialise before the next scan.
+ *
+ * CALLED BY: background.ts → chrome.tabs.onUpdated (status "complete")
+ */
+export async function handleAutopilotTabUpdated(
+  tabId: number,
+  url: string,
+): Promise<void> {
+  const session = await readSession();
+  if (
+    !session ||
+    session.tabId !== tabId ||
+    TERMINAL.includes(session.phase) ||
+    session.phase === "paused"
+  )
+    return;
+
+  const hostname = getHostname(url);
+  if (session.phase !== "waiting" && hostname !== session.hostname) {
+    await finish(
+      session.id,
+      "cancelled",
+      "Autopilot stopped: left the application site.",
+    );
+    return;
+  }
+
+  const resumeAt = Date.now() + LOAD_GRACE_MS;
+  await mutateSession((s) => {
+    if (s.id !== session.id) return null;
+    if (s.phase === "waiting") {
+      return withTransition(s, "advancing", "Page loaded", {
+        hostname,
+        resumeAt,
+      });
+    }
+    if (s.phase === "advancing") return { ...s, resumeAt };
+    return null; // Mid-step: the running step notices a lost page itself
+  });
+  void runSession(session.id);
+}
+
+/**
+ * Ends the session when its tab is closed.
+ *
+ * CALLED BY: background.ts → chrome.tabs.onRemoved
+ */
+export async function handleAutopilotTabRemoved(tabId: number): Promise<void> {
+  const session = await readSession();
+  if (!session || session.tabId !== tabId || TERMINAL.includes(session.phase))
+    return;
+  await finish(
+    session.id,
+    "cancelled",
+    "Autopilot stopped: the tab was closed.",
+  );
+}
+
+/**
+ * handleAutopilotWatchdog
+ * ───────────────────────
+ * Runs every 30 s while a session is active. If the worker was terminated
+ * mid-run, no loop owns the session any more — resume it:
+ *   • scanning … verifying with no loop here → restart the current step
+ *   • advancing past its resumeAt            → continue
+ *   • waiting on a tab that already loaded   → start
+ *
+ * CALLED BY: background.ts → chrome.alarms.onAlarm (AUTOPILOT_WATCHDOG_ALARM)
+ */
+export async function handleAutopilotWatchdog(): Promise<void> {
+  const session = await readSession();
+  if (
+    !session ||
+    TERMINAL.includes(session.phase) ||
+    session.phase === "paused"
+  ) {
+    stopWatchdog();
+    return;
+  }
+  if (running.has(session.id)) return;
+
+  const tab = await chrome.tabs.get(session.tabId).catch(() => null);
+  if (!tab) {
+    await finish(
+      session.id,
+      "cancelled",
+      "Autopilot stopped: the tab was closed.",
+    );
+    return;
+  }
+
+  if (RUNNABLE.includes(session.phase)) {
+    // The step was interrupted — start it again from a fresh scan
+    await transition(session.id, "scanning", "Resumed after restart");
+  } else if (session.phase === "waiting") {
+    if (tab.status !== "complete") return;
+    await handleAutopilotTabUpdated(session.tabId, tab.url || "");
+    return;
+  }
+  void runSession(session.id);
+}
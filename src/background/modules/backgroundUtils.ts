@@ -18,12 +18,16 @@
  * ────────────────────────────────────────────────────────────────────────────
  */
 
-import { storageService } from "../../services/storageService";
+import {
+  storageService,
+  isVaultLockedError,
+  VaultLockedError,
+} from "../../services/storageService";
 import type {
   UserData,
-  CustomField,
   ChromeResponse,
   FormField,
+  FieldVerification,
 } from "../../types";
 
 // ─────────────────────────────────────────────────────────────
@@ -38,11 +42,14 @@ import type {
  *
  * Strategy (waterfall):
  *   1. Try storageService.loadActiveProfile() — multi-profile aware.
- *   2. If that fails or returns empty → fall back to chrome.storage.local "userData".
+ *   2. If the vault is passphrase-locked → return {} (nothing to fill with;
+ *      callers use getVaultLockError() to tell the user why).
+ *   3. If that fails or returns empty → fall back to the userData mirror.
  *
  * CALLED BY:
- *   • formStepProcessor.ts → processFieldsAI(), runAIFill(), processFormStep()
- *   • background.ts        → triggerFillFromSidebar handler, processChatAI handler
+ *   • formStepProcessor.ts → processFieldsAI()
+ *   • autopilot.ts         → runSession()
+ *   • background.ts        → processChatAI handler
  *
  * @returns Partial<UserData> — may be partial if user hasn't fully set up a profile.
  */
@@ -51,21 +58,41 @@ export async function getActiveUserData(): Promise<Partial<UserData>> {
     const activeData = await storageService.loadActiveProfile();
     if (activeData && Object.keys(activeData).length > 0) {
       if (typeof chrome !== "undefined" && chrome.storage) {
-        // Mirror the active profile to local storage so other parts
-        // of the extension can read it quickly without awaiting.
-        chrome.storage.local.set({ userData: activeData });
+        // Mirror the active profile so other parts of the extension
+        // can read it quickly without awaiting a decrypt.
+        storageService.mirrorUserData(activeData);
       }
       return activeData;
     }
   } catch (e) {
+    if (isVaultLockedError(e)) {
+      console.warn("Aullevo: profile vault is locked — no user data available.");
+      return {};
+    }
     console.warn(
       "Aullevo: storageService load failed, falling back to local storage:",
       e,
     );
   }
-  // Fallback: direct read from chrome.storage.local
-  const stored = await chrome.storage.local.get(["userData"]);
-  return (stored.userData || {}) as Partial<UserData>;
+  // Fallback: read the plaintext mirror
+  return (await storageService.readUserDataMirror()) || {};
+}
+
+/**
+ * getVaultLockError
+ * ─────────────────
+ * Returns a user-facing message when the profile vault is passphrase-locked,
+ * or null when profile data can be read.
+ *
+ * CALLED BY: formStepProcessor.ts → processFieldsAI(), runFormStep()
+ */
+export async function getVaultLockError(): Promise<string | null> {
+  try {
+    const status = await storageService.getVaultStatus();
+    return status.locked ? new VaultLockedError().message : null;
+  } catch {
+    return null;
+  }
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -97,26 +124,53 @@ export function checkRateLimit(): boolean {
 // FIELD SIGNATURE
 // ─────────────────────────────────────────────────────────────
 
+/**
+ * hashText
+ * ────────
+ * 64-bit string hash (two 32-bit lanes, cyrb53-style mixing) as 16 hex
+ * characters. Not cryptographic — only needs to keep similar forms apart.
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0") +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
+}
+
 /**
  * buildFieldSignature
  * ───────────────────
- * Creates a short string fingerprint that uniquely represents the
- * set of form fields currently on the page (id + label + type).
+ * Creates a short fingerprint that uniquely represents the set of form
+ * fields currently on the page (id + label + type of every field).
  *
- * PURPOSE: Used as a cache key inside domainCache.ts so that if the
- *          user revisits the same page with the same fields, AI results
- *          are served from cache instead of calling Gemini again.
+ * PURPOSE: Part of the site recipe key (siteRecipeService) so that if
+ *          the user revisits the same form, the saved mappings are replayed
+ *          instead of calling Gemini or the heuristic matcher again.
+ *          Recipe keys use a "*" path pattern shared by every posting on
+ *          an ATS tenant, so the whole field list is hashed — postings
+ *          that only differ far down the form get different recipes.
  *
- * CALLED BY: formStepProcessor.ts → processFieldsAI(), processFormStep()
+ * CALLED BY: formStepProcessor.ts → processFieldsAI(), runFormStep()
  *
  * @param fields - The FormField array detected on the page.
- * @returns A comma-joined string, max 500 chars, like "id1|Label 1|text,id2|Label 2|select"
+ * @returns Field count and a hash of the full list, like "24:9f3c…"
  */
 export function buildFieldSignature(fields: FormField[]): string {
-  return fields
-    .map((f) => `${f.id}|${f.label}|${f.type}`)
-    .join(",")
-    .slice(0, 500);
+  const full = fields.map((f) => `${f.id}|${f.label}|${f.type}`).join(",");
+  return `${fields.length}:${hashText(full)}`;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -129,13 +183,11 @@ export function buildFieldSignature(fields: FormField[]): string {
  * Safely extracts the hostname (e.g. "jobs.lever.co") from a full URL.
  * Falls back to returning the raw string if the URL is malformed.
  *
- * PURPOSE: The domain cache (domainCache.ts) is keyed by hostname.
- *          The autopilot session also tracks hostname to detect navigation
+ * PURPOSE: The autopilot session tracks hostname to detect navigation
  *          away from the original job site.
  *
  * CALLED BY:
- *   • background.ts        → triggerFillFromSidebar, onUpdated, openAutopilotLink
- *   • formStepProcessor.ts → runAIFill(), processFormStep()
+ *   • autopilot.ts         → startAutopilot(), handleAutopilotTabUpdated()
  *
  * @param url - Full URL string (e.g. "https://jobs.lever.co/apply/123")
  * @returns Hostname string (e.g. "jobs.lever.co")
@@ -148,36 +200,25 @@ export function getHostname(url: string): string {
   }
 }
 
-// ─────────────────────────────────────────────────────────────
-// DATA MIGRATION
-// ─────────────────────────────────────────────────────────────
-
 /**
- * migrateCustomFields
- * ───────────────────
- * Normalises the customFields value coming out of storage into a
- * consistent CustomField[] array shape.
+ * getTabUrl
+ * ─────────
+ * Returns the current URL of a tab, or "" if the tab is gone or its URL
+ * isn't visible to the extension.
  *
- * WHY THIS EXISTS: Older versions of the extension stored customFields
- * as a plain object { label: value }. Newer versions use an array
- * [ { label, value, context } ]. This function bridges the two formats
- * so the rest of the code never has to worry about which format it has.
+ * PURPOSE: Site recipes are keyed by the page URL, which changes as the
+ *          autopilot clicks "Next" through a multi-page form.
  *
- * CALLED BY: formStepProcessor.ts → processFieldsAI(), processFormStep()
+ * CALLED BY: formStepProcessor.ts → runFormStep()
  *
- * @param raw - Whatever came out of storage (could be array or object).
- * @returns Always returns CustomField[].
+ * @param tabId - Chrome tab id.
  */
-export function migrateCustomFields(raw: any): CustomField[] {
-  if (Array.isArray(raw)) return raw;
-  if (raw && typeof raw === "object") {
-    return Object.entries(raw).map(([key, value]) => ({
-      label: key,
-      value: String(value),
-      context: "",
-    }));
+export async function getTabUrl(tabId: number): Promise<string> {
+  try {
+    return (await chrome.tabs.get(tabId)).url || "";
+  } catch {
+    return "";
   }
-  return [];
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -196,19 +237,27 @@ export function migrateCustomFields(raw: any): CustomField[] {
  * Every "fill form", "analyze form", "click next" instruction flows
  * through this function.
  *
- * CALLED BY: formStepProcessor.ts → processFormStep() (multiple times)
- *            backgroundUtils.ts   → sendSidebarStatus()
+ * Without `frameId` the message reaches every frame and the first reply
+ * wins; frameRegistry.ts passes one to talk to a single frame.
+ *
+ * CALLED BY: formStepProcessor.ts → runFormStep() (multiple times)
+ *            frameRegistry.ts     → analyzeFrames(), fillFrames(),
+ *                                    clickNextInFrame(), undoLastFill(), …
+ *            backgroundUtils.ts   → sendSidebarStatus(), sendSidebarFillReport()
  *
  * @param tabId   - The Chrome tab to message.
  * @param message - Any serialisable object (action + payload).
+ * @param frameId - Only this frame of the tab (0 = top frame).
  * @returns ChromeResponse — the content script's reply.
  */
 export function sendToTab(
   tabId: number,
   message: any,
+  frameId?: number,
 ): Promise<ChromeResponse> {
+  const options = frameId === undefined ? {} : { frameId };
   return new Promise((resolve) => {
-    chrome.tabs.sendMessage(tabId, message, (response) => {
+    chrome.tabs.sendMessage(tabId, message, options, (response) => {
       if (chrome.runtime.lastError) {
         const errMsg =
           chrome.runtime.lastError.message || "Tab communication notice";
@@ -232,7 +281,7 @@ export function sendToTab(
  * Used between autopilot steps to give the page time to render
  * new form sections before the next scan.
  *
- * CALLED BY: formStepProcessor.ts → processFormStep()
+ * CALLED BY: autopilot.ts → runSession() (settle waits between steps)
  *
  * @param ms - Milliseconds to wait.
  */
@@ -251,8 +300,9 @@ export function sleep(ms: number): Promise<void> {
  * Gives the user visual feedback without opening a popup.
  *
  * CALLED BY:
- *   • background.ts        → triggerFillFromSidebar, onUpdated (autopilot)
- *   • formStepProcessor.ts → processFormStep(), runAIFill() (various states)
+ *   • background.ts        → triggerFill* handlers (no tab / error)
+ *   • autopilot.ts         → startAutopilot(), finish(), pause()
+ *   • formStepProcessor.ts → runFormStep() (filled-field count)
  *
  * @param text  - Badge label (keep short, 1-2 chars/emoji).
  * @param color - Background colour hex string (e.g. "#34d399" for green).
@@ -269,8 +319,8 @@ export function showBadge(text: string, color: string) {
  * Typically called after a short delay so the user can read the final state.
  *
  * CALLED BY:
- *   • background.ts        → triggerFillFromSidebar error, onUpdated
- *   • formStepProcessor.ts → processFormStep() (after success/error)
+ *   • background.ts        → triggerFill* error path
+ *   • autopilot.ts         → finish() (after success/error/cancel)
  */
 export function clearBadge() {
   chrome.action.setBadgeText({ text: "" });
@@ -293,8 +343,8 @@ export function clearBadge() {
  * This is "fire and forget" — errors are silently ignored because
  * the sidebar may not always be open.
  *
- * CALLED BY: formStepProcessor.ts → processFormStep() (throughout the fill flow)
- *            background.ts        → triggerFillFromSidebar error path
+ * CALLED BY: formStepProcessor.ts → runFormStep() (throughout the fill flow)
+ *            autopilot.ts         → finish(), pause(), runSession()
  *
  * @param tabId      - The tab where the sidebar is open.
  * @param message    - Human-readable status text to display.
@@ -309,3 +359,24 @@ export function sendSidebarStatus(
     () => {},
   );
 }
+
+/**
+ * sendSidebarFillReport
+ * ─────────────────────
+ * Sends the post-fill verification report (one entry per filled field)
+ * to the sidebar, which lists the fields that were reverted, reformatted
+ * or rejected by the site's validation.
+ *
+ * Fire and forget, like sendSidebarStatus().
+ *
+ * CALLED BY: formStepProcessor.ts → runFormStep() (after "fillForm")
+ *
+ * @param tabId  - The tab where the sidebar is open.
+ * @param report - Verification entries returned by the content script.
+ */
+export function sendSidebarFillReport(
+  tabId: number,
+  report: FieldVerification[],
+) {
+  sendToTab(tabId, { action: "fillReport", report }).catch(() => {});
+}
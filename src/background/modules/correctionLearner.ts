@@ -0,0 +1,127 @@
+/**
+ * @file correctionLearner.ts
+ * @module background/modules
+ *
+ * ─── ROLE IN THE ARCHITECTURE
+ * Turns a hand edit reported by the content script's correction watcher
+ * into a learned correction: works out which profile value the user typed,
+ * stores the correction (correctionService) and rewrites the field in the
+ * form's site recipe so the next visit fills the right thing.
+ *
+ * WHO IMPORTS THIS FILE:
+ *   • background.ts → "recordCorrection" message handler
+ *
+ * DEPENDENCY DIRECTION:
+ *   background.ts
+ *     └── correctionLearner.ts   ← YOU ARE HERE
+ *           ├── backgroundUtils   (getActiveUserData)
+ *           ├── fieldResolver     (STANDARD_FIELD_KEYS)
+ *           ├── correctionService (persist corrections / suggestions)
+ *           └── siteRecipeService (per-form overrides)
+ */
+
+import { correctionService } from "../../services/correctionService";
+import { siteRecipeService } from "../../services/siteRecipeService";
+import { migrateCustomFields } from "../../services/profile";
+import type { CustomField, FieldEdit, UserData } from "../../types";
+import { getActiveUserData } from "./backgroundUtils";
+import { STANDARD_FIELD_KEYS } from "./fieldResolver";
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/\s+/g, " ").trim();
+
+const digits = (value: string) => value.replace(/\D/g, "");
+
+/**
+ * findValueSource
+ * ───────────────
+ * The field type whose profile value equals `value`: a standard key, then
+ * a custom field, memory or saved link. Phone numbers compare by digits,
+ * so "+1 (555) 010-0199" matches "+15550100199". Null when nothing does.
+ */
+export function findValueSource(
+  value: string,
+  userData: Partial<UserData>,
+  customFields: CustomField[],
+): string | null {
+  const target = normalize(value);
+  if (!target) return null;
+
+  const fullName = [userData.firstName, userData.middleName, userData.lastName]
+    .filter(Boolean)
+    .join(" ");
+  const fields = userData as Record<string, unknown>;
+  for (const key of STANDARD_FIELD_KEYS) {
+    const raw =
+      key === "fullName" ? userData.fullName || fullName : fields[key];
+    if (typeof raw !== "string" || !raw.trim()) continue;
+    if (normalize(raw) === target) return key;
+    if (
+      key === "phone" &&
+      digits(raw).length >= 7 &&
+      digits(raw).endsWith(digits(value)) &&
+      digits(value).length >= 7
+    ) {
+      return key;
+    }
+  }
+
+  const custom = customFields.find((cf) => normalize(cf.value) === target);
+  if (custom) return `custom_field:${custom.label}`;
+
+  const memory = (userData.memories || []).find(
+    (m) => normalize(m.content) === target,
+  );
+  if (memory) return `memory:${memory.id}`;
+
+  const link = (userData.savedLinks || []).find(
+    (l) => normalize(l.url) === target,
+  );
+  if (link) return `link:${link.id}`;
+
+  return null;
+}
+
+/**
+ * learnFromEdit
+ * ─────────────
+ * Records the correction and updates the site recipe. Edits that just
+ * reformat the filled profile value (same field type) are ignored.
+ *
+ * CALLED BY: background.ts → "recordCorrection"
+ *
+ * @param pageUrl        - URL of the page the edit happened on.
+ * @param fieldSignature - Signature of the filled form (recipe key).
+ * @param edit           - The field and the value the user left in it.
+ */
+export async function learnFromEdit(
+  pageUrl: string,
+  fieldSignature: string,
+  edit: FieldEdit,
+): Promise<void> {
+  const userData = await getActiveUserData();
+  const to = findValueSource(
+    edit.value,
+    userData,
+    migrateCustomFields(userData.customFields),
+  );
+  if (to && to === edit.fieldType) return;
+
+  const suggestion = await correctionService.record(
+    pageUrl,
+    fieldSignature,
+    edit,
+    to,
+  );
+  await siteRecipeService.correctMapping(
+    pageUrl,
+    fieldSignature,
+    edit.fieldId,
+    to ? { fieldType: to } : { value: edit.value },
+  );
+  if (suggestion) {
+    console.log(
+      `Aullevo: "${suggestion.label}" corrected ${suggestion.count}× — offering a custom field`,
+    );
+  }
+}
@@ -17,24 +17,38 @@
  *   D. Standard fields    → firstName, email, phone, etc. from UserData
  *   E. File vault         → PDF/DOCX uploads matched to file-type inputs
  *
+ * Every resolved value is tagged with valueSource / sourceDetail so the
+ * fill preview can show the user where each value came from.
+ *
  * WHO IMPORTS THIS FILE:
- *   • formStepProcessor.ts → processFieldsAI() and processFormStep()
+ *   • formStepProcessor.ts → processFieldsAI() and runFormStep()
  *     both call resolveFieldValues() after getting field mappings.
  *
  * DEPENDENCY DIRECTION:
  *   formStepProcessor.ts
  *     └── fieldResolver.ts   ← YOU ARE HERE
- *           ├── geminiService           (for custom_question AI answers)
+ *           ├── llmService              (for custom_question AI answers)
  *           ├── fileMatch utils         (for file vault matching)
  *           ├── heuristic/rules         (STANDARD_TO_CUSTOM_LABEL alias map)
  *           └── heuristic/customFieldMatcher (token-based fuzzy label matching)
  */
 
-import { geminiService } from "../../services/geminiService";
+import { llmService } from "../../services/llmService";
 import { fileMatchesField, _tokenize } from "../../utils/fileMatch";
-import type { UserData, CustomField, FormField, SavedFile } from "../../types";
+import type {
+  UserData,
+  CustomField,
+  FormField,
+  SavedFile,
+  Experience,
+  Education,
+  EmploymentType,
+} from "../../types";
 import { STANDARD_TO_CUSTOM_LABEL } from "../../services/heuristic/rules";
 import { matchCustomField } from "../../services/heuristic/customFieldMatcher";
+import { parseDateString } from "../../services/form/dateUtils";
+import { MONTH_NAMES_SHORT } from "../../services/form/constants";
+import { entryDates, formatDate } from "../../services/formats/dates";
 
 // KNOWN STANDARD FIELD KEYS
 
@@ -88,8 +102,92 @@ export const STANDARD_FIELD_KEYS = new Set([
   "industry",
   "educationLevel",
   "maritalStatus",
+  // Derived — computed from phone / dateOfBirth for split inputs
+  // (autocomplete "tel-national", "bday-day", "bday-month", "bday-year")
+  "phoneNational",
+  "dateOfBirthDay",
+  "dateOfBirthMonth",
+  "dateOfBirthYear",
 ]);
 
+/**
+ * birthDatePart
+ * ─────────────
+ * One part of userData.dateOfBirth for a split birthday input. On a
+ * dropdown the matching option's own text is used ("March", "03", "3"),
+ * otherwise the plain number.
+ */
+function birthDatePart(
+  fieldType: string,
+  dateOfBirth: string | undefined,
+  field: FormField | undefined,
+): string | undefined {
+  const iso = parseDateString(dateOfBirth || "");
+  if (!iso) return undefined;
+  const [year, month, day] = iso.split("-").map(Number);
+  const part =
+    fieldType === "dateOfBirthYear"
+      ? year
+      : fieldType === "dateOfBirthMonth"
+        ? month
+        : day;
+
+  const option = field?.options?.find(
+    (o) =>
+      Number(o.value) === part ||
+      Number(o.label) === part ||
+      (fieldType === "dateOfBirthMonth" &&
+        o.label
+          .trim()
+          .toLowerCase()
+          .startsWith(MONTH_NAMES_SHORT[part - 1])),
+  );
+  return option ? option.label : String(part);
+}
+
+const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: "Full-time",
+  part_time: "Part-time",
+  contract: "Contract",
+  internship: "Internship",
+  freelance: "Freelance",
+  temporary: "Temporary",
+};
+
+/**
+ * groupEntryValue
+ * ───────────────
+ * Values of an experience / education entry that are not plain string
+ * properties: startDate, endDate, isCurrent and employmentType. Dates
+ * come from entryDates(): the free-text duration / year when it holds a
+ * date, else the stored start / end. Dates are given as "Mar 2020", which
+ * the date fillers accept for text, month, picker and split
+ * day/month/year inputs.
+ *
+ * Returns undefined for other field types, and for the end date of a
+ * current role — the form's "currently work here" box stands in for it.
+ */
+function groupEntryValue(
+  fieldType: string,
+  entry: Experience | Education,
+): string | undefined {
+  if (fieldType === "employmentType") {
+    return "employmentType" in entry && entry.employmentType
+      ? EMPLOYMENT_TYPE_LABELS[entry.employmentType]
+      : undefined;
+  }
+  if (!["startDate", "endDate", "isCurrent"].includes(fieldType)) {
+    return undefined;
+  }
+
+  const dates = entryDates(entry);
+
+  if (fieldType === "isCurrent") return dates.isCurrent ? "Yes" : "No";
+  const date = fieldType === "startDate" ? dates.start : dates.end;
+  if (!date || (fieldType === "endDate" && dates.isCurrent)) return undefined;
+  return formatDate(date);
+}
+
 // MAIN RESOLVER
 
 /**
@@ -100,7 +198,7 @@ export const STANDARD_FIELD_KEYS = new Set([
  * `mapping.files` for file inputs).
  *
  * This function is the SINGLE SOURCE OF TRUTH for value resolution.
- * Both processFieldsAI() and processFormStep() call this after they
+ * Both processFieldsAI() and runFormStep() call this after they
  * get their mapping list from the AI or heuristic matcher.
  *
  * Processing order (each mapping goes through relevant section only):
@@ -109,10 +207,12 @@ export const STANDARD_FIELD_KEYS = new Set([
  *   B. custom_field:*   — look up in user's custom fields (3-pass fuzzy search)
  *      memory:*         — look up in user's saved memories
  *      link:*           — look up in user's saved links
+ *      file:*           — a library file picked in the field inspector
  *   C. groupType        — pick value from experience/education/skills array by index
  *   D. STANDARD_FIELD_KEYS — read directly from UserData (phone, email, etc.)
  *      + fallback cascade to custom fields if userData has no value
  *   E. File inputs      — scan file library for best-matching PDF/DOCX
+ *   F. Source fallback  — tag values the matcher set itself
  *
  * @param fieldMappings  - Array of mapping objects (mutated in-place).
  *                         Each object has at minimum: { fieldId, fieldType }.
@@ -139,11 +239,19 @@ export async function resolveFieldValues(
 
   for (const mapping of fieldMappings) {
     // "click_add" entries are button-click instructions, not fill targets.
-    // They are handled separately in processFormStep(). Skip them here.
+    // They are handled separately in runFormStep(). Skip them here.
     if (mapping.action === "click_add") continue;
 
+    // Pinned mappings come from a site recipe the user overrode by hand —
+    // their stored value is filled as-is.
+    if (mapping.pinned) {
+      mapping.valueSource = "recipe";
+      continue;
+    }
+
     // Enrich the mapping with metadata from the original field object
-    // (row/column headers, compound labels) that the AI may have omitted.
+    // (row/column headers, compound labels) that the AI may have omitted,
+    // and the locator the filler needs if the page re-renders.
     const origField = fields.find(
       (f) => f.id === mapping.fieldId || f.id === mapping.id,
     );
@@ -160,6 +268,12 @@ export async function resolveFieldValues(
       if (origField.compoundLabel && !mapping.compoundLabel) {
         mapping.compoundLabel = origField.compoundLabel;
       }
+      if (!mapping.label) {
+        mapping.label = origField.compoundLabel || origField.label;
+      }
+      if (origField.locator && !mapping.locator) {
+        mapping.locator = origField.locator;
+      }
     }
 
     // A. CUSTOM QUESTIONS
@@ -180,24 +294,29 @@ export async function resolveFieldValues(
         try {
           if (isChat) {
             // Use conversation history context for chat-style replies
-            mapping.selectedValue = await geminiService.generateChatReply(
+            mapping.selectedValue = await llmService.generateChatReply(
               originalField?.chatContext || [],
               userData,
             );
+            mapping.valueSource = "ai_answer";
+            mapping.sourceDetail = "Chat reply";
           } else {
             // Standard open-ended question answer
-            mapping.selectedValue = await geminiService.answerFormQuestion(
+            mapping.selectedValue = await llmService.answerFormQuestion(
               mapping.originalQuestion,
               userData,
             );
+            mapping.valueSource = "ai_answer";
           }
         } catch (e: any) {
           console.warn("Aullevo: Failed to answer question:", e.message);
           mapping.selectedValue = "[MANUAL_INPUT_NEEDED]";
+          mapping.valueSource = "manual";
         }
       } else {
         // Heuristic mode: can't answer open questions, signal the user
         mapping.selectedValue = "[MANUAL_INPUT_NEEDED]";
+        mapping.valueSource = "manual";
       }
       continue; // Done with this mapping
     }
@@ -221,6 +340,8 @@ export async function resolveFieldValues(
       );
       if (exactMatch) {
         mapping.selectedValue = exactMatch.value;
+        mapping.valueSource = "custom_field";
+        mapping.sourceDetail = exactMatch.label;
         continue;
       }
 
@@ -229,6 +350,8 @@ export async function resolveFieldValues(
       const matched = matchCustomField(targetLabel, customFields);
       if (matched) {
         mapping.selectedValue = matched.value;
+        mapping.valueSource = "custom_field";
+        mapping.sourceDetail = matched.label;
         continue;
       }
 
@@ -258,6 +381,8 @@ export async function resolveFieldValues(
 
       if (contextMatch) {
         mapping.selectedValue = contextMatch.value;
+        mapping.valueSource = "custom_field";
+        mapping.sourceDetail = contextMatch.label;
       }
       continue; // Done with this mapping (even if no match found)
     }
@@ -266,7 +391,11 @@ export async function resolveFieldValues(
     if (mapping.fieldType?.startsWith("memory:")) {
       const memoryId = mapping.fieldType.slice("memory:".length);
       const match = (userData.memories || []).find((m) => m.id === memoryId);
-      if (match) mapping.selectedValue = match.content;
+      if (match) {
+        mapping.selectedValue = match.content;
+        mapping.valueSource = "memory";
+        mapping.sourceDetail = match.title;
+      }
       continue;
     }
 
@@ -274,7 +403,29 @@ export async function resolveFieldValues(
     if (mapping.fieldType?.startsWith("link:")) {
       const linkId = mapping.fieldType.slice("link:".length);
       const match = (userData.savedLinks || []).find((l) => l.id === linkId);
-      if (match) mapping.selectedValue = match.url;
+      if (match) {
+        mapping.selectedValue = match.url;
+        mapping.valueSource = "link";
+        mapping.sourceDetail = match.title;
+      }
+      continue;
+    }
+
+    // File lookup — a library file the user picked for this input by hand
+    if (mapping.fieldType?.startsWith("file:")) {
+      const fileId = mapping.fieldType.slice("file:".length);
+      const match = virtualLibrary.find((sf) => sf.id === fileId);
+      if (match) {
+        if (origField?.multiple) {
+          mapping.files = [{ name: match.name, dataUrl: match.dataUrl }];
+        } else {
+          mapping.fileData = match.dataUrl;
+          mapping.fileName = match.name;
+        }
+        mapping.selectedValue = "FILE_UPLOAD";
+        mapping.valueSource = "file";
+        mapping.sourceDetail = match.name;
+      }
       continue;
     }
 
@@ -285,6 +436,9 @@ export async function resolveFieldValues(
     //
     //    Example: groupType="experience", groupIndex=1, fieldType="company"
     //    → userData.experience[1].company
+    //
+    //    startDate / endDate / isCurrent / employmentType are derived from
+    //    the entry by groupEntryValue() rather than read off it.
     if (mapping.groupType && typeof mapping.groupIndex === "number") {
       let arraySource: any[] = [];
       if (mapping.groupType === "experience")
@@ -294,7 +448,19 @@ export async function resolveFieldValues(
       if (mapping.groupType === "skill") arraySource = userData.skills || [];
 
       const item = arraySource[mapping.groupIndex];
-      if (item) {
+      const entryValue =
+        item &&
+        mapping.fieldType &&
+        (mapping.groupType === "experience" ||
+          mapping.groupType === "education")
+          ? groupEntryValue(mapping.fieldType, item)
+          : undefined;
+      if (entryValue !== undefined) {
+        // Derived from the entry's dates (startDate, endDate, isCurrent…)
+        mapping.selectedValue = entryValue;
+        mapping.valueSource = "profile";
+        mapping.sourceDetail = `${mapping.groupType}[${mapping.groupIndex}].${mapping.fieldType}`;
+      } else if (item) {
         if (
           typeof item === "object" &&
           item !== null &&
@@ -303,9 +469,13 @@ export async function resolveFieldValues(
         ) {
           // Object item (experience/education): pick the named property
           mapping.selectedValue = String((item as any)[mapping.fieldType]);
+          mapping.valueSource = "profile";
+          mapping.sourceDetail = `${mapping.groupType}[${mapping.groupIndex}].${mapping.fieldType}`;
         } else if (mapping.groupType === "skill") {
           // Skill items are plain strings
           mapping.selectedValue = String(item);
+          mapping.valueSource = "profile";
+          mapping.sourceDetail = `skills[${mapping.groupIndex}]`;
         }
       }
       continue; // Done with this mapping
@@ -318,6 +488,8 @@ export async function resolveFieldValues(
     //    Special handling:
     //      • phoneCountryCode — extract "+1" prefix from phone string
     //      • phone            — strip country code if a separate CC field exists
+    //      • phoneNational    — phone without its country code, always
+    //      • dateOfBirth*     — day / month / year of dateOfBirth
     //      • fullName         — compose from firstName + middleName + lastName
     //      • skill (singular) — return the whole skills array as comma-joined string
     //
@@ -343,6 +515,20 @@ export async function resolveFieldValues(
         // Strip country code if the form has a dedicated country-code field
         if (hasCountryCodeField) val = val.replace(/^\+\d+[- ]?/, "");
         if (val) resolvedVal = val;
+      } else if (mapping.fieldType === "phoneNational") {
+        // The number without its +XX prefix, whatever else is on the form
+        const val = (userData.phone || "").replace(/^\+\d+[- ]?/, "");
+        if (val) resolvedVal = val;
+      } else if (
+        mapping.fieldType === "dateOfBirthDay" ||
+        mapping.fieldType === "dateOfBirthMonth" ||
+        mapping.fieldType === "dateOfBirthYear"
+      ) {
+        resolvedVal = birthDatePart(
+          mapping.fieldType,
+          userData.dateOfBirth,
+          origField,
+        );
       } else if (mapping.fieldType === "fullName") {
         // Prefer explicit fullName; fall back to composing from parts
         const full =
@@ -369,6 +555,9 @@ export async function resolveFieldValues(
 
       if (resolvedVal !== undefined && resolvedVal !== "") {
         mapping.selectedValue = resolvedVal;
+        mapping.valueSource = "profile";
+        mapping.sourceDetail =
+          mapping.fieldType === "skill" ? "skills" : mapping.fieldType;
       }
 
       // ✨ FALLBACK TO CUSTOM FIELDS:
@@ -381,7 +570,11 @@ export async function resolveFieldValues(
         // Fallback 1: match against the raw label on the page (most specific)
         if (origField?.label) {
           const directMatch = matchCustomField(origField.label, customFields);
-          if (directMatch) mapping.selectedValue = directMatch.value;
+          if (directMatch) {
+            mapping.selectedValue = directMatch.value;
+            mapping.valueSource = "custom_field";
+            mapping.sourceDetail = directMatch.label;
+          }
         }
 
         if (!mapping.selectedValue) {
@@ -393,7 +586,11 @@ export async function resolveFieldValues(
               const lbl = cf.label.toLowerCase().trim();
               return aliases.some((alias) => lbl === alias);
             });
-            if (cfMatch) mapping.selectedValue = cfMatch.value;
+            if (cfMatch) {
+              mapping.selectedValue = cfMatch.value;
+              mapping.valueSource = "custom_field";
+              mapping.sourceDetail = cfMatch.label;
+            }
           }
 
           // Fallback 3: fuzzy alias match
@@ -402,6 +599,8 @@ export async function resolveFieldValues(
               const cfMatch = matchCustomField(alias, customFields);
               if (cfMatch) {
                 mapping.selectedValue = cfMatch.value;
+                mapping.valueSource = "custom_field";
+                mapping.sourceDetail = cfMatch.label;
                 break;
               }
             }
@@ -462,6 +661,8 @@ export async function resolveFieldValues(
             dataUrl: sf.dataUrl,
           }));
           mapping.selectedValue = "FILE_UPLOAD";
+          mapping.valueSource = "file";
+          mapping.sourceDetail = matchedFiles.map((sf) => sf.name).join(", ");
           console.log(
             `Aullevo FileVault: ${matchedFiles.length} files matched to [${fileField.label || fileField.name || fileField.id}] (Multiple)`,
           );
@@ -471,6 +672,8 @@ export async function resolveFieldValues(
           mapping.fileData = bestMatch.dataUrl;
           mapping.fileName = bestMatch.name;
           mapping.selectedValue = "FILE_UPLOAD";
+          mapping.valueSource = "file";
+          mapping.sourceDetail = bestMatch.name;
           console.log(
             `Aullevo FileVault: "${bestMatch.name}" matched to [${fileField.label || fileField.name || fileField.id}] (Single)`,
           );
@@ -478,4 +681,18 @@ export async function resolveFieldValues(
       }
     }
   }
+
+  // F. SOURCE FALLBACK
+  //    Values the matcher supplied itself (e.g. a heuristic select option)
+  //    or files attached before resolution never passed through A–E.
+  //    Label them so the fill preview can always show where a value came from.
+  for (const mapping of fieldMappings) {
+    if (mapping.action === "click_add" || mapping.valueSource) continue;
+    if (mapping.fileData || (mapping.files && mapping.files.length > 0)) {
+      mapping.valueSource = "file";
+      mapping.sourceDetail = mapping.fileName;
+    } else if (mapping.selectedValue) {
+      mapping.valueSource = "matcher";
+    }
+  }
 }
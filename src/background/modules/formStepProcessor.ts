@@ -6,67 +6,137 @@
  * The ORCHESTRATION LAYER — coordinates the full form-filling pipeline
  * from start to finish.
  *
- * This file owns the three exported functions that background.ts calls:
+ * This file owns the exported step functions that background.ts and the
+ * autopilot call:
  *
  *   1. processFieldsAI()  — "processFieldsAI" message handler
  *      Called when the content script has already detected fields and
  *      asks the background to resolve values for them.
  *      Returns a JSON-serialisable result object (no side-effects on tabs).
  *
- *   2. runAIFill()        — "triggerFillFromPopup" message handler
- *      Entry point for the popup button or Ctrl+M keyboard shortcut.
- *      Locates the active tab, optionally starts an autopilot session,
- *      then delegates to processFormStep().
+ *   2. runFormStep()      — One autopilot step
+ *      Scans the page → matches fields → resolves values → fills the form
+ *      → verifies what the page kept. Never clicks "Next" and never
+ *      recurses: autopilot.ts decides what happens after each step and
+ *      persists it, so the run survives service-worker restarts.
  *
- *   3. processFormStep()  — Core recursive fill loop
- *      Scans the page → matches fields → resolves values → fills the form.
- *      If autoSubmit is on, clicks "Next" and recurses for the next step.
- *      Also called by background.ts's onUpdated listener when the page
- *      navigates during an active autopilot session.
+ *   3. inspectFields()    — "inspectFields" message handler
+ *      A dry run for the sidebar's field inspector: what each field would
+ *      get, by keyword matching only (no model calls, no recipe use count).
  *
  * DATA FLOW:
- *   background.ts (message handler)
- *     → runAIFill()  or  processFormStep() directly
- *           → sendToTab("analyzeForm")          [page → background: field list]
- *           → matchFieldsHeuristically()  OR
- *             geminiService.analyzeFormFields()  [AI mapping: field → fieldType]
+ *   autopilot.ts (runSession)
+ *     → runFormStep()
+ *           → analyzeFrames()                    [every frame → background: field list]
+ *           → fieldOverrideService.list()        [hand-mapped fields skip matching]
+ *           → siteRecipeService.replay()  THEN   [saved mappings for this form]
+ *             matchFieldsHeuristically()  OR     [fields the recipe doesn't cover]
+ *             llmService.analyzeFormFields()     [AI mapping: field → fieldType]
+ *           → applyAtsMappings()                 [ATS adapter mappings win]
+ *           → withOverrides()                    […except over hand-mapped fields]
  *           → resolveFieldValues()               [fieldType → actual string/file]
- *           → sendToTab("fillForm")              [background → page: inject values]
- *           → sendToTab("clickNext")  (autoSubmit only)
- *           → processFormStep(step+1) (recursive)
+ *           → sendToTab("previewFill") (optional) [user approves / edits values]
+ *           → fillFrames()                       [background → each frame: inject values]
+ *           → siteRecipeService.record()         [remember what was filled]
+ *     ← StepOutcome                              [autopilot clicks "Next" or stops]
  *
  * DEPENDENCY DIRECTION:
  *   background.ts
- *     └── formStepProcessor.ts   ← YOU ARE HERE
- *           ├── backgroundUtils  (utils, tab messaging, badge, sleep)
- *           ├── domainCache      (cache read/write/invalidate)
- *           ├── fieldResolver    (resolveFieldValues)
- *           ├── geminiService    (AI field analysis + API key management)
- *           └── heuristicMatcher (keyword-based fallback matching)
+ *     └── autopilot.ts
+ *           └── formStepProcessor.ts   ← YOU ARE HERE
+ *                 ├── backgroundUtils  (utils, tab messaging, badge, sleep)
+ *                 ├── frameRegistry    (scan / fill across the tab's frames)
+ *                 ├── siteRecipeService (persistent per-form mappings: replay/record)
+ *                 ├── correctionService (label → field type learned from hand edits)
+ *                 ├── fieldOverrideService (per-site mappings picked in the inspector)
+ *                 ├── fieldResolver    (resolveFieldValues)
+ *                 ├── llmService       (AI field analysis via the active provider)
+ *                 ├── ats              (deterministic mappings on known ATSs)
+ *                 └── heuristicMatcher (keyword-based fallback matching)
  *
  */
 
-import { geminiService } from "../../services/geminiService";
+import { llmService } from "../../services/llmService";
+import {
+  loadLLMSettings,
+  getLLMConfigError,
+  summarizeIssues,
+  type ValidationIssue,
+} from "../../services/llm";
 import { matchFieldsHeuristically } from "../../services/heuristicMatcher";
-import type { UserData, FormField, SavedFile } from "../../types";
+import { applyAtsMappings } from "../../services/ats";
+import { migrateCustomFields } from "../../services/profile";
+import { siteRecipeService } from "../../services/siteRecipeService";
+import { correctionService } from "../../services/correctionService";
+import {
+  fieldOverrideService,
+  matchOverrides,
+  overrideMappings,
+} from "../../services/fieldOverrideService";
+import type {
+  UserData,
+  FormField,
+  FieldMapping,
+  SavedFile,
+  AutopilotPhase,
+  FieldVerification,
+  FieldOverride,
+} from "../../types";
 import {
   getActiveUserData,
+  getVaultLockError,
   checkRateLimit,
   buildFieldSignature,
-  getHostname,
-  migrateCustomFields,
+  getTabUrl,
   sendToTab,
-  sleep,
   showBadge,
-  clearBadge,
   sendSidebarStatus,
+  sendSidebarFillReport,
 } from "./backgroundUtils";
-import {
-  getCachedMappings,
-  setCachedMappings,
-  invalidateCache,
-} from "./domainCache";
 import { resolveFieldValues } from "./fieldResolver";
+import {
+  analyzeFrames,
+  fillFrames,
+  formFrame,
+  TOP_FRAME,
+} from "./frameRegistry";
+
+/**
+ * withOverrides
+ * ─────────────
+ * Replaces whatever the recipe, matcher or ATS adapter mapped for a
+ * hand-overridden field with the override. "skip" overrides drop the
+ * field's mapping entirely.
+ */
+function withOverrides(
+  fields: FormField[],
+  mappings: FieldMapping[],
+  overrides: Map<string, FieldOverride>,
+): FieldMapping[] {
+  if (overrides.size === 0) return mappings;
+  return [
+    ...overrideMappings(fields, overrides),
+    ...mappings.filter(
+      (m) => m.action === "click_add" || !overrides.has(m.id || m.fieldId),
+    ),
+  ];
+}
+
+/**
+ * uncoveredByRecipe
+ * ─────────────────
+ * The fields a replayed recipe has no mapping for — added to the form
+ * since it was recorded, or left unfilled back then. These still go
+ * through the matcher, and its mappings are merged after the recipe's.
+ */
+function uncoveredByRecipe(
+  fields: FormField[],
+  recipe: FieldMapping[] | null,
+): FormField[] {
+  if (!recipe) return fields;
+  const covered = new Set(recipe.map((m) => m.id || m.fieldId));
+  return fields.filter((f) => !covered.has(f.id));
+}
 
 // processFieldsAI
 
@@ -79,9 +149,11 @@ import { resolveFieldValues } from "./fieldResolver";
  * array. It sends that array here and asks: "what values should I put in these?"
  *
  * This function:
- *   1. Loads user data + settings from storage.
- *   2. Selects matching strategy (AI or heuristic).
- *   3. Runs the strategy to get fieldMappings (field → fieldType).
+ *   1. Loads user data + settings from storage (bails out if the vault is locked).
+ *   2. Sets aside fields the user mapped by hand (fieldOverrideService),
+ *      then replays the saved site recipe for this form, if there is one.
+ *   3. Runs the matching strategy (AI or heuristic) on the fields the
+ *      recipe does not cover to get fieldMappings (field → fieldType).
  *   4. Calls resolveFieldValues() to attach actual data values.
  *   5. Returns { success, mappings, addButtons, userData } to the caller.
  *
@@ -91,22 +163,30 @@ import { resolveFieldValues } from "./fieldResolver";
  *
  * CALLED BY: background.ts → "processFieldsAI" message handler (line ~213)
  *
- * @param fields   - FormField[] detected by the content script.
- * @param hostname - The hostname of the current page (for cache keying).
+ * The content script reports back what it filled via "recordSiteRecipe".
+ *
+ * @param fields  - FormField[] detected by the content script.
+ * @param pageUrl - URL of the current page (site recipe key).
+ * @param dryRun  - Replay the recipe without marking it used (inspectFields).
  * @returns A result object: { success, mappings, addButtons, userData, ... }
  */
-export async function processFieldsAI(fields: FormField[], hostname = "") {
+export async function processFieldsAI(
+  fields: FormField[],
+  pageUrl = "",
+  { dryRun = false } = {},
+) {
   try {
+    const vaultError = await getVaultLockError();
+    if (vaultError) return { success: false, error: `🔒 ${vaultError}` };
+
     // Load everything we need from storage in one batch call
     const stored = await chrome.storage.local.get([
-      "geminiApiKey",
       "resumeFileData",
       "resumeFileName",
       "fileLibrary",
       "matchingMode",
     ]);
     const userData = await getActiveUserData();
-    const apiKey = ((stored.geminiApiKey || "") as string).trim();
     const resumeFileData = stored.resumeFileData as string | undefined;
     const resumeFileName = stored.resumeFileName as string | undefined;
     const matchingMode = (stored.matchingMode || "heuristic") as string;
@@ -118,82 +198,100 @@ export async function processFieldsAI(fields: FormField[], hostname = "") {
       return {
         success: false,
         error:
-          "🔒 Gemini AI matching is a Pro feature. Please upgrade to unlock!",
+          "🔒 AI matching is a Pro feature. Please upgrade to unlock!",
       };
     }
 
     // Normalise custom fields format (old object shape → new array shape)
     const customFields = migrateCustomFields(userData.customFields);
+    const learned = await correctionService.learnedFieldTypes();
 
-    let fieldMappings: any[] | null = null;
+    // Fields mapped by hand in the field inspector are not matched at all
+    const overrides = matchOverrides(
+      fields,
+      pageUrl ? await fieldOverrideService.list(pageUrl) : [],
+    );
+    const toMatch = fields.filter((f) => !overrides.has(f.id));
+
+    // Replay the saved recipe if this exact form was filled before —
+    // only the fields it does not cover are matched.
+    const signature = buildFieldSignature(fields);
+    const recipe = pageUrl
+      ? await siteRecipeService.replay(pageUrl, signature, {
+          markUsed: !dryRun,
+        })
+      : null;
+    const uncovered = uncoveredByRecipe(toMatch, recipe);
+    let fieldMappings: FieldMapping[] | null = null;
+    let validationIssues: ValidationIssue[] = [];
 
     if (useAI) {
       // ── AI Mode ──────────────────────────────────────────────────
-      // Requires a Gemini API key and respects the 500 ms rate limit.
-      // Tries the domain cache first — only calls Gemini on a cache miss.
+      // Requires a configured LLM provider (also used to answer custom
+      // questions) and respects the 500 ms rate limit.
+      // Only calls the model for fields no recipe covers.
       // Falls back to heuristic if AI returns zero results or errors.
-      if (apiKey) geminiService.setApiKey(apiKey);
-      if (!apiKey)
-        return {
-          success: false,
-          error:
-            "No API key found. Save your Gemini API key in the extension settings.",
-        };
-      if (!checkRateLimit())
-        return {
-          success: false,
-          error: "Please wait a moment before requesting another fill.",
-        };
-
-      // Check domain cache before calling Gemini
-      // getCachedMappings() returns null on miss, expired TTL, or signature mismatch
-      const signature = buildFieldSignature(fields);
-      fieldMappings = hostname ? getCachedMappings(hostname, signature) : null;
-
-      if (!fieldMappings) {
+      const llmSettings = await loadLLMSettings();
+      const configError = getLLMConfigError(llmSettings);
+      if (configError) return { success: false, error: configError };
+      llmService.configure(llmSettings);
+
+      if (uncovered.length > 0) {
+        if (!checkRateLimit())
+          return {
+            success: false,
+            error: "Please wait a moment before requesting another fill.",
+          };
         try {
-          // Call Gemini to map each field to a fieldType + confidence score
-          fieldMappings = await geminiService.analyzeFormFields(
-            fields,
+          // Ask the model to map each field to a fieldType + confidence score
+          const analysis = await llmService.analyzeFormFields(
+            uncovered,
             customFields,
           );
+          fieldMappings = analysis.value;
+          validationIssues = analysis.issues;
           if (!fieldMappings || fieldMappings.length === 0) {
             console.warn(
-              "Aullevo: AI returned 0 mappings, falling back to heuristic for",
-              fields.length,
+              "Aullevo: AI returned 0 valid mappings, falling back to heuristic for",
+              uncovered.length,
               "fields",
+              validationIssues.length
+                ? `(${summarizeIssues(validationIssues)})`
+                : "",
             );
             // AI confused — heuristic is more reliable than empty mappings
             fieldMappings = matchFieldsHeuristically(
-              fields,
+              uncovered,
               customFields,
               userData,
+              learned,
             );
-          } else if (hostname) {
-            // Store successful AI result so next visit to this page is instant
-            setCachedMappings(hostname, signature, fieldMappings);
           }
-        } catch (aiErr: any) {
+        } catch (aiErr) {
           console.warn(
             "Aullevo: AI matching failed in processFieldsAI, falling back to heuristic:",
             aiErr,
           );
           fieldMappings = matchFieldsHeuristically(
-            fields,
+            uncovered,
             customFields,
             userData,
+            learned,
           );
         }
       }
-    } else {
+    } else if (uncovered.length > 0) {
       // ── Heuristic Mode ───────────────────────────────────────────
       // Keyword + label-based matching. Instant, no API calls.
       // Used when user hasn't enabled AI mode or has no API key.
       console.log(
-        `Aullevo: Using HEURISTIC matching for ${fields.length} fields`,
+        `Aullevo: Using HEURISTIC matching for ${uncovered.length} fields`,
+      );
+      fieldMappings = applyAtsMappings(
+        uncovered,
+        matchFieldsHeuristically(uncovered, customFields, userData, learned),
       );
-      fieldMappings = matchFieldsHeuristically(fields, customFields, userData);
-      if (!fieldMappings || fieldMappings.length === 0) {
+      if (fieldMappings.length === 0 && !recipe && overrides.size === 0) {
         console.warn(
           "Aullevo: Heuristic returned 0 mappings for",
           fields.length,
@@ -203,6 +301,14 @@ export async function processFieldsAI(fields: FormField[], hostname = "") {
       }
     }
 
+    // Adapter mappings for a known ATS replace the matcher's guesses
+    // (a replayed recipe already holds the user's corrections)
+    fieldMappings = [
+      ...(recipe ?? []),
+      ...applyAtsMappings(uncovered, fieldMappings ?? []),
+    ];
+    fieldMappings = withOverrides(fields, fieldMappings, overrides);
+
     // Build the virtual file library:
     //   • Start with the user's saved file library (PDFs, cover letters, etc.)
     //   • Add the legacy "resume" field (older versions stored one file only)
@@ -236,10 +342,10 @@ export async function processFieldsAI(fields: FormField[], hostname = "") {
 
     // Separate "fill" instructions from "add-more-entries" button instructions
     const fillMappings = fieldMappings.filter(
-      (m: any) => m.action !== "click_add",
+      (m) => m.action !== "click_add",
     );
     const addButtons = fieldMappings.filter(
-      (m: any) => m.action === "click_add",
+      (m) => m.action === "click_add",
     );
 
     if (useAI && fillMappings.length === 0 && fields.length > 0) {
@@ -259,10 +365,12 @@ export async function processFieldsAI(fields: FormField[], hostname = "") {
       userData,
       resumeFileData,
       resumeFileName,
+      validationIssues,
+      fieldSignature: signature,
     };
-  } catch (error: any) {
+  } catch (error) {
     console.error("Aullevo processFieldsAI error:", error);
-    const msg = error.message || String(error);
+    const msg = (error instanceof Error && error.message) || String(error);
     // Surface friendly error messages for common API failure codes
     if (
       msg.includes("429") ||
@@ -277,493 +385,492 @@ export async function processFieldsAI(fields: FormField[], hostname = "") {
     if (msg.includes("500") || msg.includes("server error")) {
       return {
         success: false,
-        error: "🔧 Gemini server error. Try again in a moment.",
+        error: "🔧 AI server error. Try again in a moment.",
       };
     }
     return { success: false, error: msg || "Processing failed" };
   }
 }
 
-// runAIFill  (Popup / Keyboard Shortcut entry point)
+// inspectFields  (Dry run for the field inspector overlay)
 
 /**
- * runAIFill
- * ─────────
- * Entry point triggered by the popup "Fill" button or the Ctrl+M
- * keyboard shortcut (via "triggerFillFromPopup" message in background.ts).
+ * inspectFields
  *
- * Responsibilities:
- *   1. Load API key and user data from storage.
- *   2. Find the currently active tab.
- *   3. Initialise or clear the autopilot session in local storage.
- *   4. Show the ⏳ loading badge.
- *   5. Kick off processFormStep() at step 0.
+ * Handles the "inspectFields" message from the sidebar's field inspector.
+ * A dry run of processFieldsAI() — overrides, recipe replay, the AI or
+ * heuristic matcher and value resolution — so each outlined field shows
+ * what Fill would actually do. The recipe is not marked used, and file
+ * payloads are stripped: the inspector only needs to know a file would
+ * be attached.
  *
- * This is a "fire and forget" wrapper around processFormStep() — it
- * just sets up the session and hands off.
+ * CALLED BY: background.ts → "inspectFields" message handler
  *
- * CALLED BY: background.ts → "triggerFillFromPopup" message handler (line ~150)
+ * @param fields  - FormField[] detected by the content script.
+ * @param pageUrl - URL of the current page (override and recipe lookup).
+ * @returns { success, mappings } or { success: false, error }
  */
-export async function runAIFill() {
-  try {
-    const stored = await chrome.storage.local.get([
-      "geminiApiKey",
-      "resumeFileData",
-      "resumeFileName",
-      "autoSubmit",
-    ]);
-    const userData = await getActiveUserData();
-    const apiKey = ((stored.geminiApiKey || "") as string).trim();
-    if (apiKey) geminiService.setApiKey(apiKey);
-
-    // Get the currently focused tab — this is where we'll fill the form
-    const [tab] = await chrome.tabs.query({
-      active: true,
-      currentWindow: true,
-    });
-    if (!tab?.id) {
-      showBadge("!", "#f87171"); // Red "!" if no active tab found
-      return;
-    }
-
-    const tabId = tab.id;
-    const tabHostname = getHostname(tab.url || "");
-    const autoSubmit = !!stored.autoSubmit;
-
-    // Autopilot session: persists across page navigations so the onUpdated
-    // listener knows to continue filling after a form "Next" button navigation.
-    if (autoSubmit) {
-      await chrome.storage.local.set({
-        autopilotSession: {
-          tabId: tabId,
-          step: 0,
-          hostname: tabHostname,
-          fingerprints: [], // Used to detect stuck/looping steps
-        },
-      });
-    } else {
-      // No autopilot — clear any stale session from a previous run
-      await chrome.storage.local.remove(["autopilotSession"]);
-    }
+export async function inspectFields(fields: FormField[], pageUrl = "") {
+  const result = await processFieldsAI(fields, pageUrl, { dryRun: true });
+  if (!result.success) return { success: false, error: result.error };
+
+  const mappings = (result.mappings ?? []).map((m) => {
+    const copy = { ...m };
+    delete copy.fileData;
+    delete copy.files;
+    return copy;
+  });
+  return { success: true, mappings };
+}
 
-    showBadge("⏳", "#3B82F6"); // Blue hourglass = working
+// runFormStep  (One autopilot step: scan → match → fill → verify)
 
-    // Delegate to the main fill loop at step 0
-    await processFormStep(
-      tabId,
-      userData,
-      0,
-      tabHostname,
-      stored.resumeFileData as string | undefined,
-      stored.resumeFileName as string | undefined,
-    );
-  } catch (error: any) {
-    console.error("Aullevo shortcut error:", error);
-    showBadge("✗", "#f87171");
-    setTimeout(clearBadge, 3000);
-  }
+/**
+ * StepHooks
+ * ─────────
+ * Callbacks the autopilot state machine hands to runFormStep() so every
+ * phase change is persisted, and pause / cancel requests are honoured at
+ * phase boundaries.
+ *
+ *   enter(phase)            — record the transition; false = stop now
+ *                             (session was paused or cancelled meanwhile).
+ *   recordFingerprint(hash) — false if the same fill intent was already
+ *                             seen on an EARLIER step (autopilot is stuck).
+ */
+export interface StepHooks {
+  enter(phase: AutopilotPhase, note?: string): Promise<boolean>;
+  recordFingerprint(hash: string): Promise<boolean>;
 }
 
-// processFormStep  (Core recursive fill loop)
+/**
+ * StepOutcome
+ * ───────────
+ * What one step achieved. The autopilot decides what happens next:
+ *   filled    → done (single page), click "Next" (autoSubmit), or stop
+ *               for review before a final submit button
+ *   row_added → scan the same page again for the newly revealed row
+ *   complete  → nothing (more) to fill — the run is done
+ *   failed / cancelled → the run ends with `message`
+ *   halted    → the session was paused or cancelled between phases
+ */
+export type StepOutcome =
+  | {
+      kind: "filled";
+      filledCount: number;
+      problemCount: number;
+      invalidCount: number;
+      report: FieldVerification[];
+      filled: FieldMapping[];
+      formFrameId: number; // Frame holding the form — where "Next" is clicked
+    }
+  | { kind: "row_added"; report: FieldVerification[]; filled: FieldMapping[] }
+  | { kind: "complete"; message: string }
+  | { kind: "failed"; message: string }
+  | { kind: "cancelled"; message: string }
+  | { kind: "halted" };
 
 /**
- * processFormStep
+ * runFormStep
  *
- * The heart of the fill engine. Processes one "step" of a (potentially
- * multi-page) application form.
+ * Processes ONE step of a (potentially multi-page) application form.
+ * It never recurses and never waits for navigation — the autopilot state
+ * machine (autopilot.ts) owns sequencing, so a service-worker restart
+ * between steps loses nothing.
  *
  * One call handles:
- *   1. Safety check: stop if we've exceeded 30 steps (loop guard).
- *   2. Scan: send "analyzeForm" to the page to get current FormField[].
- *   3. Match: use AI or heuristic to create field → fieldType mappings.
- *   4. Fingerprint check: detect if autopilot is stuck (same values repeating).
- *   5. Fill: send "fillForm" to the page with the resolved mappings.
- *   6. Add-button loop: if experience/education needs more rows, click
- *      the "+" button and recurse (step+1) to fill new rows.
- *   7. Next-step navigation (autoSubmit only): click "Next" → wait 3s →
- *      recurse (step+1) to fill the next page.
+ *   1. Scan: send "analyzeForm" to the page to get current FormField[].
+ *   2. Match: replay the saved site recipe, and use AI / heuristic to
+ *      create field → fieldType mappings for the fields it does not
+ *      cover, then resolve values.
+ *   3. Fingerprint check: detect if autopilot is stuck (same values repeating).
+ *      If "Preview before filling" is on, the sidebar then shows the resolved
+ *      values and only the ones the user approves go on to step 4.
+ *   4. Fill: send "fillForm" to the page with the resolved mappings, then
+ *      record what was actually filled as the site recipe.
+ *   5. Verify: the page reads every value back; the report goes to the
+ *      sidebar and problem counts go back to the autopilot.
+ *   6. Add-button check: if experience/education needs more rows, click
+ *      the "+" button and report "row_added".
  *
- * CALLED BY:
- *   • runAIFill()                — step 0, popup/shortcut flow
- *   • background.ts (line ~154)  — step 0, sidebar "Fill" button
- *   • background.ts onUpdated    — continuing autopilot after navigation
- *   • itself (recursion)         — each step after "Next" or "Add" row
+ * CALLED BY: autopilot.ts → runSession()
  *
  * @param tabId          - Chrome tab to operate on.
  * @param userData       - Active user profile.
- * @param step           - Current step index (0-based). Safety cap at 30.
- * @param hostname       - Site hostname for cache keying.
+ * @param step           - Current step index (0-based), for status text.
+ * @param hooks          - Phase / fingerprint callbacks from the autopilot.
  * @param resumeFileData - Base64 data URL of the user's resume file.
  * @param resumeFileName - File name of the resume, used for matching.
  */
-export async function processFormStep(
+export async function runFormStep(
   tabId: number,
   userData: Partial<UserData>,
   step: number,
-  hostname: string,
+  hooks: StepHooks,
   resumeFileData?: string,
   resumeFileName?: string,
-) {
-  // ── Safety cap: prevent infinite recursion on misbehaving forms ──
-  if (step > 30) {
-    showBadge("✓", "#34d399");
-    setTimeout(clearBadge, 4000);
-    chrome.storage.local.remove(["autopilotSession"]);
-    sendSidebarStatus(
-      tabId,
-      "Form filling completed (maximum step limit reached).",
-      "success",
-    );
-    return;
+): Promise<StepOutcome> {
+  // ── Locked vault: there is no profile data to fill with ──
+  const vaultError = await getVaultLockError();
+  if (vaultError) return { kind: "failed", message: `🔒 ${vaultError}` };
+
+  // ── Step 1: Scan
+  // Ask the content script in every frame to analyse its DOM and return
+  // all visible, fillable fields (FormField[]), merged into one list —
+  // embedded application iframes included (see frameRegistry).
+  if (!(await hooks.enter("scanning"))) return { kind: "halted" };
+  sendSidebarStatus(
+    tabId,
+    `Scanning page fields (Step ${step + 1})...`,
+    "scanning",
+  );
+  const scan = await analyzeFrames(tabId);
+  if (!scan.success) {
+    return {
+      kind: "failed",
+      message: `Could not analyze form: ${scan.message || "unknown"}`,
+    };
   }
 
-  try {
-    // ── Step 1: Scan
-    // Ask the content script to analyse the current DOM and return all
-    // visible, fillable fields (FormField[]).
+  const fields: FormField[] = scan.fields;
+  if (fields.length === 0) {
+    // No fields found at all — the form may be complete or already filled
+    return {
+      kind: "complete",
+      message: "Form filling complete! No fields found.",
+    };
+  }
+  // Read the live URL each step — "Next" may have navigated the tab
+  const pageUrl = await getTabUrl(tabId);
+
+  // ── Step 2: Match
+  // Determine AI vs heuristic mode, then produce fieldMappings:
+  // an array of { fieldId, fieldType, confidence } objects.
+  if (!(await hooks.enter("matching", `${fields.length} field(s)`)))
+    return { kind: "halted" };
+  const storedMode = await chrome.storage.local.get(["matchingMode"]);
+  const matchingMode = (storedMode.matchingMode || "heuristic") as string;
+  const useAI = matchingMode === "ai";
+
+  sendSidebarStatus(
+    tabId,
+    useAI
+      ? `Matching ${fields.length} field(s) with AI...`
+      : `Matching ${fields.length} field(s) by keyword...`,
+    "scanning",
+  );
+
+  const customFields = migrateCustomFields(userData.customFields);
+  const learned = await correctionService.learnedFieldTypes();
+  const overrides = matchOverrides(
+    fields,
+    pageUrl ? await fieldOverrideService.list(pageUrl) : [],
+  );
+  const toMatch = fields.filter((f) => !overrides.has(f.id));
+
+  // Recipe check: if this exact form was filled before, replay the
+  // saved mappings and only match the fields they do not cover.
+  const signature = buildFieldSignature(fields);
+  const recipe = pageUrl
+    ? await siteRecipeService.replay(pageUrl, signature)
+    : null;
+  const uncovered = uncoveredByRecipe(toMatch, recipe);
+  let fieldMappings: FieldMapping[] | null = null;
+  if (recipe) {
     sendSidebarStatus(
       tabId,
-      `Scanning page fields (Step ${step + 1})...`,
+      `Using saved recipe for this form (${recipe.length} field(s))...`,
       "scanning",
     );
-    const response = await sendToTab(tabId, { action: "analyzeForm" });
-    if (!response?.success) {
-      showBadge("✗", "#f87171");
-      setTimeout(clearBadge, 3000);
-      sendSidebarStatus(
-        tabId,
-        `Could not analyze form: ${response?.message || "unknown"}`,
-        "error",
-      );
-      return;
-    }
-
-    const fields: FormField[] = response.fields || [];
-    let needsReAnalysis = false; // Set to true when "Add row" button was clicked
-    let filledCount = 0;
-
-    if (fields.length > 0) {
-      // ── Step 2: Match
-      // Determine AI vs heuristic mode, then produce fieldMappings:
-      // an array of { fieldId, fieldType, confidence } objects.
-      const storedMode = await chrome.storage.local.get([
-        "matchingMode",
-        "geminiApiKey",
-      ]);
-      const matchingMode = (storedMode.matchingMode || "heuristic") as string;
-      const useAI = matchingMode === "ai";
-
-      sendSidebarStatus(
-        tabId,
-        useAI
-          ? `Matching ${fields.length} field(s) with Gemini AI...`
-          : `Matching ${fields.length} field(s) by keyword...`,
-        "scanning",
-      );
-
-      const customFields = migrateCustomFields(userData.customFields);
-      let fieldMappings: any[] | null = null;
+  }
 
-      if (useAI) {
-        // AI Mode: validate key, try cache, call Gemini, cache result
-        const apiKey = ((storedMode.geminiApiKey || "") as string).trim();
-        if (!apiKey) {
-          showBadge("!", "#f87171");
-          setTimeout(clearBadge, 3000);
+  if (useAI) {
+    // AI Mode: validate provider config, then call the model for the fields no recipe covers
+    const llmSettings = await loadLLMSettings();
+    const configError = getLLMConfigError(llmSettings);
+    if (configError) return { kind: "failed", message: configError };
+    llmService.configure(llmSettings);
+
+    if (uncovered.length > 0) {
+      try {
+        const analysis = await llmService.analyzeFormFields(
+          uncovered,
+          customFields,
+        );
+        fieldMappings = analysis.value;
+        if (analysis.issues.length > 0) {
+          // Tell the user why some fields were skipped instead of failing silently
           sendSidebarStatus(
             tabId,
-            "No Gemini API key found. Please add your API key in Settings.",
-            "error",
+            `AI mapping check: ${summarizeIssues(analysis.issues)}.`,
+            "info",
           );
-          return;
         }
-        geminiService.setApiKey(apiKey);
-
-        // Cache check: if this exact set of fields was seen before on this
-        // domain (within 10 minutes), use the cached mappings directly.
-        const signature = buildFieldSignature(fields);
-        fieldMappings = getCachedMappings(hostname, signature);
-        if (!fieldMappings) {
-          try {
-            fieldMappings = await geminiService.analyzeFormFields(
-              fields,
-              customFields,
-            );
-            if (!fieldMappings || fieldMappings.length === 0) {
-              console.warn(
-                "Aullevo: AI returned 0 mappings, falling back to keyword matching",
-              );
-              fieldMappings = matchFieldsHeuristically(
-                fields,
-                customFields,
-                userData,
-              );
-            } else if (hostname) {
-              setCachedMappings(hostname, signature, fieldMappings);
-            }
-          } catch (aiErr: any) {
-            console.warn(
-              "Aullevo: AI matching failed, falling back to keyword matching:",
-              aiErr,
-            );
-            sendSidebarStatus(
-              tabId,
-              `AI matching notice: ${aiErr.message || "error"}. Using keyword matching fallback...`,
-              "info",
-            );
-            fieldMappings = matchFieldsHeuristically(
-              fields,
-              customFields,
-              userData,
-            );
-          }
+        if (!fieldMappings || fieldMappings.length === 0) {
+          console.warn(
+            "Aullevo: AI returned 0 valid mappings, falling back to keyword matching",
+          );
+          fieldMappings = matchFieldsHeuristically(
+            uncovered,
+            customFields,
+            userData,
+            learned,
+          );
         }
-      } else {
-        // Heuristic Mode: keyword + label matching, no API calls
+      } catch (aiErr) {
+        console.warn(
+          "Aullevo: AI matching failed, falling back to keyword matching:",
+          aiErr,
+        );
+        sendSidebarStatus(
+          tabId,
+          `AI matching notice: ${(aiErr instanceof Error && aiErr.message) || "error"}. Using keyword matching fallback...`,
+          "info",
+        );
         fieldMappings = matchFieldsHeuristically(
-          fields,
+          uncovered,
           customFields,
           userData,
+          learned,
         );
       }
-      if (!fieldMappings) fieldMappings = [];
-
-      // Build virtual library (saved files + legacy resume backup)
-      const stored = await chrome.storage.local.get(["fileLibrary"]);
-      const fileLibrary: SavedFile[] =
-        (stored.fileLibrary as SavedFile[]) || [];
-      const virtualLibrary = [...fileLibrary];
-      if (resumeFileData && resumeFileName) {
-        if (!virtualLibrary.some((sf) => sf.name === resumeFileName)) {
-          virtualLibrary.push({
-            id: "legacy-resume",
-            name: resumeFileName,
-            size: 0,
-            type: "application/pdf",
-            dataUrl: resumeFileData,
-            savedAt: "Legacy",
-          });
-        }
-      }
-
-      // ── Step 3: Resolve values
-      // Attach actual data (strings, arrays, files) to each mapping.
-      // After this call, every mapping has a .selectedValue / .fileData.
-      await resolveFieldValues(
-        fieldMappings,
-        fields,
-        userData,
-        customFields,
-        virtualLibrary,
-        useAI,
-      );
-
-      // Split mappings into fill instructions vs. "Add row" button clicks
-      const fillMappings = fieldMappings.filter(
-        (m: any) => m.action !== "click_add",
-      );
-
-      // ── Step 4: Fingerprint / Loop guard
-      // If the autopilot fills the same values into the same fields twice,
-      // it's stuck in a loop (e.g. "Next" didn't navigate away).
-      // Compare a fingerprint of this step's fill intent against past steps.
-      const currentFingerprint = JSON.stringify(
-        fillMappings.map((m: any) => ({ id: m.id, value: m.selectedValue })),
-      );
-      const sessionData = await chrome.storage.local.get(["autopilotSession"]);
-      const session = sessionData.autopilotSession as any;
-      if (session) {
-        const fingerprints = session.fingerprints || [];
-        if (fingerprints.includes(currentFingerprint)) {
-          console.warn("Aullevo Autopilot: Stuck step detected. Stopping.");
-          showBadge("✗", "#f87171");
-          setTimeout(clearBadge, 3000);
-          chrome.storage.local.remove(["autopilotSession"]);
-          sendSidebarStatus(
-            tabId,
-            "Autopilot stopped: stuck step detected (same values in same fields).",
-            "error",
-          );
-          return;
-        }
-        // Record this fingerprint so future steps can detect loops
-        await chrome.storage.local.set({
-          autopilotSession: {
-            ...session,
-            fingerprints: [...fingerprints, currentFingerprint],
-          },
-        });
-      }
-
-      // ── Step 5: Fill
-      // Send the resolved mappings to the content script which injects
-      // the values into the DOM (sets input values, triggers React events, etc.)
-      sendSidebarStatus(
-        tabId,
-        `Filling ${fillMappings.length} matched field(s)...`,
-        "filling",
-      );
-      const fillResponse = await sendToTab(tabId, {
-        action: "fillForm",
-        data: {
-          fieldMappings: fillMappings,
-          userData,
-          resumeFileData,
-          resumeFileName,
-        },
+    }
+  } else if (uncovered.length > 0) {
+    // Heuristic Mode: keyword + label matching, no API calls
+    fieldMappings = matchFieldsHeuristically(uncovered, customFields, userData, learned);
+  }
+  fieldMappings = [
+    ...(recipe ?? []),
+    ...applyAtsMappings(uncovered, fieldMappings ?? []),
+  ];
+  fieldMappings = withOverrides(fields, fieldMappings, overrides);
+
+  // Build virtual library (saved files + legacy resume backup)
+  const stored = await chrome.storage.local.get(["fileLibrary"]);
+  const fileLibrary: SavedFile[] = (stored.fileLibrary as SavedFile[]) || [];
+  const virtualLibrary = [...fileLibrary];
+  if (resumeFileData && resumeFileName) {
+    if (!virtualLibrary.some((sf) => sf.name === resumeFileName)) {
+      virtualLibrary.push({
+        id: "legacy-resume",
+        name: resumeFileName,
+        size: 0,
+        type: "application/pdf",
+        dataUrl: resumeFileData,
+        savedAt: "Legacy",
       });
+    }
+  }
 
-      filledCount = fillResponse?.filledCount ?? 0;
-      if (fillResponse?.success) {
-        showBadge(`${filledCount}`, "#34d399"); // Green badge: number of filled fields
-      } else {
-        showBadge("✗", "#f87171");
-        setTimeout(clearBadge, 3000);
-        sendSidebarStatus(
-          tabId,
-          `Fill action failed: ${fillResponse?.error || "unknown"}`,
-          "error",
-        );
-        chrome.storage.local.remove(["autopilotSession"]);
-        return;
-      }
+  // Attach actual data (strings, arrays, files) to each mapping.
+  // After this call, every mapping has a .selectedValue / .fileData.
+  await resolveFieldValues(
+    fieldMappings,
+    fields,
+    userData,
+    customFields,
+    virtualLibrary,
+    useAI,
+  );
+
+  // Split mappings into fill instructions vs. "Add row" button clicks
+  let fillMappings = fieldMappings.filter((m) => m.action !== "click_add");
+
+  // ── Step 3: Fingerprint / Loop guard
+  // If the autopilot fills the same values into the same fields on a
+  // later step, it's stuck in a loop (e.g. "Next" didn't navigate away).
+  const currentFingerprint = JSON.stringify(
+    fillMappings.map((m) => ({ id: m.id, value: m.selectedValue })),
+  );
+  if (!(await hooks.recordFingerprint(currentFingerprint))) {
+    console.warn("Aullevo Autopilot: Stuck step detected. Stopping.");
+    return {
+      kind: "failed",
+      message:
+        "Autopilot stopped: stuck step detected (same values in same fields).",
+    };
+  }
 
-      // If nothing was filled and no re-analysis needed, we're done
-      if (filledCount === 0 && !needsReAnalysis) {
-        showBadge("✓", "#34d399");
-        setTimeout(clearBadge, 4000);
-        chrome.storage.local.remove(["autopilotSession"]);
-        sendSidebarStatus(tabId, "Form filling complete!", "success");
-        return;
-      }
+  // ── Step 3b: Fill preview (optional)
+  // With "Preview before filling" on, the sidebar shows every resolved
+  // value and the user approves, edits or skips each one. Only the
+  // approved mappings continue to the fill; cancelling ends the run.
+  const { fillPreview } = await chrome.storage.local.get(["fillPreview"]);
+  if (fillPreview) {
+    sendSidebarStatus(
+      tabId,
+      `Review ${fillMappings.length} field(s) before filling...`,
+      "info",
+    );
+    const review = await sendToTab(
+      tabId,
+      { action: "previewFill", data: { fieldMappings: fillMappings } },
+      TOP_FRAME, // The sidebar lives in the top frame
+    );
+    if (!review?.success || review.cancelled) {
+      return {
+        kind: "cancelled",
+        message: "Fill cancelled — no fields were changed.",
+      };
+    }
+    fillMappings = review.mappings || [];
+  }
 
-      // ── Step 6: Add-button handling
-      // Some forms use an "Add another experience" button to reveal extra rows.
-      // If the user's data has more items than are currently shown, click the
-      // button, invalidate the cache (so new fields are detected), wait, then
-      // recurse to fill the newly revealed row.
-      const addButtons = fieldMappings.filter(
-        (m: any) => m.action === "click_add",
-      );
-      for (const btn of addButtons) {
-        if (!btn.groupType) continue;
-        // How many rows of this type are currently mapped?
-        const currentIndices = fieldMappings
-          .filter(
-            (m: any) =>
-              m.groupType === btn.groupType && typeof m.groupIndex === "number",
-          )
-          .map((m: any) => m.groupIndex!);
-        const maxIndex =
-          currentIndices.length > 0 ? Math.max(...currentIndices) : -1;
-        let totalDataItems = 0;
-        if (btn.groupType === "experience")
-          totalDataItems = (userData.experience || []).length;
-        if (btn.groupType === "education")
-          totalDataItems = (userData.education || []).length;
-
-        // Only click "Add" if there's more data than currently visible rows
-        if (totalDataItems > maxIndex + 1) {
-          sendSidebarStatus(
-            tabId,
-            `Adding another ${btn.groupType} entry...`,
-            "info",
-          );
-          await sendToTab(tabId, {
-            action: "fillForm",
-            data: { fieldMappings: [{ ...btn }] }, // Send only the add-button instruction
-          });
-          await sleep(1500); // Wait for the new row to appear in the DOM
-          invalidateCache(hostname); // Force re-scan: new fields are now visible
-          needsReAnalysis = true; // Signal outer code to recurse
-          break; // Only process one "Add" per step to avoid race conditions
-        }
-      }
-    } else {
-      // No fields found at all — the form may be complete or already filled
-      showBadge("✓", "#34d399");
-      setTimeout(clearBadge, 4000);
-      chrome.storage.local.remove(["autopilotSession"]);
+  // ── Step 4: Fill
+  // Send the resolved mappings to the content script which injects
+  // the values into the DOM (sets input values, triggers React events, etc.)
+  if (!(await hooks.enter("filling", `${fillMappings.length} mapping(s)`)))
+    return { kind: "halted" };
+  sendSidebarStatus(
+    tabId,
+    `Filling ${fillMappings.length} matched field(s)...`,
+    "filling",
+  );
+  // Each mapping goes to the frame its field was found in
+  const fillResponse = await fillFrames(tabId, fillMappings, scan.routes, {
+    userData,
+    resumeFileData,
+    resumeFileName,
+    fieldSignature: signature,
+  });
+  if (!fillResponse?.success) {
+    return {
+      kind: "failed",
+      message: `Fill action failed: ${fillResponse?.error || "unknown"}`,
+    };
+  }
+  const filledCount = fillResponse.filledCount ?? 0;
+  const filledIds = new Set(fillResponse.filledIds || []);
+  const filled = fillMappings.filter((m) => filledIds.has(m.id || m.fieldId));
+  if (pageUrl) {
+    // What the user confirmed in the preview (edits included, skipped
+    // fields left out) plus the "Add row" buttons
+    await recordFilledRecipe(
+      pageUrl,
+      fields,
+      [...fillMappings, ...fieldMappings.filter((m) => m.action === "click_add")],
+      fillResponse.filledIds || [],
+    );
+  }
+
+  // ── Step 5: Verify
+  // The content script reads every value back after filling; only
+  // count fields the site actually kept.
+  const report = fillResponse.verification || [];
+  const problems = report.filter(
+    (v) => v.status !== "ok" && v.status !== "unverified",
+  );
+  const invalidCount = problems.filter((v) => v.status === "invalid").length;
+  if (
+    !(await hooks.enter(
+      "verifying",
+      `${filledCount} filled, ${problems.length} need attention`,
+    ))
+  )
+    return { kind: "halted" };
+  sendSidebarFillReport(tabId, report);
+  // "missing" entries were never filled, so they don't reduce the count
+  const keptCount =
+    filledCount - problems.filter((v) => v.status !== "missing").length;
+  showBadge(
+    `${keptCount}`,
+    problems.length > 0 ? "#fbbf24" : "#34d399", // Amber when some fields need attention
+  );
+
+  // ── Step 6: Add-button handling
+  // Some forms use an "Add another experience" button to reveal extra rows.
+  // If the user's data has more items than are currently shown, click the
+  // button and let the autopilot scan again for the newly revealed row.
+  const addButtons = fieldMappings.filter((m) => m.action === "click_add");
+  for (const btn of addButtons) {
+    if (!btn.groupType) continue;
+    // How many rows of this type are currently mapped?
+    const currentIndices = fieldMappings
+      .map((m) => (m.groupType === btn.groupType ? m.groupIndex : undefined))
+      .filter((i): i is number => typeof i === "number");
+    const maxIndex =
+      currentIndices.length > 0 ? Math.max(...currentIndices) : -1;
+    let totalDataItems = 0;
+    if (btn.groupType === "experience")
+      totalDataItems = (userData.experience || []).length;
+    if (btn.groupType === "education")
+      totalDataItems = (userData.education || []).length;
+
+    // Only click "Add" if there's more data than currently visible rows
+    if (totalDataItems > maxIndex + 1) {
       sendSidebarStatus(
         tabId,
-        "Form filling complete! No fields found.",
-        "success",
+        `Adding another ${btn.groupType} entry...`,
+        "info",
       );
-      return;
+      // Send only the add-button instruction
+      await fillFrames(tabId, [{ ...btn }], scan.routes);
+      return { kind: "row_added", report, filled }; // Only one "Add" per step to avoid race conditions
     }
+  }
 
-    // ── Step 6b: Recurse if new rows were added
-    // After clicking "Add row", come back after 500 ms to fill the new row.
-    if (needsReAnalysis) {
-      await sleep(500);
-      await processFormStep(tabId, userData, step + 1, hostname);
-      return;
-    }
+  // If nothing was filled, we're done
+  if (filledCount === 0) {
+    return { kind: "complete", message: "Form filling complete!" };
+  }
 
-    // ── Step 7: Auto-Submit / Next navigation
-    // If autoSubmit is disabled: show success, done.
-    // If autoSubmit is enabled: click "Next" → wait 3 s → recurse for step+1.
-    const storedSessSettings = await chrome.storage.local.get(["autoSubmit"]);
-    const autoSubmit = !!storedSessSettings.autoSubmit;
+  return {
+    kind: "filled",
+    filledCount,
+    problemCount: problems.length,
+    invalidCount,
+    report,
+    filled,
+    formFrameId: formFrame(fields),
+  };
+}
 
-    if (!autoSubmit) {
-      showBadge("✓", "#34d399");
-      setTimeout(clearBadge, 4000);
-      chrome.storage.local.remove(["autopilotSession"]);
-      sendSidebarStatus(
-        tabId,
-        `Filled ${filledCount} field(s) successfully!`,
-        "success",
-      );
-      return;
-    }
+// recordFilledRecipe  (Site recipe learning)
 
-    // Autopilot: send "clickNext" → if successful, the page navigates.
-    // The onUpdated listener in background.ts will resume from here next time.
-    // But we also recurse directly in case the "Next" click only reveals
-    // a new section on the SAME page (no navigation).
-    await sleep(1000); // Let the user see the filled fields briefly
-    sendSidebarStatus(tabId, "➡️ Moving to next step...", "info");
-    const nextResponse = await sendToTab(tabId, { action: "clickNext" });
-    if (nextResponse?.success) {
-      invalidateCache(hostname); // Next page will have different fields
-      // Update autopilot session step counter
-      const storedSess = await chrome.storage.local.get(["autopilotSession"]);
-      if (storedSess.autopilotSession) {
-        await chrome.storage.local.set({
-          autopilotSession: { ...storedSess.autopilotSession, step: step + 1 },
-        });
-      }
-      await sleep(3000); // Wait for page transition / animation
-      // Recurse: process the next step (either same page new section, or new page)
-      await processFormStep(
-        tabId,
-        userData,
-        step + 1,
-        hostname,
-        resumeFileData,
-        resumeFileName,
-      );
-    } else {
-      // "Next" button not found — we're probably on the last step
-      showBadge("✓", "#34d399");
-      setTimeout(clearBadge, 4000);
-      chrome.storage.local.remove(["autopilotSession"]);
-      sendSidebarStatus(
-        tabId,
-        "Form filling complete! (Next page not found).",
-        "success",
-      );
-    }
-  } catch (error: any) {
-    console.error("Aullevo fill step error:", error);
-    showBadge("✗", "#f87171");
-    setTimeout(clearBadge, 3000);
-    sendSidebarStatus(
-      tabId,
-      `Filling failed: ${error.message || error}`,
-      "error",
+/**
+ * recordFilledRecipe
+ * ──────────────────
+ * Saves the mappings the content script actually filled (plus any
+ * "Add row" buttons) as the site recipe for this form, so the next visit
+ * replays them instead of matching again. Values the user typed in the
+ * fill preview are pinned, so the next visit fills them again as-is; a
+ * pinned field the user skipped there loses its pin.
+ *
+ * CALLED BY:
+ *   • runFormStep()                     — after a successful "fillForm"
+ *   • background.ts "recordSiteRecipe"  — after a content-script (Alt+F) fill
+ *
+ * @param pageUrl     - URL of the filled page (recipe key).
+ * @param fields      - FormField[] from the page scan (signature + labels).
+ * @param mappings    - The mappings that were sent to the page (after the
+ *                      preview, when it is on).
+ * @param filledIds   - Mapping ids the content script reported as filled.
+ */
+export async function recordFilledRecipe(
+  pageUrl: string,
+  fields: FormField[],
+  mappings: FieldMapping[],
+  filledIds: string[],
+): Promise<void> {
+  const filled = new Set(filledIds);
+  if (!mappings.some((m) => filled.has(m.id || m.fieldId))) return;
+  const keep = mappings
+    .filter((m) => m.action === "click_add" || filled.has(m.id || m.fieldId))
+    .map((m) =>
+      m.valueSource === "manual" && m.selectedValue !== undefined
+        ? { ...m, pinned: true }
+        : m,
+    );
+  const labels = Object.fromEntries(
+    fields.map((f) => [f.id, f.compoundLabel || f.label]),
+  );
+  try {
+    await siteRecipeService.record(
+      pageUrl,
+      buildFieldSignature(fields),
+      keep,
+      labels,
     );
-    chrome.storage.local.remove(["autopilotSession"]);
+  } catch (err) {
+    console.warn("Aullevo: could not save site recipe:", err);
   }
 }
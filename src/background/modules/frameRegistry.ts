@@ -0,0 +1,360 @@
+/**
+ * @file frameRegistry.ts
+ * @module background/modules
+ *
+ * ─── ROLE IN THE ARCHITECTURE
+ * Makes a tab's frames look like one form. The content script runs in
+ * every frame (all_frames), so an application embedded in an iframe —
+ * a Greenhouse embed, Workday inside a career site — has its own copy
+ * that can scan and fill it. This file asks each frame for its fields,
+ * merges them into one list and sends every fill mapping back to the
+ * frame its field came from.
+ *
+ * Field ids are only unique within a frame ("field_0" exists in most of
+ * them), so fields from sub-frames get a global id "f<frame>::<field>":
+ * <frame> hashes the frame's origin and path, <field> the field's best
+ * locator step (its id, name, label, …), so the id stays the same from
+ * one scan to the next however many frames load or in what order. The
+ * routes map global ids back to { frameId, localId }. Top-frame ids are
+ * left as they are, so recipes recorded for plain pages keep replaying.
+ *
+ * Every other per-frame action goes to the frame that owns it: "Next" to
+ * the frame holding the form, previews and job info to the top frame
+ * (the sidebar lives there), and undo to the frames of the latest fill.
+ *
+ * WHO IMPORTS THIS FILE:
+ *   • formStepProcessor.ts → runFormStep() (scan and fill)
+ *   • autopilot.ts         → clickNextInFrame()
+ *   • background.ts        → scanFrames / fillFrames / clickNextInFrame /
+ *                            countFrameFields / undoLastFill messages
+ *                            (Alt+F and the sidebar)
+ *
+ * DEPENDENCY DIRECTION:
+ *   background.ts / autopilot.ts / formStepProcessor.ts
+ *     └── frameRegistry.ts   ← YOU ARE HERE
+ *           └── backgroundUtils (sendToTab with a frameId, hashText)
+ */
+
+import type {
+  ChromeResponse,
+  FieldMapping,
+  FieldVerification,
+  FormField,
+  FrameFieldRoutes,
+} from "../../types";
+import { hashText, sendToTab } from "./backgroundUtils";
+
+export const TOP_FRAME = 0;
+
+export interface FrameScan {
+  success: boolean;
+  fields: FormField[]; // All frames, ids made global, tagged with frameId
+  routes: FrameFieldRoutes;
+  message?: string; // Why the top frame could not be scanned
+}
+
+interface FrameInfo {
+  frameId: number;
+  url: string;
+}
+
+/**
+ * listFrames
+ * ──────────
+ * Frames of the tab, top frame first. Frames that failed to load or hold
+ * no web page are left out. Falls back to the top frame alone when
+ * webNavigation can't answer (e.g. the tab is gone).
+ */
+async function listFrames(tabId: number): Promise<FrameInfo[]> {
+  const top = { frameId: TOP_FRAME, url: "" };
+  try {
+    const frames = (await chrome.webNavigation.getAllFrames({ tabId })) ?? [];
+    const usable = frames
+      .filter(
+        (f) =>
+          f.frameId === TOP_FRAME ||
+          (!f.errorOccurred && /^(https?:|about:blank)/.test(f.url)),
+      )
+      .map((f) => ({ frameId: f.frameId, url: f.url }))
+      .sort((a, b) => a.frameId - b.frameId);
+    return usable.some((f) => f.frameId === TOP_FRAME)
+      ? usable
+      : [top, ...usable];
+  } catch {
+    return [top];
+  }
+}
+
+/** Origin and path of a frame; query strings often carry session tokens. */
+function frameKey(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return origin === "null" ? url : origin + pathname;
+  } catch {
+    return url;
+  }
+}
+
+/** The field's own stable handle: its best locator step, else its id. */
+function fieldKey(field: FormField): string {
+  const step = field.locator?.[0];
+  return step ? `${step.strategy}=${step.value}` : field.id;
+}
+
+/**
+ * The frame holding most of the fields — the one whose "Next" button
+ * moves the form on. The top frame when nothing was found.
+ */
+export function formFrame(fields: FormField[]): number {
+  const counts = new Map<number, number>();
+  for (const f of fields) {
+    const frameId = f.frameId ?? TOP_FRAME;
+    counts.set(frameId, (counts.get(frameId) ?? 0) + 1);
+  }
+  let best = TOP_FRAME;
+  for (const [frameId, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = frameId;
+  }
+  return best;
+}
+
+/**
+ * analyzeFrames
+ * ─────────────
+ * Sends "analyzeForm" to every frame one by one and merges the replies.
+ * A sub-frame that does not answer (no content script, still loading) is
+ * skipped; only a failed top frame fails the scan.
+ *
+ * CALLED BY: formStepProcessor.ts → runFormStep() step 1
+ */
+export async function analyzeFrames(tabId: number): Promise<FrameScan> {
+  const fields: FormField[] = [];
+  const routes: FrameFieldRoutes = {};
+  const seenFrames = new Map<string, number>();
+  let topResponse: ChromeResponse | null = null;
+  let subFrames = 0;
+
+  for (const { frameId, url } of await listFrames(tabId)) {
+    const response = await sendToTab(tabId, { action: "analyzeForm" }, frameId);
+    if (frameId === TOP_FRAME) topResponse = response;
+    const frameFields = response?.success ? response.fields || [] : [];
+    if (frameFields.length === 0) continue;
+
+    if (frameId === TOP_FRAME) {
+      for (const field of frameFields) {
+        routes[field.id] = { frameId, localId: field.id };
+        fields.push({ ...field, frameId });
+      }
+      continue;
+    }
+
+    // Two embeds of the same page are told apart by their order
+    subFrames++;
+    const key = frameKey(url);
+    const repeat = seenFrames.get(key) ?? 0;
+    seenFrames.set(key, repeat + 1);
+    const prefix = `f${hashText(repeat ? `${key}#${repeat}` : key).slice(0, 8)}`;
+    for (const field of frameFields) {
+      let id = `${prefix}::${hashText(fieldKey(field)).slice(0, 8)}`;
+      // Two fields sharing a locator step (rare) keep their scan order
+      for (let n = 2; routes[id]; n++) id = `${id.split("~")[0]}~${n}`;
+      routes[id] = { frameId, localId: field.id };
+      fields.push({ ...field, id, frameId });
+    }
+  }
+
+  if (subFrames > 0) {
+    console.log(
+      `Aullevo: merged fields from ${subFrames} embedded frame(s) (${fields.length} total)`,
+    );
+  }
+  return {
+    success: !!topResponse?.success || fields.length > 0,
+    fields,
+    routes,
+    message: topResponse?.success ? undefined : topResponse?.message,
+  };
+}
+
+/** Mappings per frame, with ids translated back to the frame's own. */
+function routeMappings(
+  mappings: FieldMapping[],
+  routes: FrameFieldRoutes,
+): Map<number, FieldMapping[]> {
+  const byFrame = new Map<number, FieldMapping[]>();
+  for (const mapping of mappings) {
+    const ref = routes[mapping.id || mapping.fieldId];
+    const frameId = ref?.frameId ?? TOP_FRAME;
+    const local = ref
+      ? { ...mapping, id: ref.localId, fieldId: ref.localId }
+      : mapping;
+    byFrame.set(frameId, [...(byFrame.get(frameId) ?? []), local]);
+  }
+  return byFrame;
+}
+
+/**
+ * fillFrames
+ * ──────────
+ * Sends "fillForm" to each frame that owns at least one of the mappings
+ * and merges the replies into one response with global ids. Fails only
+ * when no frame could be filled. All frames record the fill under one
+ * batch id, so undoLastFill() takes it back everywhere at once.
+ *
+ * CALLED BY: formStepProcessor.ts → runFormStep() steps 4 and 6
+ *            background.ts        → "fillFrames" (Alt+F)
+ *
+ * @param data - The rest of the fillForm payload (userData, resume, …),
+ *               sent to every frame unchanged.
+ */
+export async function fillFrames(
+  tabId: number,
+  mappings: FieldMapping[],
+  routes: FrameFieldRoutes,
+  data: Record<string, unknown> = {},
+): Promise<ChromeResponse> {
+  const toGlobal = new Map(
+    Object.entries(routes).map(([id, ref]) => [
+      `${ref.frameId}|${ref.localId}`,
+      id,
+    ]),
+  );
+  const fillBatch = crypto.randomUUID();
+  const filledIds: string[] = [];
+  const verification: FieldVerification[] = [];
+  const errors: string[] = [];
+  let answered = false;
+  let filledCount = 0;
+  let total = 0;
+
+  for (const [frameId, frameMappings] of routeMappings(mappings, routes)) {
+    const response = await sendToTab(
+      tabId,
+      {
+        action: "fillForm",
+        data: { ...data, fieldMappings: frameMappings, fillBatch },
+      },
+      frameId,
+    );
+    if (!response?.success) {
+      errors.push(response?.error || response?.message || "unknown");
+      continue;
+    }
+    const back = (localId: string) =>
+      toGlobal.get(`${frameId}|${localId}`) ?? localId;
+    answered = true;
+    filledCount += response.filledCount ?? 0;
+    total += response.total ?? frameMappings.length;
+    filledIds.push(...(response.filledIds || []).map(back));
+    verification.push(
+      ...(response.verification || []).map((v) => ({
+        ...v,
+        fieldId: back(v.fieldId),
+      })),
+    );
+  }
+
+  // Nothing to fill is not a failure
+  if (!answered && mappings.length > 0) {
+    return { success: false, error: errors.join("; ") || "no frame answered" };
+  }
+  return { success: true, filledCount, filledIds, total, verification };
+}
+
+/**
+ * clickNextInFrame
+ * ────────────────
+ * Sends "clickNext" to one frame — the one holding the form (formFrame()).
+ * The content script only clicks in a sub-frame when the message names
+ * its frame, so a broadcast can never click "Next" in every frame at once.
+ *
+ * CALLED BY: autopilot.ts → runSession()
+ *            background.ts → "clickNextInFrame" (Alt+F)
+ */
+export function clickNextInFrame(
+  tabId: number,
+  frameId: number,
+  allowSubmit: boolean,
+): Promise<ChromeResponse> {
+  return sendToTab(
+    tabId,
+    { action: "clickNext", allowSubmit, frameId },
+    frameId,
+  );
+}
+
+/**
+ * countFrameFields
+ * ────────────────
+ * Number of form fields across all frames, for the sidebar's field count.
+ * Lighter than analyzeFrames(): nothing is sent back but the counts.
+ *
+ * CALLED BY: background.ts → "countFrameFields" (sidebar scan)
+ */
+export async function countFrameFields(tabId: number): Promise<number> {
+  let count = 0;
+  for (const { frameId } of await listFrames(tabId)) {
+    const response = await sendToTab(tabId, { action: "countFields" }, frameId);
+    count += response?.fieldCount ?? 0;
+  }
+  return count;
+}
+
+/**
+ * undoLastFill
+ * ────────────
+ * Undoes the most recent fill in every frame it touched. Each frame keeps
+ * its own undo stack; the fill whose snapshot is newest wins, and every
+ * frame holding that batch on top restores it.
+ *
+ * CALLED BY: background.ts → "undoLastFill" (sidebar button, Alt+Z)
+ */
+export async function undoLastFill(tabId: number): Promise<ChromeResponse> {
+  const tops: {
+    frameId: number;
+    batchId: string;
+    at: number;
+    depth: number;
+  }[] = [];
+  for (const { frameId } of await listFrames(tabId)) {
+    const response = await sendToTab(tabId, { action: "undoInfo" }, frameId);
+    if (response?.undo) tops.push({ frameId, ...response.undo });
+  }
+  if (tops.length === 0) {
+    return {
+      success: false,
+      canUndo: false,
+      message: "Nothing to undo on this page.",
+    };
+  }
+
+  const latest = tops.reduce((a, b) => (b.at > a.at ? b : a));
+  const undone = tops.filter((t) => t.batchId === latest.batchId);
+  let restored = 0;
+  for (const { frameId, batchId } of undone) {
+    const response = await sendToTab(
+      tabId,
+      { action: "undoBatch", batchId },
+      frameId,
+    );
+    restored += response?.restored ?? 0;
+  }
+  const canUndo =
+    tops.some((t) => t.batchId !== latest.batchId) ||
+    undone.some((t) => t.depth > 1);
+
+  if (restored === 0) {
+    return {
+      success: false,
+      restored,
+      canUndo,
+      message: "The filled fields are no longer on the page.",
+    };
+  }
+  return {
+    success: true,
+    restored,
+    canUndo,
+    message: `Restored ${restored} field${restored !== 1 ? "s" : ""} to their previous values.`,
+  };
+}
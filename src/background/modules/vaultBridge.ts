@@ -0,0 +1,78 @@
+/**
+ * @file vaultBridge.ts
+ * @module background/modules
+ *
+ * ─── ROLE IN THE ARCHITECTURE
+ * The profile vault for content scripts. In passphrase mode the unlocked
+ * key and the decrypted userData mirror live in chrome.storage.session,
+ * which stays closed to content scripts (TRUSTED_CONTEXTS) — any page the
+ * content script runs on could otherwise read them. The sidebar therefore
+ * asks the background for vault reads and writes through the "vault"
+ * message, and this file runs them through storageService.
+ *
+ * Only the operations the sidebar needs are allowed: passphrase changes,
+ * lock / unlock and export stay on the options page. Correction prompts
+ * come through here too, since their values are sealed with the vault key.
+ *
+ * WHO IMPORTS THIS FILE:
+ *   • background.ts → "vault" message
+ *
+ * DEPENDENCY DIRECTION:
+ *   background.ts
+ *     └── vaultBridge.ts   ← YOU ARE HERE
+ *           ├── storageService
+ *           └── correctionService (sealed prompt values)
+ */
+
+import { correctionService } from "../../services/correctionService";
+import { storageService } from "../../services/storageService";
+import type { VaultOp } from "../../services/vaultClient";
+import type { UserData } from "../../types";
+
+const OPERATIONS: Record<VaultOp, (args: unknown[]) => Promise<unknown>> = {
+  migrateLegacyData: () => storageService.migrateLegacyData(),
+  listProfiles: () => storageService.listProfiles(),
+  getActiveProfileName: () => storageService.getActiveProfileName(),
+  setActiveProfileName: ([name]) =>
+    storageService.setActiveProfileName(String(name)),
+  loadProfile: ([name]) => storageService.loadProfile(String(name)),
+  saveProfile: ([name, data]) =>
+    storageService.saveProfile(String(name), data as UserData),
+  deleteProfile: ([name]) => storageService.deleteProfile(String(name)),
+  mirrorUserData: ([data]) =>
+    storageService.mirrorUserData(data as Partial<UserData>),
+  readUserDataMirror: () => storageService.readUserDataMirror(),
+  correctionSuggestions: () => correctionService.suggestions(),
+};
+
+/**
+ * handleVaultRequest
+ * ──────────────────
+ * Runs one vault operation for a content script. Errors come back as
+ * { success: false, error, errorName } so the client can rebuild a
+ * VaultLockedError / VaultDecryptError by name.
+ *
+ * CALLED BY: background.ts → "vault" message
+ */
+export async function handleVaultRequest(
+  op: unknown,
+  args: unknown,
+): Promise<{
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  errorName?: string;
+}> {
+  if (typeof op !== "string" || !Object.hasOwn(OPERATIONS, op)) {
+    return { success: false, error: `Unknown vault operation "${String(op)}"` };
+  }
+  try {
+    const result = await OPERATIONS[op as VaultOp](
+      Array.isArray(args) ? args : [],
+    );
+    return { success: true, result };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return { success: false, error: error.message, errorName: error.name };
+  }
+}
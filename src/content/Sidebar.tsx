@@ -3,8 +3,10 @@ import type { Tab } from './modules/sidebar/sidebarTypes';
 import { FillTab } from './modules/sidebar/components/FillTab';
 import { ProfileTab } from './modules/sidebar/components/ProfileTab';
 import { KnowledgeTab } from './modules/sidebar/components/KnowledgeTab';
+import { CoverLetterTab } from './modules/sidebar/components/CoverLetterTab';
 import { LinksTab } from './modules/sidebar/components/LinksTab';
 import { SettingsTab } from './modules/sidebar/components/SettingsTab';
+import { FieldInspector } from './modules/sidebar/components/FieldInspector';
 import { LogoA } from '../components/LogoA';
 import { X } from 'lucide-react';
 
@@ -13,6 +15,19 @@ export default function Sidebar() {
 
     return (
         <div className={state.isDark ? 'av-dark' : ''}>
+            {/* Field inspector overlay (below the panel) */}
+            {state.inspector && (
+                <FieldInspector
+                    items={state.inspector}
+                    pick={state.inspectorPick}
+                    setPick={state.setInspectorPick}
+                    setFieldOverride={state.setFieldOverride}
+                    close={state.toggleInspector}
+                    userData={state.userData}
+                    fileLibrary={state.fileLibrary}
+                />
+            )}
+
             {/* Trigger pill */}
             <div
                 className={`av-trigger ${state.isOpen ? 'av-trigger--open' : 'av-trigger--closed'}`}
@@ -51,6 +66,7 @@ export default function Sidebar() {
                             { id: 'fill', label: 'Fill Form' },
                             { id: 'profile', label: 'My Profile' },
                             { id: 'knowledge', label: 'Memories' },
+                            { id: 'letter', label: 'Letter' },
                             { id: 'links', label: 'Links' },
                             { id: 'settings', label: 'Settings' },
                         ] as { id: Tab; label: string }[]).map(t => (
@@ -74,11 +90,28 @@ export default function Sidebar() {
                                 setActiveTab={state.setActiveTab}
                                 fieldCount={state.fieldCount}
                                 scanFields={state.scanFields}
+                                inspecting={!!state.inspector}
+                                toggleInspector={state.toggleInspector}
                                 isProcessing={state.isProcessing}
                                 matchingMode={state.matchingMode}
                                 handleFill={state.handleFill}
                                 fillStatus={state.fillStatus}
                                 apiKey={state.apiKey}
+                                previewRows={state.previewRows}
+                                updatePreviewValue={state.updatePreviewValue}
+                                togglePreviewRow={state.togglePreviewRow}
+                                togglePreviewWhy={state.togglePreviewWhy}
+                                confirmPreview={state.confirmPreview}
+                                cancelPreview={state.cancelPreview}
+                                canUndo={state.canUndo}
+                                handleUndoFill={state.handleUndoFill}
+                                fillReport={state.fillReport}
+                                dismissFillReport={state.dismissFillReport}
+                                correctionSuggestions={state.correctionSuggestions}
+                                acceptCorrectionSuggestion={state.acceptCorrectionSuggestion}
+                                dismissCorrectionSuggestion={state.dismissCorrectionSuggestion}
+                                autopilot={state.autopilot}
+                                controlAutopilot={state.controlAutopilot}
                             />
                         )}
                         {state.activeTab === 'profile' && (
@@ -131,6 +164,29 @@ export default function Sidebar() {
                                 saveMsg={state.saveMsg}
                             />
                         )}
+                        {state.activeTab === 'letter' && (
+                            <CoverLetterTab
+                                letterCompany={state.letterCompany}
+                                setLetterCompany={state.setLetterCompany}
+                                letterRole={state.letterRole}
+                                setLetterRole={state.setLetterRole}
+                                jobDescription={state.jobDescription}
+                                setJobDescription={state.setJobDescription}
+                                letterTone={state.letterTone}
+                                setLetterTone={state.setLetterTone}
+                                letterLength={state.letterLength}
+                                setLetterLength={state.setLetterLength}
+                                letterFormat={state.letterFormat}
+                                setLetterFormat={state.setLetterFormat}
+                                coverLetter={state.coverLetter}
+                                setCoverLetter={state.setCoverLetter}
+                                letterBusy={state.letterBusy}
+                                letterStatus={state.letterStatus}
+                                captureJobDescription={state.captureJobDescription}
+                                generateCoverLetter={state.generateCoverLetter}
+                                saveCoverLetter={state.saveCoverLetter}
+                            />
+                        )}
                         {state.activeTab === 'links' && (
                             <LinksTab
                                 userData={state.userData}
@@ -158,6 +214,10 @@ export default function Sidebar() {
                                 setMatchingMode={state.setMatchingMode}
                                 autoSubmit={state.autoSubmit}
                                 setAutoSubmit={state.setAutoSubmit}
+                                submitAllowed={state.submitAllowed}
+                                setSubmitAllowed={state.setSubmitAllowed}
+                                fillPreview={state.fillPreview}
+                                setFillPreview={state.setFillPreview}
                             />
                         )}
                     </div>
@@ -3,7 +3,10 @@ import { showToast } from './modules/contents/toastSystem';
 import { initSPAWatcher } from './modules/contents/spaWatcher';
 import { initShortcutFiller, extractAllFields } from './modules/contents/shortcutFiller';
 import { initWebAuthSync } from './modules/contents/webAuthSync';
-import { fillFormField, clickNextButton, clickPrevButton } from '../services/formAnalyzer';
+import { requestFillPreview } from './modules/contents/fillPreviewBus';
+import { recordFill, initUndoShortcut, latestFill, undoFillBatch } from './modules/contents/fillUndo';
+import { watchForCorrections } from './modules/contents/correctionWatcher';
+import { fillFormField, clickNextButton, clickPrevButton, verifyFilledFields, reportMissingFields, extractJobPosting, extractFormFields } from '../services/formAnalyzer';
 import type { ChromeMessage, ChromeResponse, FieldMapping } from '../types';
 import './sidebar.css';
 
@@ -17,6 +20,7 @@ function init() {
         injectSidebar();
         initSPAWatcher();
         initShortcutFiller();
+        initUndoShortcut();
         initWebAuthSync();
     }
 }
@@ -56,17 +60,29 @@ chrome.runtime.onMessage.addListener(
                     const resumeFileName = request.data?.resumeFileName;
                     const result = await chrome.storage.local.get("autoSubmit");
                     const autoSubmit = result.autoSubmit as boolean;
-                    let filledCount = 0;
-                    for (const mapping of mappings) {
-                        try {
-                            if (mapping.selectedValue !== undefined) {
-                                if (await fillFormField(mapping, mapping.selectedValue, { resumeFileData, resumeFileName, autoSubmit })) {
-                                    filledCount++;
+                    const filledIds: string[] = [];
+                    // Snapshot first so the sidebar / Alt+Z can undo this batch
+                    await recordFill(async () => {
+                        for (const mapping of mappings) {
+                            try {
+                                if (mapping.selectedValue !== undefined) {
+                                    if (await fillFormField(mapping, mapping.selectedValue, { resumeFileData, resumeFileName, autoSubmit })) {
+                                        filledIds.push(mapping.id || mapping.fieldId);
+                                    }
                                 }
-                            }
-                        } catch (err) { }
-                    }
-                    sendResponse({ success: true, filledCount, total: mappings.length });
+                            } catch (err) { }
+                        }
+                    }, request.data?.fillBatch);
+                    // Let frameworks re-render / validate, then read every filled value back
+                    await new Promise(r => setTimeout(r, 400));
+                    const verification = [
+                        ...verifyFilledFields(mappings.filter(m => filledIds.includes(m.id || m.fieldId))),
+                        // Fields whose element vanished between scan and fill
+                        ...reportMissingFields(mappings.filter(m => !filledIds.includes(m.id || m.fieldId))),
+                    ];
+                    // Learn from whatever the user fixes by hand next
+                    watchForCorrections(mappings, filledIds, request.data?.fieldSignature);
+                    sendResponse({ success: true, filledCount: filledIds.length, filledIds, total: mappings.length, verification });
                 } catch (err: any) {
                     sendResponse({ success: false, error: err.message });
                 }
@@ -74,9 +90,44 @@ chrome.runtime.onMessage.addListener(
             return true;
         }
 
-        if (request.action === 'clickNext') {
-            const { success, message } = clickNextButton();
-            sendResponse({ success, message });
+        // Only the top frame hosts the sidebar, so only it answers previews
+        if (request.action === 'previewFill' && window === window.top) {
+            const mappings = (request.data?.fieldMappings || []) as FieldMapping[];
+            requestFillPreview(mappings).then((approved) => {
+                sendResponse(approved
+                    ? { success: true, mappings: approved }
+                    : { success: true, mappings: [], cancelled: true });
+            });
+            return true;
+        }
+
+        // Company / role for the application tracker (top frame only)
+        if (request.action === 'extractJobInfo' && window === window.top) {
+            sendResponse({ success: true, job: extractJobPosting() });
+            return false;
+        }
+
+        // Sidebar field count (background "countFrameFields")
+        if (request.action === 'countFields') {
+            sendResponse({ success: true, fieldCount: extractFormFields().length });
+            return false;
+        }
+
+        // Undo across frames (background "undoLastFill")
+        if (request.action === 'undoInfo') {
+            sendResponse({ success: true, undo: latestFill() });
+            return false;
+        }
+
+        if (request.action === 'undoBatch' && request.batchId) {
+            sendResponse({ success: true, restored: undoFillBatch(request.batchId) });
+            return false;
+        }
+
+        // A broadcast reaches every frame; a sub-frame only clicks when the message names its frame
+        if (request.action === 'clickNext' && (window === window.top || request.frameId !== undefined)) {
+            const { success, message, blocked, kind } = clickNextButton({ allowSubmit: !!request.allowSubmit });
+            sendResponse({ success, message, blocked, submitted: success && kind === 'submit' });
             return false;
         }
 
@@ -90,4 +141,4 @@ chrome.runtime.onMessage.addListener(
     }
 );
 
-console.log('🚗 Aullevo content script loaded! Press Alt+F to fill, Alt+A to toggle sidebar.');
\ No newline at end of file
+console.log('🚗 Aullevo content script loaded! Press Alt+F to fill, Alt+Z to undo, Alt+A to toggle sidebar.');
\ No newline at end of file
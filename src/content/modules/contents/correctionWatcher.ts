@@ -0,0 +1,99 @@
+/*
+   CORRECTION WATCHER — notices when the user fixes a field right after a fill
+
+   Both fill paths (background "fillForm", Alt+F shortcut) hand their
+   filled mappings to watchForCorrections(). For a few minutes, a trusted
+   "change" on one of those elements (the user, not Aullevo's synthetic
+   events) that leaves a different value is reported to the background as
+   "recordCorrection"; background/modules/correctionLearner works out what
+   the new value is and learns from it. A new fill replaces the watch.
+*/
+
+import type { FieldEdit, FieldMapping } from "../../../types";
+import { locateField } from "../../../services/formAnalyzer";
+
+const WATCH_MS = 3 * 60 * 1000;
+
+// Inputs whose value is typed text (checkboxes, radios and files are not)
+const TEXT_INPUT_TYPES = new Set([
+  "text",
+  "email",
+  "tel",
+  "url",
+  "number",
+  "search",
+  "date",
+  "month",
+]);
+
+let stopWatching: (() => void) | null = null;
+
+/** The value the user sees, or null for elements that can't be corrected this way. */
+function readValue(el: Element): string | null {
+  if (el instanceof HTMLSelectElement) {
+    return el.selectedOptions[0]?.text.trim() ?? "";
+  }
+  if (el instanceof HTMLTextAreaElement) return el.value.trim();
+  if (el instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(el.type)) {
+    return el.value.trim();
+  }
+  return null;
+}
+
+function report(fieldSignature: string, edit: FieldEdit) {
+  chrome.runtime.sendMessage(
+    {
+      action: "recordCorrection",
+      tabUrl: location.href,
+      data: { fieldSignature },
+      edit,
+    },
+    () => void chrome.runtime.lastError,
+  );
+}
+
+export function watchForCorrections(
+  mappings: FieldMapping[],
+  filledIds: string[],
+  fieldSignature: string | undefined,
+) {
+  stopWatching?.();
+  if (!fieldSignature) return;
+
+  const filled = new Set(filledIds);
+  const watched: [Element, (e: Event) => void][] = [];
+  for (const mapping of mappings) {
+    const id = mapping.id || mapping.fieldId;
+    // AI answers are rewritten freely — that is editing, not correcting
+    if (!filled.has(id) || mapping.fieldType === "custom_question") continue;
+    const el = locateField(mapping)?.element ?? null;
+    const filledValue = el ? readValue(el) : null;
+    if (!el || filledValue === null) continue;
+
+    const onChange = (e: Event) => {
+      if (!e.isTrusted) return;
+      const value = readValue(el);
+      if (!value || value === filledValue) return;
+      report(fieldSignature, {
+        fieldId: id,
+        label: mapping.compoundLabel || mapping.label || "",
+        fieldType: mapping.fieldType,
+        groupType: mapping.groupType,
+        groupIndex: mapping.groupIndex,
+        value,
+      });
+    };
+    el.addEventListener("change", onChange);
+    watched.push([el, onChange]);
+  }
+  if (watched.length === 0) return;
+
+  const timer = setTimeout(() => stopWatching?.(), WATCH_MS);
+  stopWatching = () => {
+    clearTimeout(timer);
+    watched.forEach(([el, onChange]) =>
+      el.removeEventListener("change", onChange),
+    );
+    stopWatching = null;
+  };
+}
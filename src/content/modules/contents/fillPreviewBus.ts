@@ -0,0 +1,37 @@
+/*
+   FILL PREVIEW BUS — hands resolved mappings to the sidebar for review
+
+   Both fill paths (the autopilot's runFormStep via "previewFill", and the
+   Alt+F shortcut) resolve values first, then call requestFillPreview().
+   The sidebar registers the handler that shows the preview and settles
+   the promise with the approved (possibly edited) mappings, or null if
+   the user cancelled. With no sidebar mounted the request fails closed —
+   nothing is filled without the user seeing it first.
+*/
+
+import type { FieldMapping } from "../../../types";
+
+export type FillPreviewHandler = (
+  mappings: FieldMapping[],
+) => Promise<FieldMapping[] | null>;
+
+let previewHandler: FillPreviewHandler | null = null;
+
+export function setFillPreviewHandler(handler: FillPreviewHandler | null) {
+  previewHandler = handler;
+}
+
+export async function isFillPreviewEnabled(): Promise<boolean> {
+  const stored = await chrome.storage.local.get("fillPreview");
+  return !!stored.fillPreview;
+}
+
+export function requestFillPreview(
+  mappings: FieldMapping[],
+): Promise<FieldMapping[] | null> {
+  if (!previewHandler) {
+    console.warn("Aullevo: Fill preview requested but the sidebar is not mounted.");
+    return Promise.resolve(null);
+  }
+  return previewHandler(mappings);
+}
@@ -0,0 +1,113 @@
+/*
+   FILL UNDO — snapshot fields before each fill, restore on demand
+
+   Every fill batch (background "fillForm", Alt+F shortcut) runs through
+   recordFill(), which snapshots the page's controls first and keeps the
+   previous state of whatever the fill changed. Each frame keeps its own
+   stack; a fill that spans frames records the same batch id in each, and
+   the background's undoLastFill (frameRegistry) restores the newest batch
+   in every frame that holds it. Repeated undos walk further back.
+   Reachable from the sidebar's "Undo last fill" button and Alt+Z.
+*/
+
+import { showToast } from "./toastSystem";
+import {
+  captureFormState,
+  diffFormState,
+  restoreFormState,
+  type ElementSnapshot,
+} from "../../../services/formAnalyzer";
+
+const MAX_UNDO_STEPS = 10;
+
+interface UndoEntry {
+  batchId: string;
+  at: number;
+  snapshots: ElementSnapshot[];
+}
+
+const undoStack: UndoEntry[] = [];
+const listeners = new Set<(canUndo: boolean) => void>();
+
+function notify() {
+  const canUndo = undoStack.length > 0;
+  listeners.forEach((l) => l(canUndo));
+}
+
+export function canUndoFill(): boolean {
+  return undoStack.length > 0;
+}
+
+/** Subscribe to undo availability. Returns the unsubscribe function. */
+export function onUndoAvailabilityChange(
+  listener: (canUndo: boolean) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function recordFill<T>(
+  fill: () => Promise<T>,
+  batchId: string = crypto.randomUUID(),
+): Promise<T> {
+  const before = captureFormState();
+  try {
+    return await fill();
+  } finally {
+    const changed = diffFormState(before);
+    if (changed.length > 0) {
+      undoStack.push({ batchId, at: Date.now(), snapshots: changed });
+      if (undoStack.length > MAX_UNDO_STEPS) undoStack.shift();
+      notify();
+    }
+  }
+}
+
+/** The newest fill in this frame, for the background's undoLastFill. */
+export function latestFill(): { batchId: string; at: number; depth: number } | undefined {
+  const top = undoStack[undoStack.length - 1];
+  return top && { batchId: top.batchId, at: top.at, depth: undoStack.length };
+}
+
+/** Restores the newest fill if it is `batchId`. Returns the fields put back. */
+export function undoFillBatch(batchId: string): number {
+  if (undoStack[undoStack.length - 1]?.batchId !== batchId) return 0;
+  const entry = undoStack.pop();
+  notify();
+  return entry ? restoreFormState(entry.snapshots) : 0;
+}
+
+/** Undoes the last fill in every frame of the tab (see frameRegistry). */
+export function requestUndo(): Promise<{ success: boolean; message: string; canUndo: boolean }> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ action: "undoLastFill" }, (response) => {
+      if (chrome.runtime.lastError || !response) {
+        resolve({
+          success: false,
+          message: chrome.runtime.lastError?.message || "Undo failed.",
+          canUndo: canUndoFill(),
+        });
+        return;
+      }
+      resolve({
+        success: !!response.success,
+        message: response.message || response.error || "Undo failed.",
+        canUndo: !!response.canUndo,
+      });
+    });
+  });
+}
+
+export function initUndoShortcut() {
+  document.addEventListener("keydown", (e) => {
+    if (e.altKey && (e.key === "z" || e.key === "Z")) {
+      e.preventDefault();
+      e.stopPropagation();
+      requestUndo().then(({ success, message }) =>
+        showToast(`${success ? "↩️" : "⚠️"} ${message}`, success ? "success" : "error"),
+      );
+    }
+  });
+}
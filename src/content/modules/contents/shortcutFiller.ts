@@ -1,16 +1,15 @@
 import { showToast } from "./toastSystem";
 import {
   extractFormFields,
-  fillFormField,
-  clickNextButton,
-  clickElement,
   detectPageCaptcha,
   findChatInputField,
   extractChatContext,
   fillChatInputField,
   submitChatField,
+  verificationProblems,
 } from "../../../services/formAnalyzer";
-import type { FieldMapping, UserData } from "../../../types";
+import type { FieldMapping, FormField, UserData } from "../../../types";
+import { isFillPreviewEnabled, requestFillPreview } from "./fillPreviewBus";
 
 function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
@@ -102,21 +101,24 @@ export async function runShortcutFill() {
   let totalFilled = 0;
   const fingerprintHistory: string[] = [];
   const maxSteps = 30;
+  const preview = await isFillPreviewEnabled();
 
   for (let step = 0; step < maxSteps; step++) {
-    // Collect fields from main frame
-    const { fields, hasCaptcha, captchaTypes } = await extractAllFields();
-
     // CAPTCHA warning
-    if (hasCaptcha) {
+    const captcha = detectPageCaptcha();
+    if (captcha.found) {
       showToast(
-        `🔒 CAPTCHA detected (${captchaTypes.join(", ")}) — fill the CAPTCHA manually, then press Alt+F again`,
+        `🔒 CAPTCHA detected (${captcha.types.join(", ")}) — fill the CAPTCHA manually, then press Alt+F again`,
         "error",
         8000,
       );
       return; // Stop — user must solve CAPTCHA first
     }
 
+    // Collect fields from every frame — application forms are often embedded
+    const scan = await sendToBackground({ action: "scanFrames" });
+    const fields: FormField[] = scan?.success ? scan.fields || [] : [];
+
     if (fields.length === 0) {
       if (step === 0)
         showToast("❌ No form fields found on this page", "error");
@@ -142,7 +144,7 @@ export async function runShortcutFill() {
       return;
     }
 
-    const mappings: FieldMapping[] = aiResponse.mappings || [];
+    let mappings: FieldMapping[] = aiResponse.mappings || [];
     const addButtons: FieldMapping[] = aiResponse.addButtons || [];
     const userData: Partial<UserData> = aiResponse.userData || {};
 
@@ -168,14 +170,47 @@ export async function runShortcutFill() {
     }
     fingerprintHistory.push(currentFingerprint);
 
-    // Fill fields
-    let filledCount = 0;
-    for (const mapping of mappings) {
-      const value = mapping.selectedValue;
-      if (value) {
-        const success = await fillFormField(mapping, value);
-        if (success) filledCount++;
+    // Let the user approve, edit or skip each value before touching the page
+    if (preview) {
+      showToast("👀 Review the proposed values in the sidebar", "info", 4000);
+      const approved = await requestFillPreview(mappings);
+      if (!approved) {
+        showToast("Fill cancelled — no fields were changed.", "info");
+        return;
       }
+      mappings = approved;
+    }
+
+    // Each frame fills its own fields (snapshotted so Alt+Z can undo the
+    // step), reads them back and watches for corrections
+    const fillResponse = await sendToBackground({
+      action: "fillFrames",
+      frameRoutes: scan.frameRoutes,
+      data: {
+        fieldMappings: mappings.filter((m) => m.selectedValue),
+        fieldSignature: aiResponse.fieldSignature,
+      },
+    });
+    if (!fillResponse?.success) {
+      showToast(`❌ ${fillResponse?.error || "Fill failed"}`, "error");
+      return;
+    }
+    const filledIds: string[] = fillResponse.filledIds || [];
+    const filledCount = filledIds.length;
+
+    // Sites may reformat, revert or reject the values
+    const problems = verificationProblems(fillResponse.verification || []);
+    const invalidCount = problems.filter((p) => p.status === "invalid").length;
+
+    // Remember what worked so the next visit replays it (fire and forget)
+    if (filledCount > 0) {
+      sendToBackground({
+        action: "recordSiteRecipe",
+        tabUrl: location.href,
+        fields,
+        filledIds,
+        data: { fieldMappings: [...mappings, ...addButtons] },
+      });
     }
 
     totalFilled += filledCount;
@@ -188,10 +223,21 @@ export async function runShortcutFill() {
       return;
     }
 
-    showToast(
-      `✅ Filled ${filledCount} field${filledCount !== 1 ? "s" : ""}`,
-      "success",
-    );
+    if (problems.length > 0) {
+      showToast(
+        `⚠️ Filled ${filledCount} — ${problems.length} need${problems.length === 1 ? "s" : ""} attention: ${problems
+          .map((p) => p.label || p.fieldId)
+          .slice(0, 3)
+          .join(", ")}${problems.length > 3 ? "…" : ""}`,
+        "error",
+        6000,
+      );
+    } else {
+      showToast(
+        `✅ Filled ${filledCount} field${filledCount !== 1 ? "s" : ""}`,
+        "success",
+      );
+    }
 
     // Handle Add buttons
     let needsReAnalysis = false;
@@ -216,7 +262,11 @@ export async function runShortcutFill() {
 
       if (totalDataItems > maxIndex + 1) {
         showToast(`➕ Adding another ${addMapping.groupType}...`, "info");
-        clickElement(addMapping.id);
+        await sendToBackground({
+          action: "fillFrames",
+          frameRoutes: scan.frameRoutes,
+          data: { fieldMappings: [{ ...addMapping }] },
+        });
         await sleep(1500);
         needsReAnalysis = true;
         break;
@@ -228,15 +278,35 @@ export async function runShortcutFill() {
       continue;
     }
 
-    // Try clicking Next
+    // Don't advance past a step the site is rejecting
+    if (invalidCount > 0) return;
+
+    // Try clicking Next — final submit buttons only on sites the user opted in
     if (filledCount > 0) {
       await sleep(1000);
-      const nextResult = clickNextButton();
+      const { submitAllowedSites } =
+        await chrome.storage.local.get("submitAllowedSites");
+      // In the frame that holds the form
+      const nextResult = await sendToBackground({
+        action: "clickNextInFrame",
+        frameId: scan.formFrameId,
+        allowSubmit: ((submitAllowedSites as string[]) || []).includes(
+          window.location.hostname,
+        ),
+      });
       if (nextResult.success) {
         showToast("➡️ Moving to next step...", "info");
         await sleep(3000);
         continue;
       }
+      if (nextResult.blocked) {
+        showToast(
+          `📝 Filled ${totalFilled} field${totalFilled !== 1 ? "s" : ""}. ${nextResult.message}`,
+          "success",
+          8000,
+        );
+        return;
+      }
     }
 
     break;
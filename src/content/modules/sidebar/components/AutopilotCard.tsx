@@ -0,0 +1,110 @@
+import { Pause, Play, Square, X } from 'lucide-react';
+import type { AutopilotPhase, AutopilotSession, AutopilotFilledField } from '../../../../types';
+
+const PHASE_LABELS: Record<AutopilotPhase, string> = {
+    waiting: 'Waiting for page',
+    scanning: 'Scanning',
+    matching: 'Matching',
+    filling: 'Filling',
+    verifying: 'Verifying',
+    advancing: 'Next step',
+    paused: 'Paused',
+    review: 'Ready to submit',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const TERMINAL: AutopilotPhase[] = ['review', 'done', 'failed', 'cancelled'];
+
+const STATUS_LABELS: Record<AutopilotFilledField['status'], string> = {
+    ok: 'OK',
+    mismatch: 'Changed',
+    empty: 'Cleared',
+    invalid: 'Invalid',
+    unverified: 'Unchecked',
+    missing: 'Not found',
+};
+
+interface AutopilotCardProps {
+    session: AutopilotSession;
+    controlAutopilot: (command: 'pause' | 'resume' | 'cancel' | 'dismiss') => void;
+}
+
+const formatTime = (at: number) =>
+    new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const AutopilotCard = ({ session, controlAutopilot }: AutopilotCardProps) => {
+    const ended = TERMINAL.includes(session.phase);
+    const paused = session.phase === 'paused';
+    const recent = session.history.slice(-4).reverse();
+    const filled = session.filled || [];
+    const steps = new Set(filled.map(f => f.step)).size;
+    const problems = filled.filter(f => f.status === 'mismatch' || f.status === 'empty' || f.status === 'invalid');
+
+    return (
+        <div className="av-card av-autopilot">
+            <div className="av-autopilot__head">
+                <div className="av-autopilot__title">
+                    Autopilot · Step {session.step + 1}
+                    {!session.autoSubmit && <span className="av-autopilot__sub"> (this page only)</span>}
+                </div>
+                <span className={`av-autopilot__phase av-autopilot__phase--${session.phase}`}>
+                    {session.pauseRequested && !paused ? 'Pausing…' : PHASE_LABELS[session.phase]}
+                </span>
+                {ended && (
+                    <button className="av-autopilot__close" onClick={() => controlAutopilot('dismiss')} title="Dismiss">
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+
+            {session.phase === 'review' && (
+                <div className="av-autopilot__summary">
+                    <div className="av-autopilot__summary-line">
+                        Filled {filled.length} field{filled.length !== 1 ? 's' : ''} across {steps} step{steps !== 1 ? 's' : ''}.
+                        Check each page, then submit the application yourself.
+                    </div>
+                    {problems.map((f, i) => (
+                        <div key={`${f.step}-${f.label}-${i}`} className="av-autopilot__summary-row">
+                            <span className="av-autopilot__summary-label" title={f.label}>Step {f.step + 1} · {f.label}</span>
+                            <span className={`av-report__status av-report__status--${f.status}`}>{STATUS_LABELS[f.status]}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="av-autopilot__history">
+                {recent.map(t => (
+                    <div key={`${t.at}-${t.phase}`} className="av-autopilot__entry">
+                        <span className="av-autopilot__time">{formatTime(t.at)}</span>
+                        <span className="av-autopilot__entry-text">
+                            {PHASE_LABELS[t.phase]}{t.note ? ` — ${t.note}` : ''}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {!ended && (
+                <div className="av-autopilot__actions">
+                    {paused ? (
+                        <button className="av-autopilot__btn" onClick={() => controlAutopilot('resume')}>
+                            <Play size={12} /> Resume
+                        </button>
+                    ) : (
+                        <button
+                            className="av-autopilot__btn"
+                            onClick={() => controlAutopilot('pause')}
+                            disabled={session.pauseRequested}
+                        >
+                            <Pause size={12} /> Pause
+                        </button>
+                    )}
+                    <button className="av-autopilot__btn av-autopilot__btn--danger" onClick={() => controlAutopilot('cancel')}>
+                        <Square size={12} /> Cancel
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,31 @@
+import { Lightbulb, X } from 'lucide-react';
+import type { CorrectionSuggestion } from '../../../../types';
+
+interface CorrectionPromptProps {
+    suggestion: CorrectionSuggestion;
+    acceptCorrectionSuggestion: (suggestion: CorrectionSuggestion) => void;
+    dismissCorrectionSuggestion: (key: string) => void;
+}
+
+export const CorrectionPrompt = ({ suggestion, acceptCorrectionSuggestion, dismissCorrectionSuggestion }: CorrectionPromptProps) => (
+    <div className="av-card av-correction">
+        <div className="av-correction__head">
+            <span className="av-correction__icon"><Lightbulb size={14} /></span>
+            <div className="av-correction__text">
+                You corrected <strong>"{suggestion.label}"</strong> {suggestion.count}× — save
+                {' '}<strong>"{suggestion.value}"</strong> as a custom field?
+            </div>
+            <button className="av-correction__close" onClick={() => dismissCorrectionSuggestion(suggestion.key)} title="Don't ask again">
+                <X size={12} />
+            </button>
+        </div>
+        <div className="av-correction__actions">
+            <button className="av-autopilot__btn" onClick={() => acceptCorrectionSuggestion(suggestion)}>
+                Save
+            </button>
+            <button className="av-autopilot__btn" onClick={() => dismissCorrectionSuggestion(suggestion.key)}>
+                Dismiss
+            </button>
+        </div>
+    </div>
+);
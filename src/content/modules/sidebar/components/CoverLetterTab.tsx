@@ -0,0 +1,126 @@
+import { Save, ScanText, Sparkles } from 'lucide-react';
+import type { CoverLetterLength, CoverLetterTone } from '../../../../types';
+import type { FillStatus } from '../sidebarTypes';
+
+const TONES: { id: CoverLetterTone; label: string }[] = [
+    { id: 'professional', label: 'Professional' },
+    { id: 'warm', label: 'Warm' },
+    { id: 'enthusiastic', label: 'Enthusiastic' },
+    { id: 'direct', label: 'Direct' },
+];
+
+const LENGTHS: { id: CoverLetterLength; label: string }[] = [
+    { id: 'short', label: 'Short (~175 words)' },
+    { id: 'medium', label: 'Medium (~300 words)' },
+    { id: 'long', label: 'Long (~425 words)' },
+];
+
+interface CoverLetterTabProps {
+    letterCompany: string;
+    setLetterCompany: (company: string) => void;
+    letterRole: string;
+    setLetterRole: (role: string) => void;
+    jobDescription: string;
+    setJobDescription: (text: string) => void;
+    letterTone: CoverLetterTone;
+    setLetterTone: (tone: CoverLetterTone) => void;
+    letterLength: CoverLetterLength;
+    setLetterLength: (length: CoverLetterLength) => void;
+    letterFormat: 'pdf' | 'docx';
+    setLetterFormat: (format: 'pdf' | 'docx') => void;
+    coverLetter: string;
+    setCoverLetter: (text: string) => void;
+    letterBusy: boolean;
+    letterStatus: FillStatus;
+    captureJobDescription: () => void;
+    generateCoverLetter: () => void;
+    saveCoverLetter: () => void;
+}
+
+export const CoverLetterTab = ({
+    letterCompany,
+    setLetterCompany,
+    letterRole,
+    setLetterRole,
+    jobDescription,
+    setJobDescription,
+    letterTone,
+    setLetterTone,
+    letterLength,
+    setLetterLength,
+    letterFormat,
+    setLetterFormat,
+    coverLetter,
+    setCoverLetter,
+    letterBusy,
+    letterStatus,
+    captureJobDescription,
+    generateCoverLetter,
+    saveCoverLetter,
+}: CoverLetterTabProps) => (
+    <div className="av-profile-tab">
+        <div className="av-settings__how-card" style={{ marginBottom: 10 }}>
+            <div className="av-settings__how-title">Tailored Cover Letter</div>
+            <p>Capture the job posting from this page, generate a letter from your profile, and save it. Saved letters are attached to "Cover letter" upload fields automatically.</p>
+        </div>
+
+        <button className="av-save-btn" onClick={captureJobDescription} disabled={letterBusy}>
+            <ScanText size={14} /> Capture Job Posting
+        </button>
+
+        <div className="av-cf-form" style={{ marginTop: 10 }}>
+            <div className="av-cf-form__row">
+                <input className="av-input" placeholder="Company" value={letterCompany} onChange={e => setLetterCompany(e.target.value)} />
+                <input className="av-input" placeholder="Role" value={letterRole} onChange={e => setLetterRole(e.target.value)} />
+            </div>
+            <textarea
+                className="av-input"
+                placeholder="Job description — captured from the page, or paste it here…"
+                rows={6}
+                value={jobDescription}
+                onChange={e => setJobDescription(e.target.value)}
+            />
+            <div className="av-cf-form__row">
+                <select className="av-input av-letter__select" value={letterTone} onChange={e => setLetterTone(e.target.value as CoverLetterTone)}>
+                    {TONES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+                <select className="av-input av-letter__select" value={letterLength} onChange={e => setLetterLength(e.target.value as CoverLetterLength)}>
+                    {LENGTHS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                </select>
+            </div>
+            <button className="av-save-btn" onClick={generateCoverLetter} disabled={letterBusy || !jobDescription.trim()}>
+                <Sparkles size={14} /> {coverLetter ? 'Regenerate' : 'Generate Cover Letter'}
+            </button>
+        </div>
+
+        {letterStatus.message && (
+            <div className={`av-status av-status--${letterStatus.type}`}>
+                {letterStatus.message}
+            </div>
+        )}
+
+        {coverLetter && (
+            <div className="av-cf-form" style={{ marginTop: 10 }}>
+                <textarea
+                    className="av-input av-letter__text"
+                    rows={14}
+                    value={coverLetter}
+                    onChange={e => setCoverLetter(e.target.value)}
+                />
+                <div className="av-cf-form__row">
+                    <select
+                        className="av-input av-letter__select"
+                        value={letterFormat}
+                        onChange={e => setLetterFormat(e.target.value as 'pdf' | 'docx')}
+                    >
+                        <option value="pdf">PDF</option>
+                        <option value="docx">Word (DOCX)</option>
+                    </select>
+                    <button className="av-save-btn" style={{ flex: 2 }} onClick={saveCoverLetter} disabled={letterBusy || !coverLetter.trim()}>
+                        <Save size={14} /> Save to Library & Memories
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+);
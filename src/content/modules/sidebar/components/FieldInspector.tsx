@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import type { UserData, SavedFile, FormField, CustomField } from '../../../../types';
+import type { InspectorItem, InspectorStatus } from '../sidebarTypes';
+import { FILE_PREFIX, SKIP_FIELD } from '../../../../services/fieldOverrideService';
+
+const STATUS_LABELS: Record<InspectorStatus, string> = {
+    matched: 'Matched',
+    'needs-input': 'Needs input',
+    unmatched: 'Unmatched',
+    honeypot: 'Honeypot',
+    captcha: 'CAPTCHA',
+};
+
+const STATUS_ORDER = Object.keys(STATUS_LABELS) as InspectorStatus[];
+
+interface OverrideGroup {
+    label: string;
+    options: { value: string; label: string }[];
+}
+
+// "zipCode" → "Zip code"
+const humanizeKey = (key: string) => {
+    const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const preview = (text: string) => (text.length > 32 ? `${text.slice(0, 31)}…` : text);
+
+/** Everything a field can be mapped to: profile values, custom fields, memories, links and files. */
+const buildOptionGroups = (userData: Partial<UserData>, fileLibrary: SavedFile[]): OverrideGroup[] => {
+    const profile = Object.entries(userData)
+        .filter(([key, value]) => key !== 'profileType' && typeof value === 'string' && value.trim() !== '')
+        .map(([key, value]) => ({ value: key, label: `${humanizeKey(key)} — ${preview(value as string)}` }));
+    if (!userData.fullName && userData.firstName && userData.lastName) {
+        profile.unshift({ value: 'fullName', label: `Full name — ${userData.firstName} ${userData.lastName}` });
+    }
+    if ((userData.skills || []).length > 0) {
+        profile.push({ value: 'skill', label: `Skills — ${preview((userData.skills || []).join(', '))}` });
+    }
+    return [
+        { label: 'Profile', options: profile },
+        {
+            label: 'Custom fields',
+            options: ((userData.customFields as CustomField[]) || []).map(cf => ({ value: `custom_field:${cf.label}`, label: `${cf.label} — ${preview(cf.value)}` })),
+        },
+        { label: 'Memories', options: (userData.memories || []).map(m => ({ value: `memory:${m.id}`, label: m.title })) },
+        { label: 'Links', options: (userData.savedLinks || []).map(l => ({ value: `link:${l.id}`, label: `${l.title} — ${preview(l.url)}` })) },
+        { label: 'Files', options: fileLibrary.map(f => ({ value: `${FILE_PREFIX}${f.id}`, label: f.name })) },
+    ].filter(g => g.options.length > 0);
+};
+
+const describe = (item: InspectorItem) => {
+    const label = item.field ? (item.field.compoundLabel || item.field.label || item.field.name || item.field.id) : 'Skipped element';
+    const target = item.override?.fieldType === SKIP_FIELD ? ' → left empty' : item.mapping ? ` → ${item.mapping.fieldType}` : '';
+    return `${label}: ${STATUS_LABELS[item.status]}${target}${item.override ? ' (mapped by you)' : ''}`;
+};
+
+interface OverridePickerProps {
+    item: InspectorItem & { field: FormField };
+    groups: OverrideGroup[];
+    setFieldOverride: (field: FormField, fieldType: string | null) => void;
+    cancel: () => void;
+}
+
+const OverridePicker = ({ item, groups, setFieldOverride, cancel }: OverridePickerProps) => {
+    const [choice, setChoice] = useState(item.override?.fieldType ?? '');
+    const rect = item.element.getBoundingClientRect();
+    const top = Math.max(8, Math.min(rect.bottom + 6, window.innerHeight - 200));
+    const left = Math.max(8, Math.min(rect.left, window.innerWidth - 300));
+
+    return (
+        <div className="av-inspector__picker" style={{ top, left }}>
+            <div className="av-inspector__picker-head">
+                <span className="av-inspector__picker-label" title={describe(item)}>
+                    {item.field.compoundLabel || item.field.label || item.field.name || item.field.id}
+                </span>
+                <button className="av-inspector__picker-close" onClick={cancel} title="Close">
+                    <X size={12} />
+                </button>
+            </div>
+            <div className="av-inspector__picker-current">
+                {item.mapping ? `Now: ${item.mapping.fieldType}` : 'Not mapped'}
+                {item.override && ' · mapped by you'}
+            </div>
+            <select className="av-inspector__picker-select" value={choice} onChange={e => setChoice(e.target.value)}>
+                <option value="">Choose what to fill…</option>
+                {groups.map(g => (
+                    <optgroup key={g.label} label={g.label}>
+                        {g.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </optgroup>
+                ))}
+                <option value={SKIP_FIELD}>Never fill on this site</option>
+            </select>
+            <div className="av-inspector__picker-actions">
+                <button className="av-autopilot__btn" disabled={!choice} onClick={() => setFieldOverride(item.field, choice)}>
+                    Save for this site
+                </button>
+                {item.override && (
+                    <button className="av-autopilot__btn av-autopilot__btn--danger" onClick={() => setFieldOverride(item.field, null)}>
+                        Reset
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface FieldInspectorProps {
+    items: InspectorItem[];
+    pick: string | null;
+    setPick: (key: string | null) => void;
+    setFieldOverride: (field: FormField, fieldType: string | null) => void;
+    close: () => void;
+    userData: Partial<UserData>;
+    fileLibrary: SavedFile[];
+}
+
+export const FieldInspector = ({ items, pick, setPick, setFieldOverride, close, userData, fileLibrary }: FieldInspectorProps) => {
+    // Outlines are measured on render — re-render when the page moves under them
+    const [, setFrame] = useState(0);
+    useEffect(() => {
+        let raf = 0;
+        const remeasure = () => {
+            cancelAnimationFrame(raf);
+            raf = requestAnimationFrame(() => setFrame(f => f + 1));
+        };
+        window.addEventListener('scroll', remeasure, true);
+        window.addEventListener('resize', remeasure);
+        return () => {
+            cancelAnimationFrame(raf);
+            window.removeEventListener('scroll', remeasure, true);
+            window.removeEventListener('resize', remeasure);
+        };
+    }, []);
+
+    const picked = items.find(i => i.key === pick);
+    const counts = STATUS_ORDER
+        .map(status => ({ status, count: items.filter(i => i.status === status).length }))
+        .filter(c => c.count > 0);
+
+    return (
+        <div className="av-inspector">
+            {items.map(item => {
+                const rect = item.element.getBoundingClientRect();
+                if (rect.width === 0 && rect.height === 0) return null;
+                const mappable = !!item.field;
+                return (
+                    <div
+                        key={item.key}
+                        className={[
+                            'av-inspector__box',
+                            `av-inspector__box--${item.status}`,
+                            item.override ? 'av-inspector__box--override' : '',
+                            mappable ? '' : 'av-inspector__box--static',
+                            item.key === pick ? 'av-inspector__box--picked' : '',
+                        ].join(' ')}
+                        style={{ top: rect.top, left: rect.left, width: rect.width, height: rect.height }}
+                        title={describe(item)}
+                        onClick={mappable ? () => setPick(item.key) : undefined}
+                    />
+                );
+            })}
+
+            {picked?.field && (
+                <OverridePicker
+                    key={picked.key}
+                    item={picked as InspectorItem & { field: FormField }}
+                    groups={buildOptionGroups(userData, fileLibrary)}
+                    setFieldOverride={setFieldOverride}
+                    cancel={() => setPick(null)}
+                />
+            )}
+
+            <div className="av-inspector__legend">
+                <span className="av-inspector__legend-icon"><Crosshair size={13} /></span>
+                {counts.map(({ status, count }) => (
+                    <span key={status} className={`av-inspector__chip av-inspector__chip--${status}`}>
+                        {count} {STATUS_LABELS[status]}
+                    </span>
+                ))}
+                <span className="av-inspector__hint">Click a field to map it</span>
+                <button className="av-inspector__done" onClick={close}>Done</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import { Check, X, Paperclip, Sparkles, HelpCircle } from 'lucide-react';
+import type { FillValueSource } from '../../../../types';
+import { isFileMapping, type FillPreviewRow } from '../sidebarTypes';
+
+const SOURCE_LABELS: Record<FillValueSource, string> = {
+    profile: 'Profile',
+    custom_field: 'Custom field',
+    memory: 'Memory',
+    link: 'Link',
+    ai_answer: 'AI answer',
+    file: 'File',
+    recipe: 'Saved recipe',
+    matcher: 'Matcher',
+    manual: 'Manual',
+};
+
+interface FillPreviewProps {
+    rows: FillPreviewRow[];
+    updatePreviewValue: (index: number, value: string) => void;
+    togglePreviewRow: (index: number) => void;
+    togglePreviewWhy: (index: number) => void;
+    confirmPreview: () => void;
+    cancelPreview: () => void;
+}
+
+export const FillPreview = ({
+    rows,
+    updatePreviewValue,
+    togglePreviewRow,
+    togglePreviewWhy,
+    confirmPreview,
+    cancelPreview,
+}: FillPreviewProps) => {
+    const selected = rows.filter(r => r.include).length;
+
+    return (
+        <div className="av-card av-preview">
+            <div className="av-preview__head">
+                <div className="av-preview__title">Review before filling</div>
+                <div className="av-preview__sub">{selected} of {rows.length} field{rows.length !== 1 ? 's' : ''} selected</div>
+            </div>
+
+            <div className="av-preview__list">
+                {rows.map((row, i) => {
+                    const { mapping } = row;
+                    const source = row.edited ? 'manual' : mapping.valueSource;
+                    const label = mapping.label || mapping.originalQuestion || mapping.name || mapping.fieldId;
+                    const long = mapping.valueSource === 'ai_answer' || row.value.length > 60;
+                    const explained = !!mapping.reasoning || (mapping.candidates?.length ?? 0) > 0;
+                    return (
+                        <div key={`${mapping.fieldId}-${i}`} className={`av-preview__row ${row.include ? '' : 'av-preview__row--skipped'}`}>
+                            <div className="av-preview__row-head">
+                                <span className="av-preview__label" title={label}>{label}</span>
+                                <button
+                                    className={`av-preview__toggle ${row.include ? 'av-preview__toggle--on' : ''}`}
+                                    onClick={() => togglePreviewRow(i)}
+                                    title={row.include ? 'Skip this field' : 'Fill this field'}
+                                >
+                                    {row.include ? <Check size={11} /> : <X size={11} />}
+                                    {row.include ? 'Fill' : 'Skip'}
+                                </button>
+                            </div>
+
+                            {isFileMapping(mapping) ? (
+                                <div className="av-preview__file"><Paperclip size={12} /> {row.value}</div>
+                            ) : long ? (
+                                <textarea
+                                    className="av-input"
+                                    value={row.value}
+                                    onChange={e => updatePreviewValue(i, e.target.value)}
+                                    placeholder="No value — type one to fill this field"
+                                />
+                            ) : (
+                                <input
+                                    className="av-input"
+                                    value={row.value}
+                                    onChange={e => updatePreviewValue(i, e.target.value)}
+                                    placeholder="No value — type one to fill this field"
+                                />
+                            )}
+
+                            <div className="av-preview__meta">
+                                {source && (
+                                    <span className={`av-preview__source av-preview__source--${source}`}>{SOURCE_LABELS[source]}</span>
+                                )}
+                                {!row.edited && mapping.sourceDetail && (
+                                    <span className="av-preview__detail" title={mapping.sourceDetail}>{mapping.sourceDetail}</span>
+                                )}
+                                <span className="av-preview__confidence">{Math.round((mapping.confidence || 0) * 100)}%</span>
+                                {explained && (
+                                    <button
+                                        className={`av-preview__why-btn ${row.showWhy ? 'av-preview__why-btn--open' : ''}`}
+                                        onClick={() => togglePreviewWhy(i)}
+                                        title="Why did it pick this?"
+                                    >
+                                        <HelpCircle size={11} /> Why?
+                                    </button>
+                                )}
+                            </div>
+
+                            {explained && row.showWhy && (
+                                <div className="av-preview__why">
+                                    {mapping.reasoning && !mapping.candidates?.some(c => c.fieldType === mapping.fieldType) && (
+                                        <div className="av-preview__candidate av-preview__candidate--picked">{mapping.reasoning}</div>
+                                    )}
+                                    {mapping.candidates?.map(c => (
+                                        <div
+                                            key={c.fieldType}
+                                            className={`av-preview__candidate ${c.fieldType === mapping.fieldType ? 'av-preview__candidate--picked' : ''}`}
+                                        >
+                                            <div className="av-preview__candidate-head">
+                                                <span>{c.fieldType}</span>
+                                                <span>{c.score > 0 ? '+' : ''}{c.score}</span>
+                                            </div>
+                                            <ul>
+                                                {c.reasons.map((r, j) => <li key={j}>{r}</li>)}
+                                            </ul>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="av-preview__actions">
+                <button className="av-preview__cancel" onClick={cancelPreview}>Cancel</button>
+                <button
+                    className={`av-fill-btn av-preview__confirm ${selected === 0 ? 'av-fill-btn--disabled' : ''}`}
+                    onClick={confirmPreview}
+                    disabled={selected === 0}
+                >
+                    <span className="av-fill-btn__icon"><Sparkles size={14} /></span>
+                    Fill {selected} Field{selected !== 1 ? 's' : ''}
+                </button>
+            </div>
+        </div>
+    );
+};
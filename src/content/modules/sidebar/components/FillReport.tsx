@@ -0,0 +1,56 @@
+import { ShieldCheck, AlertTriangle, X } from 'lucide-react';
+import type { FieldVerification } from '../../../../types';
+
+const STATUS_LABELS: Record<FieldVerification['status'], string> = {
+    ok: 'OK',
+    mismatch: 'Changed',
+    empty: 'Cleared',
+    invalid: 'Invalid',
+    unverified: 'Unchecked',
+    missing: 'Not found',
+};
+
+interface FillReportProps {
+    report: FieldVerification[];
+    dismissFillReport: () => void;
+}
+
+export const FillReport = ({ report, dismissFillReport }: FillReportProps) => {
+    const problems = report.filter(v => v.status === 'mismatch' || v.status === 'empty' || v.status === 'invalid' || v.status === 'missing');
+    const verified = report.filter(v => v.status === 'ok').length;
+    // Found by a fallback locator — the page re-rendered between scan and fill
+    const relocated = report.filter(v => v.locatedBy).length;
+
+    return (
+        <div className={`av-card av-report ${problems.length > 0 ? 'av-report--warn' : ''}`}>
+            <div className="av-report__head">
+                <span className="av-report__icon">
+                    {problems.length > 0 ? <AlertTriangle size={14} /> : <ShieldCheck size={14} />}
+                </span>
+                <div className="av-report__summary">
+                    {verified} of {report.length} verified
+                    {problems.length > 0 && ` · ${problems.length} need${problems.length === 1 ? 's' : ''} attention`}
+                    {relocated > 0 && ` · ${relocated} re-found after a re-render`}
+                </div>
+                <button className="av-report__close" onClick={dismissFillReport} title="Dismiss">
+                    <X size={12} />
+                </button>
+            </div>
+
+            {problems.map(v => (
+                <div key={v.fieldId} className="av-report__row">
+                    <div className="av-report__row-head">
+                        <span className="av-report__label" title={v.label || v.fieldId}>{v.label || v.fieldId}</span>
+                        <span className={`av-report__status av-report__status--${v.status}`}>{STATUS_LABELS[v.status]}</span>
+                    </div>
+                    {v.message && <div className="av-report__message">{v.message}</div>}
+                    {v.status === 'mismatch' && (
+                        <div className="av-report__values">
+                            Sent “{v.expected}” · page shows “{v.actual}”
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,7 +1,11 @@
 import { type ChangeEvent } from 'react';
-import { FileText, FolderOpen, ChevronRight, RefreshCw, Sparkles, AlertTriangle } from 'lucide-react';
-import type { SavedFile } from '../../../../types';
-import type { Tab, FillStatus } from '../sidebarTypes';
+import { FileText, FolderOpen, ChevronRight, RefreshCw, Sparkles, AlertTriangle, Undo2, Crosshair } from 'lucide-react';
+import type { SavedFile, FieldVerification, AutopilotSession, CorrectionSuggestion } from '../../../../types';
+import type { Tab, FillStatus, FillPreviewRow } from '../sidebarTypes';
+import { FillPreview } from './FillPreview';
+import { FillReport } from './FillReport';
+import { CorrectionPrompt } from './CorrectionPrompt';
+import { AutopilotCard } from './AutopilotCard';
 
 interface FillTabProps {
     uploadedFile: string;
@@ -10,11 +14,28 @@ interface FillTabProps {
     setActiveTab: (tab: Tab) => void;
     fieldCount: number;
     scanFields: () => void;
+    inspecting: boolean;
+    toggleInspector: () => void;
     isProcessing: boolean;
     matchingMode: 'ai' | 'heuristic';
     handleFill: () => void;
     fillStatus: FillStatus;
     apiKey: string;
+    previewRows: FillPreviewRow[] | null;
+    updatePreviewValue: (index: number, value: string) => void;
+    togglePreviewRow: (index: number) => void;
+    togglePreviewWhy: (index: number) => void;
+    confirmPreview: () => void;
+    cancelPreview: () => void;
+    canUndo: boolean;
+    handleUndoFill: () => void;
+    fillReport: FieldVerification[] | null;
+    dismissFillReport: () => void;
+    correctionSuggestions: CorrectionSuggestion[];
+    acceptCorrectionSuggestion: (suggestion: CorrectionSuggestion) => void;
+    dismissCorrectionSuggestion: (key: string) => void;
+    autopilot: AutopilotSession | null;
+    controlAutopilot: (command: 'pause' | 'resume' | 'cancel' | 'dismiss') => void;
 }
 
 export const FillTab = ({
@@ -24,11 +45,28 @@ export const FillTab = ({
     setActiveTab,
     fieldCount,
     scanFields,
+    inspecting,
+    toggleInspector,
     isProcessing,
     matchingMode,
     handleFill,
     fillStatus,
     apiKey,
+    previewRows,
+    updatePreviewValue,
+    togglePreviewRow,
+    togglePreviewWhy,
+    confirmPreview,
+    cancelPreview,
+    canUndo,
+    handleUndoFill,
+    fillReport,
+    dismissFillReport,
+    correctionSuggestions,
+    acceptCorrectionSuggestion,
+    dismissCorrectionSuggestion,
+    autopilot,
+    controlAutopilot,
 }: FillTabProps) => {
     const fillDisabled = isProcessing || fieldCount === 0;
 
@@ -70,33 +108,61 @@ export const FillTab = ({
                         {fieldCount === 0 ? 'No fields found' : fieldCount === 1 ? 'form field' : 'form fields'}
                     </div>
                 </div>
-                <button className="av-detection__rescan" onClick={scanFields}>
-                    <RefreshCw size={12} /> Rescan
-                </button>
+                <div className="av-detection__actions">
+                    <button className="av-detection__rescan" onClick={scanFields}>
+                        <RefreshCw size={12} /> Rescan
+                    </button>
+                    <button
+                        className={`av-detection__rescan ${inspecting ? 'av-detection__rescan--active' : ''}`}
+                        onClick={toggleInspector}
+                        disabled={fieldCount === 0 && !inspecting}
+                        title="Outline every detected field on the page and map it by hand"
+                    >
+                        <Crosshair size={12} /> Inspect
+                    </button>
+                </div>
             </div>
 
-            {/* Fill button */}
-            <button
-                className={`av-fill-btn ${fillDisabled ? 'av-fill-btn--disabled' : ''}`}
-                onClick={handleFill}
-                disabled={fillDisabled}
-            >
-                {isProcessing ? (
-                    <>
-                        <span className="av-fill-btn__spinner" />
-                        Filling…
-                    </>
-                ) : (
-                    <>
-                        <span className="av-fill-btn__icon"><Sparkles size={14} /></span>
-                        {fieldCount > 0
-                            ? (matchingMode === 'heuristic'
-                                ? `Fill ${fieldCount} Fields (Keyword)`
-                                : `Fill ${fieldCount} Fields with AI`)
-                            : 'No Fields Detected'}
-                    </>
-                )}
-            </button>
+            {/* Fill preview (replaces the fill button while a review is pending) */}
+            {previewRows ? (
+                <FillPreview
+                    rows={previewRows}
+                    updatePreviewValue={updatePreviewValue}
+                    togglePreviewRow={togglePreviewRow}
+                    togglePreviewWhy={togglePreviewWhy}
+                    confirmPreview={confirmPreview}
+                    cancelPreview={cancelPreview}
+                />
+            ) : (
+                <button
+                    className={`av-fill-btn ${fillDisabled ? 'av-fill-btn--disabled' : ''}`}
+                    onClick={handleFill}
+                    disabled={fillDisabled}
+                >
+                    {isProcessing ? (
+                        <>
+                            <span className="av-fill-btn__spinner" />
+                            Filling…
+                        </>
+                    ) : (
+                        <>
+                            <span className="av-fill-btn__icon"><Sparkles size={14} /></span>
+                            {fieldCount > 0
+                                ? (matchingMode === 'heuristic'
+                                    ? `Fill ${fieldCount} Fields (Keyword)`
+                                    : `Fill ${fieldCount} Fields with AI`)
+                                : 'No Fields Detected'}
+                        </>
+                    )}
+                </button>
+            )}
+
+            {/* Undo last fill */}
+            {canUndo && !previewRows && (
+                <button className="av-undo-btn" onClick={handleUndoFill} disabled={isProcessing}>
+                    <Undo2 size={13} /> Undo last fill
+                </button>
+            )}
 
             {/* Status */}
             {fillStatus.message && (
@@ -105,6 +171,25 @@ export const FillTab = ({
                 </div>
             )}
 
+            {/* Autopilot progress and controls */}
+            {autopilot && !previewRows && (
+                <AutopilotCard session={autopilot} controlAutopilot={controlAutopilot} />
+            )}
+
+            {/* Post-fill verification */}
+            {fillReport && !previewRows && (
+                <FillReport report={fillReport} dismissFillReport={dismissFillReport} />
+            )}
+
+            {/* Repeated hand corrections → offer a custom field (one at a time) */}
+            {correctionSuggestions.length > 0 && !previewRows && (
+                <CorrectionPrompt
+                    suggestion={correctionSuggestions[0]}
+                    acceptCorrectionSuggestion={acceptCorrectionSuggestion}
+                    dismissCorrectionSuggestion={dismissCorrectionSuggestion}
+                />
+            )}
+
             {/* No API key warning (only relevant in AI mode) */}
             {matchingMode === 'ai' && !apiKey && (
                 <div className="av-api-warn" onClick={() => setActiveTab('settings')}>
@@ -117,6 +202,7 @@ export const FillTab = ({
                 <div className="av-shortcuts__title">Shortcuts</div>
                 {[
                     { key: 'Alt+F', desc: 'Quick fill form' },
+                    { key: 'Alt+Z', desc: 'Undo last fill' },
                     { key: 'Alt+A', desc: 'Toggle sidebar' },
                     { key: 'Ctrl+M', desc: 'Toggle sidebar' },
                 ].map(({ key, desc }) => (
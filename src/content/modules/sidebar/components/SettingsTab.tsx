@@ -12,6 +12,10 @@ interface SettingsTabProps {
     setMatchingMode: (mode: 'ai' | 'heuristic') => void;
     autoSubmit: boolean;
     setAutoSubmit: (autoSubmit: boolean) => void;
+    submitAllowed: boolean;
+    setSubmitAllowed: (allowed: boolean) => void;
+    fillPreview: boolean;
+    setFillPreview: (fillPreview: boolean) => void;
 }
 
 export const SettingsTab = ({
@@ -26,6 +30,10 @@ export const SettingsTab = ({
     setMatchingMode,
     autoSubmit,
     setAutoSubmit,
+    submitAllowed,
+    setSubmitAllowed,
+    fillPreview,
+    setFillPreview,
 }: SettingsTabProps) => (
     <div className="av-settings">
         <div className="av-settings__privacy-card" style={{ marginBottom: '15px', cursor: 'pointer', display: 'flex', alignItems: 'center' }} onClick={() => {
@@ -107,7 +115,7 @@ export const SettingsTab = ({
                 <div className="av-toggle-row__hint">
                     {matchingMode === 'heuristic'
                         ? 'Keyword Match (Fast & Free)'
-                        : 'Gemini AI (Smart)'}
+                        : 'AI Provider (Smart)'}
                 </div>
             </div>
             <button
@@ -131,7 +139,7 @@ export const SettingsTab = ({
             <div>
                 <div className="av-toggle-row__label">Auto-Submit / Paginate</div>
                 <div className="av-toggle-row__hint">
-                    {autoSubmit ? 'Automatically move to next page' : 'Fill current page only'}
+                    {autoSubmit ? 'Move to next page, stop before final submit' : 'Fill current page only'}
                 </div>
             </div>
             <button
@@ -149,5 +157,51 @@ export const SettingsTab = ({
                 </span>
             </button>
         </div>
+
+        {/* Final submit opt-in (this site only) */}
+        {autoSubmit && (
+            <div className="av-toggle-row">
+                <div>
+                    <div className="av-toggle-row__label">Submit on This Site</div>
+                    <div className="av-toggle-row__hint">
+                        {submitAllowed
+                            ? `Also clicks the final submit button on ${window.location.hostname}`
+                            : 'Stops for your review before the final submit'}
+                    </div>
+                </div>
+                <button
+                    className={`av-toggle ${submitAllowed ? 'av-toggle--active' : ''}`}
+                    onClick={() => setSubmitAllowed(!submitAllowed)}
+                >
+                    <span className="av-toggle__thumb">
+                        {submitAllowed ? <Check size={10} /> : <ChevronRight size={10} />}
+                    </span>
+                </button>
+            </div>
+        )}
+
+        {/* Fill preview toggle */}
+        <div className="av-toggle-row">
+            <div>
+                <div className="av-toggle-row__label">Preview Before Filling</div>
+                <div className="av-toggle-row__hint">
+                    {fillPreview ? 'Review and edit every value first' : 'Fill matched fields straight away'}
+                </div>
+            </div>
+            <button
+                className={`av-toggle ${fillPreview ? 'av-toggle--active' : ''}`}
+                onClick={() => {
+                    const newVal = !fillPreview;
+                    setFillPreview(newVal);
+                    if (typeof chrome !== 'undefined' && chrome?.storage) {
+                        chrome.storage.local.set({ fillPreview: newVal });
+                    }
+                }}
+            >
+                <span className="av-toggle__thumb">
+                    {fillPreview ? <Check size={10} /> : <ChevronRight size={10} />}
+                </span>
+            </button>
+        </div>
     </div>
 );
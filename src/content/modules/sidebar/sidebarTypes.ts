@@ -1,24 +1,13 @@
-import type { CustomField, UserData } from '../../../types';
+import type { UserData, FieldMapping, FormField, FieldOverride } from '../../../types';
+import type { SkippedField } from '../../../services/formAnalyzer';
 
-export type Tab = 'fill' | 'profile' | 'knowledge' | 'links' | 'settings';
+export type Tab = 'fill' | 'profile' | 'knowledge' | 'letter' | 'links' | 'settings';
 
 export interface FillStatus {
     message: string;
     type: 'idle' | 'scanning' | 'filling' | 'success' | 'error' | 'info';
 }
 
-export function migrateCustomFields(raw: any): CustomField[] {
-    if (Array.isArray(raw)) return raw;
-    if (raw && typeof raw === 'object') {
-        return Object.entries(raw).map(([key, value]) => ({
-            label: key,
-            value: String(value),
-            context: '',
-        }));
-    }
-    return [];
-}
-
 export const createEmptyUserData = (profileType: 'job' | 'medical' | 'survey' | 'custom' = 'job'): UserData => ({
     profileType,
     firstName: '', lastName: '', email: '', phone: '',
@@ -41,3 +30,76 @@ export const fileSizeStr = (bytes: number) => {
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
+
+// One row of the fill preview: the resolved mapping plus the user's decision
+export interface FillPreviewRow {
+    mapping: FieldMapping;
+    value: string;
+    include: boolean;
+    edited: boolean;
+    showWhy: boolean; // "Why did it pick this?" panel is open
+}
+
+const MANUAL_INPUT = '[MANUAL_INPUT_NEEDED]';
+
+export const isFileMapping = (m: FieldMapping) =>
+    !!m.fileData || (m.files?.length ?? 0) > 0 || m.selectedValue === 'FILE_UPLOAD';
+
+export const toFillPreviewRow = (mapping: FieldMapping): FillPreviewRow => {
+    const raw = mapping.selectedValue;
+    const value = isFileMapping(mapping)
+        ? (mapping.sourceDetail || mapping.fileName || 'File upload')
+        : Array.isArray(raw) ? raw.join(', ') : raw === MANUAL_INPUT ? '' : (raw ?? '');
+    return { mapping, value, include: value.trim() !== '', edited: false, showWhy: false };
+};
+
+// Edited text goes back in the shape the field expects (lists stay lists)
+export const fromFillPreviewRow = (row: FillPreviewRow): FieldMapping => {
+    if (!row.edited) return row.mapping;
+    const selectedValue = Array.isArray(row.mapping.selectedValue)
+        ? row.value.split(',').map(v => v.trim()).filter(Boolean)
+        : row.value;
+    return { ...row.mapping, selectedValue, valueSource: 'manual', sourceDetail: 'Edited in preview' };
+};
+
+// ── Field inspector ──
+export type InspectorStatus = 'matched' | 'unmatched' | 'needs-input' | 'honeypot' | 'captcha';
+
+// One outlined element on the page
+export interface InspectorItem {
+    key: string;
+    element: HTMLElement;
+    status: InspectorStatus;
+    field?: FormField; // Absent for honeypots and CAPTCHA widgets, which can't be mapped
+    mapping?: FieldMapping;
+    override?: FieldOverride; // Mapped by hand on this site
+}
+
+const hasValue = (m: FieldMapping) => {
+    const v = m.selectedValue;
+    return isFileMapping(m) || (Array.isArray(v) ? v.length > 0 : v !== undefined && v !== null && v !== '');
+};
+
+/** Status of every detected field from a dry-run fill ("inspectFields"), plus the fields extraction skipped. */
+export const toInspectorItems = (
+    fields: FormField[],
+    mappings: FieldMapping[],
+    overrides: Map<string, FieldOverride>,
+    skipped: SkippedField[],
+    findElement: (id: string) => HTMLElement | null,
+): InspectorItem[] => {
+    const items: InspectorItem[] = [];
+    for (const field of fields) {
+        const element = findElement(field.id);
+        if (!element) continue;
+        const mapping = mappings.find(m => (m.id || m.fieldId) === field.id);
+        const status: InspectorStatus = !mapping
+            ? 'unmatched'
+            : mapping.fieldType === 'custom_question' || mapping.selectedValue === MANUAL_INPUT
+                ? 'needs-input'
+                : hasValue(mapping) ? 'matched' : 'unmatched';
+        items.push({ key: field.id, element, status, field, mapping, override: overrides.get(field.id) });
+    }
+    skipped.forEach((s, i) => items.push({ key: `skipped-${i}`, element: s.element, status: s.reason }));
+    return items;
+};
@@ -1,15 +1,33 @@
 import { useState, useEffect, useRef, type ChangeEvent } from 'react';
-import type { UserData, CustomField, SavedFile, FormField, Memory, SavedLink } from '../../../types';
-import type { Tab, FillStatus } from './sidebarTypes';
-import { migrateCustomFields, createEmptyUserData } from './sidebarTypes';
-import { extractFormFields, findChatInputField, extractChatContext, fillChatInputField } from '../../../services/formAnalyzer';
-import { geminiService } from '../../../services/geminiService';
+import type { UserData, CustomField, SavedFile, FormField, Memory, SavedLink, FieldMapping, FieldVerification, AutopilotSession, CoverLetterTone, CoverLetterLength, CorrectionSuggestion } from '../../../types';
+import type { Tab, FillStatus, FillPreviewRow, InspectorItem } from './sidebarTypes';
+import { createEmptyUserData, toFillPreviewRow, fromFillPreviewRow, toInspectorItems } from './sidebarTypes';
+import { setFillPreviewHandler } from '../contents/fillPreviewBus';
+import { canUndoFill, onUndoAvailabilityChange, requestUndo } from '../contents/fillUndo';
+import { extractFormFields, findChatInputField, extractChatContext, fillChatInputField, extractJobPosting, extractJobDescription, findSkippedFields, findElementByIdOrSelector } from '../../../services/formAnalyzer';
+import { llmService } from '../../../services/llmService';
+import { loadLLMSettings, getLLMConfigError } from '../../../services/llm';
 import { resumeParser } from '../../../services/resumeParser';
-import { storageService } from '../../../services/storageService';
+import { extractResumeData, countLowConfidence, mergeResumeData } from '../../../services/resumeExtractor';
+import { isVaultLockedError, isVaultDecryptError } from '../../../services/storageService';
+import { vaultClient } from '../../../services/vaultClient';
+import { correctionService, SUGGESTIONS_KEY } from '../../../services/correctionService';
+import { fieldOverrideService, matchOverrides } from '../../../services/fieldOverrideService';
+import { textToPdf, textToDocx } from '../../../utils/textDocument';
 
 let fileUid = 0;
 const newFileId = () => `sf-${Date.now()}-${fileUid++}`;
 
+// Generated cover letters get their own id prefix so a new one replaces the last
+const COVER_LETTER_ID_PREFIX = 'cover-';
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
 export function useSidebarState() {
     const [isDark, setIsDark] = useState(() =>
         typeof window !== 'undefined' && window.matchMedia('(prefers-color-scheme: dark)').matches
@@ -23,7 +41,17 @@ export function useSidebarState() {
     const [matchingMode, setMatchingMode] = useState<'ai' | 'heuristic'>('heuristic');
     const [isPro, setIsPro] = useState(false);
     const [autoSubmit, setAutoSubmit] = useState(false);
+    const [submitAllowed, setSubmitAllowedState] = useState(false);
+    const [fillPreview, setFillPreview] = useState(false);
+    const [previewRows, setPreviewRows] = useState<FillPreviewRow[] | null>(null);
+    const previewResolveRef = useRef<((approved: FieldMapping[] | null) => void) | null>(null);
+    const [canUndo, setCanUndo] = useState(canUndoFill);
+    const [fillReport, setFillReport] = useState<FieldVerification[] | null>(null);
+    const [autopilot, setAutopilot] = useState<AutopilotSession | null>(null);
     const [skillsInput, setSkillsInput] = useState<string | null>(null);
+    const [correctionSuggestions, setCorrectionSuggestions] = useState<CorrectionSuggestion[]>([]);
+    const [inspector, setInspector] = useState<InspectorItem[] | null>(null); // null = inspector off
+    const [inspectorPick, setInspectorPick] = useState<string | null>(null); // field whose picker is open
 
     const scanTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const fillTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -62,6 +90,17 @@ export function useSidebarState() {
     const [newLinkUrl, setNewLinkUrl] = useState('');
     const [newLinkAutoFill, setNewLinkAutoFill] = useState(true);
 
+    // Cover letter state
+    const [letterCompany, setLetterCompany] = useState('');
+    const [letterRole, setLetterRole] = useState('');
+    const [jobDescription, setJobDescription] = useState('');
+    const [letterTone, setLetterTone] = useState<CoverLetterTone>('professional');
+    const [letterLength, setLetterLength] = useState<CoverLetterLength>('medium');
+    const [letterFormat, setLetterFormat] = useState<'pdf' | 'docx'>('pdf');
+    const [coverLetter, setCoverLetter] = useState('');
+    const [letterBusy, setLetterBusy] = useState(false);
+    const [letterStatus, setLetterStatus] = useState<FillStatus>({ message: '', type: 'idle' });
+
     // File Library state
     const [fileLibrary, setFileLibrary] = useState<SavedFile[]>([]);
     const [fileDragging, setFileDragging] = useState(false);
@@ -81,12 +120,7 @@ export function useSidebarState() {
         }
         const entries: SavedFile[] = [];
         for (const f of files) {
-            const dataUrl = await new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onload = () => resolve(reader.result as string);
-                reader.onerror = () => reject(reader.error);
-                reader.readAsDataURL(f);
-            });
+            const dataUrl = await blobToDataUrl(f);
             entries.push({
                 id: newFileId(),
                 name: f.name,
@@ -133,44 +167,43 @@ export function useSidebarState() {
     // Load profile data
     const loadAllProfileData = async () => {
         try {
-            await storageService.migrateLegacyData();
-            const list = await storageService.listProfiles();
-            const activeName = await storageService.getActiveProfileName();
+            await vaultClient.migrateLegacyData();
+            const list = await vaultClient.listProfiles();
+            const activeName = await vaultClient.getActiveProfileName();
             const currentActive = list.length ? activeName : 'Default';
 
             setProfiles(list.length ? list : ['Default']);
             setActiveProfile(currentActive);
 
-            const loaded = await storageService.loadProfile(currentActive);
+            const loaded = await vaultClient.loadProfile(currentActive);
             if (loaded) {
-                loaded.customFields = migrateCustomFields(loaded.customFields);
                 setUserData(loaded);
                 setSkillsInput((loaded.skills || []).join(', '));
             }
         } catch (err) {
+            if (isVaultLockedError(err)) {
+                setFillStatus({ message: `🔒 ${(err as Error).message}`, type: 'error' });
+                return;
+            }
             console.warn("Storage vault load failed, using legacy fallback:", err);
-            chrome.storage.local.get(['userData'], (result) => {
-                if (result.userData) {
-                    const loaded = result.userData as any;
-                    loaded.customFields = migrateCustomFields(loaded.customFields);
-                    setUserData(loaded);
-                    setSkillsInput((loaded.skills || []).join(', '));
-                }
-            });
+            const loaded = await vaultClient.readUserDataMirror();
+            if (loaded) {
+                setUserData(loaded);
+                setSkillsInput((loaded.skills || []).join(', '));
+            }
         }
     };
 
     const handleSwitchProfile = async (name: string) => {
-        await storageService.setActiveProfileName(name);
-        const data = await storageService.loadProfile(name);
+        await vaultClient.setActiveProfileName(name);
+        const data = await vaultClient.loadProfile(name);
         if (data) {
-            chrome.storage.local.set({ userData: data });
-            data.customFields = migrateCustomFields(data.customFields);
+            vaultClient.mirrorUserData(data);
             setUserData(data);
             setSkillsInput((data.skills || []).join(', '));
         } else {
             const emptyData = createEmptyUserData();
-            chrome.storage.local.set({ userData: emptyData });
+            vaultClient.mirrorUserData(emptyData);
             setUserData(emptyData);
             setSkillsInput('');
         }
@@ -194,7 +227,7 @@ export function useSidebarState() {
         }
 
         const emptyData = createEmptyUserData();
-        await storageService.saveProfile(name, emptyData);
+        await vaultClient.saveProfile(name, emptyData);
         setNewProfileName('');
         setShowNewProfileInput(false);
         await loadAllProfileData();
@@ -209,7 +242,7 @@ export function useSidebarState() {
         }
         if (!confirm(`Are you sure you want to delete profile "${name}"?`)) return;
 
-        await storageService.deleteProfile(name);
+        await vaultClient.deleteProfile(name);
         const nextActive = profiles.find(p => p !== name) || 'Default';
         await loadAllProfileData();
         await handleSwitchProfile(nextActive);
@@ -217,22 +250,73 @@ export function useSidebarState() {
         setTimeout(() => setSaveMsg(''), 2000);
     };
 
+    // Autopilot session: only shown in the tab it runs in. While it is
+    // running the fill safety timeout is off — a multi-page run takes
+    // longer, and the card offers Pause / Cancel instead.
+    const applyAutopilotSession = (session: AutopilotSession | undefined) => {
+        if (!session?.history || session.hostname !== window.location.hostname) {
+            setAutopilot(null);
+            return;
+        }
+        setAutopilot(session);
+        const active = !['paused', 'review', 'done', 'failed', 'cancelled'].includes(session.phase);
+        if (active && fillTimeoutRef.current) clearTimeout(fillTimeoutRef.current);
+        setIsProcessing(active); // Also after a "Next" navigation remounts the sidebar
+    };
+
+    const controlAutopilot = (command: 'pause' | 'resume' | 'cancel' | 'dismiss') => {
+        chrome.runtime.sendMessage({ action: 'autopilotControl', command }, (response) => {
+            if (chrome.runtime?.lastError) return;
+            if (!response?.success && response?.error) {
+                setFillStatus({ message: response.error, type: 'error' });
+            }
+        });
+    };
+
+    // Per-site opt-in: let autopilot click this site's final submit button
+    const setSubmitAllowed = (allowed: boolean) => {
+        const hostname = window.location.hostname;
+        setSubmitAllowedState(allowed);
+        chrome.storage.local.get(['submitAllowedSites'], (result) => {
+            const sites = ((result.submitAllowedSites as string[]) || []).filter(h => h !== hostname);
+            chrome.storage.local.set({ submitAllowedSites: allowed ? [...sites, hostname] : sites });
+        });
+    };
+
     // Load settings from storage on mount
     useEffect(() => {
         if (typeof chrome === 'undefined' || !chrome.storage) return;
-        chrome.storage.local.get(['geminiApiKey', 'matchingMode', 'isPro', 'autoSubmit'], (result) => {
+        chrome.storage.local.get(['geminiApiKey', 'matchingMode', 'isPro', 'autoSubmit', 'submitAllowedSites', 'fillPreview', 'autopilotSession'], (result) => {
             if (result.geminiApiKey) setApiKey(result.geminiApiKey as string);
             if (result.matchingMode) setMatchingMode(result.matchingMode as 'ai' | 'heuristic');
             if (result.isPro !== undefined) setIsPro(!!result.isPro);
             if (result.autoSubmit !== undefined) setAutoSubmit(!!result.autoSubmit);
+            setSubmitAllowedState(((result.submitAllowedSites as string[]) || []).includes(window.location.hostname));
+            if (result.fillPreview !== undefined) setFillPreview(!!result.fillPreview);
+            applyAutopilotSession(result.autopilotSession as AutopilotSession | undefined);
         });
         loadAllProfileData();
         loadFileLibrary();
+        const loadCorrectionSuggestions = () =>
+            vaultClient.correctionSuggestions().then(setCorrectionSuggestions, () => setCorrectionSuggestions([]));
+        loadCorrectionSuggestions();
 
         const storageListener = (changes: any, areaName: string) => {
             if (areaName === 'local' && changes.isPro !== undefined) {
                 setIsPro(!!changes.isPro.newValue);
             }
+            if (areaName === 'local' && changes.fillPreview !== undefined) {
+                setFillPreview(!!changes.fillPreview.newValue);
+            }
+            if (areaName === 'local' && changes.submitAllowedSites !== undefined) {
+                setSubmitAllowedState(((changes.submitAllowedSites.newValue as string[]) || []).includes(window.location.hostname));
+            }
+            if (areaName === 'local' && changes.autopilotSession !== undefined) {
+                applyAutopilotSession(changes.autopilotSession.newValue);
+            }
+            if (areaName === 'local' && changes[SUGGESTIONS_KEY] !== undefined) {
+                loadCorrectionSuggestions(); // Stored values are sealed — opened by the background
+            }
         };
         chrome.storage.onChanged.addListener(storageListener);
         return () => {
@@ -249,12 +333,52 @@ export function useSidebarState() {
             setFieldCount(0);
             setPageFields([]);
         }
+        // Forms embedded in iframes count too; the background asks every frame
+        chrome.runtime.sendMessage({ action: 'countFrameFields' }, (response) => {
+            if (!chrome.runtime.lastError && response?.success) setFieldCount(response.fieldCount ?? 0);
+        });
     };
 
     useEffect(() => {
         if (isOpen && activeTab === 'fill') scanFields();
     }, [isOpen, activeTab]);
 
+    // ── Field inspector: outline every detected field, map any of them by hand ──
+    const refreshInspector = () => {
+        const fields = extractFormFields();
+        setFieldCount(fields.length);
+        setPageFields(fields);
+        chrome.runtime.sendMessage({ action: 'inspectFields', fields, tabUrl: window.location.href }, async (response) => {
+            if (chrome.runtime?.lastError || !response?.success) {
+                setFillStatus({ message: response?.error || 'Could not inspect this page.', type: 'error' });
+                setInspector(null);
+                return;
+            }
+            const overrides = matchOverrides(fields, await fieldOverrideService.list(window.location.href));
+            const items = toInspectorItems(fields, response.mappings || [], overrides, findSkippedFields(), findElementByIdOrSelector);
+            // Deep queries pierce the sidebar's own shadow root too — don't outline our inputs
+            setInspector(items.filter(i => {
+                const root = i.element.getRootNode();
+                return !(root instanceof ShadowRoot && root.host.id === 'aullevo-sidebar-host');
+            }));
+        });
+    };
+
+    const toggleInspector = () => {
+        setInspectorPick(null);
+        if (inspector) setInspector(null);
+        else refreshInspector();
+    };
+
+    /** Save (or with null, remove) the hand mapping for one field on this site. */
+    const setFieldOverride = async (field: FormField, fieldType: string | null) => {
+        const url = window.location.href;
+        if (fieldType) await fieldOverrideService.set(url, pageFields, field, fieldType);
+        else await fieldOverrideService.remove(url, pageFields, field);
+        setInspectorPick(null);
+        refreshInspector();
+    };
+
     useEffect(() => {
         if (!isOpen || activeTab !== 'fill') return;
         const observer = new MutationObserver(() => {
@@ -279,11 +403,84 @@ export function useSidebarState() {
                     if (fillTimeoutRef.current) clearTimeout(fillTimeoutRef.current);
                 }
             }
+            if (request.action === 'fillReport') {
+                setFillReport(request.report?.length ? request.report : null);
+                // The fill may have been in an embedded frame, whose undo stack this frame can't see
+                if (request.report?.length) setCanUndo(true);
+            }
         };
         if (typeof chrome !== 'undefined') chrome.runtime.onMessage.addListener(handleMessage);
         return () => { if (typeof chrome !== 'undefined') chrome.runtime.onMessage.removeListener(handleMessage); };
     }, []);
 
+    // Fill preview: both fill paths hand their resolved mappings over here
+    // and wait until the user approves or cancels.
+    useEffect(() => {
+        setFillPreviewHandler((mappings) => new Promise(resolve => {
+            previewResolveRef.current?.(null); // A newer request supersedes a stale one
+            previewResolveRef.current = resolve;
+            // The user may take longer than the fill safety timeout to review
+            if (fillTimeoutRef.current) clearTimeout(fillTimeoutRef.current);
+            setPreviewRows(mappings.map(toFillPreviewRow));
+            setActiveTab('fill');
+            setIsOpen(true);
+            setFillStatus({ message: `Review ${mappings.length} field(s) before anything is filled.`, type: 'info' });
+        }));
+        return () => {
+            setFillPreviewHandler(null);
+            previewResolveRef.current?.(null);
+            previewResolveRef.current = null;
+        };
+    }, []);
+
+    const settlePreview = (approved: FieldMapping[] | null) => {
+        previewResolveRef.current?.(approved);
+        previewResolveRef.current = null;
+        setPreviewRows(null);
+    };
+
+    const updatePreviewValue = (index: number, value: string) => {
+        setPreviewRows(rows => rows && rows.map((row, i) =>
+            i === index ? { ...row, value, edited: true, include: value.trim() !== '' } : row
+        ));
+    };
+
+    const togglePreviewRow = (index: number) => {
+        setPreviewRows(rows => rows && rows.map((row, i) =>
+            i === index ? { ...row, include: !row.include } : row
+        ));
+    };
+
+    const togglePreviewWhy = (index: number) => {
+        setPreviewRows(rows => rows && rows.map((row, i) =>
+            i === index ? { ...row, showWhy: !row.showWhy } : row
+        ));
+    };
+
+    const confirmPreview = () => {
+        const approved = (previewRows || []).filter(r => r.include).map(fromFillPreviewRow);
+        setFillStatus({ message: `Filling ${approved.length} approved field(s)…`, type: 'filling' });
+        settlePreview(approved);
+    };
+
+    const cancelPreview = () => {
+        settlePreview(null);
+        setIsProcessing(false);
+        setFillStatus({ message: 'Fill cancelled — no fields were changed.', type: 'info' });
+    };
+
+    useEffect(() => onUndoAvailabilityChange(setCanUndo), []);
+
+    const handleUndoFill = async () => {
+        const { success, message, canUndo: more } = await requestUndo();
+        setCanUndo(more);
+        setFillStatus({ message, type: success ? 'success' : 'error' });
+        if (success) {
+            setFillReport(null);
+            scanFields();
+        }
+    };
+
     useEffect(() => {
         const handler = (e: KeyboardEvent) => {
             if (e.altKey && (e.key === 'a' || e.key === 'A')) { e.preventDefault(); setIsOpen(p => !p); }
@@ -331,12 +528,23 @@ export function useSidebarState() {
     const handleSave = async () => {
         if (typeof chrome !== 'undefined' && chrome?.storage) {
             try {
-                await storageService.saveProfile(activeProfile, userData as UserData);
-                chrome.storage.local.set({ userData }, () => {
-                    setSaveMsg('Saved!');
-                    setTimeout(() => setSaveMsg(''), 2000);
-                });
+                await vaultClient.saveProfile(activeProfile, userData as UserData);
+                await vaultClient.mirrorUserData(userData);
+                setSaveMsg('Saved!');
+                setTimeout(() => setSaveMsg(''), 2000);
             } catch (err: any) {
+                if (isVaultLockedError(err)) {
+                    // Never fall back to plaintext when the user asked for a passphrase
+                    setSaveMsg('🔒 Vault locked — unlock in Settings');
+                    setTimeout(() => setSaveMsg(''), 4000);
+                    return;
+                }
+                if (isVaultDecryptError(err)) {
+                    // The stored vault is still there — don't write over it or beside it
+                    setSaveMsg('⚠️ Vault could not be decrypted — not saved');
+                    setTimeout(() => setSaveMsg(''), 4000);
+                    return;
+                }
                 console.error("Save error:", err);
                 chrome.storage.local.set({ userData }, () => {
                     setSaveMsg('Saved (unencrypted fallback)!');
@@ -367,6 +575,30 @@ export function useSidebarState() {
         setUserData(p => ({ ...p, customFields: ((p.customFields as CustomField[]) || []).filter((_, idx) => idx !== i) }));
     };
 
+    // ── Corrections: a question fixed by hand more than once becomes a custom field ──
+    const acceptCorrectionSuggestion = async (suggestion: CorrectionSuggestion) => {
+        const label = suggestion.label.toLowerCase();
+        const cf: CustomField = { label: suggestion.label, value: suggestion.value, context: suggestion.context };
+        const others = ((userData.customFields as CustomField[]) || []).filter(f => f.label.toLowerCase() !== label);
+        const updated = { ...userData, customFields: [...others, cf] } as UserData;
+        try {
+            setUserData(updated);
+            await vaultClient.saveProfile(activeProfile, updated);
+            await vaultClient.mirrorUserData(updated);
+            await correctionService.resolveSuggestion(suggestion.key, true);
+            setFillStatus({ message: `Saved "${suggestion.label}" as a custom field.`, type: 'success' });
+        } catch (err) {
+            const message = isVaultLockedError(err)
+                ? '🔒 Vault locked — unlock in Settings to save the custom field.'
+                : (err as Error).message || 'Could not save the custom field';
+            setFillStatus({ message, type: 'error' });
+        }
+    };
+
+    const dismissCorrectionSuggestion = (key: string) => {
+        correctionService.resolveSuggestion(key, false);
+    };
+
     const addMemory = () => {
         if (!isPro && (userData.memories || []).length >= 2) {
             setFillStatus({ message: '🔒 Memories are limited to 2 on the Free tier. Upgrade on our web app!', type: 'error' });
@@ -404,34 +636,153 @@ export function useSidebarState() {
         setIsOpen(false);
     };
 
+    // ── Cover letter: capture the posting, generate, save ──
+    const captureJobDescription = () => {
+        const job = extractJobPosting();
+        const description = extractJobDescription();
+        setLetterCompany(job.company);
+        setLetterRole(job.role);
+        setJobDescription(description);
+        setLetterStatus(description
+            ? { message: `Captured ${description.length.toLocaleString()} characters from this page.`, type: 'success' }
+            : { message: 'No job description found on this page — paste it below.', type: 'error' });
+    };
+
+    const generateCoverLetter = async () => {
+        if (!jobDescription.trim()) {
+            setLetterStatus({ message: 'Capture or paste the job description first.', type: 'error' });
+            return;
+        }
+        const llmSettings = await loadLLMSettings();
+        const configError = getLLMConfigError(llmSettings);
+        if (configError) {
+            setLetterStatus({ message: configError, type: 'error' });
+            return;
+        }
+        setLetterBusy(true);
+        setLetterStatus({ message: 'Writing your cover letter…', type: 'info' });
+        try {
+            llmService.configure(llmSettings);
+            const letter = await llmService.generateCoverLetter(jobDescription, userData, {
+                tone: letterTone,
+                length: letterLength,
+                company: letterCompany.trim(),
+                role: letterRole.trim(),
+            });
+            setCoverLetter(letter);
+            setLetterStatus({ message: 'Done — edit it below, then save.', type: 'success' });
+        } catch (err) {
+            setLetterStatus({ message: (err as Error).message || 'Cover letter generation failed', type: 'error' });
+        } finally {
+            setLetterBusy(false);
+        }
+    };
+
+    /**
+     * Saves the letter as a memory ("Cover letter — Company") and as a
+     * PDF/DOCX in the file library. The file name ends in Cover_Letter so
+     * fileMatchesField() attaches it to "Cover letter" upload fields; it
+     * replaces the previously generated letter and goes first in the
+     * library, so single-file inputs pick the newest one.
+     */
+    const saveCoverLetter = async () => {
+        const text = coverLetter.trim();
+        if (!text) return;
+        const company = letterCompany.trim();
+
+        const others = fileLibrary.filter(f => !f.id.startsWith(COVER_LETTER_ID_PREFIX));
+        if (!isPro && others.length >= 2) {
+            setLetterStatus({ message: '🔒 File Vault is limited to 2 files on the Free tier. Upgrade on our web app!', type: 'error' });
+            return;
+        }
+        const memoryTitle = company ? `Cover letter — ${company}` : 'Cover letter';
+        const memories = (userData.memories || []).filter(m => m.title !== memoryTitle);
+        if (!isPro && memories.length >= 2) {
+            setLetterStatus({ message: '🔒 Memories are limited to 2 on the Free tier. Upgrade on our web app!', type: 'error' });
+            return;
+        }
+
+        setLetterBusy(true);
+        try {
+            const blob = letterFormat === 'pdf' ? textToPdf(text) : textToDocx(text);
+            // The candidate's name, not the company's: employers see this file name
+            const owner = `${userData.firstName || ''} ${userData.lastName || ''}`
+                .replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '');
+            const entry: SavedFile = {
+                id: `${COVER_LETTER_ID_PREFIX}${Date.now()}`,
+                name: `${owner ? `${owner}_` : ''}Cover_Letter.${letterFormat}`,
+                size: blob.size,
+                type: blob.type,
+                dataUrl: await blobToDataUrl(blob),
+                savedAt: new Date().toLocaleTimeString('en-US', { hour12: false }),
+            };
+            const library = [entry, ...others];
+            await chrome.storage.local.set({ fileLibrary: library });
+            setFileLibrary(library);
+
+            const updated = {
+                ...userData,
+                memories: [...memories, { id: Date.now().toString(), title: memoryTitle, content: text }],
+            } as UserData;
+            setUserData(updated);
+            await vaultClient.saveProfile(activeProfile, updated);
+            await vaultClient.mirrorUserData(updated);
+            setLetterStatus({ message: `Saved "${entry.name}" to your library and memories.`, type: 'success' });
+        } catch (err) {
+            const message = isVaultLockedError(err)
+                ? '🔒 Vault locked — unlock in Settings to save the memory.'
+                : (err as Error).message || 'Could not save the cover letter';
+            setLetterStatus({ message, type: 'error' });
+        } finally {
+            setLetterBusy(false);
+        }
+    };
+
     const handleResumeUpload = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
-        if (!apiKey) {
-            setFillStatus({ message: 'Please add your Gemini API key in Settings first.', type: 'error' });
-            setActiveTab('settings');
-            return;
-        }
         setUploadedFile(file.name);
         setIsProcessing(true);
-        setFillStatus({ message: 'Parsing your resume with AI…', type: 'info' });
+        setFillStatus({ message: 'Reading your resume…', type: 'info' });
         try {
-            geminiService.setApiKey(apiKey);
-            const text = await resumeParser.parseFile(file);
-            const parsed = await geminiService.parseResume(text);
-            const merged = { ...userData, ...parsed, customFields: userData.customFields || [] };
+            const { text } = await resumeParser.parseFile(file);
+
+            // Rule-based extraction always runs — it needs no API key.
+            const extraction = extractResumeData(text);
+            let parsed = extraction.data;
+            let refineError = '';
+
+            // AI refinement is optional and only used when AI mode is configured.
+            const llmSettings = await loadLLMSettings();
+            if (matchingMode === 'ai' && !getLLMConfigError(llmSettings)) {
+                setFillStatus({ message: 'Refining your resume with AI…', type: 'info' });
+                try {
+                    llmService.configure(llmSettings);
+                    parsed = await llmService.parseResume(text, extraction.data);
+                } catch (err) {
+                    refineError = (err as Error).message || 'AI refinement failed';
+                }
+            }
+
+            const merged = { ...mergeResumeData(userData, parsed), customFields: userData.customFields || [] } as UserData;
             setUserData(merged);
 
             const reader = new FileReader();
             reader.onload = (ev) => {
                 const base64 = ev.target?.result as string;
                 if (typeof chrome !== 'undefined' && chrome?.storage) {
-                    chrome.storage.local.set({ userData: merged, resumeFileData: base64, resumeFileName: file.name });
+                    vaultClient.mirrorUserData(merged);
+                    chrome.storage.local.set({ resumeFileData: base64, resumeFileName: file.name });
                 }
             };
             reader.readAsDataURL(file);
 
-            setFillStatus({ message: 'Resume parsed! Review your profile and save.', type: 'success' });
+            const lowConfidence = parsed === extraction.data ? countLowConfidence(extraction) : 0;
+            const notes = [
+                refineError && `AI refinement skipped (${refineError}).`,
+                lowConfidence > 0 && `${lowConfidence} field${lowConfidence === 1 ? '' : 's'} may need a closer look.`,
+            ].filter(Boolean).join(' ');
+            setFillStatus({ message: `Resume parsed! ${notes ? notes + ' ' : ''}Review your profile and save.`, type: 'success' });
             setActiveTab('profile');
         } catch (err: any) {
             setFillStatus({ message: err.message || 'Failed to parse resume.', type: 'error' });
@@ -440,15 +791,19 @@ export function useSidebarState() {
 
     const handleFill = async () => {
         if (matchingMode === 'ai' && !isPro) {
-            setFillStatus({ message: '🔒 Gemini AI matching is a Pro feature. Please upgrade!', type: 'error' });
+            setFillStatus({ message: '🔒 AI matching is a Pro feature. Please upgrade!', type: 'error' });
             return;
         }
-        if (matchingMode === 'ai' && !apiKey) {
-            setFillStatus({ message: 'Add your Gemini API key in Settings first.', type: 'error' });
-            setActiveTab('settings');
-            return;
+        if (matchingMode === 'ai') {
+            const configError = getLLMConfigError(await loadLLMSettings());
+            if (configError) {
+                setFillStatus({ message: configError, type: 'error' });
+                setActiveTab('settings');
+                return;
+            }
         }
         setIsProcessing(true);
+        setFillReport(null);
 
         const chatInput = findChatInputField();
         if (chatInput && matchingMode === 'ai') {
@@ -520,6 +875,15 @@ export function useSidebarState() {
         fillStatus, setFillStatus,
         isProcessing, matchingMode, setMatchingMode,
         isPro, autoSubmit, setAutoSubmit,
+        submitAllowed, setSubmitAllowed,
+        fillPreview, setFillPreview,
+        previewRows, updatePreviewValue, togglePreviewRow, togglePreviewWhy,
+        confirmPreview, cancelPreview,
+        canUndo, handleUndoFill,
+        fillReport, dismissFillReport: () => setFillReport(null),
+        correctionSuggestions, acceptCorrectionSuggestion, dismissCorrectionSuggestion,
+        inspector, toggleInspector, inspectorPick, setInspectorPick, setFieldOverride,
+        autopilot, controlAutopilot,
         skillsInput, setSkillsInput,
         profiles, activeProfile, handleSwitchProfile,
         newProfileName, setNewProfileName,
@@ -542,6 +906,15 @@ export function useSidebarState() {
         addLink, removeLink, triggerAutopilot,
         fileLibrary, fileDragging, setFileDragging, fileLibInputRef,
         addFilesToLibrary, removeFromLibrary,
+        letterCompany, setLetterCompany,
+        letterRole, setLetterRole,
+        jobDescription, setJobDescription,
+        letterTone, setLetterTone,
+        letterLength, setLetterLength,
+        letterFormat, setLetterFormat,
+        coverLetter, setCoverLetter,
+        letterBusy, letterStatus,
+        captureJobDescription, generateCoverLetter, saveCoverLetter,
     };
 }
 
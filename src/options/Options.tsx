@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef, type ChangeEvent } from 'react';
 import { createRoot } from 'react-dom/client';
-import { storageService } from '../services/storageService';
-import type { UserData, SavedFile } from '../types';
+import { storageService, isVaultLockedError, type VaultStatus } from '../services/storageService';
+import { detectProfileFormat, parseProfileDocument, userDataToJSONResume } from '../services/formats';
+import { siteRecipeService } from '../services/siteRecipeService';
+import { correctionService } from '../services/correctionService';
+import { applicationTracker, APPLICATION_STATUSES } from '../services/applicationTracker';
+import { llmService } from '../services/llmService';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, loadLLMSettings, getLLMConfigError, type LLMProviderId } from '../services/llm';
+import type { UserData, SavedFile, SiteRecipe, FieldMapping, TrackedApplication, ApplicationStatus } from '../types';
 import './Options.css';
 import { LogoA } from '../components/LogoA';
 import { auth, db, googleProvider } from '../config/firebase';
@@ -12,11 +18,11 @@ import {
     UploadCloud, Trash2, Download, Upload, Plus, Edit3, Check,
     ArrowLeft, LogOut, RefreshCw, Zap, ShieldCheck, CheckCircle2,
     X, ExternalLink, FileText, Image as ImageIcon, Archive, File as FileIcon,
-    Save, Shield
+    Save, Shield, BookMarked, Eye, Briefcase
 } from 'lucide-react';
 
 /* ── TYPES ── */
-type NavSection = 'account' | 'api' | 'profiles' | 'files' | 'privacy' | 'shortcuts' | 'about';
+type NavSection = 'account' | 'api' | 'profiles' | 'files' | 'recipes' | 'applications' | 'privacy' | 'shortcuts' | 'about';
 type StatusType = 'success' | 'error' | 'info' | '';
 interface StatusMsg { text: string; type: StatusType; }
 
@@ -51,9 +57,11 @@ const newFileId = () => `sf-${Date.now()}-${fileUid++}`;
 /* ── NAV ITEMS ── */
 const NAV_ITEMS: { id: NavSection; icon: React.ReactNode; label: string }[] = [
     { id: 'account', icon: <Sparkles size={16} />, label: 'Pro Account' },
-    { id: 'api', icon: <Key size={16} />, label: 'API Key' },
+    { id: 'api', icon: <Key size={16} />, label: 'AI Provider' },
     { id: 'profiles', icon: <User size={16} />, label: 'Profiles' },
     { id: 'files', icon: <FolderKanban size={16} />, label: 'File Vault' },
+    { id: 'recipes', icon: <BookMarked size={16} />, label: 'Site Recipes' },
+    { id: 'applications', icon: <Briefcase size={16} />, label: 'Applications' },
     { id: 'privacy', icon: <Lock size={16} />, label: 'Privacy' },
     { id: 'shortcuts', icon: <Keyboard size={16} />, label: 'Shortcuts' },
     { id: 'about', icon: <Info size={16} />, label: 'About' },
@@ -85,6 +93,11 @@ function Options() {
     // API Key
     const [apiKey, setApiKey] = useState('');
     const [apiTesting, setApiTesting] = useState(false);
+    const [llmProvider, setLlmProvider] = useState<LLMProviderId>('gemini');
+    const [llmBaseUrl, setLlmBaseUrl] = useState(DEFAULT_OPENAI_BASE_URL);
+    const [llmModel, setLlmModel] = useState('');
+    const [geminiModel, setGeminiModel] = useState('');
+    const [llmApiKey, setLlmApiKey] = useState('');
 
     // Profiles
     const [profiles, setProfiles] = useState<string[]>([]);
@@ -93,15 +106,34 @@ function Options() {
     const [editingProfile, setEditingProfile] = useState<string | null>(null);
     const [profileData, setProfileData] = useState<UserData>(EMPTY_USER);
 
+    // Vault passphrase
+    const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+    const [vaultPass, setVaultPass] = useState('');
+    const [vaultNewPass, setVaultNewPass] = useState('');
+    const [vaultPassConfirm, setVaultPassConfirm] = useState('');
+    const [vaultBusy, setVaultBusy] = useState(false);
+
     // Privacy
     const [allowQAContext, setAllowQAContext] = useState(true);
     const [autoSubmit, setAutoSubmit] = useState(false);
+    const [submitAllowedSites, setSubmitAllowedSites] = useState<string[]>([]);
+    const [fillPreview, setFillPreview] = useState(false);
 
     // File Vault
     const [fileLibrary, setFileLibrary] = useState<SavedFile[]>([]);
     const [fileDragging, setFileDragging] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Site Recipes
+    const [recipes, setRecipes] = useState<SiteRecipe[]>([]);
+    const [inspectingRecipe, setInspectingRecipe] = useState<string | null>(null);
+    const [recipeDraft, setRecipeDraft] = useState<FieldMapping[]>([]);
+
+    // Applications
+    const [applications, setApplications] = useState<TrackedApplication[]>([]);
+    const [openApplication, setOpenApplication] = useState<string | null>(null);
+    const [applicationDraft, setApplicationDraft] = useState({ company: '', role: '', notes: '' });
+
     const flash = (text: string, type: StatusType = 'success', ms = 3500) => {
         setStatus({ text, type });
         setTimeout(() => setStatus({ text: '', type: '' }), ms);
@@ -109,10 +141,15 @@ function Options() {
 
     /* ── Load initial data ── */
     useEffect(() => {
-        chrome.storage.local.get(['geminiApiKey', 'allowQAContext', 'autoSubmit', 'isPro', 'userUid', 'userEmail', 'displayName', 'photoURL'], (r) => {
+        chrome.storage.local.get(['geminiApiKey', 'llmProvider', 'llmBaseUrl', 'llmApiKey', 'allowQAContext', 'autoSubmit', 'submitAllowedSites', 'fillPreview', 'isPro', 'userUid', 'userEmail', 'displayName', 'photoURL'], (r) => {
             if (r.geminiApiKey) setApiKey(r.geminiApiKey as string);
+            if (r.llmProvider) setLlmProvider(r.llmProvider as LLMProviderId);
+            if (r.llmBaseUrl) setLlmBaseUrl(r.llmBaseUrl as string);
+            if (r.llmApiKey) setLlmApiKey(r.llmApiKey as string);
             if (r.allowQAContext !== undefined) setAllowQAContext(r.allowQAContext as boolean);
             if (r.autoSubmit !== undefined) setAutoSubmit(r.autoSubmit as boolean);
+            if (Array.isArray(r.submitAllowedSites)) setSubmitAllowedSites(r.submitAllowedSites as string[]);
+            if (r.fillPreview !== undefined) setFillPreview(r.fillPreview as boolean);
             if (r.isPro !== undefined) setIsPro(r.isPro as boolean);
             if (r.userEmail || r.displayName) {
                 setUser({
@@ -123,9 +160,17 @@ function Options() {
                 });
             }
         });
+        // Models are per provider; loadLLMSettings() also reads the older single llmModel
+        loadLLMSettings().then(settings => {
+            setGeminiModel(settings.geminiModel);
+            setLlmModel(settings.model);
+        });
 
+        refreshVaultStatus();
         refreshProfileList();
         loadFileLibrary();
+        refreshRecipes();
+        refreshApplications();
 
         // Listen to Auth State from Firebase if available
         const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
@@ -152,7 +197,13 @@ function Options() {
 
         // Storage listener for live sync from web app or popup
         const storageListener = (changes: any, areaName: string) => {
+            // Session storage changes when the vault is unlocked, locked or auto-locked
+            if (areaName === 'session') {
+                refreshVaultStatus();
+                refreshRecipes();
+            }
             if (areaName === 'local') {
+                if (changes.siteRecipes) refreshRecipes();
                 if (changes.isPro !== undefined) setIsPro(!!changes.isPro.newValue);
                 if (changes.userEmail || changes.displayName || changes.userUid) {
                     chrome.storage.local.get(['userUid', 'userEmail', 'displayName', 'photoURL'], (r) => {
@@ -318,28 +369,106 @@ function Options() {
     };
 
     const refreshProfileList = async () => {
-        await storageService.migrateLegacyData();
-        const list = await storageService.listProfiles();
-        setProfiles(list.length ? list : ['Default']);
-        const active = await storageService.getActiveProfileName();
-        setActiveProfile(active);
+        try {
+            await storageService.migrateLegacyData();
+            const list = await storageService.listProfiles();
+            setProfiles(list.length ? list : ['Default']);
+            const active = await storageService.getActiveProfileName();
+            setActiveProfile(active);
+        } catch (err) {
+            if (!isVaultLockedError(err)) throw err;
+            setProfiles([]);
+        }
+    };
+
+    /* ── Vault passphrase ── */
+    const refreshVaultStatus = async () => {
+        setVaultStatus(await storageService.getVaultStatus());
+    };
+
+    const runVaultAction = async (action: () => Promise<void>, success: string) => {
+        setVaultBusy(true);
+        try {
+            await action();
+            setVaultPass('');
+            setVaultNewPass('');
+            setVaultPassConfirm('');
+            await refreshVaultStatus();
+            await refreshProfileList();
+            flash(success);
+        } catch (err) {
+            flash((err as Error).message || 'Vault operation failed.', 'error');
+        } finally {
+            setVaultBusy(false);
+        }
+    };
+
+    // Everything sealed with the vault key outside the vault is carried over to the new key
+    const resealAll = (rekey: () => Promise<void>) =>
+        applicationTracker.reseal(() => siteRecipeService.reseal(() => correctionService.reseal(rekey)));
+
+    const enableVaultPassphrase = () => {
+        if (vaultNewPass !== vaultPassConfirm) return flash('Passphrases do not match.', 'error');
+        runVaultAction(
+            () => resealAll(() => storageService.enablePassphrase(vaultNewPass)),
+            'Vault passphrase set. Your profiles are now locked with it.',
+        );
     };
 
-    /* ── API Key section ── */
+    const changeVaultPassphrase = () => {
+        if (vaultNewPass !== vaultPassConfirm) return flash('Passphrases do not match.', 'error');
+        runVaultAction(async () => {
+            await storageService.unlock(vaultPass); // reseal() reads the sealed values with the current key
+            await resealAll(() => storageService.changePassphrase(vaultPass, vaultNewPass));
+        }, 'Passphrase changed and vault re-encrypted.');
+    };
+
+    const unlockVault = () => runVaultAction(() => storageService.unlock(vaultPass), 'Vault unlocked.');
+    const lockVault = () => runVaultAction(() => storageService.lock(), 'Vault locked.');
+    const removeVaultPassphrase = () => {
+        if (!confirm('Remove the passphrase? Profiles will be encrypted with a key stored on this device instead.')) return;
+        runVaultAction(async () => {
+            await storageService.unlock(vaultPass);
+            await resealAll(() => storageService.disablePassphrase(vaultPass));
+        }, 'Passphrase removed.');
+    };
+
+    const changeAutoLock = async (minutes: number) => {
+        await storageService.setAutoLockMinutes(minutes);
+        await refreshVaultStatus();
+    };
+
+    /* ── AI Provider section ── */
     const saveApiKey = () => {
-        chrome.storage.local.set({ geminiApiKey: apiKey.trim() }, () => flash('API Key saved successfully!'));
+        chrome.storage.local.set({
+            geminiApiKey: apiKey.trim(),
+            llmProvider,
+            llmBaseUrl: llmBaseUrl.trim(),
+            llmModel: llmModel.trim(),
+            geminiModel: geminiModel.trim(),
+            llmApiKey: llmApiKey.trim(),
+        }, () => flash('AI provider settings saved successfully!'));
     };
 
     const testApiKey = async () => {
-        if (!apiKey) return flash('Enter an API key first.', 'error');
+        const settings = {
+            ...(await loadLLMSettings()),
+            provider: llmProvider,
+            geminiApiKey: apiKey.trim(),
+            baseUrl: llmBaseUrl.trim(),
+            geminiModel: geminiModel.trim(),
+            model: llmModel.trim(),
+            apiKey: llmApiKey.trim(),
+        };
+        const configError = getLLMConfigError(settings);
+        if (configError) return flash(configError, 'error');
         setApiTesting(true);
         try {
-            const { GoogleGenAI } = await import('@google/genai');
-            const ai = new GoogleGenAI({ apiKey });
-            await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: 'Hello' });
-            flash('API key is valid and working!');
+            llmService.configure(settings);
+            await llmService.generateContent('Reply with the single word: OK', { responseFormat: 'text' });
+            flash(llmProvider === 'gemini' ? 'API key is valid and working!' : 'Local model is reachable and responding!');
         } catch (e: any) {
-            flash(`Key test failed: ${e.message}`, 'error', 6000);
+            flash(`Connection test failed: ${e.message}`, 'error', 6000);
         } finally {
             setApiTesting(false);
         }
@@ -362,7 +491,7 @@ function Options() {
     const activateProfile = async (name: string) => {
         await storageService.setActiveProfileName(name);
         const data = await storageService.loadProfile(name);
-        if (data) chrome.storage.local.set({ userData: data });
+        if (data) await storageService.mirrorUserData(data);
         setActiveProfile(name);
         flash(`Switched to profile "${name}".`);
     };
@@ -385,7 +514,7 @@ function Options() {
         if (!editingProfile) return;
         await storageService.saveProfile(editingProfile, profileData);
         if (editingProfile === activeProfile) {
-            chrome.storage.local.set({ userData: profileData });
+            await storageService.mirrorUserData(profileData);
         }
         setEditingProfile(null);
         flash(`Profile "${editingProfile}" saved.`);
@@ -404,32 +533,234 @@ function Options() {
         flash('Profiles exported!');
     };
 
+    const handleExportJSONResume = async () => {
+        const data = await storageService.loadProfile(activeProfile);
+        if (!data) return flash(`Profile "${activeProfile}" not found.`, 'error');
+        const json = JSON.stringify(userDataToJSONResume(data), null, 2);
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${activeProfile.replace(/[^\w-]+/g, '_')}-resume.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+        flash(`Exported "${activeProfile}" as JSON Resume!`);
+    };
+
     const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
         try {
             const text = await file.text();
-            await storageService.importProfiles(text, true);
-            await refreshProfileList();
-            flash('Profiles imported successfully!');
+            if (detectProfileFormat(text) === 'aullevo') {
+                await storageService.importProfiles(text, true);
+                await refreshProfileList();
+                flash('Profiles imported successfully!');
+            } else {
+                // JSON Resume / Europass → new profile named after the person
+                const { format, data } = parseProfileDocument(text);
+                const personName = [data.firstName, data.lastName].filter(Boolean).join(' ');
+                const baseName = personName || file.name.replace(/\.[^.]+$/, '') || 'Imported';
+                let name = baseName;
+                for (let n = 2; profiles.includes(name); n++) name = `${baseName} (${n})`;
+                await storageService.saveProfile(name, { ...EMPTY_USER, ...data });
+                await refreshProfileList();
+                flash(`Imported ${format === 'europass' ? 'Europass CV' : 'JSON Resume'} as profile "${name}".`);
+            }
         } catch (err: any) {
             flash(`Import failed: ${err.message}`, 'error');
         }
         e.target.value = '';
     };
 
+    /* ── Site Recipes ── */
+    const refreshRecipes = async () => {
+        try {
+            setRecipes(await siteRecipeService.list());
+        } catch (err) {
+            // Pinned values are sealed with the vault key — the list comes back on unlock
+            if (!isVaultLockedError(err)) throw err;
+            setRecipes([]);
+        }
+    };
+
+    const openRecipe = (recipe: SiteRecipe) => {
+        setInspectingRecipe(recipe.key);
+        setRecipeDraft(recipe.mappings.map(m => ({ ...m })));
+    };
+
+    const updateRecipeMapping = (index: number, patch: Partial<FieldMapping>) => {
+        setRecipeDraft(prev => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+    };
+
+    const saveRecipe = async () => {
+        if (!inspectingRecipe) return;
+        // A non-empty value pins the field: it is filled verbatim instead of from the profile
+        const mappings = recipeDraft
+            .filter(m => m.fieldType.trim() || m.action === 'click_add')
+            .map(m => {
+                const value = typeof m.selectedValue === 'string' ? m.selectedValue : '';
+                return value.trim()
+                    ? { ...m, fieldType: m.fieldType.trim(), selectedValue: value, pinned: true }
+                    : { ...m, fieldType: m.fieldType.trim(), selectedValue: undefined, pinned: undefined };
+            });
+        try {
+            await siteRecipeService.updateMappings(inspectingRecipe, mappings);
+            await refreshRecipes();
+            setInspectingRecipe(null);
+            flash('Recipe saved.');
+        } catch (err) {
+            flash((err as Error).message, 'error');
+        }
+    };
+
+    const deleteRecipe = async (key: string) => {
+        await siteRecipeService.delete(key);
+        if (inspectingRecipe === key) setInspectingRecipe(null);
+        await refreshRecipes();
+        flash('Recipe deleted.');
+    };
+
+    const clearRecipes = async () => {
+        if (!confirm('Delete all site recipes? Forms will be matched from scratch on your next visit.')) return;
+        await siteRecipeService.clear();
+        setInspectingRecipe(null);
+        await refreshRecipes();
+        flash('All site recipes deleted.');
+    };
+
+    const exportRecipes = async () => {
+        const json = await siteRecipeService.exportRecipes();
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `aullevo-recipes-${Date.now()}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+        flash('Site recipes exported!');
+    };
+
+    const importRecipes = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const count = await siteRecipeService.importRecipes(await file.text());
+            await refreshRecipes();
+            flash(`Imported ${count} recipe${count !== 1 ? 's' : ''}.`);
+        } catch (err) {
+            flash(`Import failed: ${(err as Error).message}`, 'error');
+        }
+        e.target.value = '';
+    };
+
+    /* ── Applications ── */
+    const refreshApplications = async () => {
+        try {
+            setApplications(await applicationTracker.list());
+        } catch (err) {
+            console.error('Failed to load applications:', err);
+        }
+    };
+
+    const inspectApplication = (app: TrackedApplication) => {
+        setOpenApplication(app.id);
+        setApplicationDraft({ company: app.company, role: app.role, notes: app.notes || '' });
+    };
+
+    const saveApplication = async () => {
+        if (!openApplication) return;
+        try {
+            await applicationTracker.update(openApplication, {
+                company: applicationDraft.company.trim(),
+                role: applicationDraft.role.trim(),
+                notes: applicationDraft.notes.trim() || undefined,
+            });
+            await refreshApplications();
+            setOpenApplication(null);
+            flash('Application saved.');
+        } catch (err) {
+            flash((err as Error).message, 'error');
+        }
+    };
+
+    const changeApplicationStatus = async (id: string, next: ApplicationStatus) => {
+        try {
+            await applicationTracker.setStatus(id, next);
+            await refreshApplications();
+        } catch (err) {
+            flash((err as Error).message, 'error');
+        }
+    };
+
+    const deleteApplication = async (id: string) => {
+        await applicationTracker.delete(id);
+        if (openApplication === id) setOpenApplication(null);
+        await refreshApplications();
+        flash('Application removed.');
+    };
+
+    const clearApplications = async () => {
+        if (!confirm('Delete your whole application log? This cannot be undone.')) return;
+        await applicationTracker.clear();
+        setOpenApplication(null);
+        await refreshApplications();
+        flash('Application log cleared.');
+    };
+
+    const exportApplications = async (format: 'csv' | 'json') => {
+        const data = format === 'csv' ? await applicationTracker.exportCsv() : await applicationTracker.exportJson();
+        const blob = new Blob([data], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `aullevo-applications-${Date.now()}.${format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+        flash('Application log exported!');
+    };
+
     /* ── Privacy & Auto-Submit ── */
     const savePrivacy = () => {
-        chrome.storage.local.set({ allowQAContext, autoSubmit }, () => {
+        chrome.storage.local.set({ allowQAContext, autoSubmit, fillPreview }, () => {
             flash('Privacy settings saved!');
         });
     };
 
+    const revokeSubmitSite = (hostname: string) => {
+        const next = submitAllowedSites.filter(h => h !== hostname);
+        chrome.storage.local.set({ submitAllowedSites: next }, () => {
+            setSubmitAllowedSites(next);
+            flash(`Autopilot will stop for review on ${hostname}.`);
+        });
+    };
+
     const handleField = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
         setProfileData(prev => ({ ...prev, [name]: value }));
     };
 
+    const vaultUnlockCard = (
+        <div className="card card-alert-warning">
+            <div className="card-title">
+                <Lock size={18} /> Vault Locked
+            </div>
+            <p className="card-desc">Enter your master passphrase to unlock your profiles for this browser session.</p>
+            <div className="input-group">
+                <label>Passphrase</label>
+                <input
+                    type="password"
+                    value={vaultPass}
+                    onChange={e => setVaultPass(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && unlockVault()}
+                />
+            </div>
+            <button className="btn btn-primary" onClick={unlockVault} disabled={vaultBusy || !vaultPass}>
+                <Lock size={16} /> Unlock
+            </button>
+        </div>
+    );
+
     /* ── RENDER ── */
     return (
         <div className="options-layout">
@@ -543,48 +874,105 @@ function Options() {
                     </>
                 )}
 
-                {/* ────── API KEY ────── */}
+                {/* ────── AI PROVIDER ────── */}
                 {section === 'api' && (
                     <>
                         <div className="page-header">
                             <h1 className="page-title">
-                                <Key className="header-icon" size={24} /> Gemini API Key
+                                <Key className="header-icon" size={24} /> AI Provider
                             </h1>
-                            <p className="page-subtitle">Required to power AI form filling. Stored locally — never transmitted to any server.</p>
+                            <p className="page-subtitle">Choose which model powers AI form filling. Settings are stored locally — never transmitted to any server.</p>
                         </div>
                         <div className="card">
                             <div className="card-title">
-                                <Lock size={18} /> API Configuration
+                                <Lock size={18} /> Provider Configuration
                             </div>
                             <div className="input-group">
-                                <label>Gemini API Key</label>
+                                <label>Provider</label>
+                                <select
+                                    className="custom-select"
+                                    value={llmProvider}
+                                    onChange={e => setLlmProvider(e.target.value as LLMProviderId)}
+                                >
+                                    <option value="gemini">Google Gemini</option>
+                                    <option value="openai">Local / OpenAI-compatible (Ollama, llama.cpp)</option>
+                                </select>
+                            </div>
+                            {llmProvider === 'gemini' ? (
+                                <div className="input-group">
+                                    <label>Gemini API Key</label>
+                                    <input
+                                        type="password"
+                                        placeholder="AIza..."
+                                        value={apiKey}
+                                        onChange={e => setApiKey(e.target.value)}
+                                    />
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="input-group">
+                                        <label>Server URL</label>
+                                        <input
+                                            type="text"
+                                            placeholder={DEFAULT_OPENAI_BASE_URL}
+                                            value={llmBaseUrl}
+                                            onChange={e => setLlmBaseUrl(e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="input-group">
+                                        <label>API Key (optional)</label>
+                                        <input
+                                            type="password"
+                                            placeholder="Only if your server requires a bearer token"
+                                            value={llmApiKey}
+                                            onChange={e => setLlmApiKey(e.target.value)}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            <div className="input-group">
+                                <label>Model (optional)</label>
                                 <input
-                                    type="password"
-                                    placeholder="AIza..."
-                                    value={apiKey}
-                                    onChange={e => setApiKey(e.target.value)}
+                                    type="text"
+                                    placeholder={llmProvider === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_OPENAI_MODEL}
+                                    value={llmProvider === 'gemini' ? geminiModel : llmModel}
+                                    onChange={e => (llmProvider === 'gemini' ? setGeminiModel : setLlmModel)(e.target.value)}
                                 />
                             </div>
                             <div className="btn-group">
                                 <button className="btn btn-primary" onClick={saveApiKey}>
-                                    <Save size={16} /> Save Key
+                                    <Save size={16} /> Save Settings
                                 </button>
                                 <button className="btn btn-secondary" onClick={testApiKey} disabled={apiTesting}>
-                                    {apiTesting ? <RefreshCw size={16} className="spinning" /> : <Zap size={16} />} Test Key
+                                    {apiTesting ? <RefreshCw size={16} className="spinning" /> : <Zap size={16} />} Test Connection
                                 </button>
                             </div>
                         </div>
-                        <div className="card">
-                            <div className="card-title">
-                                <Info size={18} /> How to obtain a free API key
-                            </div>
-                            <ol className="instructions-list">
-                                <li>Visit <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">Google AI Studio</a></li>
-                                <li>Click <strong>Create API Key</strong> → choose any project</li>
-                                <li>Copy your key and paste it above</li>
-                                <li>Click <strong>Save Key</strong> and click <strong>Test Key</strong> to verify</li>
-                            </ol>
-                        </div>
+                        {llmProvider === 'gemini' ? (
+                            <div className="card">
+                                <div className="card-title">
+                                    <Info size={18} /> How to obtain a free API key
+                                </div>
+                                <ol className="instructions-list">
+                                    <li>Visit <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">Google AI Studio</a></li>
+                                    <li>Click <strong>Create API Key</strong> → choose any project</li>
+                                    <li>Copy your key and paste it above</li>
+                                    <li>Click <strong>Save Settings</strong> and click <strong>Test Connection</strong> to verify</li>
+                                </ol>
+                            </div>
+                        ) : (
+                            <div className="card">
+                                <div className="card-title">
+                                    <Info size={18} /> Running a local model
+                                </div>
+                                <ol className="instructions-list">
+                                    <li>Install <a href="https://ollama.com" target="_blank" rel="noopener noreferrer">Ollama</a> and pull a model, e.g. <code>ollama pull {DEFAULT_OPENAI_MODEL}</code></li>
+                                    <li>Allow the extension origin: start the server with <code>OLLAMA_ORIGINS=chrome-extension://*</code></li>
+                                    <li>Keep the default URL <code>{DEFAULT_OPENAI_BASE_URL}</code>, or point it at any OpenAI-compatible <code>/v1</code> endpoint</li>
+                                    <li>Click <strong>Save Settings</strong> and click <strong>Test Connection</strong> to verify</li>
+                                </ol>
+                            </div>
+                        )}
                     </>
                 )}
 
@@ -598,6 +986,8 @@ function Options() {
                             <p className="page-subtitle">Manage multiple profiles. All data is encrypted with AES-256 local encryption.</p>
                         </div>
 
+                        {vaultStatus?.locked && vaultUnlockCard}
+
                         <div className="card">
                             <div className="card-title">
                                 <User size={18} /> Saved Profiles
@@ -660,14 +1050,19 @@ function Options() {
                             </div>
                             <p className="card-desc">
                                 Export all profiles to an encrypted JSON backup file or restore from a previous backup.
+                                You can also import a JSON Resume or Europass CV (XML) as a new profile, or export the
+                                active profile as JSON Resume to reuse it in other tools.
                             </p>
                             <div className="btn-group">
                                 <button className="btn btn-secondary" onClick={handleExport}>
                                     <Download size={16} /> Export All Profiles
                                 </button>
+                                <button className="btn btn-secondary" onClick={handleExportJSONResume}>
+                                    <FileText size={16} /> Export as JSON Resume
+                                </button>
                                 <label className="btn btn-secondary" style={{ cursor: 'pointer' }}>
                                     <Upload size={16} /> Import Profiles
-                                    <input type="file" accept=".json" onChange={handleImport} hidden />
+                                    <input type="file" accept=".json,.xml" onChange={handleImport} hidden />
                                 </label>
                             </div>
                         </div>
@@ -822,7 +1217,7 @@ function Options() {
                             <div className="toggle-row">
                                 <div>
                                     <div className="toggle-label">Auto-Submit Forms</div>
-                                    <div className="toggle-desc">Automatically clicks Next/Submit after filling fields</div>
+                                    <div className="toggle-desc">Automatically clicks Next after filling fields and stops for your review before the final submit</div>
                                 </div>
                                 <label className="toggle-checkbox">
                                     <input
@@ -835,7 +1230,108 @@ function Options() {
                                     </span>
                                 </label>
                             </div>
+                            {submitAllowedSites.length > 0 && (
+                                <div className="profile-list">
+                                    <p className="card-desc">Autopilot also clicks the final submit button on these sites:</p>
+                                    {submitAllowedSites.map(h => (
+                                        <div key={h} className="profile-item">
+                                            <span className="vault-file-name">{h}</span>
+                                            <div className="profile-actions">
+                                                <button className="btn btn-danger btn-sm" onClick={() => revokeSubmitSite(h)} title="Stop for review on this site">
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="toggle-row">
+                                <div>
+                                    <div className="toggle-label">Preview Before Filling</div>
+                                    <div className="toggle-desc">Review, edit or skip each proposed value in the sidebar before the page is touched</div>
+                                </div>
+                                <label className="toggle-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={fillPreview}
+                                        onChange={e => setFillPreview(e.target.checked)}
+                                    />
+                                    <span className={fillPreview ? 'text-success' : 'text-muted'}>
+                                        {fillPreview ? 'Enabled' : 'Disabled'}
+                                    </span>
+                                </label>
+                            </div>
                         </div>
+                        {vaultStatus?.locked ? vaultUnlockCard : vaultStatus && (
+                            <div className="card">
+                                <div className="card-title">
+                                    <Key size={18} /> Vault Passphrase
+                                </div>
+                                {vaultStatus.mode === 'device' ? (
+                                    <>
+                                        <p className="card-desc">
+                                            Profiles are encrypted with a key stored on this device, so anyone who can read extension
+                                            storage can decrypt them. Set a master passphrase to derive the key instead — only a salt
+                                            is stored. If you forget the passphrase, your profiles cannot be recovered.
+                                        </p>
+                                        <div className="input-group">
+                                            <label>New Passphrase</label>
+                                            <input type="password" value={vaultNewPass} onChange={e => setVaultNewPass(e.target.value)} />
+                                        </div>
+                                        <div className="input-group">
+                                            <label>Confirm Passphrase</label>
+                                            <input type="password" value={vaultPassConfirm} onChange={e => setVaultPassConfirm(e.target.value)} />
+                                        </div>
+                                        <button className="btn btn-primary" onClick={enableVaultPassphrase} disabled={vaultBusy || !vaultNewPass}>
+                                            <Lock size={16} /> Set Passphrase
+                                        </button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <p className="card-desc">
+                                            Your vault is unlocked for this browser session. It locks when the browser closes or after
+                                            the idle timeout below.
+                                        </p>
+                                        <div className="input-group">
+                                            <label>Auto-lock after inactivity</label>
+                                            <select
+                                                className="custom-select"
+                                                value={vaultStatus.autoLockMinutes}
+                                                onChange={e => changeAutoLock(Number(e.target.value))}
+                                            >
+                                                {[5, 15, 30, 60, 240].map(m => (
+                                                    <option key={m} value={m}>{m < 60 ? `${m} minutes` : `${m / 60} hour${m > 60 ? 's' : ''}`}</option>
+                                                ))}
+                                                <option value={0}>Never (until browser closes)</option>
+                                            </select>
+                                        </div>
+                                        <div className="input-group">
+                                            <label>Current Passphrase</label>
+                                            <input type="password" value={vaultPass} onChange={e => setVaultPass(e.target.value)} />
+                                        </div>
+                                        <div className="input-group">
+                                            <label>New Passphrase</label>
+                                            <input type="password" value={vaultNewPass} onChange={e => setVaultNewPass(e.target.value)} />
+                                        </div>
+                                        <div className="input-group">
+                                            <label>Confirm New Passphrase</label>
+                                            <input type="password" value={vaultPassConfirm} onChange={e => setVaultPassConfirm(e.target.value)} />
+                                        </div>
+                                        <div className="btn-group">
+                                            <button className="btn btn-secondary" onClick={lockVault} disabled={vaultBusy}>
+                                                <Lock size={16} /> Lock Now
+                                            </button>
+                                            <button className="btn btn-primary" onClick={changeVaultPassphrase} disabled={vaultBusy || !vaultPass || !vaultNewPass}>
+                                                <RefreshCw size={16} /> Change Passphrase
+                                            </button>
+                                            <button className="btn btn-danger" onClick={removeVaultPassphrase} disabled={vaultBusy || !vaultPass}>
+                                                <Trash2 size={16} /> Remove Passphrase
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
                         <div className="card card-alert-success">
                             <div className="card-title text-success">
                                 <ShieldCheck size={18} /> Never sent to AI models
@@ -956,6 +1452,284 @@ function Options() {
                     </>
                 )}
 
+                {/* ────── SITE RECIPES ────── */}
+                {section === 'recipes' && (
+                    <>
+                        <div className="page-header">
+                            <h1 className="page-title">
+                                <BookMarked className="header-icon" size={24} /> Site Recipes
+                            </h1>
+                            <p className="page-subtitle">
+                                Aullevo remembers which profile field went into which form field after every fill,
+                                and replays it next time you open the same form — no AI call, no guessing.
+                            </p>
+                        </div>
+
+                        {inspectingRecipe && (() => {
+                            const recipe = recipes.find(r => r.key === inspectingRecipe);
+                            if (!recipe) return null;
+                            return (
+                                <div className="card">
+                                    <div className="card-title">
+                                        <Eye size={18} /> {recipe.hostname}{recipe.pathPattern}
+                                    </div>
+                                    <p className="card-desc">
+                                        Change a field type to fix a wrong match (e.g. <code>email</code>, <code>custom_field:Pronouns</code>),
+                                        or enter a value to always fill that exact text. Pinned values are stored unencrypted.
+                                        Clear a field type to drop the field from the recipe.
+                                    </p>
+                                    <div className="recipe-table">
+                                        <div className="recipe-row recipe-row-head">
+                                            <span>Form field</span>
+                                            <span>Field type</span>
+                                            <span>Pinned value</span>
+                                        </div>
+                                        {recipeDraft.map((m, i) => (
+                                            <div key={`${m.id || m.fieldId}-${i}`} className="recipe-row">
+                                                <span className="recipe-label" title={m.id || m.fieldId}>
+                                                    {m.action === 'click_add'
+                                                        ? `“Add ${m.groupType || 'entry'}” button`
+                                                        : m.label || m.name || m.id || m.fieldId}
+                                                    {typeof m.groupIndex === 'number' && ` #${m.groupIndex + 1}`}
+                                                </span>
+                                                <input
+                                                    type="text"
+                                                    value={m.fieldType}
+                                                    disabled={m.action === 'click_add'}
+                                                    onChange={e => updateRecipeMapping(i, { fieldType: e.target.value })}
+                                                />
+                                                <input
+                                                    type="text"
+                                                    placeholder="From profile"
+                                                    value={typeof m.selectedValue === 'string' ? m.selectedValue : ''}
+                                                    disabled={m.action === 'click_add'}
+                                                    onChange={e => updateRecipeMapping(i, { selectedValue: e.target.value })}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="btn-group">
+                                        <button className="btn btn-primary" onClick={saveRecipe}>
+                                            <Save size={16} /> Save Recipe
+                                        </button>
+                                        <button className="btn btn-secondary" onClick={() => setInspectingRecipe(null)}>
+                                            <X size={16} /> Close
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })()}
+
+                        <div className="card">
+                            <div className="card-title">
+                                <BookMarked size={18} /> Saved Recipes
+                                <span className="vault-count">{recipes.length} saved</span>
+                            </div>
+                            <div className="profile-list">
+                                {recipes.length === 0 && (
+                                    <p className="empty-text">
+                                        {vaultStatus?.locked
+                                            ? 'Unlock the vault to see your recipes.'
+                                            : 'No recipes yet. Fill a form and it will appear here.'}
+                                    </p>
+                                )}
+                                {recipes.map(r => (
+                                    <div key={r.key} className={`profile-item ${r.key === inspectingRecipe ? 'active' : ''}`}>
+                                        <div className="vault-file-info">
+                                            <span className="vault-file-name">{r.hostname}{r.pathPattern}</span>
+                                            <span className="vault-file-meta">
+                                                {r.mappings.length} field{r.mappings.length !== 1 ? 's' : ''}
+                                                {' '}&middot; used {r.uses}×
+                                                {' '}&middot; last used {new Date(r.lastUsedAt).toLocaleDateString()}
+                                            </span>
+                                        </div>
+                                        <div className="profile-actions">
+                                            <button className="btn btn-secondary btn-sm" onClick={() => openRecipe(r)}>
+                                                <Eye size={14} /> Inspect
+                                            </button>
+                                            <button className="btn btn-danger btn-sm" onClick={() => deleteRecipe(r.key)} title="Delete recipe">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="card">
+                            <div className="card-title">
+                                <Download size={18} /> Import & Export
+                            </div>
+                            <p className="card-desc">Share recipes with teammates who apply through the same sites, or back them up.</p>
+                            <div className="btn-group">
+                                <button className="btn btn-secondary" onClick={exportRecipes} disabled={recipes.length === 0}>
+                                    <Download size={16} /> Export Recipes
+                                </button>
+                                <label className="btn btn-secondary" style={{ cursor: 'pointer' }}>
+                                    <Upload size={16} /> Import Recipes
+                                    <input type="file" accept=".json" onChange={importRecipes} hidden />
+                                </label>
+                                {recipes.length > 0 && (
+                                    <button className="btn btn-danger" onClick={clearRecipes}>
+                                        <Trash2 size={16} /> Delete All
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {/* ────── APPLICATIONS ────── */}
+                {section === 'applications' && (
+                    <>
+                        <div className="page-header">
+                            <h1 className="page-title">
+                                <Briefcase className="header-icon" size={24} /> Applications
+                            </h1>
+                            <p className="page-subtitle">
+                                Every completed autopilot run is logged here with the profile, files and answers it used.
+                                Runs that stopped before the final submit wait as pending until you mark them applied.
+                                Track each one from applied to offer.
+                            </p>
+                        </div>
+
+                        {openApplication && (() => {
+                            const app = applications.find(a => a.id === openApplication);
+                            if (!app) return null;
+                            return (
+                                <div className="card">
+                                    <div className="card-title">
+                                        <Eye size={18} /> {app.company || app.hostname}
+                                    </div>
+                                    <div className="input-row">
+                                        <div className="input-group">
+                                            <label>Company</label>
+                                            <input
+                                                type="text"
+                                                value={applicationDraft.company}
+                                                onChange={e => setApplicationDraft(d => ({ ...d, company: e.target.value }))}
+                                            />
+                                        </div>
+                                        <div className="input-group">
+                                            <label>Role</label>
+                                            <input
+                                                type="text"
+                                                value={applicationDraft.role}
+                                                onChange={e => setApplicationDraft(d => ({ ...d, role: e.target.value }))}
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="input-group">
+                                        <label>Notes</label>
+                                        <textarea
+                                            rows={3}
+                                            value={applicationDraft.notes}
+                                            onChange={e => setApplicationDraft(d => ({ ...d, notes: e.target.value }))}
+                                        />
+                                    </div>
+                                    <p className="card-desc">
+                                        <a href={app.url} target="_blank" rel="noreferrer">{app.url}</a>
+                                        {' '}&middot; profile “{app.profile || 'Default'}”
+                                        {app.files.length > 0 && <> &middot; files: {app.files.join(', ')}</>}
+                                    </p>
+                                    {app.statusHistory.length > 0 && (
+                                        <p className="card-desc">
+                                            {app.statusHistory
+                                                .map(h => `${h.status} ${new Date(h.at).toLocaleDateString()}`)
+                                                .join(' → ')}
+                                        </p>
+                                    )}
+                                    {app.answers.length > 0 && (
+                                        <div className="application-answers">
+                                            {app.answers.map(a => (
+                                                <div key={a.question} className="application-answer">
+                                                    <span className="application-question">{a.question}</span>
+                                                    <span>{a.answer || <em>Unlock the vault to read this answer.</em>}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="btn-group">
+                                        <button className="btn btn-primary" onClick={saveApplication}>
+                                            <Save size={16} /> Save
+                                        </button>
+                                        <button className="btn btn-secondary" onClick={() => setOpenApplication(null)}>
+                                            <X size={16} /> Close
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })()}
+
+                        <div className="card">
+                            <div className="card-title">
+                                <Briefcase size={18} /> Application Log
+                                <span className="vault-count">{applications.length} logged</span>
+                                <button className="btn btn-secondary btn-sm" onClick={refreshApplications} title="Reload">
+                                    <RefreshCw size={14} />
+                                </button>
+                            </div>
+                            <div className="profile-list">
+                                {applications.length === 0 && (
+                                    <p className="empty-text">Nothing logged yet. Finish an autopilot run and it will appear here.</p>
+                                )}
+                                {applications.map(a => (
+                                    <div key={a.id} className={`profile-item ${a.id === openApplication ? 'active' : ''}`}>
+                                        <div className="vault-file-info">
+                                            <span className="vault-file-name">
+                                                {a.role || 'Untitled role'}{a.company && ` · ${a.company}`}
+                                            </span>
+                                            <span className="vault-file-meta">
+                                                {new Date(a.appliedAt).toLocaleDateString()}
+                                                {' '}&middot; {a.hostname}
+                                                {' '}&middot; {a.answers.length} answer{a.answers.length !== 1 ? 's' : ''}
+                                                {a.files.length > 0 && <> &middot; {a.files.length} file{a.files.length !== 1 ? 's' : ''}</>}
+                                            </span>
+                                        </div>
+                                        <div className="profile-actions">
+                                            <select
+                                                className={`application-status application-status-${a.status}`}
+                                                value={a.status}
+                                                onChange={e => changeApplicationStatus(a.id, e.target.value as ApplicationStatus)}
+                                            >
+                                                {APPLICATION_STATUSES.map(s => (
+                                                    <option key={s} value={s}>{s[0].toUpperCase() + s.slice(1)}</option>
+                                                ))}
+                                            </select>
+                                            <button className="btn btn-secondary btn-sm" onClick={() => inspectApplication(a)}>
+                                                <Eye size={14} /> Details
+                                            </button>
+                                            <button className="btn btn-danger btn-sm" onClick={() => deleteApplication(a.id)} title="Delete entry">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="card">
+                            <div className="card-title">
+                                <Download size={18} /> Export
+                            </div>
+                            <p className="card-desc">Download the log for a spreadsheet or keep a backup. Exports include your answers in plain text.</p>
+                            <div className="btn-group">
+                                <button className="btn btn-secondary" onClick={() => exportApplications('csv')} disabled={applications.length === 0}>
+                                    <Download size={16} /> Export CSV
+                                </button>
+                                <button className="btn btn-secondary" onClick={() => exportApplications('json')} disabled={applications.length === 0}>
+                                    <Download size={16} /> Export JSON
+                                </button>
+                                {applications.length > 0 && (
+                                    <button className="btn btn-danger" onClick={clearApplications}>
+                                        <Trash2 size={16} /> Delete All
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+
                 {/* ────── ABOUT ────── */}
                 {section === 'about' && (
                     <>
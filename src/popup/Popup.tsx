@@ -1,26 +1,14 @@
-import { useState, useEffect, type ChangeEvent } from 'react';
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
 import { Upload, Save, Sparkles, Loader2, ChevronDown, Plus, Trash2, User, Link, Briefcase, PenTool, Database, Zap } from 'lucide-react';
-import { geminiService } from '../services/geminiService';
+import { llmService } from '../services/llmService';
+import { loadLLMSettings, getLLMConfigError } from '../services/llm';
 import { resumeParser } from '../services/resumeParser';
-import type { UserData, CustomField, Status, ChromeResponse, Memory, SavedLink } from '../types';
+import { storageService } from '../services/storageService';
+import { extractResumeData, mergeResumeData } from '../services/resumeExtractor';
+import type { UserData, CustomField, Status, Memory, SavedLink, AutopilotSession } from '../types';
 import './Popup.css';
 import { LogoA } from '../components/LogoA';
 
-/* ─── helpers ─── */
-
-function migrateCustomFields(raw: any): CustomField[] {
-    if (Array.isArray(raw)) return raw;
-    if (raw && typeof raw === 'object') {
-        // Old Record<string, string> → CustomField[]
-        return Object.entries(raw).map(([key, value]) => ({
-            label: key,
-            value: String(value),
-            context: '',
-        }));
-    }
-    return [];
-}
-
 /* ─── collapsible section component ─── */
 
 interface SectionProps {
@@ -120,6 +108,7 @@ function Popup() {
     });
 
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
+    const autopilotTabRef = useRef<number | null>(null); // Tab of the run the popup started
     const [status, setStatus] = useState<Status>({ message: '', type: '' });
     const [uploadedFileName, setUploadedFileName] = useState<string>('');
 
@@ -140,13 +129,10 @@ function Popup() {
 
     useEffect(() => {
         if (typeof chrome !== 'undefined' && chrome?.storage) {
-            chrome.storage.local.get(['userData', 'geminiApiKey', 'isPro'], (result) => {
-                if (result?.userData) {
-                    const loaded = result.userData as any;
-                    // Migrate old customFields format
-                    loaded.customFields = migrateCustomFields(loaded.customFields);
-                    setUserData(loaded as Partial<UserData>);
-                }
+            storageService.readUserDataMirror().then((mirror) => {
+                if (mirror) setUserData(mirror);
+            });
+            chrome.storage.local.get(['geminiApiKey', 'isPro'], (result) => {
                 if (result?.geminiApiKey) {
                     setApiKey(result.geminiApiKey as string);
                 }
@@ -160,6 +146,9 @@ function Popup() {
                 if (areaName === 'local' && changes.isPro !== undefined) {
                     setIsPro(!!changes.isPro.newValue);
                 }
+                if (areaName === 'local' && changes.autopilotSession !== undefined) {
+                    showAutopilotSession(changes.autopilotSession.newValue);
+                }
             };
             chrome.storage.onChanged.addListener(storageListener);
             return () => {
@@ -239,29 +228,33 @@ function Popup() {
 
         setUploadedFileName(file.name);
         setIsProcessing(true);
-        setStatus({ message: '🤖 Gemini AI is parsing your resume...', type: 'info' });
+        setStatus({ message: '📄 Parsing your resume...', type: 'info' });
 
         try {
-            if (!apiKey && !(import.meta as any).env.VITE_GEMINI_API_KEY) {
-                throw new Error("Please set your Gemini API Key in Settings first.");
-            }
-
-            if (apiKey) {
-                geminiService.setApiKey(apiKey);
+            const { text: resumeText } = await resumeParser.parseFile(file);
+            const { data: draft } = extractResumeData(resumeText);
+
+            // Refine the rule-based draft with AI only when a key is available
+            let parsedData = draft;
+            const llmSettings = await loadLLMSettings();
+            if (!getLLMConfigError(llmSettings)) {
+                llmService.configure(llmSettings);
+                try {
+                    parsedData = await llmService.parseResume(resumeText, draft);
+                } catch (err) {
+                    console.warn('AI resume refinement failed, using rule-based result:', err);
+                }
             }
 
-            const resumeText = await resumeParser.parseFile(file);
-            const parsedData = await geminiService.parseResume(resumeText);
-
-            const newData = { ...userData, ...parsedData };
+            const newData = { ...mergeResumeData(userData, parsedData) } as UserData;
             // Preserve existing custom fields
             newData.customFields = userData.customFields || [];
             setUserData(newData);
 
-            setStatus({ message: '✅ Resume parsed successfully by Gemini!', type: 'success' });
+            setStatus({ message: '✅ Resume parsed! Review your profile and save.', type: 'success' });
 
             if (typeof chrome !== 'undefined' && chrome?.storage) {
-                chrome.storage.local.set({ userData: newData });
+                storageService.mirrorUserData(newData);
             }
         } catch (error: any) {
             console.error(error);
@@ -282,10 +275,14 @@ function Popup() {
 
     const handleSave = () => {
         if (typeof chrome !== 'undefined' && chrome?.storage) {
-            chrome.storage.local.set({ userData }, () => {
-                setStatus({ message: '💾 Data saved!', type: 'success' });
-                setTimeout(() => setStatus({ message: '', type: '' }), 2000);
-            });
+            // Save to the active vault profile (also refreshes the mirror)
+            storageService.getActiveProfileName()
+                .then((name) => storageService.saveProfile(name, userData as UserData))
+                .then(() => {
+                    setStatus({ message: '💾 Data saved!', type: 'success' });
+                    setTimeout(() => setStatus({ message: '', type: '' }), 2000);
+                })
+                .catch((err: Error) => setStatus({ message: `❌ ${err.message}`, type: 'error' }));
         } else {
             setStatus({ message: '💾 Data saved! (mocked in dev preview)', type: 'success' });
             setTimeout(() => setStatus({ message: '', type: '' }), 2000);
@@ -294,143 +291,31 @@ function Popup() {
 
     /* ── AI Form Filler ── */
 
-    const processFormStep = async (tabId: number, step: number) => {
-        if (step > 15) {
-            setStatus({ message: '🛑 Max steps reached (safety limit).', type: 'info' });
-            setIsProcessing(false);
-            return;
-        }
-
-        setStatus({ message: `Step ${step + 1}: Analyzing...`, type: 'info' });
-
-        try {
-            const response = await sendMessagePromise(tabId, { action: 'analyzeForm' });
-
-            if (!response?.success) {
-                setStatus({ message: '❌ Analysis failed or no form found.', type: 'error' });
-                setIsProcessing(false);
-                return;
-            }
-
-            const fields = response.fields || [];
-            let needsReAnalysis = false;
-
-            if (fields.length > 0) {
-                // Send full custom field objects for rich AI matching
-                const customFields = (userData.customFields as CustomField[]) || [];
-                const fieldMappings = await geminiService.analyzeFormFields(fields, customFields);
-
-                for (const mapping of fieldMappings) {
-                    if (mapping.fieldType === 'custom_question' && mapping.originalQuestion) {
-                        setStatus({ message: `🤔 Thinking: "${mapping.originalQuestion}"...`, type: 'info' });
-                        const answer = await geminiService.answerFormQuestion(mapping.originalQuestion, userData);
-                        mapping.selectedValue = answer;
-                    }
-
-                    // Resolve custom_field:LABEL from our array
-                    if (mapping.fieldType?.startsWith('custom_field:')) {
-                        const label = mapping.fieldType.slice('custom_field:'.length);
-                        const match = customFields.find(cf => cf.label === label);
-                        if (match) mapping.selectedValue = match.value;
-                    }
-
-                    // Handle Array Mapping
-                    if (mapping.groupType && typeof mapping.groupIndex === 'number' && mapping.action !== 'click_add') {
-                        let arraySource: any[] = [];
-                        if (mapping.groupType === 'experience') arraySource = userData.experience || [];
-                        if (mapping.groupType === 'education') arraySource = userData.education || [];
-                        if (mapping.groupType === 'project') arraySource = userData.portfolio ? JSON.parse(JSON.stringify(userData.portfolio)) : [];
-                        if (mapping.groupType === 'skill') arraySource = userData.skills || [];
-
-                        const item = arraySource[mapping.groupIndex];
-                        if (item) {
-                            if (typeof item === 'object' && item !== null) {
-                                if (mapping.fieldType in item) {
-                                    mapping.selectedValue = (item as any)[mapping.fieldType];
-                                }
-                            } else if (mapping.groupType === 'skill') {
-                                mapping.selectedValue = String(item);
-                            }
-                        }
-                    }
-                }
-
-                const fillMappings = fieldMappings.filter(m => m.action !== 'click_add');
-                const fillResponse = await sendMessagePromise(tabId, {
-                    action: 'fillForm',
-                    data: { fieldMappings: fillMappings, userData }
-                });
-
-                if (fillResponse?.success) {
-                    setStatus({
-                        message: `✅ Step ${step + 1}: Filled ${fillResponse.filledCount} fields.`,
-                        type: 'success'
-                    });
-                }
-
-                // Handle "Add" Buttons
-                const addButtons = fieldMappings.filter(m => m.action === 'click_add');
-                for (const btn of addButtons) {
-                    if (!btn.groupType) continue;
-
-                    const currentIndices = fieldMappings
-                        .filter(m => m.groupType === btn.groupType && typeof m.groupIndex === 'number')
-                        .map(m => m.groupIndex!);
-
-                    const maxIndex = currentIndices.length > 0 ? Math.max(...currentIndices) : -1;
-
-                    let totalDataItems = 0;
-                    if (btn.groupType === 'experience') totalDataItems = (userData.experience || []).length;
-                    if (btn.groupType === 'education') totalDataItems = (userData.education || []).length;
-
-                    if (totalDataItems > maxIndex + 1) {
-                        setStatus({ message: `➕ Adding another ${btn.groupType}...`, type: 'info' });
-                        await sendMessagePromise(tabId, {
-                            action: 'fillForm',
-                            data: { fieldMappings: [{ ...btn }] }
-                        });
-
-                        await new Promise(r => setTimeout(r, 1500));
-                        needsReAnalysis = true;
-                        break;
-                    }
-                }
-            }
-
-            if (needsReAnalysis) {
-                setTimeout(() => processFormStep(tabId, step + 1), 500);
+    // The run itself is the background autopilot (the same one as the sidebar's
+    // Fill button); the popup only starts it and mirrors its state.
+    const showAutopilotSession = (session: AutopilotSession | undefined) => {
+        if (!session?.history?.length || session.tabId !== autopilotTabRef.current) return;
+        const note = session.history[session.history.length - 1].note;
+        switch (session.phase) {
+            case 'review':
+                setStatus({ message: `📝 ${note || 'Ready for your review — submit the application yourself.'}`, type: 'success' });
+                break;
+            case 'done':
+                setStatus({ message: `✨ ${note || 'Form filling complete!'}`, type: 'success' });
+                break;
+            case 'failed':
+                setStatus({ message: `❌ ${note || 'Autopilot stopped.'}`, type: 'error' });
+                break;
+            case 'paused':
+            case 'cancelled':
+                setStatus({ message: note || `Autopilot ${session.phase}.`, type: 'info' });
+                break;
+            default:
+                setStatus({ message: `Step ${session.step + 1}: ${session.phase}…`, type: 'info' });
                 return;
-            }
-
-            await new Promise(r => setTimeout(r, 1000));
-
-            const nextResponse = await sendMessagePromise(tabId, { action: 'clickNext' });
-
-            if (nextResponse?.success) {
-                setStatus({ message: `➡️ Moving to next step...`, type: 'info' });
-                setTimeout(() => processFormStep(tabId, step + 1), 3000);
-            } else {
-                setIsProcessing(false);
-                setStatus({ message: '✨ Form filling complete!', type: 'success' });
-            }
-        } catch (error: any) {
-            console.error(error);
-            setStatus({ message: `❌ Error: ${error.message}`, type: 'error' });
-            setIsProcessing(false);
         }
-    };
-
-    const sendMessagePromise = (tabId: number, message: any): Promise<ChromeResponse> => {
-        return new Promise((resolve) => {
-            chrome.tabs.sendMessage(tabId, message, (response) => {
-                if (chrome.runtime.lastError) {
-                    console.warn('Aullevo popup notice:', chrome.runtime.lastError.message);
-                    resolve({ success: false, message: chrome.runtime.lastError.message });
-                } else {
-                    resolve(response);
-                }
-            });
-        });
+        autopilotTabRef.current = null;
+        setIsProcessing(false);
     };
 
     const handleAIFillForm = async () => {
@@ -448,19 +333,20 @@ function Popup() {
         }
 
         try {
-            if (!apiKey && !(import.meta as any).env.VITE_GEMINI_API_KEY) {
-                throw new Error("Please set your Gemini API Key in Settings first.");
-            }
-
-            if (apiKey) geminiService.setApiKey(apiKey);
+            const configError = getLLMConfigError(await loadLLMSettings());
+            if (configError) throw new Error(configError);
 
             const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
             if (!tab.id) throw new Error("No active tab found");
 
-            processFormStep(tab.id, 0);
-        } catch (error: any) {
+            autopilotTabRef.current = tab.id;
+            const response = await chrome.runtime.sendMessage({ action: 'triggerFillFromPopup' });
+            if (!response?.success) throw new Error(response?.error || 'Could not start autopilot');
+            setStatus({ message: '🚀 Autopilot started — progress also shows in the page sidebar.', type: 'info' });
+        } catch (error) {
             console.error(error);
-            setStatus({ message: `❌ ${error.message || 'Error filling form'}`, type: 'error' });
+            autopilotTabRef.current = null;
+            setStatus({ message: `❌ ${(error as Error).message || 'Error filling form'}`, type: 'error' });
             setIsProcessing(false);
         }
     };
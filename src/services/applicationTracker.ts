@@ -0,0 +1,301 @@
+/**
+ * applicationTracker.ts
+ *
+ * Application log: one record per completed autopilot run — company, role,
+ * URL, date, the profile used, uploaded files, the answers given to
+ * free-text questions, and a status pipeline
+ * (pending → applied → interviewing → offer / rejected).
+ *
+ * While a run is in progress its record lives in the `drafts` store and is
+ * merged step by step; finalize() moves it to `applications` when the run
+ * completes, discardDraft() drops it when the run fails or is cancelled.
+ * A run that did not click the final submit button is logged as "pending"
+ * until the user marks it applied.
+ *
+ * Stored in the extension's IndexedDB ("aullevo") — shared by the background
+ * worker, which writes, and the options page, which reads. The answers are
+ * sealed with the vault key (storageService.sealValues); everything else is
+ * stored as is. reseal() carries them over when the vault key changes.
+ *
+ * Architecture Design System — Layer 4: Data Layer
+ */
+
+import { storageService, VaultLockedError } from './storageService';
+import type {
+    ApplicationStatus,
+    FieldMapping,
+    TrackedAnswer,
+    TrackedApplication,
+} from '../types';
+
+const DB_NAME = 'aullevo';
+const DB_VERSION = 1;
+const APPLICATIONS = 'applications';
+const DRAFTS = 'drafts';
+const EXPORT_VERSION = 1;
+const SAME_APPLICATION_MS = 24 * 60 * 60 * 1000; // Page-by-page runs on one form within a day merge
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['pending', 'applied', 'interviewing', 'offer', 'rejected'];
+
+/*
+   INDEXEDDB
+ */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(APPLICATIONS)) {
+                    db.createObjectStore(APPLICATIONS, { keyPath: 'id' }).createIndex('appliedAt', 'appliedAt');
+                }
+                if (!db.objectStoreNames.contains(DRAFTS)) {
+                    db.createObjectStore(DRAFTS, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/** Runs one request in its own transaction and resolves with its result. */
+async function run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    op: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = op(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+const getRecord = (storeName: string, id: string) =>
+    run<TrackedApplication | undefined>(storeName, 'readonly', s => s.get(id));
+const putRecord = (storeName: string, record: TrackedApplication) =>
+    run(storeName, 'readwrite', s => s.put(record));
+const deleteRecord = (storeName: string, id: string) =>
+    run(storeName, 'readwrite', s => s.delete(id));
+const allRecords = (storeName: string) =>
+    run<TrackedApplication[]>(storeName, 'readonly', s => s.getAll());
+
+/*
+   ANSWERS (sealed with the vault key)
+ */
+
+async function sealAnswers(answers: TrackedAnswer[]): Promise<TrackedAnswer[]> {
+    const sealed = await storageService.sealValues(answers.map(a => a.answer));
+    return answers.map((a, i) => ({ question: a.question, answer: sealed[i] }));
+}
+
+/** Decrypts a record's answers. While the vault is locked, or for answers sealed under an older key, the answer is empty. */
+async function openAnswers(app: TrackedApplication): Promise<TrackedApplication> {
+    const opened = await storageService.openValues(app.answers.map(a => a.answer))
+        .catch(() => app.answers.map(() => null));
+    return { ...app, answers: app.answers.map((a, i) => ({ question: a.question, answer: opened[i] ?? '' })) };
+}
+
+/*
+   FILL DATA
+ */
+
+// Sources whose value is the user's answer to a question on the form
+const ANSWER_SOURCES = new Set(['ai_answer', 'custom_field', 'memory', 'manual']);
+
+/** Uploaded file names and free-text answers from one step's filled mappings. */
+export function summarizeFill(mappings: FieldMapping[]): { files: string[]; answers: TrackedAnswer[] } {
+    const files: string[] = [];
+    const answers: TrackedAnswer[] = [];
+    for (const m of mappings) {
+        if (m.fileName) files.push(m.fileName);
+        (m.files || []).forEach(f => f.name && files.push(f.name));
+        const question = m.originalQuestion || m.label;
+        if (question && typeof m.selectedValue === 'string' && m.selectedValue.trim() &&
+            ANSWER_SOURCES.has(m.valueSource || '')) {
+            answers.push({ question, answer: m.selectedValue });
+        }
+    }
+    return { files, answers };
+}
+
+export type DraftUpdate = Partial<Pick<TrackedApplication, 'company' | 'role' | 'url' | 'hostname' | 'profile'>> & {
+    files?: string[];
+    answers?: TrackedAnswer[];
+};
+
+/*
+   CSV
+ */
+
+// A leading = + - @ makes spreadsheet apps run the cell as a formula
+const csvCell = (raw: string) => {
+    const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+function toCsv(apps: TrackedApplication[]): string {
+    const header = ['Company', 'Role', 'Status', 'Applied', 'URL', 'Profile', 'Files', 'Answers', 'Notes'];
+    const rows = apps.map(a => [
+        a.company,
+        a.role,
+        a.status,
+        new Date(a.appliedAt).toISOString().slice(0, 10),
+        a.url,
+        a.profile,
+        a.files.join('; '),
+        a.answers.map(q => `${q.question}: ${q.answer}`).join('\n'),
+        a.notes || '',
+    ]);
+    return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\r\n');
+}
+
+export const applicationTracker = {
+    /* ── Autopilot: merge one step's data into the run's draft ── */
+    async saveDraft(id: string, update: DraftUpdate): Promise<void> {
+        const now = Date.now();
+        const existing = await getRecord(DRAFTS, id);
+        const answers = new Map((existing?.answers ?? []).map(a => [a.question, a]));
+        (await sealAnswers(update.answers ?? [])).forEach(a => answers.set(a.question, a)); // A re-run step wins
+
+        await putRecord(DRAFTS, {
+            id,
+            company: existing?.company || update.company || '',
+            role: existing?.role || update.role || '',
+            url: existing?.url || update.url || '',
+            hostname: existing?.hostname || update.hostname || '',
+            profile: update.profile || existing?.profile || '',
+            files: [...new Set([...(existing?.files ?? []), ...(update.files ?? [])])],
+            answers: [...answers.values()],
+            appliedAt: existing?.appliedAt ?? now,
+            status: 'pending',
+            statusHistory: [],
+            updatedAt: now,
+        });
+    },
+
+    /**
+     * Moves a finished run's draft into the application log, as "applied"
+     * when the run clicked the final submit button and "pending" when it
+     * stopped before it. A run on the same posting within a day (e.g.
+     * filling one page at a time) is merged into the existing entry instead
+     * of logging a duplicate; a submit promotes a pending entry to applied.
+     */
+    async finalize(id: string, status: 'pending' | 'applied'): Promise<TrackedApplication | null> {
+        const draft = await getRecord(DRAFTS, id);
+        if (!draft) return null;
+        const now = Date.now();
+        const previous = (await allRecords(APPLICATIONS)).find(a =>
+            a.hostname === draft.hostname &&
+            a.company === draft.company &&
+            a.role === draft.role &&
+            now - a.appliedAt < SAME_APPLICATION_MS
+        );
+
+        const promoted = previous?.status === 'pending' && status === 'applied';
+        const app: TrackedApplication = previous
+            ? {
+                ...previous,
+                ...(promoted && {
+                    status,
+                    appliedAt: now,
+                    statusHistory: [...previous.statusHistory, { status, at: now }],
+                }),
+                files: [...new Set([...previous.files, ...draft.files])],
+                answers: [
+                    ...previous.answers.filter(a => !draft.answers.some(d => d.question === a.question)),
+                    ...draft.answers,
+                ],
+                profile: draft.profile || previous.profile,
+                updatedAt: now,
+            }
+            : {
+                ...draft,
+                appliedAt: now,
+                status,
+                statusHistory: [{ status, at: now }],
+                updatedAt: now,
+            };
+        await putRecord(APPLICATIONS, app);
+        await deleteRecord(DRAFTS, id);
+        return app;
+    },
+
+    async discardDraft(id: string): Promise<void> {
+        await deleteRecord(DRAFTS, id);
+    },
+
+    /* ── Tracker view (options page) ── */
+    async list(): Promise<TrackedApplication[]> {
+        const apps = await Promise.all((await allRecords(APPLICATIONS)).map(openAnswers));
+        return apps.sort((a, b) => b.appliedAt - a.appliedAt);
+    },
+
+    async setStatus(id: string, status: ApplicationStatus): Promise<void> {
+        const app = await getRecord(APPLICATIONS, id);
+        if (!app) throw new Error('Application not found.');
+        if (app.status === status) return;
+        const now = Date.now();
+        await putRecord(APPLICATIONS, {
+            ...app,
+            // Submitted by hand after a run that stopped for review
+            ...(app.status === 'pending' && status === 'applied' && { appliedAt: now }),
+            status,
+            statusHistory: [...app.statusHistory, { status, at: now }],
+            updatedAt: now,
+        });
+    },
+
+    async update(id: string, changes: Partial<Pick<TrackedApplication, 'company' | 'role' | 'notes'>>): Promise<void> {
+        const app = await getRecord(APPLICATIONS, id);
+        if (!app) throw new Error('Application not found.');
+        await putRecord(APPLICATIONS, { ...app, ...changes, updatedAt: Date.now() });
+    },
+
+    async delete(id: string): Promise<void> {
+        await deleteRecord(APPLICATIONS, id);
+    },
+
+    async clear(): Promise<void> {
+        await run(APPLICATIONS, 'readwrite', s => s.clear());
+    },
+
+    async exportJson(): Promise<string> {
+        const applications = await this.list();
+        return JSON.stringify({ version: EXPORT_VERSION, applications, exportedAt: new Date().toISOString() }, null, 2);
+    },
+
+    async exportCsv(): Promise<string> {
+        return toCsv(await this.list());
+    },
+
+    /**
+     * Runs `rekey` (a vault passphrase change) and re-seals every stored
+     * answer under the new key. Needs the current key, i.e. an unlocked vault.
+     */
+    async reseal(rekey: () => Promise<void>): Promise<void> {
+        if ((await storageService.getVaultStatus()).locked) throw new VaultLockedError();
+        const [apps, drafts] = await Promise.all([allRecords(APPLICATIONS), allRecords(DRAFTS)]);
+        const [openApps, openDrafts] = await Promise.all([
+            Promise.all(apps.map(openAnswers)),
+            Promise.all(drafts.map(openAnswers)),
+        ]);
+        await rekey();
+        for (const [storeName, records] of [[APPLICATIONS, openApps], [DRAFTS, openDrafts]] as const) {
+            for (const record of records) {
+                await putRecord(storeName, { ...record, answers: await sealAnswers(record.answers) });
+            }
+        }
+    },
+};
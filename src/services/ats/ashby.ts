@@ -0,0 +1,24 @@
+import type { AtsAdapter } from "./types";
+
+export const ashbyAdapter: AtsAdapter = {
+  id: "ashby",
+  name: "Ashby",
+  hosts: /(^|\.)ashbyhq\.com$/,
+  signature:
+    ".ashby-application-form-container, [class*='ashby-application-form']",
+
+  fields: [
+    { selector: "#_systemfield_name", fieldType: "fullName" },
+    { selector: "#_systemfield_email", fieldType: "email" },
+    { selector: "#_systemfield_phone", fieldType: "phone" },
+    { selector: "#_systemfield_location", fieldType: "city" },
+    { selector: "#_systemfield_resume", fieldType: "resumeUpload" },
+  ],
+
+  question: {
+    container: ".ashby-application-form-field-entry",
+    label: ".ashby-application-form-question-title, label",
+  },
+
+  submitButton: ".ashby-application-form-submit-button",
+};
@@ -0,0 +1,43 @@
+import type { AtsAdapter } from "./types";
+
+export const greenhouseAdapter: AtsAdapter = {
+  id: "greenhouse",
+  name: "Greenhouse",
+  hosts: /(^|\.)greenhouse\.io$/,
+  signature:
+    "#grnhse_app, form#application_form, #application-form #first_name",
+
+  fields: [
+    { selector: "#first_name", fieldType: "firstName" },
+    { selector: "#last_name", fieldType: "lastName" },
+    { selector: "#email", fieldType: "email" },
+    { selector: "#phone", fieldType: "phone" },
+    {
+      selector: "#candidate-location, #job_application_location",
+      fieldType: "city",
+    },
+    { selector: "input[type='file']#resume", fieldType: "resumeUpload" },
+  ],
+
+  // Education entries: education_school_name_0, education_degree_0, …
+  repeaters: [
+    {
+      groupType: "education",
+      section: ".education, [id^='education_'][id$='_section']",
+      addButton: "#add_education, a.add_education",
+      fields: [
+        { selector: "[id^='education_school_name']", fieldType: "school" },
+        { selector: "[id^='education_degree']", fieldType: "degree" },
+      ],
+    },
+  ],
+
+  // Custom questions: the question text is the block's <label>, which the
+  // generic label finder often loses to the "Select…" placeholder
+  question: {
+    container: "#custom_fields .field, .application--questions .field-wrapper",
+    label: "label",
+  },
+
+  submitButton: "#submit_app, #application-form button[type='submit']",
+};
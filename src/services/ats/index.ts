@@ -0,0 +1,7 @@
+/**
+ * ATS Adapter Submodules Barrel Export
+ */
+
+export * from "./types";
+export * from "./registry";
+export * from "./mappings";
@@ -0,0 +1,38 @@
+import type { AtsAdapter } from "./types";
+
+export const leverAdapter: AtsAdapter = {
+  id: "lever",
+  name: "Lever",
+  hosts: /(^|\.)lever\.co$/,
+  signature:
+    ".application-page .application-form, #application-form .application-question",
+
+  fields: [
+    { selector: "input[name='name']", fieldType: "fullName" },
+    { selector: "input[name='email']", fieldType: "email" },
+    { selector: "input[name='phone']", fieldType: "phone" },
+    { selector: "input[name='location']", fieldType: "city" },
+    {
+      selector: "input[name='org']",
+      fieldType: "company",
+      groupType: "experience",
+      groupIndex: 0,
+    },
+    { selector: "input[name='urls[LinkedIn]']", fieldType: "linkedin" },
+    { selector: "input[name='urls[GitHub]']", fieldType: "github" },
+    { selector: "input[name='urls[Portfolio]']", fieldType: "portfolio" },
+    {
+      selector: "#resume-upload-input, input[name='resume']",
+      fieldType: "resumeUpload",
+    },
+  ],
+
+  // Custom cards: each question sits in .application-question with its
+  // text in .application-label, away from the input
+  question: {
+    container: ".application-question",
+    label: ".application-label, .text",
+  },
+
+  submitButton: "#btn-submit, button[data-qa='btn-submit']",
+};
@@ -0,0 +1,38 @@
+import type { FieldMapping, FormField } from "../../types";
+
+/** Fields an ATS adapter has mapped on its own (see registry.ts). */
+export function hasAtsMapping(field: FormField): boolean {
+  return !!(field.ats?.fieldType || field.ats?.action);
+}
+
+/**
+ * Puts the adapter's deterministic mappings in place of whatever the
+ * matcher produced for those fields. Fields the adapter did not map keep
+ * their matcher result. Pure — runs in the background worker.
+ *
+ * CALLED BY: formStepProcessor.ts → processFieldsAI, runFormStep
+ *            (not for replayed site recipes: the user's corrections win)
+ */
+export function applyAtsMappings(
+  fields: FormField[],
+  mappings: FieldMapping[],
+): FieldMapping[] {
+  const mapped = fields.filter(hasAtsMapping);
+  if (mapped.length === 0) return mappings;
+
+  const ids = new Set(mapped.map((f) => f.id));
+  const rest = mappings.filter((m) => !ids.has(m.id || m.fieldId));
+  const fromAts: FieldMapping[] = mapped.map((f) => ({
+    fieldId: f.id,
+    id: f.id,
+    name: f.name || undefined,
+    label: f.label || undefined,
+    fieldType: f.ats!.fieldType ?? "",
+    confidence: 1,
+    reasoning: `${f.ats!.adapter} adapter`,
+    groupType: f.ats!.groupType,
+    groupIndex: f.ats!.groupIndex,
+    action: f.ats!.action,
+  }));
+  return [...rest, ...fromAts];
+}
@@ -0,0 +1,302 @@
+import type { FieldMapping, FormField } from "../../types";
+import {
+  findElementByIdOrSelector,
+  isVisible,
+  querySelectorAllDeep,
+} from "../form/domUtils";
+import { cleanLabelText, findLabel } from "../form/labels";
+import { parseDateValue } from "../form/dateUtils";
+import { triggerEvents } from "../form/events";
+import type { AtsAdapter, AtsFieldRule } from "./types";
+import { workdayAdapter } from "./workday";
+import { greenhouseAdapter } from "./greenhouse";
+import { leverAdapter } from "./lever";
+import { ashbyAdapter } from "./ashby";
+import { smartRecruitersAdapter } from "./smartRecruiters";
+
+/**
+ * ATS adapter registry
+ * ────────────────────
+ * Applicant tracking systems whose markup the generic pipeline handles
+ * poorly. An adapter is picked by hostname first, then by a DOM signature
+ * (career sites on a custom domain), and only adds knowledge on top of
+ * the generic extractor, matcher and navigation — anything it does not
+ * describe falls through to them unchanged.
+ *
+ * Content-script side (this file): field annotation, date widgets and
+ * navigation buttons. Background side: mappings.ts turns the annotations
+ * into FieldMappings.
+ */
+export const ATS_ADAPTERS: AtsAdapter[] = [
+  workdayAdapter,
+  greenhouseAdapter,
+  leverAdapter,
+  ashbyAdapter,
+  smartRecruitersAdapter,
+];
+
+function matchesSelector(selector: string): boolean {
+  try {
+    return !!document.querySelector(selector);
+  } catch {
+    return false;
+  }
+}
+
+/** The adapter for the current page, or null for generic handling. */
+export function detectAtsAdapter(): AtsAdapter | null {
+  const host = window.location.hostname;
+  return (
+    ATS_ADAPTERS.find((a) => a.hosts.test(host)) ??
+    ATS_ADAPTERS.find((a) => matchesSelector(a.signature)) ??
+    null
+  );
+}
+
+/*
+   FIELD EXTRACTION
+ */
+
+/** First rule whose selector matches the element or an ancestor inside `scope`. */
+function findRule(
+  el: HTMLElement,
+  rules: AtsFieldRule[],
+  scope?: Element,
+): AtsFieldRule | undefined {
+  return rules.find((rule) => {
+    const hit = el.closest(rule.selector);
+    return !!hit && (!scope || scope.contains(hit));
+  });
+}
+
+/** Outermost matches only — nested matches belong to the same entry. */
+function topLevel(selector: string): HTMLElement[] {
+  const all = querySelectorAllDeep<HTMLElement>(selector);
+  return all.filter((el) => !all.some((o) => o !== el && o.contains(el)));
+}
+
+function annotateField(adapter: AtsAdapter, field: FormField) {
+  const el = findElementByIdOrSelector(field.id);
+  if (!el) return;
+
+  if (adapter.question) {
+    const block = el.closest(adapter.question.container);
+    const text = cleanLabelText(
+      block?.querySelector(adapter.question.label)?.textContent || "",
+    );
+    if (text) {
+      field.label = text;
+      field.ats = { adapter: adapter.id };
+    }
+  }
+
+  for (const repeater of adapter.repeaters ?? []) {
+    const section = el.closest(repeater.section);
+    if (!section) continue;
+    const rule = findRule(el, repeater.fields, section);
+    if (!rule) continue;
+    const index = topLevel(repeater.section).findIndex(
+      (s) => s === section || s.contains(section),
+    );
+    field.ats = {
+      adapter: adapter.id,
+      fieldType: rule.fieldType,
+      groupType: repeater.groupType,
+      groupIndex: Math.max(0, index),
+    };
+    return;
+  }
+
+  const rule = findRule(el, adapter.fields ?? []);
+  if (rule) {
+    field.ats = {
+      adapter: adapter.id,
+      fieldType: rule.fieldType,
+      groupType: rule.groupType,
+      groupIndex: rule.groupIndex,
+    };
+  }
+}
+
+/**
+ * Split month / day / year inputs become one "date" field on their
+ * container, filled by fillAtsField(). The parts are dropped.
+ */
+function collapseDateWidgets(
+  adapter: AtsAdapter,
+  fields: FormField[],
+): FormField[] {
+  const widget = adapter.dates;
+  if (!widget) return fields;
+
+  const partIds = new Set<string>();
+  const dates: FormField[] = [];
+  topLevel(widget.container).forEach((container, i) => {
+    const month = container.querySelector<HTMLElement>(widget.month);
+    const year = container.querySelector<HTMLElement>(widget.year);
+    if (!month || !year || !isVisible(year)) return;
+    const day = widget.day
+      ? container.querySelector<HTMLElement>(widget.day)
+      : null;
+    [month, day, year].forEach((p) => p?.id && partIds.add(p.id));
+
+    if (!container.id) container.id = `${adapter.id}_date_${i}`;
+    dates.push({
+      id: container.id,
+      name: "",
+      type: "date",
+      placeholder: day ? "MM/DD/YYYY" : "MM/YYYY",
+      label: findLabel(month) || container.getAttribute("aria-label") || "",
+      ariaLabel: container.getAttribute("aria-label") || "",
+      autocomplete: "",
+      required: month.getAttribute("aria-required") === "true",
+    });
+  });
+
+  return dates.length > 0
+    ? [...fields.filter((f) => !partIds.has(f.id)), ...dates]
+    : fields;
+}
+
+/** Repeater "Add" buttons become click_add fields for their group. */
+function addRepeaterButtons(
+  adapter: AtsAdapter,
+  fields: FormField[],
+): FormField[] {
+  for (const repeater of adapter.repeaters ?? []) {
+    const btn = querySelectorAllDeep<HTMLElement>(repeater.addButton).find(
+      isVisible,
+    );
+    if (!btn) continue;
+    if (!btn.id) btn.id = `${adapter.id}_add_${repeater.groupType}`;
+    const hint = {
+      adapter: adapter.id,
+      groupType: repeater.groupType,
+      action: "click_add" as const,
+    };
+
+    const existing = fields.find((f) => f.id === btn.id);
+    if (existing) {
+      existing.ats = hint;
+      continue;
+    }
+    fields.push({
+      id: btn.id,
+      name: "",
+      type: "button",
+      placeholder: "",
+      label:
+        cleanLabelText(btn.textContent || "") || `Add ${repeater.groupType}`,
+      ariaLabel: btn.getAttribute("aria-label") || "",
+      autocomplete: "",
+      required: false,
+      ats: hint,
+    });
+  }
+  return fields;
+}
+
+/**
+ * Runs the current page's adapter over the generic extraction result:
+ * collapses date widgets, relabels custom question blocks, attaches
+ * deterministic mappings (`field.ats`) and adds repeater buttons.
+ *
+ * CALLED BY: fieldExtractor.ts → extractFormFields
+ */
+export function applyAtsAdapter(fields: FormField[]): FormField[] {
+  const adapter = detectAtsAdapter();
+  if (!adapter) return fields;
+
+  let result = collapseDateWidgets(adapter, fields);
+  result.forEach((field) => annotateField(adapter, field));
+  result = addRepeaterButtons(adapter, result);
+  if (adapter.extractFields) result = adapter.extractFields(result);
+
+  const mapped = result.filter((f) => f.ats?.fieldType || f.ats?.action);
+  console.log(
+    `Aullevo: ${adapter.name} adapter mapped ${mapped.length} of ${result.length} field(s)`,
+  );
+  return result;
+}
+
+/*
+   FILLING
+ */
+
+function setPart(input: HTMLElement | null, value: string) {
+  if (!(input instanceof HTMLInputElement)) return;
+  const setter = Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value",
+  )?.set;
+  if (setter) setter.call(input, value);
+  else input.value = value;
+  triggerEvents(input);
+}
+
+/**
+ * Fills fields only an adapter understands (split date widgets).
+ * Returns null when the generic filler should handle the field.
+ *
+ * CALLED BY: formAnalyzer.ts → fillFormField
+ */
+export function fillAtsField(
+  mapping: FieldMapping,
+  value: string | string[] | boolean,
+): boolean | null {
+  const widget = detectAtsAdapter()?.dates;
+  const container = widget && findElementByIdOrSelector(mapping.id || "");
+  if (!widget || !container?.matches(widget.container)) return null;
+
+  // Employment dates are often month and year only ("Mar 2020")
+  const date = parseDateValue(String(value));
+  if (!date) return false;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  setPart(container.querySelector<HTMLElement>(widget.month), pad(date.month));
+  if (widget.day) {
+    setPart(
+      container.querySelector<HTMLElement>(widget.day),
+      pad(date.day ?? 1),
+    );
+  }
+  setPart(container.querySelector<HTMLElement>(widget.year), String(date.year));
+  return true;
+}
+
+/*
+   NAVIGATION
+ */
+
+function visibleButton(selector?: string): HTMLElement | null {
+  if (!selector) return null;
+  return querySelectorAllDeep<HTMLElement>(selector).find(isVisible) ?? null;
+}
+
+/**
+ * The adapter's own Next button, or its Submit button on the last page.
+ * Null when there is no adapter or neither is on screen.
+ *
+ * CALLED BY: navigation.ts → findNextButton
+ */
+export function findAtsNextButton(): HTMLElement | null {
+  const adapter = detectAtsAdapter();
+  if (!adapter) return null;
+  return (
+    visibleButton(adapter.nextButton) ?? visibleButton(adapter.submitButton)
+  );
+}
+
+/**
+ * Name of the ATS when `btn` is its final submit button, otherwise null.
+ *
+ * CALLED BY: navigation.ts → classifyNavigationButton
+ */
+export function isAtsSubmitButton(btn: HTMLElement): string | null {
+  const adapter = detectAtsAdapter();
+  if (!adapter?.submitButton) return null;
+  try {
+    return btn.matches(adapter.submitButton) ? adapter.name : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,20 @@
+import type { AtsAdapter } from "./types";
+
+export const smartRecruitersAdapter: AtsAdapter = {
+  id: "smartrecruiters",
+  name: "SmartRecruiters",
+  hosts: /(^|\.)smartrecruiters\.com$/,
+  signature: "#first-name-input, oc-oneclick-form",
+
+  fields: [
+    { selector: "#first-name-input", fieldType: "firstName" },
+    { selector: "#last-name-input", fieldType: "lastName" },
+    { selector: "#email-input, #confirm-email-input", fieldType: "email" },
+    { selector: "#phone-number-input", fieldType: "phone" },
+    { selector: "#linkedin-input", fieldType: "linkedin" },
+    { selector: "#website-input", fieldType: "portfolio" },
+  ],
+
+  nextButton: "button[data-test='footer-next']",
+  submitButton: "button[data-test='footer-submit']",
+};
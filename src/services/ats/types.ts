@@ -0,0 +1,50 @@
+import type { AtsId, FormField } from "../../types";
+
+/** A stable attribute on the ATS's markup that always means one profile field. */
+export interface AtsFieldRule {
+  selector: string; // Matched against the field element or any ancestor
+  fieldType: string; // Same vocabulary as the heuristic matcher / AI mapping
+  groupType?: "experience" | "education"; // e.g. Lever's "Current company"
+  groupIndex?: number;
+}
+
+/**
+ * A repeating section (work experience, education). Fields inside the
+ * n-th `section` element are mapped to the n-th profile entry.
+ */
+export interface AtsRepeater {
+  groupType: "experience" | "education";
+  section: string; // One element per entry
+  addButton: string; // Adds another entry
+  fields: AtsFieldRule[]; // Rules scoped to one entry
+}
+
+/** Split date widgets (separate month / day / year inputs). */
+export interface AtsDateWidget {
+  container: string; // Wraps the parts of one date
+  month: string;
+  day?: string;
+  year: string;
+}
+
+/**
+ * One applicant tracking system. Everything is optional except how to
+ * recognise it — the generic extractor, matcher and navigation stay in
+ * charge of whatever an adapter does not describe.
+ */
+export interface AtsAdapter {
+  id: AtsId;
+  name: string;
+  hosts: RegExp; // Hosted career sites
+  signature: string; // Present on the ATS's pages under a custom domain
+
+  fields?: AtsFieldRule[];
+  repeaters?: AtsRepeater[];
+  dates?: AtsDateWidget;
+  question?: { container: string; label: string }; // Custom question blocks
+  nextButton?: string;
+  submitButton?: string;
+
+  /** Last word on extraction: add, drop or rewrite fields. */
+  extractFields?(fields: FormField[]): FormField[];
+}
@@ -0,0 +1,96 @@
+import type { FormField } from "../../types";
+import { querySelectorAllDeep, isVisible } from "../form/domUtils";
+import { cleanLabelText } from "../form/labels";
+import type { AtsAdapter } from "./types";
+
+const aid = (id: string) => `[data-automation-id="${id}"]`;
+
+/**
+ * Workday dropdowns are buttons (aria-haspopup="listbox") that the generic
+ * extractor skips as "not an Add button". Each one becomes a custom select
+ * labelled from its formField container.
+ */
+function addDropdowns(fields: FormField[]): FormField[] {
+  const known = new Set(fields.map((f) => f.id));
+  const buttons = querySelectorAllDeep<HTMLElement>(
+    '[data-automation-id^="formField-"] button[aria-haspopup="listbox"]',
+  ).filter(isVisible);
+
+  buttons.forEach((btn, i) => {
+    if (!btn.id) btn.id = `workday_dropdown_${i}`;
+    if (known.has(btn.id)) return;
+    const container = btn.closest<HTMLElement>(
+      '[data-automation-id^="formField-"]',
+    );
+    const label = cleanLabelText(
+      container?.querySelector("label")?.textContent || "",
+    );
+    fields.push({
+      id: btn.id,
+      name: btn.getAttribute("name") || "",
+      type: "custom_select",
+      placeholder: cleanLabelText(btn.textContent || ""),
+      label,
+      ariaLabel: btn.getAttribute("aria-label") || "",
+      autocomplete: "",
+      required: btn.getAttribute("aria-required") === "true",
+    });
+  });
+  return fields;
+}
+
+export const workdayAdapter: AtsAdapter = {
+  id: "workday",
+  name: "Workday",
+  hosts: /(^|\.)myworkday(jobs|site)?\.com$/,
+  signature: `${aid("bottom-navigation-next-button")}, ${aid("applyFlowPage")}`,
+
+  fields: [
+    { selector: aid("legalNameSection_firstName"), fieldType: "firstName" },
+    { selector: aid("legalNameSection_middleName"), fieldType: "middleName" },
+    { selector: aid("legalNameSection_lastName"), fieldType: "lastName" },
+    { selector: aid("addressSection_addressLine1"), fieldType: "address" },
+    { selector: aid("addressSection_city"), fieldType: "city" },
+    { selector: aid("addressSection_countryRegion"), fieldType: "state" },
+    { selector: aid("addressSection_postalCode"), fieldType: "zipCode" },
+    { selector: aid("countryDropdown"), fieldType: "country" },
+    { selector: aid("email"), fieldType: "email" },
+    { selector: aid("phone-number"), fieldType: "phone" },
+    { selector: aid("countryPhoneCode"), fieldType: "phoneCountryCode" },
+    { selector: aid("linkedinQuestion"), fieldType: "linkedin" },
+    { selector: aid("file-upload-input-ref"), fieldType: "resumeUpload" },
+  ],
+
+  repeaters: [
+    {
+      groupType: "experience",
+      section: '[data-automation-id^="workExperience-"]',
+      addButton: `${aid("workExperienceSection")} ${aid("Add")}, button[aria-label="Add Work Experience"]`,
+      fields: [
+        { selector: aid("jobTitle"), fieldType: "position" },
+        { selector: aid("company"), fieldType: "company" },
+        { selector: aid("description"), fieldType: "description" },
+      ],
+    },
+    {
+      groupType: "education",
+      section: '[data-automation-id^="education-"]',
+      addButton: `${aid("educationSection")} ${aid("Add")}, button[aria-label="Add Education"]`,
+      fields: [
+        { selector: aid("school"), fieldType: "school" },
+        { selector: aid("degree"), fieldType: "degree" },
+      ],
+    },
+  ],
+
+  dates: {
+    container: aid("dateInputWrapper"),
+    month: aid("dateSectionMonth-input"),
+    day: aid("dateSectionDay-input"),
+    year: aid("dateSectionYear-input"),
+  },
+
+  nextButton: `${aid("bottom-navigation-next-button")}, ${aid("pageFooterNextButton")}`,
+
+  extractFields: addDropdowns,
+};
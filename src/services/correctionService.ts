@@ -0,0 +1,217 @@
+/**
+ * correctionService.ts
+ *
+ * Corrections the user made by hand right after a fill: which field, what
+ * the fill mapped it to, and which profile value the typed text turned out
+ * to be (see background/modules/correctionLearner). They feed back into:
+ *   - the heuristic matcher, via learnedFieldTypes() (same label, any site)
+ *   - the form's site recipe (rewritten by the background)
+ *   - suggestions: a question corrected repeatedly with a value the profile
+ *     doesn't hold — the sidebar offers to save it as a custom field
+ *
+ * Stored in chrome.storage.local under `fieldCorrections` and
+ * `correctionSuggestions`. The typed values are sealed with the vault key
+ * (storageService.sealValues); reseal() carries them over when the vault
+ * key changes. The sidebar reads suggestions through the background
+ * (vaultClient), since content scripts can't reach the key.
+ *
+ * Architecture Design System — Layer 4: Data Layer
+ */
+
+import type { CorrectionSuggestion, FieldCorrection, FieldEdit } from '../types';
+import { labelKey, type LearnedFieldTypes } from './heuristic/corrections';
+import { toPathPattern } from './siteRecipeService';
+import { isVaultLockedError, storageService } from './storageService';
+
+const CORRECTIONS_KEY = 'fieldCorrections';
+export const SUGGESTIONS_KEY = 'correctionSuggestions';
+const DISMISSED_KEY = 'dismissedCorrectionSuggestions';
+const MAX_CORRECTIONS = 500; // oldest corrections are dropped beyond this
+export const SUGGEST_AFTER = 2; // corrections of one question before the custom-field prompt
+
+function hostnameOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
+
+/* 
+   STORAGE
+ */
+
+async function readList<T>(key: string): Promise<T[]> {
+    const result = await chrome.storage.local.get([key]);
+    return (result[key] as T[] | undefined) ?? [];
+}
+
+async function writeCorrections(corrections: FieldCorrection[]): Promise<void> {
+    await chrome.storage.local.set({ [CORRECTIONS_KEY]: corrections.slice(-MAX_CORRECTIONS) });
+}
+
+/**
+ * Read-modify-write calls are chained so corrections reported in quick
+ * succession (several fields fixed one after another) never overwrite
+ * each other.
+ */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = writeQueue.then(task);
+    writeQueue = next.catch(() => undefined);
+    return next;
+}
+
+/* 
+   VALUES (sealed with the vault key)
+ */
+
+/** Seals a typed value. While the vault is locked it is not kept at all. */
+async function sealValue(value: string): Promise<string | undefined> {
+    try {
+        return (await storageService.sealValues([value]))[0];
+    } catch (err) {
+        if (isVaultLockedError(err)) return undefined;
+        throw err;
+    }
+}
+
+/** Opens sealed values; null for one that can't be opened (locked vault, older key). */
+async function openValues(sealed: (string | undefined)[]): Promise<(string | null)[]> {
+    try {
+        return await storageService.openValues(sealed.map(s => s ?? ''));
+    } catch (err) {
+        if (isVaultLockedError(err)) return sealed.map(() => null);
+        throw err;
+    }
+}
+
+/** Adds or refreshes the prompt for `key` once the question was corrected often enough. */
+async function suggestIfRepeated(corrections: FieldCorrection[], latest: FieldCorrection, value: string): Promise<CorrectionSuggestion | null> {
+    const key = labelKey(latest.label);
+    const repeats = corrections.filter(c => c.to === null && labelKey(c.label) === key);
+    if (repeats.length < SUGGEST_AFTER || latest.value === undefined) return null;
+    const dismissed = await readList<string>(DISMISSED_KEY);
+    if (dismissed.includes(key)) return null;
+
+    const suggestion: CorrectionSuggestion = {
+        key,
+        label: latest.label,
+        value: latest.value, // Sealed, like the correction's
+        context: `Use when a form asks "${latest.label}"`,
+        count: repeats.length,
+    };
+    const suggestions = (await readList<CorrectionSuggestion>(SUGGESTIONS_KEY)).filter(s => s.key !== key);
+    await chrome.storage.local.set({ [SUGGESTIONS_KEY]: [...suggestions, suggestion] });
+    return { ...suggestion, value };
+}
+
+export const correctionService = {
+    /**
+     * Store a correction. A later correction of the same field on the same
+     * form replaces the earlier one. `to` is the field type the typed value
+     * belongs to, or null when the profile doesn't hold it — only then is
+     * the value itself kept, sealed. Returns the custom-field prompt this
+     * correction triggered, if any.
+     */
+    async record(url: string, fieldSignature: string, edit: FieldEdit, to: string | null): Promise<CorrectionSuggestion | null> {
+        if (!labelKey(edit.label)) return null; // nothing to recognise the question by
+        const value = to === null ? await sealValue(edit.value) : undefined;
+        return enqueue(async () => {
+            const correction: FieldCorrection = {
+                id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                hostname: hostnameOf(url),
+                pathPattern: toPathPattern(url),
+                fieldSignature,
+                fieldId: edit.fieldId,
+                label: edit.label,
+                from: edit.fieldType,
+                to,
+                value,
+                createdAt: Date.now(),
+            };
+            const corrections = (await readList<FieldCorrection>(CORRECTIONS_KEY)).filter(c => !(
+                c.hostname === correction.hostname &&
+                c.pathPattern === correction.pathPattern &&
+                c.fieldSignature === fieldSignature &&
+                c.fieldId === edit.fieldId
+            ));
+            corrections.push(correction);
+            await writeCorrections(corrections);
+            console.log(`Aullevo: learned "${edit.label}" → ${to ?? 'a value not in the profile'} (was ${edit.fieldType || 'unmapped'})`);
+
+            return to === null ? suggestIfRepeated(corrections, correction, edit.value) : null;
+        });
+    },
+
+    /**
+     * Field type per label from corrections that named a profile value.
+     * Newest wins, including a newer correction to a value the profile
+     * doesn't hold — that one unlearns the label.
+     */
+    async learnedFieldTypes(): Promise<LearnedFieldTypes> {
+        const learned: LearnedFieldTypes = {};
+        for (const c of await readList<FieldCorrection>(CORRECTIONS_KEY)) {
+            if (c.to) learned[labelKey(c.label)] = c.to;
+            else delete learned[labelKey(c.label)];
+        }
+        return learned;
+    },
+
+    /** Corrections with their values opened; a value that can't be opened is left out. */
+    async list(): Promise<FieldCorrection[]> {
+        const corrections = await readList<FieldCorrection>(CORRECTIONS_KEY);
+        const values = await openValues(corrections.map(c => c.value));
+        return corrections.map((c, i) => ({ ...c, value: c.value === undefined ? undefined : values[i] ?? undefined }));
+    },
+
+    /** Open prompts. Needs the vault key — content scripts go through vaultClient. */
+    async suggestions(): Promise<CorrectionSuggestion[]> {
+        const suggestions = await readList<CorrectionSuggestion>(SUGGESTIONS_KEY);
+        const values = await openValues(suggestions.map(s => s.value));
+        return suggestions.flatMap((s, i) => (values[i] ? [{ ...s, value: values[i] }] : []));
+    },
+
+    /** Drop a prompt. Declined prompts are remembered and not offered again. */
+    async resolveSuggestion(key: string, accepted: boolean): Promise<void> {
+        return enqueue(async () => {
+            const suggestions = await readList<CorrectionSuggestion>(SUGGESTIONS_KEY);
+            await chrome.storage.local.set({ [SUGGESTIONS_KEY]: suggestions.filter(s => s.key !== key) });
+            if (!accepted) {
+                const dismissed = await readList<string>(DISMISSED_KEY);
+                if (!dismissed.includes(key)) await chrome.storage.local.set({ [DISMISSED_KEY]: [...dismissed, key] });
+            }
+        });
+    },
+
+    /**
+     * Runs `rekey` (a vault passphrase change) and re-seals every stored
+     * value under the new key. Needs the current key, i.e. an unlocked vault.
+     */
+    async reseal(rekey: () => Promise<void>): Promise<void> {
+        return enqueue(async () => {
+            const corrections = await readList<FieldCorrection>(CORRECTIONS_KEY);
+            const suggestions = await readList<CorrectionSuggestion>(SUGGESTIONS_KEY);
+            const [correctionValues, suggestionValues] = await Promise.all([
+                storageService.openValues(corrections.map(c => c.value ?? '')),
+                storageService.openValues(suggestions.map(s => s.value)),
+            ]);
+            await rekey();
+            const [sealedCorrections, sealedSuggestions] = await Promise.all([
+                storageService.sealValues(correctionValues.map(v => v ?? '')),
+                storageService.sealValues(suggestionValues.map(v => v ?? '')),
+            ]);
+            await chrome.storage.local.set({
+                [CORRECTIONS_KEY]: corrections.map((c, i) =>
+                    c.value !== undefined && correctionValues[i] !== null ? { ...c, value: sealedCorrections[i] } : { ...c, value: undefined }),
+                [SUGGESTIONS_KEY]: suggestions.flatMap((s, i) =>
+                    suggestionValues[i] !== null ? [{ ...s, value: sealedSuggestions[i] }] : []),
+            });
+        });
+    },
+
+    async clear(): Promise<void> {
+        return enqueue(() => chrome.storage.local.remove([CORRECTIONS_KEY, SUGGESTIONS_KEY, DISMISSED_KEY]));
+    },
+};
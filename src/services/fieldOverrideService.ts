@@ -0,0 +1,148 @@
+/**
+ * fieldOverrideService.ts
+ *
+ * Per-site field overrides: mappings the user picked by hand in the
+ * sidebar's field inspector ("this box is my LinkedIn URL", "never fill
+ * this one"). Keyed by hostname + URL path pattern, like site recipes, but
+ * independent of the form's field signature — an override survives the
+ * form gaining or losing fields. The background applies them before the
+ * recipe, AI or heuristic matcher sees the form (see formStepProcessor).
+ *
+ * Stored unencrypted in chrome.storage.local under `fieldOverrides`.
+ *
+ * Architecture Design System — Layer 4: Data Layer
+ */
+
+import type { FieldMapping, FieldOverride, FormField } from '../types';
+import { labelKey } from './heuristic/corrections';
+import { toPathPattern } from './siteRecipeService';
+
+const OVERRIDES_KEY = 'fieldOverrides';
+export const SKIP_FIELD = 'skip'; // override that leaves the field empty
+export const FILE_PREFIX = 'file:'; // "file:<savedFileId>"
+
+function hostnameOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
+
+export function siteKey(url: string): string {
+    return `${hostnameOf(url)}${toPathPattern(url)}`;
+}
+
+const fieldLabel = (field: FormField) => field.compoundLabel || field.label || field.ariaLabel || field.placeholder;
+
+/**
+ * Where a field sits among those sharing its label and section — the
+ * entries of a repeater ("Company" in each experience) — so an override
+ * finds the same entry again.
+ */
+function groupContext(fields: FormField[], field: FormField): Pick<FieldOverride, 'section' | 'occurrence'> {
+    const key = labelKey(fieldLabel(field));
+    const section = field.section || '';
+    const index = fields
+        .filter(f => labelKey(fieldLabel(f)) === key && (f.section || '') === section)
+        .findIndex(f => f.id === field.id);
+    return { section, occurrence: Math.max(0, index) };
+}
+
+/**
+ * The field an override belongs to: same id, label and section, else the
+ * field at the same position among those sharing its label and section
+ * (ids like "field_3" shift when the page does). Overrides saved without
+ * a section match in any section.
+ */
+function findField(fields: FormField[], override: FieldOverride): FormField | undefined {
+    const key = labelKey(override.label);
+    const inSection = (f: FormField) => override.section === undefined || (f.section || '') === override.section;
+    const byId = fields.find(f => f.id === override.fieldId && inSection(f) && (!key || labelKey(fieldLabel(f)) === key));
+    if (byId || !key) return byId;
+    const namesakes = fields.filter(f => labelKey(fieldLabel(f)) === key && inSection(f));
+    return namesakes[override.occurrence ?? 0];
+}
+
+/*
+   STORAGE
+ */
+
+async function readOverrides(): Promise<Record<string, FieldOverride[]>> {
+    const result = await chrome.storage.local.get([OVERRIDES_KEY]);
+    return (result[OVERRIDES_KEY] as Record<string, FieldOverride[]> | undefined) ?? {};
+}
+
+async function writeOverrides(overrides: Record<string, FieldOverride[]>): Promise<void> {
+    await chrome.storage.local.set({ [OVERRIDES_KEY]: overrides });
+}
+
+export const fieldOverrideService = {
+    async list(url: string): Promise<FieldOverride[]> {
+        return (await readOverrides())[siteKey(url)] ?? [];
+    },
+
+    /**
+     * Set the override for one field. Replaces any earlier override of the
+     * same field. `fields` is everything on the page, which places the
+     * field among others with the same label.
+     */
+    async set(url: string, fields: FormField[], field: FormField, fieldType: string): Promise<void> {
+        const overrides = await readOverrides();
+        const key = siteKey(url);
+        const others = (overrides[key] ?? []).filter(o => findField(fields, o)?.id !== field.id);
+        overrides[key] = [...others, {
+            fieldId: field.id,
+            label: fieldLabel(field),
+            ...groupContext(fields, field),
+            fieldType,
+            createdAt: Date.now(),
+        }];
+        await writeOverrides(overrides);
+    },
+
+    async remove(url: string, fields: FormField[], field: FormField): Promise<void> {
+        const overrides = await readOverrides();
+        const key = siteKey(url);
+        const rest = (overrides[key] ?? []).filter(o => findField(fields, o)?.id !== field.id);
+        if (rest.length > 0) overrides[key] = rest;
+        else delete overrides[key];
+        await writeOverrides(overrides);
+    },
+
+    async clear(): Promise<void> {
+        await chrome.storage.local.remove(OVERRIDES_KEY);
+    },
+};
+
+/**
+ * The override (if any) for each field on the page, keyed by field id.
+ * Later overrides win when two point at the same field.
+ */
+export function matchOverrides(fields: FormField[], overrides: FieldOverride[]): Map<string, FieldOverride> {
+    const byField = new Map<string, FieldOverride>();
+    for (const override of overrides) {
+        const field = findField(fields, override);
+        if (field) byField.set(field.id, override);
+    }
+    return byField;
+}
+
+/** Mappings for overridden fields. "skip" overrides produce none — the field stays empty. */
+export function overrideMappings(fields: FormField[], byField: Map<string, FieldOverride>): FieldMapping[] {
+    const mappings: FieldMapping[] = [];
+    for (const field of fields) {
+        const override = byField.get(field.id);
+        if (!override || override.fieldType === SKIP_FIELD) continue;
+        mappings.push({
+            fieldId: field.id,
+            id: field.id,
+            label: fieldLabel(field),
+            compoundLabel: field.compoundLabel || undefined,
+            fieldType: override.fieldType,
+            confidence: 1,
+            reasoning: 'mapped by hand in the field inspector',
+        });
+    }
+    return mappings;
+}
@@ -1,4 +1,9 @@
-import { CAPTCHA_SIGNALS, HONEYPOT_KEYWORDS } from "./constants";
+import {
+  CAPTCHA_SIGNALS,
+  HONEYPOT_KEYWORDS,
+  INTERACTIVE_INPUT_SELECTORS,
+} from "./constants";
+import { querySelectorAllDeep } from "./domUtils";
 
 /**
  * Detect if an element is a CAPTCHA widget.
@@ -104,3 +109,47 @@ export function isHoneypot(element: HTMLElement): boolean {
 
   return false;
 }
+
+export interface SkippedField {
+  element: HTMLElement;
+  reason: "honeypot" | "captcha";
+}
+
+const CAPTCHA_WIDGETS =
+  '.g-recaptcha, .h-captcha, .cf-turnstile, iframe[src*="captcha"], iframe[src*="challenges.cloudflare"]';
+
+/**
+ * On-screen elements extractFormFields() leaves out on purpose — honeypot
+ * traps and CAPTCHA inputs or widgets — so the field inspector can show
+ * them. Hidden honeypots have no box to outline and are not returned.
+ */
+export function findSkippedFields(): SkippedField[] {
+  const skipped: SkippedField[] = [];
+  const hasBox = (el: HTMLElement) => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  for (const el of querySelectorAllDeep<HTMLElement>(
+    INTERACTIVE_INPUT_SELECTORS,
+  )) {
+    if (!hasBox(el)) continue;
+    const captchaWrapper = el.closest(
+      '[class*="captcha"], [id*="captcha"], [data-sitekey]',
+    ) as HTMLElement | null;
+    if (isHoneypot(el)) {
+      skipped.push({ element: el, reason: "honeypot" });
+    } else if (
+      isCaptchaField(el) ||
+      (captchaWrapper && isCaptchaField(captchaWrapper))
+    ) {
+      skipped.push({ element: el, reason: "captcha" });
+    }
+  }
+
+  for (const el of querySelectorAllDeep<HTMLElement>(CAPTCHA_WIDGETS)) {
+    if (!hasBox(el) || skipped.some((s) => s.element.contains(el))) continue;
+    skipped.push({ element: el, reason: "captcha" });
+  }
+  return skipped;
+}
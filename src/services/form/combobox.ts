@@ -0,0 +1,311 @@
+import { isVisible, shadowRootOf } from "./domUtils";
+import { scoreOptionMatch } from "./matchers";
+
+// How long to wait for a (network-populated) listbox after typing a query
+const OPTION_WAIT_MS = 2500;
+// Results often arrive in several renders — wait for the list to go quiet
+const SETTLE_MS = 250;
+const MIN_QUERY_LENGTH = 3;
+const MAX_QUERIES = 4;
+// Same bar as clickMatchingOption: anything weaker is a guess
+const MIN_OPTION_SCORE = 50;
+
+// Select widgets with a search box: the typed text alone is not a value
+const SELECT_ONLY_WIDGETS =
+  '[class*="select__control"], [class*="react-select"], [class*="ant-select"], [class*="choices"], [class*="MuiSelect"]';
+
+// Suggestion popups that the input doesn't point at with aria-controls
+const POPUP_SELECTOR =
+  '[role="listbox"], [class*="suggestion"], [class*="autocomplete"], [class*="typeahead"], [class*="menu"], [class*="dropdown"]';
+// How many ancestors up from the input such a popup may be rendered
+const POPUP_SEARCH_DEPTH = 4;
+// Items of a popup that doesn't use role="option"
+const FALLBACK_OPTION_SELECTOR = 'li, [class*="option"], [class*="suggestion"]';
+
+// Queries ending in these return too much to be useful ("University of")
+const TRAILING_STOPWORD = /\s(?:of|the|and|at|for|in|de|la)$/i;
+
+/**
+ * True for text inputs that show a suggestion list while typing:
+ * role="combobox", aria-autocomplete="list"/"both", aria-haspopup="listbox",
+ * or an input inside an ARIA 1.1 combobox wrapper.
+ */
+export function isTypeahead(el: HTMLElement): boolean {
+  if (!(el instanceof HTMLInputElement)) return false;
+  if (el.type !== "text" && el.type !== "search") return false;
+  const autocomplete = el.getAttribute("aria-autocomplete");
+  return (
+    el.getAttribute("role") === "combobox" ||
+    autocomplete === "list" ||
+    autocomplete === "both" ||
+    el.getAttribute("aria-haspopup") === "listbox" ||
+    !!el.parentElement?.closest('[role="combobox"]')
+  );
+}
+
+/** The typeahead input inside a custom select container, if it has one. */
+export function findTypeaheadInput(
+  container: HTMLElement,
+): HTMLInputElement | null {
+  const inputs = container.querySelectorAll<HTMLInputElement>("input");
+  return Array.from(inputs).find(isTypeahead) ?? null;
+}
+
+/**
+ * What a typeahead shows as its value. Select-like widgets clear the
+ * input after a pick and render the choice next to it.
+ */
+export function typeaheadShownValue(input: HTMLInputElement): string {
+  if (input.value.trim()) return input.value.trim();
+  const widget = input.closest<HTMLElement>(SELECT_ONLY_WIDGETS);
+  return (widget?.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Queries to type, most specific first: the full value, then fewer
+ * comma parts ("San Francisco, CA, USA" → "San Francisco, CA" →
+ * "San Francisco"), then fewer words.
+ */
+export function typeaheadQueries(value: string): string[] {
+  const full = value.replace(/\s+/g, " ").trim();
+  const queries = [full];
+
+  const parts = full
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  for (let n = parts.length - 1; n >= 1; n--) {
+    queries.push(parts.slice(0, n).join(", "));
+  }
+
+  const words = queries[queries.length - 1].split(" ");
+  for (let n = words.length - 1; n >= 1; n--) {
+    queries.push(words.slice(0, n).join(" "));
+  }
+
+  return [...new Set(queries)]
+    .filter((q) => q.length >= MIN_QUERY_LENGTH && !TRAILING_STOPWORD.test(q))
+    .slice(0, MAX_QUERIES);
+}
+
+function setInputValue(input: HTMLInputElement, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value",
+  )?.set;
+  if (setter) setter.call(input, value);
+  else input.value = value;
+}
+
+function pressKey(input: HTMLInputElement, key: string) {
+  input.dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true }),
+  );
+  input.dispatchEvent(
+    new KeyboardEvent("keyup", { key, bubbles: true, cancelable: true }),
+  );
+}
+
+function typeQuery(input: HTMLInputElement, query: string) {
+  input.focus();
+  input.dispatchEvent(new Event("focus", { bubbles: true }));
+  setInputValue(input, "");
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+  setInputValue(input, query);
+  input.dispatchEvent(
+    new InputEvent("input", {
+      data: query,
+      inputType: "insertText",
+      bubbles: true,
+      cancelable: true,
+    }),
+  );
+  pressKey(input, query.slice(-1));
+}
+
+/**
+ * The suggestion popup rendered next to an input that doesn't name it:
+ * the first visible popup in the input's nearest ancestors, so site
+ * navigation and other open dropdowns are never mistaken for it.
+ */
+function nearbyPopup(input: HTMLInputElement): HTMLElement | null {
+  let node = input.parentElement;
+  for (let depth = 0; node && depth < POPUP_SEARCH_DEPTH; depth++) {
+    const popup = Array.from(
+      node.querySelectorAll<HTMLElement>(POPUP_SELECTOR),
+    ).find((p) => !p.contains(input) && isVisible(p));
+    if (popup) return popup;
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Where the input's suggestions are: the listboxes it controls, else a
+ * popup next to it, else the page's only visible listbox (lists portaled
+ * to <body> without aria-controls).
+ */
+function suggestionScopes(input: HTMLInputElement): HTMLElement[] {
+  const root = input.getRootNode() as Document | ShadowRoot;
+  const owner = input.parentElement?.closest('[role="combobox"]');
+  const ids = [input, owner]
+    .flatMap((el) => [
+      el?.getAttribute("aria-controls"),
+      el?.getAttribute("aria-owns"),
+    ])
+    .join(" ")
+    .split(/\s+/)
+    .filter(Boolean);
+  const listboxes = ids
+    .map((id) => root.getElementById(id) ?? document.getElementById(id))
+    .filter((el): el is HTMLElement => !!el);
+  if (listboxes.length > 0) return listboxes;
+
+  const popup = nearbyPopup(input);
+  if (popup) return [popup];
+
+  const visible = Array.from(
+    root.querySelectorAll<HTMLElement>('[role="listbox"]'),
+  ).filter(isVisible);
+  return visible.length === 1 ? visible : [];
+}
+
+/** Visible, enabled options of the input's suggestion list. */
+function listOptions(input: HTMLInputElement): HTMLElement[] {
+  return suggestionScopes(input)
+    .flatMap((scope) => {
+      const options = scope.querySelectorAll<HTMLElement>('[role="option"]');
+      return Array.from(
+        options.length > 0
+          ? options
+          : scope.querySelectorAll<HTMLElement>(FALLBACK_OPTION_SELECTOR),
+      );
+    })
+    .filter((o) => o.getAttribute("aria-disabled") !== "true" && isVisible(o));
+}
+
+const sameOptions = (a: HTMLElement[], b: HTMLElement[]) =>
+  a.length === b.length && a.every((o, i) => o === b[i]);
+
+/**
+ * Resolves with the options once the list differs from `before` (what was
+ * shown before the query was typed) and has gone quiet, or with whatever
+ * is there after OPTION_WAIT_MS. A list left from the previous query or
+ * shown on focus does not count as an answer to the new one.
+ */
+function waitForOptions(
+  input: HTMLInputElement,
+  before: HTMLElement[],
+): Promise<HTMLElement[]> {
+  return new Promise((resolve) => {
+    let settle: ReturnType<typeof setTimeout> | undefined;
+    const check = () => {
+      const options = listOptions(input);
+      if (options.length === 0 || sameOptions(options, before)) return;
+      clearTimeout(settle);
+      settle = setTimeout(finish, SETTLE_MS);
+    };
+    const observer = new MutationObserver(check);
+    const deadline = setTimeout(finish, OPTION_WAIT_MS);
+    function finish() {
+      observer.disconnect();
+      clearTimeout(settle);
+      clearTimeout(deadline);
+      resolve(listOptions(input));
+    }
+
+    const watch: MutationObserverInit = {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ["aria-expanded", "hidden", "style", "class"],
+    };
+    observer.observe(document.body || document.documentElement, watch);
+    const root = shadowRootOf(input);
+    if (root) observer.observe(root, watch);
+    // Lists filtered in place may have rendered during the input event
+    check();
+  });
+}
+
+function bestOption(
+  options: HTMLElement[],
+  valLower: string,
+): { option: HTMLElement; score: number } | null {
+  let best: { option: HTMLElement; score: number } | null = null;
+  for (const option of options) {
+    // scoreOptionMatch treats an empty text as a prefix of anything
+    const texts = [
+      (option.textContent || "").replace(/\s+/g, " ").trim(),
+      option.getAttribute("aria-label") || "",
+    ].filter((t) => t.length > 1);
+    const score = Math.max(
+      0,
+      ...texts.map((t) =>
+        scoreOptionMatch(t, option.getAttribute("data-value") || "", valLower),
+      ),
+    );
+    if (score > (best?.score ?? 0)) best = { option, score };
+  }
+  return best && best.score >= MIN_OPTION_SCORE ? best : null;
+}
+
+function clickOption(option: HTMLElement) {
+  option.scrollIntoView?.({ block: "nearest" });
+  option.dispatchEvent(
+    new MouseEvent("mousedown", { bubbles: true, cancelable: true }),
+  );
+  option.dispatchEvent(
+    new MouseEvent("mouseup", { bubbles: true, cancelable: true }),
+  );
+  option.click();
+}
+
+/**
+ * Fills an async typeahead (city, school, company pickers): types
+ * progressively shorter queries, waits for the suggestion list, and picks
+ * the option that best matches the full value. When nothing matches the
+ * typed value is kept as free text if the widget allows it; select-like
+ * widgets are cleared instead and the fill reports failure.
+ */
+export async function fillCombobox(
+  input: HTMLInputElement,
+  value: string,
+  opts: { allowFreeText?: boolean } = {},
+): Promise<boolean> {
+  const valLower = value.toLowerCase().trim();
+  if (!valLower) return false;
+  const allowFreeText =
+    opts.allowFreeText ??
+    (!input.readOnly &&
+      input.getAttribute("aria-readonly") !== "true" &&
+      !input.closest(SELECT_ONLY_WIDGETS));
+
+  for (const query of typeaheadQueries(value)) {
+    const before = listOptions(input);
+    typeQuery(input, query);
+    const match = bestOption(await waitForOptions(input, before), valLower);
+    if (!match) continue;
+
+    clickOption(match.option);
+    console.log(
+      `Aullevo combobox: "${query}" → ${match.option.textContent?.trim()} (score: ${match.score})`,
+    );
+    await new Promise((r) => setTimeout(r, SETTLE_MS));
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+    return true;
+  }
+
+  setInputValue(input, allowFreeText ? value : "");
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+  input.dispatchEvent(new Event("change", { bubbles: true }));
+  pressKey(input, "Escape");
+  input.dispatchEvent(new Event("blur", { bubbles: true }));
+  console.log(
+    allowFreeText
+      ? `Aullevo combobox: no suggestion for "${value}" — kept as typed`
+      : `Aullevo combobox: no suggestion for "${value}"`,
+  );
+  return allowFreeText;
+}
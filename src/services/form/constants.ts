@@ -171,6 +171,59 @@ export const PREV_EXCLUDE_KEYWORDS = [
   "login",
 ] as const;
 
+// ─── Final-step Detection ───
+// Buttons that commit the application. Autopilot never clicks these unless
+// the user allowed final submission for the site.
+export const FINAL_SUBMIT_KEYWORDS = [
+  "submit",
+  "apply",
+  "send application",
+  "send my application",
+  "finish",
+  "complete application",
+  "complete my application",
+  "confirm and send",
+  "pay",
+  "purchase",
+  "place order",
+  "checkout",
+  "sign and",
+  "e-sign",
+  "esign",
+  "sign document",
+  "sign now",
+] as const;
+
+// "Apply" buttons that only OPEN the application form on a job listing
+export const START_APPLICATION_KEYWORDS = [
+  "apply now",
+  "easy apply",
+  "apply for this job",
+  "apply to this job",
+  "apply for this position",
+  "apply for job",
+  "start application",
+  "start my application",
+  "begin application",
+  "i'm interested",
+] as const;
+
+// Labels that only move between wizard steps
+export const STEP_FORWARD_KEYWORDS = [
+  "next",
+  "continue",
+  "proceed",
+  "review",
+  "save and continue",
+  "save & continue",
+  "next step",
+  "next page",
+] as const;
+
+// Form actions that look like a final submission endpoint
+export const FINAL_FORM_ACTION_PATTERN =
+  /(submit|\/apply\b|applications?\/?$|finali[sz]e|complete|checkout|payment|\bpay\b|\be-?sign)/i;
+
 export const NEXT_ARROW_SYMBOLS = ["→", "▶", "›", ">", "»", "arrow"] as const;
 export const PREV_ARROW_SYMBOLS = ["←", "◀", "‹", "<", "«"] as const;
 
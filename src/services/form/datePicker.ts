@@ -0,0 +1,517 @@
+import { MONTH_NAMES_FULL, MONTH_NAMES_SHORT } from "./constants";
+import { isVisible } from "./domUtils";
+import { triggerEvents } from "./events";
+import { applySelectValue } from "./fieldFillers";
+import { findLabel } from "./labels";
+import { type DateValue, parseDateValue, sameDate } from "./dateUtils";
+
+type DatePart = "day" | "month" | "year";
+
+export interface SplitDateParts {
+  day?: HTMLInputElement | HTMLSelectElement;
+  month: HTMLInputElement | HTMLSelectElement;
+  year: HTMLInputElement | HTMLSelectElement;
+}
+
+type CalendarKind =
+  "react-datepicker" | "flatpickr" | "jquery-ui" | "mui" | "bootstrap";
+
+// Input formats the widgets use when the page doesn't show one
+const DEFAULT_FORMATS: Record<CalendarKind, string | null> = {
+  "react-datepicker": "MM/DD/YYYY",
+  flatpickr: "YYYY-MM-DD",
+  "jquery-ui": "MM/DD/YYYY",
+  mui: null, // Locale dependent; the placeholder says which
+  bootstrap: "MM/DD/YYYY",
+};
+
+// Open calendar popups, most specific first
+const CALENDAR_POPUP_SELECTORS = [
+  ".react-datepicker-popper .react-datepicker",
+  ".react-datepicker",
+  ".flatpickr-calendar.open",
+  "#ui-datepicker-div",
+  ".MuiPickersPopper-root",
+  ".MuiDateCalendar-root",
+  ".datepicker-dropdown",
+  '[role="dialog"]:has([role="grid"])',
+];
+
+// "March 2024" headers
+const CALENDAR_TITLE_SELECTORS =
+  '.react-datepicker__current-month, .flatpickr-current-month, .ui-datepicker-title, .MuiPickersCalendarHeader-label, .datepicker-switch, [aria-live="polite"]';
+
+const PREV_BUTTON_SELECTORS =
+  '.react-datepicker__navigation--previous, .flatpickr-prev-month, .ui-datepicker-prev, .datepicker-days .prev, [aria-label*="previous" i], [title*="prev" i]';
+
+const NEXT_BUTTON_SELECTORS =
+  '.react-datepicker__navigation--next, .flatpickr-next-month, .ui-datepicker-next, .datepicker-days .next, [aria-label*="next month" i], [title*="next" i]';
+
+const DAY_CELL_SELECTORS =
+  '[role="gridcell"], [role="option"], .react-datepicker__day, .flatpickr-day, .ui-datepicker-calendar td a, .datepicker-days td.day, td button';
+
+// Days shown from the neighbouring months, or not selectable
+const OUTSIDE_DAY =
+  /outside|other-month|prevMonthDay|nextMonthDay|disabled|unselectable|\bold\b|\bnew\b/i;
+
+const MAX_MONTH_STEPS = 480; // 40 years of prev/next clicks
+const POPUP_WAIT_MS = 600;
+
+const PART_HINTS: Record<DatePart, RegExp> = {
+  day: /(?:^|[^a-z])(?:day|dd)(?:[^a-z]|$)/i,
+  month: /(?:^|[^a-z])(?:month|mm|mon)(?:[^a-z]|$)/i,
+  year: /(?:^|[^a-z])(?:year|yyyy|yy)(?:[^a-z]|$)/i,
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const nextFrame = () =>
+  new Promise<void>((r) => requestAnimationFrame(() => r()));
+
+function setValue(input: HTMLInputElement, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value",
+  )?.set;
+  if (setter) setter.call(input, value);
+  else input.value = value;
+  triggerEvents(input);
+}
+
+function clickElement(el: HTMLElement) {
+  el.dispatchEvent(
+    new MouseEvent("mousedown", { bubbles: true, cancelable: true }),
+  );
+  el.dispatchEvent(
+    new MouseEvent("mouseup", { bubbles: true, cancelable: true }),
+  );
+  el.click();
+}
+
+/** 1-12 for "Mar", "march", "03"; 0 when the text is no month. */
+function monthOf(text: string): number {
+  const t = text.trim().toLowerCase();
+  const byName = MONTH_NAMES_SHORT.findIndex((m) => t.startsWith(m));
+  if (byName !== -1) return byName + 1;
+  const n = /^\d{1,2}$/.test(t) ? Number(t) : 0;
+  return n >= 1 && n <= 12 ? n : 0;
+}
+
+/*
+   SPLIT DAY / MONTH / YEAR CONTROLS
+ */
+
+/** Which part a select's options look like, judged by their text. */
+function partFromOptions(select: HTMLSelectElement): DatePart | null {
+  const texts = Array.from(select.options)
+    .filter((o) => o.value !== "")
+    .map((o) => o.text.trim());
+  if (texts.length === 0) return null;
+  if (texts.length === 12 && texts.every((t) => monthOf(t) > 0)) {
+    return "month";
+  }
+  if (texts.length >= 5 && texts.every((t) => /^\d{4}$/.test(t))) {
+    return "year";
+  }
+  if (
+    texts.length >= 28 &&
+    texts.length <= 31 &&
+    texts.every((t, i) => Number(t) === i + 1)
+  ) {
+    return "day";
+  }
+  return null;
+}
+
+/** The date part a control stands for, or null (also when ambiguous, e.g. "MM/YYYY"). */
+function datePartOf(el: HTMLElement): DatePart | null {
+  if (!(el instanceof HTMLSelectElement) && !(el instanceof HTMLInputElement)) {
+    return null;
+  }
+  const autocomplete = el.getAttribute("autocomplete") || "";
+  if (autocomplete.startsWith("cc-")) return null; // card expiry
+  const bday = autocomplete.match(/^bday-(day|month|year)$/);
+  if (bday) return bday[1] as DatePart;
+
+  const hint = [
+    el.getAttribute("name"),
+    el.id,
+    el.getAttribute("aria-label"),
+    el.getAttribute("placeholder"),
+    findLabel(el),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2");
+  const parts = (Object.keys(PART_HINTS) as DatePart[]).filter((p) =>
+    PART_HINTS[p].test(hint),
+  );
+  if (parts.length === 1) return parts[0];
+  return el instanceof HTMLSelectElement ? partFromOptions(el) : null;
+}
+
+/**
+ * The day / month / year controls `el` belongs to: month and year (and
+ * usually day) siblings within a few levels of it. Null for a control
+ * that is not part of a split date.
+ */
+export function findSplitDateParts(el: HTMLElement): SplitDateParts | null {
+  const own = datePartOf(el);
+  if (!own) return null;
+
+  let scope = el.parentElement;
+  for (let depth = 0; scope && depth < 3; depth++) {
+    const controls = Array.from(
+      scope.querySelectorAll<HTMLInputElement | HTMLSelectElement>(
+        'select, input:not([type="hidden"])',
+      ),
+    );
+    // Past the widget and into the rest of the form
+    if (controls.length > 6) return null;
+
+    const found: Partial<SplitDateParts> = {};
+    for (const control of controls) {
+      const part = datePartOf(control);
+      if (part && !found[part]) found[part] = control;
+    }
+    if (found.month && found.year && found[own] === el) {
+      return found as SplitDateParts;
+    }
+    scope = scope.parentElement;
+  }
+  return null;
+}
+
+function fillPart(
+  control: HTMLInputElement | HTMLSelectElement,
+  part: DatePart,
+  date: DateValue,
+): boolean {
+  const n =
+    part === "day" ? date.day : part === "month" ? date.month : date.year;
+  if (n === undefined) return false;
+
+  if (control instanceof HTMLSelectElement) {
+    const option = Array.from(control.options).find((o) => {
+      if (o.value === "") return false;
+      if (part === "month")
+        return monthOf(o.value) === n || monthOf(o.text) === n;
+      return Number(o.value) === n || Number(o.text.trim()) === n;
+    });
+    if (!option) return false;
+    applySelectValue(control, option.value);
+    return true;
+  }
+
+  const text =
+    part === "year"
+      ? control.maxLength === 2
+        ? String(n).slice(-2)
+        : String(n)
+      : pad(n);
+  setValue(control, text);
+  return true;
+}
+
+/** Sets each part of a split date. The day is left alone when the value has none. */
+export function fillSplitDate(parts: SplitDateParts, date: DateValue): boolean {
+  const month = fillPart(parts.month, "month", date);
+  const year = fillPart(parts.year, "year", date);
+  if (parts.day && date.day !== undefined) fillPart(parts.day, "day", date);
+  return month && year;
+}
+
+/**
+ * For a control that is one part of a split date: whether it shows its
+ * part of `expected`. Null when the control is not a split-date part.
+ */
+export function splitDatePartMatches(
+  el: HTMLElement,
+  expected: string,
+): boolean | null {
+  const date = parseDateValue(expected);
+  const part = date && findSplitDateParts(el) ? datePartOf(el) : null;
+  if (!date || !part) return null;
+  const want =
+    part === "day" ? date.day : part === "month" ? date.month : date.year;
+  if (want === undefined) return null;
+
+  const shown =
+    el instanceof HTMLSelectElement
+      ? [el.value, el.selectedOptions[0]?.text || ""]
+      : [(el as HTMLInputElement).value];
+  return shown.some((s) =>
+    part === "month"
+      ? monthOf(s) === want
+      : part === "year" && s.trim().length === 2
+        ? Number(s) === want % 100
+        : Number(s) === want,
+  );
+}
+
+/*
+   TEXT FORMATS ("MM/DD/YYYY")
+ */
+
+const FORMAT_PATTERN =
+  /\b(?:dd|mm|yyyy|yy|d|m)(?:\s?[/.-]\s?(?:dd|mm|yyyy|yy|d|m)){1,2}\b/i;
+
+/** The date format a text input asks for in its placeholder or hints, e.g. "DD/MM/YYYY". */
+function declaredFormat(input: HTMLInputElement): string | null {
+  const hints = [
+    input.placeholder,
+    input.getAttribute("data-date-format"),
+    input.getAttribute("data-format"),
+    input.title,
+    findLabel(input),
+  ];
+  for (const hint of hints) {
+    const match = hint?.match(FORMAT_PATTERN);
+    if (match) return match[0].toUpperCase();
+  }
+  return null;
+}
+
+/** "DD/MM/YYYY" + 2024-03-05 → "05/03/2024". A missing day becomes the 1st. */
+export function formatDateAs(date: DateValue, format: string): string {
+  const day = date.day ?? 1;
+  return format.replace(/YYYY|YY|MM|DD|M|D/g, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.year);
+      case "YY":
+        return String(date.year).slice(-2);
+      case "MM":
+        return pad(date.month);
+      case "M":
+        return String(date.month);
+      case "DD":
+        return pad(day);
+      default:
+        return String(day);
+    }
+  });
+}
+
+/*
+   CALENDAR POPUPS
+ */
+
+function calendarKind(input: HTMLInputElement): CalendarKind | null {
+  if (input.classList.contains("flatpickr-input")) return "flatpickr";
+  if (
+    input.closest(
+      ".react-datepicker-wrapper, .react-datepicker__input-container",
+    )
+  ) {
+    return "react-datepicker";
+  }
+  if (input.classList.contains("hasDatepicker")) return "jquery-ui";
+  if (
+    input.closest('[class*="MuiPickersTextField"], [class*="MuiDatePicker"]') ||
+    input.parentElement?.querySelector('button[aria-label*="choose date" i]')
+  ) {
+    return "mui";
+  }
+  if (
+    input.getAttribute("data-provide") === "datepicker" ||
+    input.closest('[data-provide="datepicker"]')
+  ) {
+    return "bootstrap";
+  }
+  return null;
+}
+
+/** True for inputs that open a known calendar widget. */
+export function isDatePickerInput(input: HTMLInputElement): boolean {
+  return calendarKind(input) !== null;
+}
+
+function findOpenCalendar(): HTMLElement | null {
+  for (const selector of CALENDAR_POPUP_SELECTORS) {
+    const popup = Array.from(
+      document.querySelectorAll<HTMLElement>(selector),
+    ).find(isVisible);
+    if (popup) return popup;
+  }
+  return null;
+}
+
+async function openCalendar(
+  input: HTMLInputElement,
+): Promise<HTMLElement | null> {
+  input.focus();
+  clickElement(input);
+  const started = Date.now();
+  let triedButton = false;
+  while (Date.now() - started < POPUP_WAIT_MS) {
+    await nextFrame();
+    const popup = findOpenCalendar();
+    if (popup) return popup;
+    // MUI and some others open from an icon button next to the input
+    if (!triedButton && Date.now() - started > POPUP_WAIT_MS / 2) {
+      triedButton = true;
+      const button = input.parentElement?.querySelector<HTMLElement>("button");
+      if (button) clickElement(button);
+    }
+  }
+  return null;
+}
+
+/** Month and year the popup is showing, from its dropdowns or its title. */
+function shownMonth(
+  popup: HTMLElement,
+): { year: number; month: number } | null {
+  const monthSelect = Array.from(popup.querySelectorAll("select")).find(
+    (s) => partFromOptions(s) === "month",
+  );
+  const yearControl =
+    Array.from(popup.querySelectorAll("select")).find(
+      (s) => partFromOptions(s) === "year",
+    ) ??
+    popup.querySelector<HTMLInputElement>(
+      "input.cur-year, input[class*='year']",
+    );
+  if (monthSelect && yearControl) {
+    const month = monthOf(monthSelect.selectedOptions[0]?.text || "");
+    const year = Number(yearControl.value);
+    if (month && year) return { year, month };
+  }
+
+  const title =
+    popup.querySelector(CALENDAR_TITLE_SELECTORS)?.textContent || "";
+  const text = title.toLowerCase();
+  const month = MONTH_NAMES_FULL.findIndex(
+    (m, i) => text.includes(m) || text.includes(MONTH_NAMES_SHORT[i]),
+  );
+  const year = text.match(/\b\d{4}\b/);
+  return month !== -1 && year
+    ? { year: Number(year[0]), month: month + 1 }
+    : null;
+}
+
+/** Uses the popup's month / year dropdowns when it has them. */
+function jumpWithDropdowns(popup: HTMLElement, date: DateValue) {
+  for (const select of Array.from(popup.querySelectorAll("select"))) {
+    const part = partFromOptions(select);
+    if (part === "month" || part === "year") fillPart(select, part, date);
+  }
+  const yearInput = popup.querySelector<HTMLInputElement>("input.cur-year");
+  if (yearInput && Number(yearInput.value) !== date.year) {
+    setValue(yearInput, String(date.year));
+  }
+}
+
+/** Clicks prev / next until the popup shows the target month. */
+async function navigateToMonth(
+  popup: HTMLElement,
+  date: DateValue,
+): Promise<boolean> {
+  const target = date.year * 12 + date.month;
+  for (let step = 0; step < MAX_MONTH_STEPS; step++) {
+    // Some widgets render a new popup for every month
+    if (!popup.isConnected) popup = findOpenCalendar() ?? popup;
+    const shown = shownMonth(popup);
+    if (!shown) return false;
+    const diff = target - (shown.year * 12 + shown.month);
+    if (diff === 0) return true;
+    const button = popup.querySelector<HTMLElement>(
+      diff > 0 ? NEXT_BUTTON_SELECTORS : PREV_BUTTON_SELECTORS,
+    );
+    if (!button) return false;
+    clickElement(button);
+    await nextFrame();
+  }
+  return false;
+}
+
+function findDayCell(popup: HTMLElement, date: DateValue): HTMLElement | null {
+  const cells = Array.from(
+    popup.querySelectorAll<HTMLElement>(DAY_CELL_SELECTORS),
+  ).filter(
+    (cell) =>
+      isVisible(cell) &&
+      cell.getAttribute("aria-disabled") !== "true" &&
+      !OUTSIDE_DAY.test(cell.className) &&
+      !OUTSIDE_DAY.test(cell.parentElement?.className || ""),
+  );
+  if (date.day === undefined) {
+    // Month pickers show a grid of month names
+    return (
+      cells.find((c) => monthOf(c.textContent || "") === date.month) ?? null
+    );
+  }
+  return (
+    cells.find((c) => (c.textContent || "").trim() === String(date.day)) ?? null
+  );
+}
+
+async function pickFromCalendar(
+  input: HTMLInputElement,
+  date: DateValue,
+): Promise<boolean> {
+  const popup = await openCalendar(input);
+  if (!popup) return false;
+  jumpWithDropdowns(popup, date);
+  await nextFrame();
+  if (!(await navigateToMonth(popup, date))) return false;
+
+  const cell = findDayCell(findOpenCalendar() ?? popup, date);
+  if (!cell) return false;
+  clickElement(cell);
+  await nextFrame();
+  console.log(
+    `Aullevo date picker: picked ${formatDateAs(date, "YYYY-MM-DD")} from the calendar`,
+  );
+  return true;
+}
+
+/*
+   ENTRY POINT
+ */
+
+/**
+ * Fills a date input the way its widget expects: "YYYY-MM" for
+ * type=month, ISO for type=date, the declared format ("DD/MM/YYYY") for
+ * text inputs — typed, then confirmed — and a click through the calendar
+ * for pickers that are read-only or reject the typed text.
+ * Returns false when it doesn't recognize the widget, so the caller can
+ * fall back to plain text.
+ */
+export async function fillDateWidget(
+  input: HTMLInputElement,
+  date: DateValue,
+): Promise<boolean> {
+  if (input.type === "month") {
+    setValue(input, `${date.year}-${pad(date.month)}`);
+    return true;
+  }
+  if (input.type === "date") {
+    setValue(input, formatDateAs(date, "YYYY-MM-DD"));
+    return true;
+  }
+
+  const kind = calendarKind(input);
+  const format = declaredFormat(input) ?? (kind ? DEFAULT_FORMATS[kind] : null);
+  if (!kind && !format) return false;
+
+  if (format && !input.readOnly) {
+    const text = formatDateAs(date, format);
+    setValue(input, text);
+    if (!kind) return true;
+    // Let the picker parse (or reject) the text, then close it
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Enter", bubbles: true }),
+    );
+    await nextFrame();
+    const shown = parseDateValue(input.value);
+    if (input.value === text || (shown?.day && sameDate(shown, date))) {
+      input.dispatchEvent(
+        new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+      );
+      return true;
+    }
+  }
+
+  return kind ? pickFromCalendar(input, date) : false;
+}
@@ -1,4 +1,15 @@
 import { MONTH_NAMES_SHORT, MONTH_NAMES_FULL } from "./constants";
+import { parseDateToken } from "../resume/dateRanges";
+
+/**
+ * A calendar date whose day may be unknown (employment dates are often
+ * "Mar 2020").
+ */
+export interface DateValue {
+  year: number;
+  month: number; // 1-12
+  day?: number;
+}
 
 /**
  * Parses various date string formats into standard YYYY-MM-DD.
@@ -104,3 +115,31 @@ export function formatDateForDisplay(isoDate: string): string {
   }
   return isoDate;
 }
+
+/**
+ * Parses a full date ("2003-11-20", "20/11/2003") or a month and year
+ * ("2020-03", "03/2020", "Mar 2020"). Null for a year alone or no date.
+ */
+export function parseDateValue(str: string): DateValue | null {
+  const iso = parseDateString(str);
+  if (iso) {
+    const [year, month, day] = iso.split("-").map(Number);
+    return { year, month, day };
+  }
+  const trimmed = (str || "").trim();
+  const isoMonth = trimmed.match(/^(\d{4})-(\d{1,2})$/);
+  const parsed = isoMonth
+    ? { year: Number(isoMonth[1]), month: Number(isoMonth[2]) }
+    : parseDateToken(trimmed);
+  if (!parsed.year || !parsed.month || parsed.month > 12) return null;
+  return { year: parsed.year, month: parsed.month };
+}
+
+/** Same calendar day — or same month when either side has no day. */
+export function sameDate(a: DateValue, b: DateValue): boolean {
+  return (
+    a.year === b.year &&
+    a.month === b.month &&
+    (a.day === undefined || b.day === undefined || a.day === b.day)
+  );
+}
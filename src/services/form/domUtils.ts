@@ -34,6 +34,28 @@ export function querySelectorAllDeep<T extends HTMLElement = HTMLElement>(
   return results;
 }
 
+/**
+ * The shadow root a node lives in, or null in the light DOM. Tested by node
+ * type rather than `instanceof ShadowRoot`, which fails when the global
+ * belongs to another window (or, under jsdom, does not exist).
+ */
+export function shadowRootOf(node: Node): ShadowRoot | null {
+  const root = node.getRootNode();
+  const isShadow = root.nodeType === 11 && "host" in root; // DOCUMENT_FRAGMENT_NODE
+  return isShadow ? (root as ShadowRoot) : null;
+}
+
+/**
+ * CSS.escape for building selectors from ids and attribute values, with a
+ * fallback where the CSS global is missing (jsdom).
+ */
+export function cssEscape(value: string): string {
+  if (typeof CSS !== "undefined" && CSS.escape) return CSS.escape(value);
+  return value
+    .replace(/[^a-zA-Z0-9_\u00a0-\uffff-]/g, (c) => `\\${c}`)
+    .replace(/^(-?)(\d)/, "$1\\3$2 ");
+}
+
 /**
  * Checks whether an element is visible in the viewport or layout.
  * Hidden file inputs in custom upload dropzones are treated as visible.
@@ -17,11 +17,14 @@ import {
   type LabelRectItem,
 } from "./labels";
 import { extractCustomSelectOptions } from "./matchers";
+import { buildLocator } from "./locator";
 import { extractChatContext } from "./chat";
+import { applyAtsAdapter } from "../ats";
 
 /**
  * Extracts all form fields from the current page, prioritizing visible and modal fields.
  * CAPTCHA and Honeypot fields are automatically detected and skipped.
+ * On a known ATS the result is refined by its adapter (see services/ats).
  */
 export function extractFormFields(): FormField[] {
   // Find all candidate label elements on the page (including Shadow DOM)
@@ -314,6 +317,8 @@ export function extractFormFields(): FormField[] {
       }));
     }
 
+    // Before the fallback id is assigned — the locator must not rely on it
+    const locator = buildLocator(input);
     const fieldId = input.id || `field_${index}`;
     if (!input.id) input.id = fieldId;
     processedIds.add(fieldId);
@@ -416,6 +421,7 @@ export function extractFormFields(): FormField[] {
       rowHeader: matrixInfo.rowHeader,
       colHeader: matrixInfo.colHeader,
       compoundLabel: matrixInfo.compoundLabel,
+      locator,
     };
 
     fields.push(fieldInfo);
@@ -434,6 +440,7 @@ export function extractFormFields(): FormField[] {
 
     if (isCaptchaField(el)) return;
 
+    const locator = buildLocator(el);
     const elId =
       el.id || el.getAttribute("data-testid") || `custom_select_${idx}`;
     if (!el.id) el.id = elId;
@@ -464,6 +471,7 @@ export function extractFormFields(): FormField[] {
       context: context,
       section: section,
       options: options.length > 0 ? options : undefined,
+      locator,
     });
   });
 
@@ -475,6 +483,7 @@ export function extractFormFields(): FormField[] {
     if (!isVisible(el)) return;
     if (isCaptchaField(el)) return;
 
+    const locator = buildLocator(el);
     const elId = el.id || `toggle_${idx}`;
     if (!el.id) el.id = elId;
     if (processedIds.has(elId)) return;
@@ -504,6 +513,7 @@ export function extractFormFields(): FormField[] {
       context: context,
       section: section,
       currentValue: isOn ? "true" : "false",
+      locator,
     });
   });
 
@@ -525,5 +535,5 @@ export function extractFormFields(): FormField[] {
     panel.hidden = originalHiddenProp;
   }
 
-  return fields;
+  return applyAtsAdapter(fields);
 }
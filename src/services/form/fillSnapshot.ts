@@ -0,0 +1,147 @@
+import { querySelectorAllDeep } from "./domUtils";
+import { triggerEvents } from "./events";
+import { setCheckboxState } from "./fieldFillers";
+
+/**
+ * State of one form control before a fill touched it.
+ */
+export interface ElementSnapshot {
+  element: HTMLElement;
+  value?: string;
+  checked?: boolean;
+  selected?: number[]; // Selected option indices (<select>)
+  files?: File[];
+  html?: string; // contenteditable boxes
+}
+
+const SNAPSHOT_SELECTOR =
+  'input:not([type="button"]):not([type="submit"]):not([type="reset"]):not([type="image"]), select, textarea, [contenteditable="true"]';
+
+function snapshotElement(el: HTMLElement): ElementSnapshot {
+  if (el instanceof HTMLInputElement) {
+    if (el.type === "checkbox" || el.type === "radio") {
+      return { element: el, checked: el.checked };
+    }
+    if (el.type === "file") {
+      return { element: el, files: Array.from(el.files || []) };
+    }
+    return { element: el, value: el.value };
+  }
+  if (el instanceof HTMLSelectElement) {
+    return {
+      element: el,
+      selected: Array.from(el.options)
+        .map((o, i) => (o.selected ? i : -1))
+        .filter((i) => i >= 0),
+    };
+  }
+  if (el instanceof HTMLTextAreaElement) {
+    return { element: el, value: el.value };
+  }
+  return { element: el, html: el.innerHTML };
+}
+
+function sameState(a: ElementSnapshot, b: ElementSnapshot): boolean {
+  if (a.files || b.files) {
+    const fa = a.files || [];
+    const fb = b.files || [];
+    return fa.length === fb.length && fa.every((f, i) => f === fb[i]);
+  }
+  return (
+    a.value === b.value &&
+    a.checked === b.checked &&
+    a.html === b.html &&
+    (a.selected || []).join(",") === (b.selected || []).join(",")
+  );
+}
+
+/**
+ * Records the current state of every fillable control in the document,
+ * including controls inside open shadow roots (the filler reaches those too).
+ * Pair with diffFormState() after the fill to keep only what changed.
+ */
+export function captureFormState(
+  root: Document | Element | ShadowRoot = document,
+): Map<HTMLElement, ElementSnapshot> {
+  const state = new Map<HTMLElement, ElementSnapshot>();
+  querySelectorAllDeep<HTMLElement>(SNAPSHOT_SELECTOR, root).forEach((el) => {
+    state.set(el, snapshotElement(el));
+  });
+  return state;
+}
+
+/**
+ * Returns the "before" snapshots of controls whose state differs now.
+ * Controls that appeared during the fill (e.g. an added experience row)
+ * have no earlier state and are left alone.
+ */
+export function diffFormState(
+  before: Map<HTMLElement, ElementSnapshot>,
+): ElementSnapshot[] {
+  const changed: ElementSnapshot[] = [];
+  before.forEach((prev, el) => {
+    if (!el.isConnected) return;
+    if (!sameState(prev, snapshotElement(el))) changed.push(prev);
+  });
+  return changed;
+}
+
+function restoreValue(el: HTMLInputElement | HTMLTextAreaElement, value: string) {
+  const nativeSetter = Object.getOwnPropertyDescriptor(
+    Object.getPrototypeOf(el),
+    "value",
+  )?.set;
+  if (nativeSetter) nativeSetter.call(el, value);
+  else el.value = value;
+  triggerEvents(el);
+}
+
+/**
+ * Puts each control back to its snapshot and re-dispatches the framework
+ * events so React / Vue / Angular state follows. Unchecks run before
+ * checks so radio groups settle on the original choice.
+ *
+ * @returns Number of controls restored (detached elements are skipped).
+ */
+export function restoreFormState(snapshots: ElementSnapshot[]): number {
+  let restored = 0;
+  const ordered = [...snapshots].sort(
+    (a, b) => Number(a.checked === true) - Number(b.checked === true),
+  );
+
+  for (const snap of ordered) {
+    const el = snap.element;
+    if (!el.isConnected) continue;
+    try {
+      if (el instanceof HTMLInputElement && snap.checked !== undefined) {
+        setCheckboxState(el, snap.checked);
+      } else if (el instanceof HTMLInputElement && snap.files) {
+        const dt = new DataTransfer();
+        snap.files.forEach((f) => dt.items.add(f));
+        el.files = dt.files;
+        el.dispatchEvent(new Event("input", { bubbles: true }));
+        el.dispatchEvent(new Event("change", { bubbles: true }));
+      } else if (el instanceof HTMLSelectElement) {
+        const selected = new Set(snap.selected || []);
+        Array.from(el.options).forEach((o, i) => {
+          o.selected = selected.has(i);
+        });
+        triggerEvents(el);
+      } else if (
+        (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) &&
+        snap.value !== undefined
+      ) {
+        restoreValue(el, snap.value);
+      } else if (snap.html !== undefined) {
+        el.innerHTML = snap.html;
+        el.dispatchEvent(new Event("input", { bubbles: true }));
+      } else {
+        continue;
+      }
+      restored++;
+    } catch (e) {
+      console.warn("Aullevo: Could not restore field", el, e);
+    }
+  }
+  return restored;
+}
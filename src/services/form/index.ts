@@ -10,6 +10,12 @@ export * from "./events";
 export * from "./matchers";
 export * from "./dateUtils";
 export * from "./fieldFillers";
+export * from "./combobox";
+export * from "./datePicker";
 export * from "./fieldExtractor";
 export * from "./navigation";
 export * from "./chat";
+export * from "./fillSnapshot";
+export * from "./locator";
+export * from "./verification";
+export * from "./jobPosting";
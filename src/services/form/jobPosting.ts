@@ -0,0 +1,314 @@
+import type { JobPostingInfo } from "../../types";
+
+const clean = (s: string | null | undefined) =>
+  (s || "").replace(/\s+/g, " ").trim();
+
+// "Apply for", "Job Application for" and similar page-title noise
+const TITLE_NOISE =
+  /^(?:job\s+)?(?:application\s+(?:for|to)|apply(?:ing)?\s+(?:for|to)|careers?\s*[:|-])\s*/i;
+
+function meta(name: string): string {
+  const el = document.querySelector<HTMLMetaElement>(
+    `meta[property="${name}"], meta[name="${name}"]`,
+  );
+  return clean(el?.content);
+}
+
+interface LdNode {
+  "@type"?: string | string[];
+  "@graph"?: LdNode[];
+  title?: string;
+  description?: string;
+  hiringOrganization?: string | { name?: string };
+}
+
+const isJobPosting = (n: LdNode | null) =>
+  !!n &&
+  (n["@type"] === "JobPosting" ||
+    (Array.isArray(n["@type"]) && n["@type"].includes("JobPosting")));
+
+/** The page's schema.org JobPosting node from JSON-LD, if it has one. */
+function findLdPosting(): LdNode | null {
+  const scripts = document.querySelectorAll<HTMLScriptElement>(
+    'script[type="application/ld+json"]',
+  );
+  for (const script of Array.from(scripts)) {
+    let data: LdNode | LdNode[] | null;
+    try {
+      data = JSON.parse(script.textContent || "");
+    } catch {
+      continue;
+    }
+    const nodes = Array.isArray(data) ? data : data?.["@graph"] || [data];
+    const posting = nodes.find(isJobPosting);
+    if (posting) return posting;
+  }
+  return null;
+}
+
+/**
+ * schema.org JobPosting from JSON-LD — the most reliable source when a
+ * career site publishes it (most ATS listing pages do).
+ */
+function fromJsonLd(): Partial<JobPostingInfo> {
+  const posting = findLdPosting();
+  if (!posting) return {};
+  const org = posting.hiringOrganization;
+  return {
+    role: clean(posting.title),
+    company: clean(typeof org === "string" ? org : org?.name),
+  };
+}
+
+/**
+ * ATS URLs that carry the company slug:
+ *   jobs.lever.co/acme/…, boards.greenhouse.io/acme/…,
+ *   jobs.ashbyhq.com/acme/…, acme.wd5.myworkdayjobs.com/…
+ */
+function companyFromUrl(url: URL): string {
+  const host = url.hostname;
+  const first = url.pathname.split("/").filter(Boolean)[0] || "";
+  if (
+    /(^|\.)(lever\.co|greenhouse\.io|ashbyhq\.com|workable\.com|breezy\.hr|recruitee\.com)$/.test(
+      host,
+    ) &&
+    first
+  ) {
+    return decodeURIComponent(first).replace(/[-_]+/g, " ");
+  }
+  const workday = host.match(/^([^.]+)\.wd\d+\.myworkdayjobs\.com$/);
+  if (workday) return workday[1].replace(/[-_]+/g, " ");
+  return "";
+}
+
+/**
+ * Splits "Role - Company", "Role at Company", "Role | Company" titles.
+ * Returns nothing for titles without a recognisable separator.
+ */
+function splitTitle(title: string): Partial<JobPostingInfo> {
+  const stripped = title.replace(TITLE_NOISE, "");
+  const at = stripped.match(/^(.+?)\s+at\s+(.+?)(?:\s+[-|–—]\s+.*)?$/i);
+  if (at) return { role: clean(at[1]), company: clean(at[2]) };
+  const parts = stripped
+    .split(/\s+[-|–—·]\s+/)
+    .map(clean)
+    .filter(Boolean);
+  if (parts.length >= 2) return { role: parts[0], company: parts[1] };
+  return {};
+}
+
+/**
+ * Best-effort company / role for the current page, from (in order)
+ * JSON-LD JobPosting, `og:` meta, the page title, the main heading and
+ * the ATS URL. Fields that cannot be determined are empty strings.
+ */
+export function extractJobPosting(): JobPostingInfo {
+  const url = new URL(window.location.href);
+  const ld = fromJsonLd();
+  const og = splitTitle(meta("og:title"));
+  const title = splitTitle(document.title);
+  const heading = clean(
+    document.querySelector<HTMLElement>(
+      'h1, [class*="job-title"], [class*="posting-headline"] h2',
+    )?.textContent,
+  );
+
+  const company =
+    ld.company ||
+    og.company ||
+    title.company ||
+    meta("og:site_name") ||
+    companyFromUrl(url);
+  const role =
+    ld.role ||
+    (heading.length <= 120 ? heading : "") ||
+    og.role ||
+    title.role ||
+    clean(document.title);
+
+  return {
+    company: company.slice(0, 120),
+    role: role.replace(TITLE_NOISE, "").slice(0, 160),
+    url: url.href,
+  };
+}
+
+/*
+   JOB DESCRIPTION
+ */
+
+const MAX_DESCRIPTION_CHARS = 12000; // Keeps cover-letter prompts bounded
+const MIN_DESCRIPTION_CHARS = 200; // Anything shorter is a teaser, not a posting
+
+// Posting containers on the common ATS and job boards
+const DESCRIPTION_SELECTORS = [
+  "#content .job__description", // Greenhouse (new boards)
+  "#app_body #content", // Greenhouse (classic)
+  ".posting-page .section-wrapper.page-full-width", // Lever
+  '[class*="_descriptionText"]', // Ashby
+  '[data-automation-id="jobPostingDescription"]', // Workday
+  '[data-ui="job-description"]', // Workable
+  ".jobs-description__content", // LinkedIn
+  "#jobDescriptionText", // Indeed
+  ".job-description",
+  '[itemprop="description"]',
+];
+
+const BLOCK_TAGS = new Set([
+  "P",
+  "DIV",
+  "SECTION",
+  "ARTICLE",
+  "LI",
+  "UL",
+  "OL",
+  "BR",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "TR",
+  "TABLE",
+  "BLOCKQUOTE",
+]);
+const SKIP_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "SVG",
+  "BUTTON",
+  "FORM",
+  "INPUT",
+  "SELECT",
+  "TEXTAREA",
+  "NAV",
+  "FOOTER",
+  "IFRAME",
+]);
+
+const POSITIVE_HINT =
+  /job|posting|description|content|article|main|body|details|requirements/i;
+const NEGATIVE_HINT =
+  /nav|menu|footer|header|sidebar|cookie|banner|modal|share|social|comment|related|similar|apply-?form|application/i;
+
+/**
+ * Readable text of an element: block elements become line breaks,
+ * list items get a bullet, scripts and controls are dropped.
+ */
+function blockText(root: Node): string {
+  const out: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push((node.textContent || "").replace(/\s+/g, " "));
+      return;
+    }
+    if (!(node instanceof Element) || SKIP_TAGS.has(node.tagName)) return;
+    const block = BLOCK_TAGS.has(node.tagName);
+    if (block) out.push("\n");
+    if (node.tagName === "LI") out.push("• ");
+    node.childNodes.forEach(walk);
+    if (block) out.push("\n");
+  };
+  walk(root);
+  return out
+    .join("")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const classHints = (el: Element) =>
+  `${el.id} ${el.getAttribute("class") || ""}`;
+
+/** Share of an element's text that sits inside links (menus, link farms). */
+function linkDensity(el: Element): number {
+  const total = (el.textContent || "").length || 1;
+  const linked = Array.from(el.querySelectorAll("a")).reduce(
+    (sum, a) => sum + (a.textContent || "").length,
+    0,
+  );
+  return linked / total;
+}
+
+/**
+ * Readability-style fallback: paragraphs and list items score their
+ * parent (and half that to the grandparent) by length and comma count;
+ * id/class hints and link density adjust the total. The best-scoring
+ * container is taken as the posting body.
+ */
+function scoreCandidates(): Element | null {
+  const scores = new Map<Element, number>();
+  const add = (el: Element | null, points: number) => {
+    if (el && el !== document.body)
+      scores.set(el, (scores.get(el) ?? 0) + points);
+  };
+
+  document.querySelectorAll("p, li").forEach((node) => {
+    const text = clean(node.textContent);
+    if (text.length < 25) return;
+    const points =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    add(node.parentElement, points);
+    add(node.parentElement?.parentElement ?? null, points / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, base] of scores) {
+    const hints = classHints(el);
+    let score = base;
+    if (POSITIVE_HINT.test(hints)) score += 25;
+    if (NEGATIVE_HINT.test(hints)) score -= 25;
+    score *= 1 - linkDensity(el);
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** JSON-LD descriptions are HTML; parse them inertly and flatten to text. */
+function ldDescription(): string {
+  const html = findLdPosting()?.description;
+  if (!html) return "";
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return blockText(doc.body);
+}
+
+/**
+ * Main text of the job posting on the current page, from (in order)
+ * known ATS containers, the JSON-LD JobPosting description, and a
+ * readability-style scan of the page. Returns an empty string when
+ * nothing long enough to be a posting is found.
+ *
+ * CALLED BY: useSidebarState.ts → captureJobDescription (cover letter)
+ */
+export function extractJobDescription(): string {
+  const candidates: (() => string)[] = [
+    () => {
+      for (const selector of DESCRIPTION_SELECTORS) {
+        const el = document.querySelector(selector);
+        const text = el ? blockText(el) : "";
+        if (text.length >= MIN_DESCRIPTION_CHARS) return text;
+      }
+      return "";
+    },
+    ldDescription,
+    () => {
+      const el = scoreCandidates();
+      return el ? blockText(el) : "";
+    },
+  ];
+  for (const candidate of candidates) {
+    const text = candidate();
+    if (text.length >= MIN_DESCRIPTION_CHARS) {
+      return text.slice(0, MAX_DESCRIPTION_CHARS);
+    }
+  }
+  return "";
+}
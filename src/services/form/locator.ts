@@ -0,0 +1,238 @@
+import type { LocatorStep, LocatorStrategy } from "../../types";
+import { isDynamicId } from "../heuristic/idUtils";
+import {
+  cssEscape,
+  findElementByIdOrSelector,
+  querySelectorAllDeep,
+  shadowRootOf,
+} from "./domUtils";
+import { cleanLabelText } from "./labels";
+
+// Test hooks that outlive a re-render, most specific first
+const AUTOMATION_ATTRIBUTES = [
+  "data-automation-id",
+  "data-testid",
+  "data-test",
+  "data-qa",
+  "data-cy",
+];
+
+// Ids the extractor gives elements that had none — gone once the node is replaced
+const GENERATED_ID = /^(?:field|custom_select|toggle|unnamed_group)_\d+$/;
+
+const SHADOW_SEPARATOR = " >>> ";
+
+const norm = (s: string) => cleanLabelText(s).toLowerCase();
+
+const isStableId = (id: string) =>
+  !!id && !GENERATED_ID.test(id) && !isDynamicId(id);
+
+/**
+ * An element found again by locateField(), and the strategy that found it.
+ */
+export interface LocatedElement {
+  element: HTMLElement;
+  strategy: LocatorStrategy;
+}
+
+/** Text of the <label> elements pointing at the control. */
+function labelTextOf(el: HTMLElement): string {
+  const labels = (el as HTMLInputElement).labels;
+  if (!labels || labels.length === 0) return "";
+  return norm(
+    Array.from(labels)
+      .map((l) => l.textContent || "")
+      .join(" "),
+  );
+}
+
+/** aria-label, else the text of the aria-labelledby targets. */
+function ariaTextOf(el: HTMLElement): string {
+  const own = el.getAttribute("aria-label");
+  if (own) return norm(own);
+  const ids = (el.getAttribute("aria-labelledby") || "")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (ids.length === 0) return "";
+  const root = el.getRootNode() as Document | ShadowRoot;
+  return norm(
+    ids.map((id) => root.getElementById(id)?.textContent || "").join(" "),
+  );
+}
+
+/**
+ * Structural path from the nearest ancestor with a stable id (or the top
+ * of the element's document / shadow root) down to the element.
+ */
+function cssPath(el: Element): string {
+  const parts: string[] = [];
+  let node: Element | null = el;
+  while (node) {
+    if (node !== el && isStableId(node.id)) {
+      parts.unshift(`#${cssEscape(node.id)}`);
+      break;
+    }
+    const tag = node.tagName.toLowerCase();
+    const parent: Element | null = node.parentElement;
+    if (!parent) {
+      parts.unshift(tag);
+      break;
+    }
+    const sameTag = Array.from(parent.children).filter(
+      (c) => c.tagName === node?.tagName,
+    );
+    parts.unshift(
+      sameTag.length > 1
+        ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})`
+        : tag,
+    );
+    node = parent;
+  }
+  return parts.join(" > ");
+}
+
+/** One cssPath per shadow root, outermost host first; null outside shadow DOM. */
+function shadowPath(el: HTMLElement): string | null {
+  let root = shadowRootOf(el);
+  if (!root) return null;
+  const parts = [cssPath(el)];
+  while (root) {
+    parts.unshift(cssPath(root.host));
+    root = shadowRootOf(root.host);
+  }
+  return parts.join(SHADOW_SEPARATOR);
+}
+
+/** Selector step, kept only when it picks out this element alone in its root. */
+function uniqueSelector(
+  el: HTMLElement,
+  strategy: LocatorStrategy,
+  selector: string,
+): LocatorStep | null {
+  const root = el.getRootNode() as Document | ShadowRoot;
+  try {
+    const matches = root.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === el
+      ? { strategy, value: selector }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ranked ways to find a form control again, most specific first: its own
+ * id (unless generated), name, test-automation attribute, label text,
+ * ARIA label, then its structural path (through shadow roots if needed).
+ * Call before the extractor assigns a fallback id.
+ */
+export function buildLocator(el: HTMLElement): LocatorStep[] {
+  const steps: (LocatorStep | null)[] = [];
+  const tag = el.tagName.toLowerCase();
+
+  if (isStableId(el.id)) steps.push({ strategy: "id", value: el.id });
+
+  const name = el.getAttribute("name");
+  if (name && !isDynamicId(name)) {
+    steps.push(uniqueSelector(el, "name", `${tag}[name="${cssEscape(name)}"]`));
+  }
+
+  for (const attr of AUTOMATION_ATTRIBUTES) {
+    const value = el.getAttribute(attr);
+    if (!value || isDynamicId(value)) continue;
+    steps.push(
+      uniqueSelector(el, "automationId", `[${attr}="${cssEscape(value)}"]`),
+    );
+    break;
+  }
+
+  const labelText = labelTextOf(el);
+  if (labelText) steps.push({ strategy: "label", value: labelText });
+
+  const ariaText = ariaTextOf(el);
+  if (ariaText) steps.push({ strategy: "aria", value: ariaText });
+
+  const inShadow = shadowPath(el);
+  steps.push(
+    inShadow
+      ? { strategy: "shadowPath", value: inShadow }
+      : { strategy: "cssPath", value: cssPath(el) },
+  );
+
+  return steps.filter((s): s is LocatorStep => s !== null);
+}
+
+const only = <T>(matches: T[]): T | null =>
+  matches.length === 1 ? matches[0] : null;
+
+function resolveShadowPath(path: string): HTMLElement | null {
+  const parts = path.split(SHADOW_SEPARATOR);
+  let scope: Document | ShadowRoot = document;
+  for (let i = 0; i < parts.length; i++) {
+    const el: HTMLElement | null = scope.querySelector<HTMLElement>(parts[i]);
+    if (!el || i === parts.length - 1) return el;
+    if (!el.shadowRoot) return null;
+    scope = el.shadowRoot;
+  }
+  return null;
+}
+
+function resolveStep(step: LocatorStep): HTMLElement | null {
+  try {
+    switch (step.strategy) {
+      case "id":
+        return (
+          document.getElementById(step.value) ??
+          only(querySelectorAllDeep(`[id="${cssEscape(step.value)}"]`))
+        );
+      case "name":
+      case "automationId":
+        return only(querySelectorAllDeep(step.value));
+      case "label":
+        return only(
+          querySelectorAllDeep<HTMLLabelElement>("label")
+            .filter((l) => norm(l.textContent || "") === step.value)
+            .map((l) => l.control as HTMLElement | null)
+            .filter(
+              (c, i, all): c is HTMLElement => !!c && all.indexOf(c) === i,
+            ),
+        );
+      case "aria":
+        return only(
+          querySelectorAllDeep("[aria-label], [aria-labelledby]").filter(
+            (el) => ariaTextOf(el) === step.value,
+          ),
+        );
+      case "cssPath":
+        return document.querySelector<HTMLElement>(step.value);
+      case "shadowPath":
+        return resolveShadowPath(step.value);
+    }
+  } catch {
+    // Invalid selector — try the next step
+  }
+  return null;
+}
+
+/**
+ * Finds a field's element at fill time: by its id first, then through its
+ * locator steps in order. A node found by a fallback (the page re-rendered
+ * since the scan) gets the field id again, so later lookups by id work.
+ */
+export function locateField(target: {
+  id?: string;
+  fieldId?: string;
+  locator?: LocatorStep[];
+}): LocatedElement | null {
+  const id = target.id || target.fieldId || "";
+  const byId = findElementByIdOrSelector(id);
+  if (byId?.isConnected) return { element: byId, strategy: "id" };
+
+  for (const step of target.locator ?? []) {
+    const element = resolveStep(step);
+    if (!element) continue;
+    if (id && !element.id) element.id = id;
+    return { element, strategy: step.strategy };
+  }
+  return null;
+}
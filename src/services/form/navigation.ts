@@ -7,8 +7,13 @@ import {
   PREV_ARROW_SYMBOLS,
   NAVIGATION_EXCLUDE_KEYWORDS,
   PREV_EXCLUDE_KEYWORDS,
+  FINAL_SUBMIT_KEYWORDS,
+  START_APPLICATION_KEYWORDS,
+  STEP_FORWARD_KEYWORDS,
+  FINAL_FORM_ACTION_PATTERN,
 } from "./constants";
 import { findActiveModals, isVisible } from "./domUtils";
+import { findAtsNextButton, isAtsSubmitButton } from "../ats";
 
 /**
  * Clicks an element by its ID.
@@ -29,6 +34,9 @@ export function clickElement(id: string): {
  * Finds the "Next", "Continue", or "Submit Application" button on the page or active modal.
  */
 export function findNextButton(): HTMLElement | null {
+  const atsButton = findAtsNextButton();
+  if (atsButton) return atsButton;
+
   const activeModals = findActiveModals();
   const root =
     activeModals.length > 0
@@ -101,19 +109,242 @@ export function findNextButton(): HTMLElement | null {
   return scored[0].btn as HTMLElement;
 }
 
+export interface WizardProgress {
+  current: number; // 1-based
+  total: number;
+}
+
+/**
+ * Reads the form's step indicator, if it has one: a "Step 2 of 4" label,
+ * an ARIA progressbar, or a stepper list with an aria-current item.
+ */
+export function detectWizardProgress(): WizardProgress | null {
+  const activeModals = findActiveModals();
+  const root =
+    activeModals.length > 0
+      ? activeModals[activeModals.length - 1]
+      : document.body;
+
+  // 1. Stepper list: <li aria-current="step"> among its siblings
+  const currentStep = root.querySelector<HTMLElement>('[aria-current="step"]');
+  if (currentStep?.parentElement) {
+    const steps = Array.from(currentStep.parentElement.children);
+    if (steps.length > 1) {
+      return { current: steps.indexOf(currentStep) + 1, total: steps.length };
+    }
+  }
+
+  // 2. "Step 2 of 4" / "Page 2/4" text
+  const text = (root.innerText || root.textContent || "").slice(0, 20000);
+  const match = text.match(
+    /\b(?:step|page|section)\s+(\d+)\s*(?:of|\/)\s*(\d+)\b/i,
+  );
+  if (match) {
+    const current = parseInt(match[1], 10);
+    const total = parseInt(match[2], 10);
+    if (current > 0 && total >= current) return { current, total };
+  }
+
+  // 3. Progressbar whose range is a step count (not a percentage)
+  const bar = root.querySelector<HTMLElement>(
+    '[role="progressbar"][aria-valuenow][aria-valuemax]',
+  );
+  if (bar && isVisible(bar)) {
+    const now = Number(bar.getAttribute("aria-valuenow"));
+    const max = Number(bar.getAttribute("aria-valuemax"));
+    if (max > 1 && max <= 20 && now >= 1 && Number.isInteger(now)) {
+      return { current: Math.min(now, max), total: max };
+    }
+  }
+  return null;
+}
+
+export type NavigationButtonKind = "next" | "submit";
+
+export interface NavigationButtonClass {
+  kind: NavigationButtonKind;
+  reason: string;
+}
+
+function buttonLabel(btn: HTMLElement): string {
+  return (
+    btn.textContent ||
+    (btn as HTMLInputElement).value ||
+    btn.getAttribute("aria-label") ||
+    ""
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word match, so "pay" does not fire on "payroll"
+function hasKeyword(text: string, keywords: readonly string[]): boolean {
+  return keywords.some((k) =>
+    new RegExp(`(^|\\W)${escapeRegExp(k)}(\\W|$)`).test(text),
+  );
+}
+
+// Inputs that hold a search on a job listing, not an application answer
+const SEARCH_INPUT = /search|query|keyword/i;
+
 /**
- * Clicks the Next button if found.
+ * True when the button's form (or, without one, the page or open modal)
+ * already has answers in it: text typed, an option picked, a box ticked.
+ * "Apply now" only opens the application while nothing is filled yet.
  */
-export function clickNextButton(): { success: boolean; message: string } {
+function hasFilledApplicationFields(btn: HTMLElement): boolean {
+  const activeModals = findActiveModals();
+  const scope: ParentNode =
+    (btn as HTMLButtonElement).form ||
+    btn.closest("form") ||
+    (activeModals.length > 0
+      ? activeModals[activeModals.length - 1]
+      : document.body);
+
+  const controls = scope.querySelectorAll<
+    HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+  >("input, textarea, select");
+  return Array.from(controls).some((el) => {
+    if (el.disabled || !isVisible(el)) return false;
+    if (SEARCH_INPUT.test(`${el.name} ${el.id}`)) return false;
+    if (el instanceof HTMLInputElement) {
+      if (
+        ["hidden", "submit", "button", "reset", "search", "image"].includes(
+          el.type,
+        )
+      ) {
+        return false;
+      }
+      if (el.type === "checkbox" || el.type === "radio") return el.checked;
+      if (el.type === "file") return (el.files?.length ?? 0) > 0;
+    }
+    if (el instanceof HTMLSelectElement) return el.selectedIndex > 0;
+    return el.value.trim() !== "";
+  });
+}
+
+/**
+ * Decides whether clicking a navigation button moves to the next wizard
+ * step or commits the application (submit / apply / pay / sign).
+ *
+ * Where the click leads is checked before the label: posting to a submit
+ * endpoint or being on the wizard's last step makes any button a final
+ * submit, "Continue" included. "Apply now" opens the application only
+ * while no application field is filled; a submit button with that label
+ * on a filled form sends it. Otherwise an explicit label decides. A
+ * `type="submit"` button with any other label ("Send", "Done", "Save")
+ * is a submit, unless a next-style class, id or arrow says it only steps
+ * forward — so autopilot never clicks an unrecognised final button.
+ */
+export function classifyNavigationButton(
+  btn: HTMLElement,
+  progress: WizardProgress | null = detectWizardProgress(),
+): NavigationButtonClass {
+  // 0. A known ATS's own submit button, whatever its label says
+  const atsName = isAtsSubmitButton(btn);
+  if (atsName) return { kind: "submit", reason: `${atsName} submit button` };
+
+  const label = buttonLabel(btn).toLowerCase();
+  const classAndId = (
+    String(btn.className || "") +
+    " " +
+    String(btn.id || "")
+  ).toLowerCase();
+
+  const form =
+    (btn as HTMLButtonElement).form || btn.closest<HTMLFormElement>("form");
+  const action =
+    btn.getAttribute("formaction") || form?.getAttribute("action") || "";
+  const postsToFinal = !!action && FINAL_FORM_ACTION_PATTERN.test(action);
+  const isSubmitType =
+    (btn instanceof HTMLButtonElement || btn instanceof HTMLInputElement) &&
+    btn.type === "submit";
+  const onLastStep = !!progress && progress.current >= progress.total;
+
+  // 1. Where the click leads, whatever the label says
+  if (postsToFinal && (isSubmitType || onLastStep)) {
+    return { kind: "submit", reason: `form posts to ${action}` };
+  }
+  if (progress && onLastStep) {
+    return {
+      kind: "submit",
+      reason: `last step (${progress.current} of ${progress.total})`,
+    };
+  }
+
+  // 2. Label: "Apply now" on a listing opens the form; "Submit" commits it
+  if (hasKeyword(label, START_APPLICATION_KEYWORDS)) {
+    if (!hasFilledApplicationFields(btn)) {
+      return {
+        kind: "next",
+        reason: `"${buttonLabel(btn)}" opens the application`,
+      };
+    }
+    return {
+      kind: "submit",
+      reason: `"${buttonLabel(btn)}" on a filled application`,
+    };
+  }
+  if (hasKeyword(label, FINAL_SUBMIT_KEYWORDS)) {
+    return { kind: "submit", reason: `labelled "${buttonLabel(btn)}"` };
+  }
+  if (hasKeyword(label, STEP_FORWARD_KEYWORDS)) {
+    return { kind: "next", reason: `labelled "${buttonLabel(btn)}"` };
+  }
+
+  // 3. No explicit label: a submit button sends the form unless its
+  // class, id or an arrow marks it as a step forward
+  if (isSubmitType) {
+    const stepsForward =
+      NEXT_ARROW_SYMBOLS.some((symbol) => label.includes(symbol)) ||
+      NEXT_CLASS_ID_KEYWORDS.some(
+        (term) => !term.includes("submit") && classAndId.includes(term),
+      );
+    if (!stepsForward || /submit/.test(classAndId)) {
+      return {
+        kind: "submit",
+        reason: label
+          ? `submit button labelled "${buttonLabel(btn)}"`
+          : "submit button",
+      };
+    }
+  }
+  return { kind: "next", reason: "navigation button" };
+}
+
+export interface NextClickResult {
+  success: boolean;
+  message: string;
+  kind?: NavigationButtonKind;
+  blocked?: boolean; // A final submit button was found but not clicked
+}
+
+/**
+ * Clicks the Next button if found. A button that would submit the
+ * application is only clicked with `allowSubmit`; otherwise the result
+ * reports it as `blocked` so the caller can stop for review.
+ */
+export function clickNextButton(
+  options: { allowSubmit?: boolean } = {},
+): NextClickResult {
   const btn = findNextButton();
-  if (btn) {
-    btn.click();
+  if (!btn) return { success: false, message: 'No "Next" button found.' };
+
+  const label = buttonLabel(btn) || "Next";
+  const { kind, reason } = classifyNavigationButton(btn);
+  if (kind === "submit" && !options.allowSubmit) {
     return {
-      success: true,
-      message: `Clicked "${btn.textContent || "Next"}" button.`,
+      success: false,
+      blocked: true,
+      kind,
+      message: `Stopped before "${label}" (${reason}). Review the application and submit it yourself.`,
     };
   }
-  return { success: false, message: 'No "Next" button found.' };
+
+  btn.click();
+  return { success: true, kind, message: `Clicked "${label}" button.` };
 }
 
 /**
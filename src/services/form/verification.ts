@@ -0,0 +1,354 @@
+import type { FieldMapping, FieldVerification } from "../../types";
+import { cssEscape, isVisible } from "./domUtils";
+import { locateField } from "./locator";
+import { findLabel } from "./labels";
+import {
+  getOptionDescriptors,
+  optionMatchesValue,
+  scoreOptionMatch,
+} from "./matchers";
+import { isTypeahead, typeaheadShownValue } from "./combobox";
+import { parseDateValue, sameDate } from "./dateUtils";
+import { splitDatePartMatches } from "./datePicker";
+
+const FIELD_CONTAINER_SELECTOR =
+  '.form-group, .field, [class*="form-field"], [class*="form-item"], [class*="field-wrapper"], [class*="input-wrapper"], fieldset, li';
+
+const ERROR_SELECTOR =
+  '[role="alert"], [aria-live="assertive"], [class*="error"], [class*="invalid"], [class*="danger"]';
+
+const norm = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+const alnum = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+const digits = (s: string) => s.replace(/\D/g, "");
+
+function textOf(el: Element | null): string {
+  return (el?.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Finds a validation message for a control: aria-invalid, native
+ * constraint validation, then visible error text in its field container.
+ */
+export function findValidationMessage(el: HTMLElement): string | null {
+  const refs = [
+    el.getAttribute("aria-errormessage"),
+    el.getAttribute("aria-describedby"),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .split(/\s+/)
+    .filter(Boolean);
+  const described = refs
+    .map((id) => document.getElementById(id))
+    .filter((n): n is HTMLElement => !!n && isVisible(n))
+    .map(textOf)
+    .filter(Boolean)
+    .join(" ");
+
+  if (el.getAttribute("aria-invalid") === "true") {
+    return described || "The site marked this field as invalid.";
+  }
+
+  if (
+    (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) &&
+    el.value !== ""
+  ) {
+    const v = el.validity;
+    if (
+      v &&
+      (v.typeMismatch ||
+        v.patternMismatch ||
+        v.tooShort ||
+        v.tooLong ||
+        v.rangeOverflow ||
+        v.rangeUnderflow ||
+        v.badInput)
+    ) {
+      return el.validationMessage || "Value does not match the expected format.";
+    }
+  }
+
+  const container = el.closest<HTMLElement>(FIELD_CONTAINER_SELECTOR);
+  if (!container || container === document.body) return null;
+  for (const node of Array.from(
+    container.querySelectorAll<HTMLElement>(ERROR_SELECTOR),
+  )) {
+    // Wrappers like ".has-error" contain the input itself — their text is the label
+    if (node.contains(el)) continue;
+    const text = textOf(node);
+    if (text && text.length <= 200 && isVisible(node)) return text;
+  }
+  return null;
+}
+
+function expectedText(value: FieldMapping["selectedValue"]): string {
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value ?? "");
+}
+
+function compareText(
+  el: HTMLInputElement | HTMLTextAreaElement,
+  mapping: FieldMapping,
+  expected: string,
+  actual: string,
+): Pick<FieldVerification, "status" | "message"> {
+  if (!actual.trim()) {
+    return { status: "empty", message: "The value was cleared after filling." };
+  }
+  if (norm(actual) === norm(expected) || alnum(actual) === alnum(expected)) {
+    return { status: "ok" };
+  }
+
+  const isPhone =
+    (el instanceof HTMLInputElement && el.type === "tel") ||
+    /phone/i.test(mapping.fieldType || "");
+  if (isPhone) {
+    const a = digits(actual);
+    const e = digits(expected);
+    // A separate country-code field may strip the prefix
+    if (a && e && (a === e || e.endsWith(a) || a.endsWith(e))) {
+      return { status: "ok" };
+    }
+  }
+
+  const aNum = Number(actual);
+  const eNum = Number(expected.match(/-?\d+(\.\d+)?/)?.[0]);
+  if (actual.trim() !== "" && !isNaN(aNum) && aNum === eNum) {
+    return { status: "ok" };
+  }
+
+  // Month-and-year values match any day of that month
+  const aDate = parseDateValue(actual);
+  const eDate = parseDateValue(expected);
+  if (aDate && eDate && sameDate(aDate, eDate)) return { status: "ok" };
+
+  // A typeahead shows the suggestion it picked ("San Francisco, California, United States")
+  if (
+    isTypeahead(el) &&
+    scoreOptionMatch(actual, "", expected.toLowerCase().trim()) >= 50
+  ) {
+    return { status: "ok" };
+  }
+
+  if (el.maxLength > 0 && norm(expected).startsWith(norm(actual))) {
+    return {
+      status: "mismatch",
+      message: `Truncated to ${el.maxLength} characters.`,
+    };
+  }
+  return { status: "mismatch", message: "The site changed the value." };
+}
+
+function verifyGroup(
+  options: HTMLInputElement[],
+  expected: string,
+): Pick<FieldVerification, "status" | "message" | "actual"> {
+  const checked = options.filter((o) => o.checked);
+  const actual = checked.map((o) => findLabel(o) || o.value).join(", ");
+  if (checked.length === 0) {
+    return { status: "empty", actual, message: "No option is selected." };
+  }
+  const wanted = expected.toLowerCase().trim();
+  const matches = checked.some((o) =>
+    optionMatchesValue(getOptionDescriptors(o), wanted),
+  );
+  return matches
+    ? { status: "ok", actual }
+    : { status: "mismatch", actual, message: "A different option is selected." };
+}
+
+function resolveTarget(
+  mapping: FieldMapping,
+): HTMLElement | HTMLInputElement[] | null {
+  const el = locateField(mapping)?.element ?? null;
+  if (
+    el &&
+    !(el instanceof HTMLInputElement) &&
+    !(el instanceof HTMLSelectElement) &&
+    !(el instanceof HTMLTextAreaElement) &&
+    !el.isContentEditable
+  ) {
+    const group = el.querySelectorAll<HTMLInputElement>(
+      'input[type="radio"], input[type="checkbox"]',
+    );
+    if (group.length > 0) return Array.from(group);
+  }
+  if (el instanceof HTMLInputElement && el.type === "radio" && el.name) {
+    return Array.from(
+      document.querySelectorAll<HTMLInputElement>(
+        `input[type="radio"][name="${cssEscape(el.name)}"]`,
+      ),
+    );
+  }
+  if (el) return el;
+  if (mapping.name) {
+    const named = Array.from(
+      document.querySelectorAll<HTMLInputElement>(
+        `[name="${cssEscape(mapping.name)}"]`,
+      ),
+    );
+    if (named.length === 1) return named[0];
+    if (named.length > 1) return named;
+  }
+  return null;
+}
+
+/**
+ * Re-reads one filled field and compares it to what was intended.
+ * Comparison is type-aware: phone numbers by digits, numbers by value,
+ * dates by calendar day, selects and groups by option match.
+ */
+export function verifyFilledField(mapping: FieldMapping): FieldVerification {
+  const expected = expectedText(mapping.selectedValue);
+  const base = {
+    fieldId: mapping.id || mapping.fieldId,
+    label: mapping.label,
+    expected,
+    // Worth showing only when the scan-time id no longer worked
+    locatedBy:
+      mapping.locatedBy && mapping.locatedBy !== "id"
+        ? mapping.locatedBy
+        : undefined,
+  };
+
+  const target = resolveTarget(mapping);
+  if (!target) {
+    // Matrix cells and div-based selects are located by heuristics at
+    // fill time; without a stable element there is nothing to re-read.
+    return { ...base, status: "unverified" };
+  }
+
+  if (Array.isArray(target)) {
+    const result = verifyGroup(target, expected);
+    const error = target.map(findValidationMessage).find(Boolean);
+    return error
+      ? { ...base, ...result, status: "invalid", message: error }
+      : { ...base, ...result };
+  }
+
+  const el = target;
+  let result: Pick<FieldVerification, "status" | "message" | "actual">;
+
+  const datePart = splitDatePartMatches(el, expected);
+
+  if (datePart !== null) {
+    // One select / box of a split date shows only its own part
+    const actual =
+      el instanceof HTMLSelectElement
+        ? el.selectedOptions[0]?.text.trim() || ""
+        : (el as HTMLInputElement).value;
+    result = datePart
+      ? { status: "ok", actual }
+      : { status: "mismatch", actual, message: "A different date is selected." };
+  } else if (el instanceof HTMLInputElement && el.type === "file") {
+    const names = Array.from(el.files || []).map((f) => f.name);
+    result =
+      names.length > 0
+        ? { status: "ok", actual: names.join(", ") }
+        : { status: "empty", message: "No file is attached." };
+  } else if (el instanceof HTMLInputElement && el.type === "checkbox") {
+    const wantOff = ["false", "no", "n", "0", "unchecked", "off", "disagree", "decline"].includes(
+      expected.toLowerCase().trim(),
+    );
+    result =
+      el.checked !== wantOff
+        ? { status: "ok", actual: el.checked ? "checked" : "unchecked" }
+        : {
+            status: "mismatch",
+            actual: el.checked ? "checked" : "unchecked",
+            message: "The checkbox was toggled back.",
+          };
+  } else if (el instanceof HTMLSelectElement) {
+    const chosen = Array.from(el.selectedOptions).filter((o) => o.value !== "");
+    const actual = chosen.map((o) => textOf(o) || o.value).join(", ");
+    const wanted = expected.toLowerCase().trim();
+    if (chosen.length === 0) {
+      result = { status: "empty", actual, message: "No option is selected." };
+    } else if (
+      chosen.some((o) =>
+        optionMatchesValue(
+          [textOf(o).toLowerCase(), o.value.toLowerCase()].filter(Boolean),
+          wanted,
+        ),
+      )
+    ) {
+      result = { status: "ok", actual };
+    } else {
+      result = { status: "mismatch", actual, message: "A different option is selected." };
+    }
+  } else if (
+    el instanceof HTMLInputElement ||
+    el instanceof HTMLTextAreaElement
+  ) {
+    const actual =
+      el instanceof HTMLInputElement && isTypeahead(el)
+        ? typeaheadShownValue(el)
+        : el.value;
+    result = { actual, ...compareText(el, mapping, expected, actual) };
+  } else {
+    const actual = textOf(el);
+    if (!actual) {
+      result = { status: "empty", message: "The value was cleared after filling." };
+    } else {
+      result = alnum(actual).includes(alnum(expected).slice(0, 40))
+        ? { status: "ok", actual }
+        : { status: "unverified", actual };
+    }
+  }
+
+  const error = findValidationMessage(el);
+  if (error) return { ...base, ...result, status: "invalid", message: error };
+  return { ...base, ...result };
+}
+
+/**
+ * Verifies every mapping that was reported as filled.
+ */
+export function verifyFilledFields(
+  mappings: FieldMapping[],
+): FieldVerification[] {
+  return mappings
+    .filter((m) => m.action !== "click_add" && m.selectedValue !== undefined)
+    .map(verifyFilledField);
+}
+
+/**
+ * Entries for mappings that were not filled because their element is
+ * gone: neither the id nor any locator step finds it. Typically a SPA
+ * re-rendered the form between scan and fill. Fields without a locator
+ * (matrix cells, groups) are left out — they are found by other means.
+ */
+export function reportMissingFields(
+  unfilled: FieldMapping[],
+): FieldVerification[] {
+  return unfilled
+    .filter(
+      (m) =>
+        m.action !== "click_add" &&
+        m.selectedValue !== undefined &&
+        (m.locator?.length ?? 0) > 0 &&
+        !locateField(m),
+    )
+    .map((m): FieldVerification => ({
+      fieldId: m.id || m.fieldId,
+      label: m.label,
+      status: "missing",
+      expected: expectedText(m.selectedValue),
+      message: "Not found on the page — it may have re-rendered since the scan.",
+    }));
+}
+
+/**
+ * Entries that need the user's attention (everything except ok / unverified).
+ */
+export function verificationProblems(
+  report: FieldVerification[],
+): FieldVerification[] {
+  return report.filter(
+    (v) =>
+      v.status === "mismatch" ||
+      v.status === "empty" ||
+      v.status === "invalid" ||
+      v.status === "missing",
+  );
+}
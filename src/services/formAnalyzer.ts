@@ -1,9 +1,5 @@
 import type { FormField, FieldMapping } from "../types";
-import {
-  findElementByIdOrSelector,
-  activateTabForField,
-  find2DMatrixInput,
-} from "./form/domUtils";
+import { activateTabForField, find2DMatrixInput } from "./form/domUtils";
 import {
   cleanLabelText,
   findLabel,
@@ -24,7 +20,17 @@ import {
   fillCustomSelect,
   fillRadio,
 } from "./form/fieldFillers";
-import { parseDateString, formatDateForDisplay } from "./form/dateUtils";
+import {
+  parseDateString,
+  parseDateValue,
+  formatDateForDisplay,
+} from "./form/dateUtils";
+import {
+  fillDateWidget,
+  fillSplitDate,
+  findSplitDateParts,
+  isDatePickerInput,
+} from "./form/datePicker";
 import { triggerEvents, humanTypeValue } from "./form/events";
 import {
   fuzzyMatch,
@@ -32,7 +38,14 @@ import {
   parseValueTokens,
   optionMatchesValue,
 } from "./form/matchers";
+import {
+  fillCombobox,
+  findTypeaheadInput,
+  isTypeahead,
+} from "./form/combobox";
+import { fillAtsField } from "./ats";
 import { fillChatInputField, submitChatField } from "./form/chat";
+import { locateField } from "./form/locator";
 
 // Re-export all submodules so existing imports throughout the codebase remain 100% compatible
 export * from "./form";
@@ -59,7 +72,11 @@ export async function fillFormField(
     return false;
   }
 
-  let input = findElementByIdOrSelector(fieldIdentifier.id || "");
+  // ATS widgets the generic fillers can't drive (e.g. Workday split dates)
+  const atsResult = fillAtsField(fieldIdentifier, value);
+  if (atsResult !== null) return atsResult;
+
+  let input = locateField(fieldIdentifier)?.element ?? null;
   let inputs: NodeListOf<Element> | null = null;
 
   // Tab panel activation: if the field is inside a hidden tabpanel, click its tab first
@@ -68,7 +85,15 @@ export async function fillFormField(
   }
 
   if (fieldIdentifier.id) {
-    input = findElementByIdOrSelector(fieldIdentifier.id);
+    // Look again: activating a tab may have re-rendered the panel
+    const located = locateField(fieldIdentifier);
+    input = located?.element ?? null;
+    fieldIdentifier.locatedBy = located?.strategy;
+    if (located && located.strategy !== "id") {
+      console.log(
+        `Aullevo: "${fieldIdentifier.label || fieldIdentifier.id}" was re-rendered — found it by ${located.strategy}`,
+      );
+    }
 
     // If the id resolves to a container div (not an input),
     // check if it wraps radio/checkbox inputs and handle as a group
@@ -278,6 +303,11 @@ export async function fillFormField(
   }
 
   if (input) {
+    // Day / month / year selects or boxes: set every part from one date
+    const dateValue = typeof value === "string" ? parseDateValue(value) : null;
+    const splitDate = dateValue ? findSplitDateParts(input) : null;
+    if (dateValue && splitDate) return fillSplitDate(splitDate, dateValue);
+
     if (input instanceof HTMLSelectElement) {
       fillSelect(input, value as string);
       return select_was_filled(input);
@@ -374,8 +404,13 @@ export async function fillFormField(
           );
           return false;
         }
+      } else if (isTypeahead(input)) {
+        // City / school / company pickers: type, wait for suggestions, pick one
+        return fillCombobox(input, String(value));
       } else if (
         input.type === "date" ||
+        input.type === "month" ||
+        isDatePickerInput(input) ||
         fieldIdentifier.fieldType === "dateOfBirth" ||
         input.id.toLowerCase().includes("date") ||
         input.id.toLowerCase().includes("dob") ||
@@ -385,6 +420,9 @@ export async function fillFormField(
         findLabel(input).toLowerCase().includes("dob")
       ) {
         const valStr = String(value);
+        // Calendar popups, month inputs and declared formats ("DD/MM/YYYY")
+        if (dateValue && (await fillDateWidget(input, dateValue))) return true;
+
         const isoDate = parseDateString(valStr);
         if (isoDate) {
           let setVal = isoDate;
@@ -493,6 +531,11 @@ export async function fillFormField(
         }, 300);
       }
     } else {
+      // Searchable selects get the typeahead driver, which waits for the list
+      const typeahead = findTypeaheadInput(input);
+      if (typeahead) {
+        return fillCombobox(typeahead, String(value), { allowFreeText: false });
+      }
       return fillCustomSelect(fieldIdentifier.id || "", String(value));
     }
     return true;
@@ -0,0 +1,220 @@
+/**
+ * Date helpers shared by the profile interchange formats.
+ */
+
+import type { Education, Experience, YearMonth } from "../../types";
+import { findDateRange, parseDateToken, type ParsedDate } from "../resume/dateRanges";
+
+const MONTH_NAMES = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+/** "2020-03-15" / "2020-03" / "2020" → ParsedDate. */
+export function parseISODate(value: string | undefined): ParsedDate {
+  const match = (value || "").trim().match(/^(\d{4})(?:-(\d{1,2}))?/);
+  if (!match) return {};
+  return {
+    year: parseInt(match[1], 10),
+    month: match[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+/** ParsedDate → "2020-03" or "2020" (ISO 8601 partial date), or "". */
+export function toISODate(date: ParsedDate): string {
+  if (!date.year) return "";
+  return date.month
+    ? `${date.year}-${String(date.month).padStart(2, "0")}`
+    : String(date.year);
+}
+
+/** ParsedDate → "Mar 2020" or "2020", or "". */
+export function formatDate(date: ParsedDate): string {
+  if (!date.year) return "";
+  return date.month ? `${MONTH_NAMES[date.month - 1]} ${date.year}` : String(date.year);
+}
+
+/**
+ * Builds the human-readable duration stored on Experience entries,
+ * e.g. "Mar 2020 - Present".
+ */
+export function formatDuration(
+  start: ParsedDate,
+  end: ParsedDate,
+  isCurrent = false,
+): string {
+  const from = formatDate(start);
+  const to = isCurrent ? "Present" : formatDate(end);
+  if (from && to) return `${from} - ${to}`;
+  return from || to;
+}
+
+/**
+ * Splits a free-text duration ("Jan 2020 – Present", "2019") into start and
+ * end dates. A lone date is treated as the start.
+ */
+export function splitDuration(duration: string): {
+  start: ParsedDate;
+  end: ParsedDate;
+  isCurrent: boolean;
+} {
+  const range = findDateRange(duration || "");
+  if (range) return { start: range.start, end: range.end, isCurrent: range.isCurrent };
+  return { start: parseDateToken(duration || ""), end: {}, isCurrent: false };
+}
+
+/** Structured dates of an Experience / Education entry. */
+export interface StructuredDates {
+  start?: YearMonth;
+  end?: YearMonth;
+  isCurrent: boolean;
+  lengthMonths?: number; // A bare length ("3 yrs 2 mos") with no date to count from
+}
+
+const LENGTH_YEARS_RE = /(\d+(?:\.\d+)?)\s*(?:yrs?|years?)\b/i;
+const LENGTH_MONTHS_RE = /(\d+)\s*(?:mos?|months?)\b/i;
+const CURRENT_WORDING_RE = /\b(?:present|current(?:ly)?|ongoing|to date)\b/i;
+// LinkedIn-style separators: "Jan 2020 · 3 yrs 2 mos", "2020 (2 yrs)"
+const PART_SEPARATOR_RE = /\s*[·•,;()|]\s*/;
+
+/** ParsedDate → YearMonth, or undefined without a year. */
+export const toYearMonth = (date: ParsedDate): YearMonth | undefined =>
+  date.year ? { year: date.year, ...(date.month ? { month: date.month } : {}) } : undefined;
+
+/** Shifts a date by whole months; year-only dates move by rounded years. */
+export function addMonths(date: YearMonth, months: number): YearMonth {
+  if (!date.month) return { year: date.year + Math.round(months / 12) };
+  const total = date.year * 12 + (date.month - 1) + months;
+  return { year: Math.floor(total / 12), month: (total % 12) + 1 };
+}
+
+/** "3 yrs 2 mos" → 38, "1.5 years" → 18, "6 months" → 6; null without a length. */
+export function parseDurationLength(text: string): number | null {
+  const years = text.match(LENGTH_YEARS_RE);
+  const months = text.match(LENGTH_MONTHS_RE);
+  if (!years && !months) return null;
+  return Math.round(
+    (years ? parseFloat(years[1]) * 12 : 0) + (months ? parseInt(months[1], 10) : 0),
+  );
+}
+
+/**
+ * Parses a free-text duration into structured dates. Understands ranges
+ * ("Jan 2020 – Present", "2019-2021"), single dates and lengths
+ * ("3 yrs 2 mos"); a length fills in whichever end the dates leave open,
+ * counting back from today for a current role. A lone date is the start
+ * of a job but the end of a degree — pass `loneDate: "end"` for education.
+ * A bare length with nothing to count from gives no dates; it comes back
+ * as `lengthMonths` so a known end date can anchor it later (entryDates()).
+ */
+export function parseDuration(
+  text: string,
+  opts: { loneDate?: "start" | "end"; today?: Date } = {},
+): StructuredDates {
+  const value = (text || "").trim();
+  let start: YearMonth | undefined;
+  let end: YearMonth | undefined;
+  let isCurrent: boolean;
+
+  const range = findDateRange(value);
+  if (range) {
+    start = toYearMonth(range.start);
+    end = toYearMonth(range.end);
+    isCurrent = range.isCurrent;
+  } else {
+    isCurrent = CURRENT_WORDING_RE.test(value);
+    const lone = value
+      .split(PART_SEPARATOR_RE)
+      .map((part) => toYearMonth(parseDateToken(part)) ?? toYearMonth(parseISODate(part)))
+      .find((date) => date !== undefined);
+    if (lone && (isCurrent || opts.loneDate !== "end")) start = lone;
+    else if (lone) end = lone;
+  }
+
+  const months = parseDurationLength(value);
+  if (months !== null) {
+    if (isCurrent && !start) {
+      const today = opts.today ?? new Date();
+      start = addMonths({ year: today.getFullYear(), month: today.getMonth() + 1 }, -months);
+    } else if (start && !end && !isCurrent) {
+      end = addMonths(start, months);
+    } else if (end && !start) {
+      start = addMonths(end, -months);
+    } else if (!start && !end) {
+      return { isCurrent, lengthMonths: months };
+    }
+  }
+
+  return { start, end, isCurrent };
+}
+
+/** Whether a stored date says the same as a parsed one, perhaps with a month added. */
+function sameDate(parsed: YearMonth | undefined, stored: YearMonth | undefined): boolean {
+  if (!parsed || !stored) return !parsed && !stored;
+  return parsed.year === stored.year && (!parsed.month || parsed.month === stored.month);
+}
+
+/**
+ * The structured dates of an experience / education entry. Its free text
+ * (duration / year) wins whenever it holds a date, since the sidebar,
+ * resume parsing and the AI all write the text; the stored start / end /
+ * isCurrent only stand in when it doesn't, or when they say the same
+ * with more precision ("2016 - 2020" stored as Sep 2016 / May 2020). A
+ * text that is only a length ("3 yrs 2 mos") counts back from the stored
+ * end date, or from today for a current entry.
+ */
+export function entryDates(
+  entry: Experience | Education,
+  opts: { today?: Date } = {},
+): StructuredDates {
+  const parsed =
+    "duration" in entry
+      ? parseDuration(entry.duration, opts)
+      : parseDuration(entry.year, { ...opts, loneDate: "end" });
+  const stored: StructuredDates = {
+    start: entry.start,
+    end: entry.end,
+    isCurrent: !!entry.isCurrent,
+  };
+  if (parsed.start || parsed.end || parsed.isCurrent) {
+    const agrees =
+      sameDate(parsed.start, stored.start) &&
+      sameDate(parsed.end, stored.end) &&
+      parsed.isCurrent === stored.isCurrent;
+    return agrees ? stored : parsed;
+  }
+
+  const months = parsed.lengthMonths;
+  if (months === undefined || stored.start) return stored;
+  if (stored.end) return { ...stored, start: addMonths(stored.end, -months) };
+  if (stored.isCurrent) {
+    const today = opts.today ?? new Date();
+    return {
+      ...stored,
+      start: addMonths({ year: today.getFullYear(), month: today.getMonth() + 1 }, -months),
+    };
+  }
+  return { ...stored, lengthMonths: months };
+}
+
+/**
+ * The entry with its start / end / isCurrent / lengthMonths brought in
+ * line with entryDates(), so the structured dates follow whatever the
+ * free text was last changed to.
+ */
+export function withEntryDates<T extends Experience | Education>(
+  entry: T,
+  opts: { today?: Date } = {},
+): T {
+  const { start, end, isCurrent, lengthMonths } = entryDates(entry, opts);
+  const next: T = { ...entry, isCurrent };
+  delete next.start;
+  delete next.end;
+  delete next.lengthMonths;
+  return {
+    ...next,
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+    ...(lengthMonths !== undefined ? { lengthMonths } : {}),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Sniffs the format of an imported profile file so one "Import" button can
+ * accept Aullevo backups, JSON Resume documents and Europass XML.
+ */
+
+import type { UserData } from "../../types";
+import { isJSONResume, jsonResumeToUserData } from "./jsonResume";
+import { europassToUserData, isEuropassXML } from "./europass";
+
+export type ProfileDocumentFormat = "aullevo" | "jsonresume" | "europass";
+
+export function detectProfileFormat(text: string): ProfileDocumentFormat | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("<")) return isEuropassXML(trimmed) ? "europass" : null;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (parsed && typeof parsed.profiles === "object") return "aullevo";
+    if (isJSONResume(parsed)) return "jsonresume";
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+/**
+ * Converts a JSON Resume or Europass document into profile data.
+ * Aullevo backups are handled by storageService.importProfiles instead.
+ */
+export function parseProfileDocument(text: string): {
+  format: Exclude<ProfileDocumentFormat, "aullevo">;
+  data: Partial<UserData>;
+} {
+  const format = detectProfileFormat(text);
+  if (format === "jsonresume") {
+    return { format, data: jsonResumeToUserData(JSON.parse(text)) };
+  }
+  if (format === "europass") {
+    return { format, data: europassToUserData(text) };
+  }
+  throw new Error(
+    "Unrecognized file. Expected an Aullevo backup, a JSON Resume (.json) or a Europass CV (.xml).",
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * Europass CV XML import.
+ *
+ * Supports both the classic SkillsPassport schema (Europass v3, used by the
+ * old online editor) and the HR-XML based "Candidate" schema exported by
+ * the current Europass portal. Elements are matched by local name so the
+ * namespace prefix doesn't matter.
+ *
+ * Uses DOMParser, so this must run in a page context (options, popup or
+ * content script), not in the background service worker.
+ */
+
+import type { Education, Experience, UserData } from "../../types";
+import type { ParsedDate } from "../resume/dateRanges";
+import { formatDate, formatDuration, parseISODate } from "./dates";
+
+/* ── DOM helpers (namespace-agnostic) ── */
+
+function children(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+function child(el: Element | null | undefined, ...path: string[]): Element | null {
+  let current: Element | null = el ?? null;
+  for (const name of path) {
+    current = children(current, name)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function descendants(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.getElementsByTagNameNS("*", name));
+}
+
+const text = (el: Element | null | undefined) => (el?.textContent || "").replace(/\s+/g, " ").trim();
+
+/** Europass descriptions are often XHTML fragments; keep line breaks only. */
+function richText(el: Element | null | undefined): string {
+  if (!el) return "";
+  const doc = new DOMParser().parseFromString(`<div>${el.textContent || ""}</div>`, "text/html");
+  doc.querySelectorAll("li, p, br").forEach((n) => n.append("\n"));
+  return (doc.body.textContent || "")
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/* ── Classic SkillsPassport (v3) ── */
+
+function v3Date(el: Element | null): ParsedDate {
+  if (!el) return {};
+  const year = parseInt(el.getAttribute("year") || "", 10);
+  const month = parseInt((el.getAttribute("month") || "").replace(/-/g, ""), 10);
+  return {
+    year: Number.isFinite(year) ? year : undefined,
+    month: Number.isFinite(month) ? month : undefined,
+  };
+}
+
+function parseSkillsPassport(root: Element): Partial<UserData> {
+  const learner = child(root, "LearnerInfo");
+  const identification = child(learner, "Identification");
+  const contact = child(identification, "ContactInfo");
+  const address = child(contact, "Address", "Contact");
+
+  const websites = descendants(contact, "Website").map((w) => text(child(w, "Contact")));
+  const phones = descendants(contact, "Telephone").map((t) => text(child(t, "Contact")));
+
+  const experience: Experience[] = descendants(learner, "WorkExperience").map((w) => {
+    const period = child(w, "Period");
+    return {
+      company: text(child(w, "Employer", "Name")),
+      position: text(child(w, "Position", "Label")),
+      duration: formatDuration(
+        v3Date(child(period, "From")),
+        v3Date(child(period, "To")),
+        text(child(period, "Current")) === "true",
+      ),
+      description: richText(child(w, "Activities")),
+    };
+  });
+
+  const education: Education[] = descendants(learner, "Education").map((e) => ({
+    school: text(child(e, "Organisation", "Name")),
+    degree: text(child(e, "Title")),
+    year: formatDate({ year: v3Date(child(child(e, "Period"), "To")).year }),
+  }));
+
+  const skillsRoot = child(learner, "Skills");
+  const skills = ["Computer", "Other", "JobRelated", "Organisational", "Communication"]
+    .flatMap((kind) => richText(child(skillsRoot, kind, "Description")).split(/\n|,\s*/))
+    .map((s) => s.trim())
+    .filter((s) => s && s.length <= 60);
+
+  const gender = text(child(identification, "Demographics", "Gender", "Code"));
+  const birth = v3Date(child(identification, "Demographics", "Birthdate"));
+  const birthDay = child(identification, "Demographics", "Birthdate")?.getAttribute("day")?.replace(/-/g, "");
+
+  return {
+    firstName: text(child(identification, "PersonName", "FirstName")),
+    lastName: text(child(identification, "PersonName", "Surname")),
+    email: text(child(contact, "Email", "Contact")),
+    phone: phones.find(Boolean) || "",
+    address: text(child(address, "AddressLine")),
+    zipCode: text(child(address, "PostalCode")),
+    city: text(child(address, "Municipality")),
+    country: text(child(address, "Country", "Label")) || text(child(address, "Country", "Code")),
+    linkedin: websites.find((w) => /linkedin\.com/i.test(w)) || "",
+    github: websites.find((w) => /github\.com/i.test(w)) || "",
+    portfolio: websites.find((w) => !/linkedin\.com|github\.com/i.test(w)) || "",
+    headline: text(child(learner, "Headline", "Description", "Label")),
+    gender: gender === "M" ? "Male" : gender === "F" ? "Female" : "",
+    dateOfBirth:
+      birth.year && birth.month && birthDay
+        ? `${birth.year}-${String(birth.month).padStart(2, "0")}-${birthDay.padStart(2, "0")}`
+        : "",
+    skills: [...new Set(skills)],
+    experience,
+    education,
+  };
+}
+
+/* ── HR-XML "Candidate" (current Europass portal) ── */
+
+function candidateDate(el: Element | null): ParsedDate {
+  return parseISODate(text(child(el, "FormattedDateTime")) || text(el));
+}
+
+function parseCandidate(root: Element): Partial<UserData> {
+  const person = child(root, "CandidatePerson");
+  const profile = child(root, "CandidateProfile");
+  const channels = [
+    ...children(person, "Communication"),
+    ...children(child(root, "CandidateSupplier"), "Communication"),
+  ];
+  const channel = (code: string) =>
+    channels.filter((c) => text(child(c, "ChannelCode")).toLowerCase() === code);
+
+  const address = channels.map((c) => child(c, "Address")).find(Boolean) ?? null;
+  const webs = channel("web").map((c) => text(child(c, "URI")));
+  const phone = [...channel("telephone"), ...channel("mobiletelephone")]
+    .map((c) => [text(child(c, "CountryDialing")), text(child(c, "DialNumber"))].filter(Boolean).join(" "))
+    .find(Boolean);
+
+  const experience: Experience[] = descendants(profile, "EmployerHistory").flatMap((employer) => {
+    const company = text(child(employer, "OrganizationName"));
+    return children(employer, "PositionHistory").map((position) => {
+      const period = child(position, "EmploymentPeriod");
+      return {
+        company,
+        position: text(child(position, "PositionTitle")),
+        duration: formatDuration(
+          candidateDate(child(period, "StartDate")),
+          candidateDate(child(period, "EndDate")),
+          text(child(period, "CurrentIndicator")) === "true",
+        ),
+        description: richText(child(position, "Description")),
+      };
+    });
+  });
+
+  const education: Education[] = descendants(profile, "EducationOrganizationAttendance").map((e) => ({
+    school: text(child(e, "OrganizationName")),
+    degree: text(child(e, "EducationDegree", "DegreeName")),
+    year: formatDate({ year: candidateDate(child(child(e, "AttendancePeriod"), "EndDate")).year }),
+  }));
+
+  const skills = descendants(profile, "Competency")
+    .map((c) => text(child(c, "CompetencyName")))
+    .filter(Boolean);
+
+  return {
+    firstName: text(child(person, "PersonName", "GivenName")),
+    lastName: text(child(person, "PersonName", "FamilyName")),
+    email: channel("email").map((c) => text(child(c, "URI"))).find(Boolean) || "",
+    phone: phone || "",
+    address: text(child(address, "AddressLine")),
+    zipCode: text(child(address, "PostalCode")),
+    city: text(child(address, "CityName")),
+    country: text(child(address, "CountryCode")),
+    linkedin: webs.find((w) => /linkedin\.com/i.test(w)) || "",
+    github: webs.find((w) => /github\.com/i.test(w)) || "",
+    portfolio: webs.find((w) => !/linkedin\.com|github\.com/i.test(w)) || "",
+    dateOfBirth: text(child(person, "BirthDate")),
+    skills: [...new Set(skills)],
+    experience,
+    education,
+  };
+}
+
+/** True when the text looks like a Europass CV XML document. */
+export function isEuropassXML(xml: string): boolean {
+  return /<(?:\w+:)?(?:SkillsPassport|Candidate)\b/.test(xml);
+}
+
+/**
+ * Parses a Europass CV XML document into a partial profile. Empty values
+ * are dropped so the result can be spread over an empty profile.
+ */
+export function europassToUserData(xml: string): Partial<UserData> {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid Europass file: the XML could not be parsed.");
+  }
+
+  const root = doc.documentElement;
+  let data: Partial<UserData>;
+  if (root.localName === "SkillsPassport") data = parseSkillsPassport(root);
+  else if (root.localName === "Candidate") data = parseCandidate(root);
+  else throw new Error(`Unsupported Europass document: <${root.localName}>.`);
+
+  return Object.fromEntries(
+    Object.entries(data).filter(([, v]) => (Array.isArray(v) ? v.length > 0 : !!v)),
+  ) as Partial<UserData>;
+}
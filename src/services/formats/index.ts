@@ -0,0 +1,8 @@
+/**
+ * Profile Interchange Formats Barrel Export
+ */
+
+export * from "./dates";
+export * from "./jsonResume";
+export * from "./europass";
+export * from "./detect";
@@ -0,0 +1,265 @@
+/**
+ * Converters between Aullevo's UserData and the JSON Resume schema
+ * (https://jsonresume.org/schema). Only the sections that map cleanly are
+ * converted: basics, work, education and skills.
+ */
+
+import type { Education, Experience, UserData } from "../../types";
+import {
+  entryDates,
+  formatDuration,
+  parseISODate,
+  toISODate,
+  toYearMonth,
+} from "./dates";
+
+export const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+export interface JSONResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JSONResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JSONResumeWork {
+  name?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JSONResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JSONResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JSONResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JSONResumeLocation;
+    profiles?: JSONResumeProfile[];
+  };
+  work?: JSONResumeWork[];
+  education?: JSONResumeEducation[];
+  skills?: JSONResumeSkill[];
+  meta?: Record<string, unknown>;
+}
+
+/** True when the parsed JSON looks like a JSON Resume document. */
+export function isJSONResume(value: unknown): value is JSONResume {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const doc = value as Record<string, unknown>;
+  return (
+    typeof doc.basics === "object" ||
+    Array.isArray(doc.work) ||
+    (typeof doc.$schema === "string" && doc.$schema.includes("jsonresume"))
+  );
+}
+
+const str = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+/** Drops undefined, empty-string, empty-array and empty-object values. */
+const compact = <T extends object>(obj: T): T =>
+  Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => {
+      if (Array.isArray(v)) return v.length > 0;
+      if (v && typeof v === "object") return Object.keys(v).length > 0;
+      return v !== undefined && v !== "";
+    }),
+  ) as T;
+
+function usernameFromUrl(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/i, "").replace(/\/+$/, "");
+  return path.split("/").pop() || "";
+}
+
+/* ── UserData → JSON Resume ── */
+
+function workFromExperience(exp: Experience): JSONResumeWork {
+  const { start, end, isCurrent } = entryDates(exp);
+  return compact({
+    name: exp.company,
+    position: exp.position,
+    startDate: toISODate(start ?? {}),
+    endDate: isCurrent ? undefined : toISODate(end ?? {}),
+    summary: exp.description,
+  });
+}
+
+function educationFromEntry(edu: Education): JSONResumeEducation {
+  const { start, end, isCurrent } = entryDates(edu);
+  // "B.S. in Computer Science" → studyType "B.S.", area "Computer Science"
+  const [studyType, ...area] = (edu.degree || "").split(/\s+in\s+/i);
+  return compact({
+    institution: edu.school,
+    studyType: studyType.trim(),
+    area: area.join(" in ").trim(),
+    startDate: toISODate(start ?? {}),
+    endDate: isCurrent ? undefined : toISODate(end ?? {}),
+  });
+}
+
+export function userDataToJSONResume(data: Partial<UserData>): JSONResume {
+  const name =
+    str(data.fullName) ||
+    [data.firstName, data.middleName, data.lastName].map(str).filter(Boolean).join(" ");
+  const country = str(data.country);
+
+  const profiles: JSONResumeProfile[] = [];
+  if (str(data.linkedin)) {
+    profiles.push({ network: "LinkedIn", username: usernameFromUrl(data.linkedin!), url: data.linkedin });
+  }
+  if (str(data.github)) {
+    profiles.push({ network: "GitHub", username: usernameFromUrl(data.github!), url: data.github });
+  }
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: compact({
+      name,
+      label: str(data.headline),
+      email: str(data.email),
+      phone: str(data.phone),
+      url: str(data.portfolio),
+      summary: str(data.summary),
+      location: compact<JSONResumeLocation>({
+        address: str(data.address),
+        postalCode: str(data.zipCode),
+        city: str(data.city),
+        region: str(data.state),
+        countryCode: country,
+      }),
+      profiles,
+    }),
+    work: (data.experience || []).map(workFromExperience),
+    education: (data.education || []).map(educationFromEntry),
+    skills: (data.skills || []).filter(Boolean).map((skill) => ({ name: skill })),
+    meta: { lastModified: new Date().toISOString() },
+  };
+}
+
+/* ── JSON Resume → UserData ── */
+
+/**
+ * Structured dates of a work / education item. JSON Resume leaves endDate
+ * out for an ongoing one.
+ */
+function itemDates(item: { startDate?: string; endDate?: string }): {
+  start?: Experience["start"];
+  end?: Experience["end"];
+  isCurrent: boolean;
+} {
+  const start = toYearMonth(parseISODate(item.startDate));
+  const end = toYearMonth(parseISODate(item.endDate));
+  return {
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+    isCurrent: !!start && !end,
+  };
+}
+
+function experienceFromWork(work: JSONResumeWork): Experience {
+  const highlights = (work.highlights || []).map(str).filter(Boolean);
+  const dates = itemDates(work);
+  return {
+    company: str(work.name),
+    position: str(work.position),
+    duration: formatDuration(dates.start ?? {}, dates.end ?? {}, dates.isCurrent),
+    description: [str(work.summary), ...highlights].filter(Boolean).join("\n"),
+    ...dates,
+  };
+}
+
+function educationFromJSONResume(edu: JSONResumeEducation): Education {
+  const studyType = str(edu.studyType);
+  const area = str(edu.area);
+  const dates = itemDates(edu);
+  return {
+    school: str(edu.institution),
+    degree: studyType && area ? `${studyType} in ${area}` : studyType || area,
+    // Years only, as degrees are usually written; the months stay in start / end
+    year: formatDuration(
+      { year: dates.start?.year },
+      { year: dates.end?.year },
+      dates.isCurrent,
+    ),
+    ...dates,
+  };
+}
+
+/**
+ * Converts a JSON Resume document into a partial profile. Only keys with
+ * values are set, so the result can be spread over an empty profile.
+ */
+export function jsonResumeToUserData(doc: JSONResume): Partial<UserData> {
+  const basics = doc.basics || {};
+  const location = basics.location || {};
+  const profiles = basics.profiles || [];
+  const profileUrl = (network: RegExp, base: string) => {
+    const profile = profiles.find(
+      (p) => network.test(str(p.network)) || network.test(str(p.url)),
+    );
+    if (!profile) return "";
+    return str(profile.url) || (str(profile.username) ? base + str(profile.username) : "");
+  };
+
+  const nameParts = str(basics.name).split(/\s+/).filter(Boolean);
+
+  // Skill entries are either single skills or categories with keywords
+  const skills = (doc.skills || []).flatMap((s) => {
+    const keywords = (s.keywords || []).map(str).filter(Boolean);
+    return keywords.length > 0 ? keywords : [str(s.name)];
+  });
+
+  return compact<Partial<UserData>>({
+    fullName: str(basics.name),
+    firstName: nameParts[0] || "",
+    middleName: nameParts.length > 2 ? nameParts.slice(1, -1).join(" ") : "",
+    lastName: nameParts.length > 1 ? nameParts[nameParts.length - 1] : "",
+    headline: str(basics.label),
+    email: str(basics.email),
+    phone: str(basics.phone),
+    portfolio: str(basics.url),
+    summary: str(basics.summary),
+    address: str(location.address),
+    zipCode: str(location.postalCode),
+    city: str(location.city),
+    state: str(location.region),
+    country: str(location.countryCode),
+    linkedin: profileUrl(/linkedin/i, "https://www.linkedin.com/in/"),
+    github: profileUrl(/github/i, "https://github.com/"),
+    skills: [...new Set(skills.filter(Boolean))],
+    experience: (doc.work || []).map(experienceFromWork),
+    education: (doc.education || []).map(educationFromJSONResume),
+  });
+}
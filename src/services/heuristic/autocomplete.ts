@@ -0,0 +1,123 @@
+/**
+ * HTML autocomplete attribute → profile field.
+ *
+ * Parses the WHATWG autofill detail tokens
+ *   [section-*] [shipping|billing] [home|work|mobile|fax|pager] field-name [webauthn]
+ * and maps the field name to a UserData key. A well-built form states
+ * exactly what it wants here, so this runs before every label regex.
+ */
+
+export type AutofillContact = "home" | "work" | "mobile" | "fax" | "pager";
+
+export interface AutocompleteHint {
+  token: string; // Autofill field name, e.g. "postal-code"
+  fieldType: string | null; // null: recognised, but nothing in the profile fills it
+  groupType?: "experience";
+  groupIndex?: number;
+  section?: string; // "section-*" token, groups fields of one logical form
+  addressType?: "shipping" | "billing";
+  contact?: AutofillContact;
+}
+
+// Autofill field names with a profile value. Derived keys (phoneNational,
+// dateOfBirthDay/Month/Year) are computed by fieldResolver.
+export const AUTOFILL_FIELD_TYPES: Record<string, string | null> = {
+  name: "fullName",
+  "given-name": "firstName",
+  "additional-name": "middleName",
+  "family-name": "lastName",
+  nickname: "firstName",
+  email: "email",
+  tel: "phone",
+  "tel-country-code": "phoneCountryCode",
+  "tel-national": "phoneNational",
+  "street-address": "address",
+  "address-line1": "address",
+  "address-level1": "state",
+  "address-level2": "city",
+  country: "country",
+  "country-name": "country",
+  "postal-code": "zipCode",
+  bday: "dateOfBirth",
+  "bday-day": "dateOfBirthDay",
+  "bday-month": "dateOfBirthMonth",
+  "bday-year": "dateOfBirthYear",
+  sex: "gender",
+  url: "portfolio",
+
+  // Parts the profile does not store separately — leave them empty rather
+  // than let a label regex put the whole address or phone number in them
+  "honorific-prefix": null,
+  "honorific-suffix": null,
+  "address-line2": null,
+  "address-line3": null,
+  "address-level3": null,
+  "address-level4": null,
+  "tel-area-code": null,
+  "tel-local": null,
+  "tel-local-prefix": null,
+  "tel-local-suffix": null,
+  "tel-extension": null,
+  impp: null,
+  language: null,
+  photo: null,
+
+  // Never filled from a profile
+  "current-password": null,
+  "new-password": null,
+  "one-time-code": null,
+  "transaction-currency": null,
+  "transaction-amount": null,
+};
+
+// The current job: experience[0]
+const CURRENT_ROLE_FIELDS: Record<string, string> = {
+  organization: "company",
+  "organization-title": "position",
+};
+
+const CONTACT_TOKENS = new Set(["home", "work", "mobile", "fax", "pager"]);
+
+/**
+ * Parses an autocomplete attribute. Returns null when it carries no
+ * field name ("on", "off", empty, unknown tokens) so the label rules
+ * decide instead.
+ */
+export function parseAutocomplete(
+  value: string | undefined,
+): AutocompleteHint | null {
+  const tokens = (value || "").trim().toLowerCase().split(/\s+/);
+  if (tokens[tokens.length - 1] === "webauthn") tokens.pop();
+  const token = tokens.pop();
+  if (!token) return null;
+
+  const hint: AutocompleteHint = { token, fieldType: null };
+  if (CONTACT_TOKENS.has(tokens[tokens.length - 1])) {
+    hint.contact = tokens.pop() as AutofillContact;
+  }
+  const address = tokens[tokens.length - 1];
+  if (address === "shipping" || address === "billing") {
+    hint.addressType = address;
+    tokens.pop();
+  }
+  if (tokens[0]?.startsWith("section-")) hint.section = tokens.shift();
+  if (tokens.length > 0) return null; // Not valid autofill grammar
+
+  if (Object.hasOwn(CURRENT_ROLE_FIELDS, token)) {
+    hint.fieldType = CURRENT_ROLE_FIELDS[token];
+    hint.groupType = "experience";
+    hint.groupIndex = 0;
+  } else if (token.startsWith("cc-")) {
+    hint.fieldType = null;
+  } else if (Object.hasOwn(AUTOFILL_FIELD_TYPES, token)) {
+    hint.fieldType = AUTOFILL_FIELD_TYPES[token];
+  } else {
+    return null;
+  }
+
+  // A fax or pager number is not the candidate's phone
+  if (hint.contact === "fax" || hint.contact === "pager") {
+    hint.fieldType = null;
+  }
+  return hint;
+}
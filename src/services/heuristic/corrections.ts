@@ -0,0 +1,14 @@
+/**
+ * Field types the user taught Aullevo by correcting a fill
+ * (see correctionService). Keyed by labelKey(), so "First name *" on one
+ * site and "first name" on another are the same question.
+ */
+export type LearnedFieldTypes = Record<string, string>;
+
+/** Normalised label — the key corrections are learned under. */
+export function labelKey(label: string | undefined): string {
+  return (label || "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
@@ -6,3 +6,6 @@ export * from "./rules";
 export * from "./idUtils";
 export * from "./customFieldMatcher";
 export * from "./memoryMatcher";
+export * from "./autocomplete";
+export * from "./scoring";
+export * from "./corrections";
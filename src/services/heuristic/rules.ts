@@ -13,51 +13,219 @@ export const DYNAMIC_ID_PATTERNS = [
   /^[a-f0-9-]{20,}$/i, // Long UUID or hash
 ] as const;
 
-// Standard field matching rules
-export const STANDARD_RULES: Record<string, RegExp> = {
-  firstName: /\b(first|given)\s*name\b/i,
-  middleName: /\b(middle|second)\s*name\b|\bmiddle\s*initial\b|\bmiddle\b/i,
-  lastName: /\b(last|family|surname)\s*name\b|\b(last|surname)\b/i,
-  fullName:
-    /\b(full|complete)\s*name\b|\byour\s*name\b(?!\s*(first|last|given|sur|middle))/i,
-  email: /e?-?mail/i,
-  phoneCountryCode: /country\s*code|dial\s*code/i,
-  phone: /\b(phone|mobile|cell|phone\s*no|telephone)\b/i,
-  address:
-    /(?<!e-?mail\s*)(?<!email\s*)\b(street|location|residential\s*address|home\s*address|postal\s*address|current\s*address|address\s*line|physical\s*address)\b|(?<!e-?mail\s*)(?<!e-?mail_)(?<!email\s*)address(?!.*e-?mail)/i,
-  city: /\bcity\b/i,
-  state: /\b(state|province)\b/i,
-  zipCode: /zip|postal/i,
-  country: /\b(country(?!.*code)|nationality)\b/i,
-  linkedin: /linkedin/i,
-  portfolio: /portfolio|website|personal\s*site/i,
-  github: /github/i,
-  headline: /headline/i,
-  dateOfBirth: /birth|dob|bday|生日|出生日期|date\s*of\s*birth/i,
-  gender: /gender|sex|性别/i,
-  salaryExpectation:
-    /(expected|desired)\s*(salary|pay|compensation)|期望薪水/i,
-  noticePeriod:
-    /\b(notice\s*period|date\s*of\s*availability|start\s*date|earliest\s*start|available\s*date|available\s*from)\b|到岗/i,
-  workAuthorization:
-    /work\s*authorization|visa|sponsorship|eligible\s*to\s*work|签证|工作/i,
-  yearsOfExperience:
-    /\b(years\s*of\s*experience|total\s*experience|work\s*experience\s*years)\b|\b经验\b/i,
-  resumeUpload: /resume|cv|upload|简历/i,
-  emergencyContactName: /emergency\s*contact\s*name/i,
-  emergencyContactRelationship: /emergency\s*contact\s*relationship/i,
-  emergencyContactPhone: /emergency\s*contact\s*(phone|number|cell)/i,
-  bloodType: /blood\s*(type|group)/i,
-  allergies: /allergies|allergy/i,
-  medicalConditions: /medical\s*(conditions|history|illness)/i,
-  medications: /medications|medicine|drugs/i,
-  insuranceProvider: /insurance\s*(provider|carrier|company)/i,
-  policyNumber: /policy\s*(number|no|id)/i,
-  occupation:
-    /\b(occupation|job\s*title|profession|position\s*applied\s*for)\b|\bposition\b(?!\s*in\s*table)/i,
-  industry: /industry|sector/i,
-  educationLevel: /education\s*level|highest\s*degree|education/i,
-  maritalStatus: /marital\s*status|relationship\s*status|married/i,
+/**
+ * Where a piece of evidence was found. Each signal has its own weight
+ * (SIGNAL_WEIGHTS): what the user reads beats what the developer named.
+ */
+export type MatchSignal =
+  | "label"
+  | "ariaLabel"
+  | "placeholder"
+  | "name"
+  | "id"
+  | "section"
+  | "type"
+  | "autocomplete";
+
+export const SIGNAL_WEIGHTS: Record<MatchSignal, number> = {
+  label: 3,
+  ariaLabel: 3,
+  placeholder: 2,
+  name: 1.5,
+  id: 1,
+  section: 0.5,
+  type: 2,
+  autocomplete: 20, // The form's own declaration — outweighs everything else
+};
+
+/** Evidence against a field type, e.g. "Email Address" is not an address. */
+export interface NegativeRule {
+  pattern: RegExp;
+  reason: string; // Completes "… <reason>", e.g. "mentions e-mail"
+  weight?: number; // Fraction of the signal weight subtracted (default 1)
+}
+
+/** Evidence for one field type, checked against every text signal. */
+export interface ScoringRule {
+  fieldType: string;
+  pattern: RegExp;
+  not?: NegativeRule[];
+}
+
+const MENTIONS_EMAIL: NegativeRule = {
+  pattern: /e-?mail/i,
+  reason: "mentions e-mail",
+};
+const MENTIONS_EMERGENCY: NegativeRule = {
+  pattern: /emergency|next\s*of\s*kin/i,
+  reason: "is about an emergency contact",
+};
+
+// Standard field rules. Ties go to the earlier rule.
+export const SCORING_RULES: ScoringRule[] = [
+  {
+    fieldType: "firstName",
+    pattern: /\b(first|given|fore)\s*name\b|\bfname\b/i,
+    not: [MENTIONS_EMERGENCY],
+  },
+  {
+    fieldType: "middleName",
+    pattern: /\b(middle|second)\s*name\b|\bmiddle\s*initial\b|\bmiddle\b/i,
+  },
+  {
+    fieldType: "lastName",
+    pattern: /\b(last|family|sur)\s*name\b|\bsurname\b|\blname\b|\blast\b/i,
+    not: [MENTIONS_EMERGENCY],
+  },
+  {
+    fieldType: "fullName",
+    pattern: /\b(full|complete|legal|your)\s*name\b|^\s*name\s*\*?\s*$/i,
+    not: [
+      {
+        pattern: /\b(first|last|given|family|middle|sur)\s*name\b/i,
+        reason: "asks for part of the name",
+      },
+      MENTIONS_EMERGENCY,
+      {
+        pattern: /company|employer|school|university|reference/i,
+        reason: "names an organisation or another person",
+      },
+    ],
+  },
+  { fieldType: "email", pattern: /e-?mail/i },
+  {
+    fieldType: "phoneCountryCode",
+    pattern: /country\s*code|dial(l?ing)?\s*code/i,
+  },
+  {
+    fieldType: "phone",
+    pattern: /\b(phone|mobile|cell|telephone|tel)\b|phone\s*no/i,
+    not: [
+      {
+        pattern: /country\s*code|dial(l?ing)?\s*code/i,
+        reason: "asks for the dialling code only",
+      },
+      MENTIONS_EMERGENCY,
+    ],
+  },
+  {
+    fieldType: "address",
+    pattern: /\baddress\b|\bstreet\b|\blocation\b/i,
+    not: [
+      MENTIONS_EMAIL,
+      {
+        pattern: /web(site)?\s*address|\burl\b|\bip\b/i,
+        reason: "is a web address",
+      },
+      {
+        pattern: /line\s*2|\bapt\b|apartment|suite|\bunit\b/i,
+        reason: "asks for the second address line",
+      },
+    ],
+  },
+  { fieldType: "city", pattern: /\bcity\b|\btown\b/i },
+  { fieldType: "state", pattern: /\b(state|province|region)\b/i },
+  {
+    fieldType: "zipCode",
+    pattern: /\bzip\b|zip\s*code|postal|post\s*code/i,
+    not: [{ pattern: /postal\s*address/i, reason: "is a postal address" }],
+  },
+  {
+    fieldType: "country",
+    pattern: /\bcountry\b|\bnationality\b/i,
+    not: [{ pattern: /\bcode\b/i, reason: "asks for a code" }],
+  },
+  { fieldType: "linkedin", pattern: /linkedin/i },
+  {
+    fieldType: "portfolio",
+    pattern: /portfolio|website|personal\s*site|\burl\b/i,
+    not: [
+      {
+        pattern: /linkedin|github|company\s*website/i,
+        reason: "names another site",
+      },
+    ],
+  },
+  { fieldType: "github", pattern: /github/i },
+  { fieldType: "headline", pattern: /headline/i },
+  {
+    fieldType: "dateOfBirth",
+    pattern: /birth|\bdob\b|\bbday\b|生日|出生日期/i,
+    not: [
+      {
+        pattern: /place\s*of\s*birth|country\s*of\s*birth|birth\s*(place|country|city)/i,
+        reason: "asks where, not when",
+      },
+    ],
+  },
+  { fieldType: "gender", pattern: /gender|\bsex\b|性别/i },
+  {
+    fieldType: "salaryExpectation",
+    pattern:
+      /(expected|desired)\s*(salary|pay|compensation)|salary\s*expectations?|期望薪水/i,
+  },
+  {
+    fieldType: "noticePeriod",
+    pattern:
+      /\b(notice\s*period|date\s*of\s*availability|start\s*date|earliest\s*start|available\s*date|available\s*from)\b|到岗/i,
+  },
+  {
+    fieldType: "workAuthorization",
+    pattern:
+      /work\s*authori[sz]ation|visa|sponsorship|eligible\s*to\s*work|签证|工作/i,
+  },
+  {
+    fieldType: "yearsOfExperience",
+    pattern:
+      /\b(years\s*of\s*experience|total\s*experience|work\s*experience\s*years)\b|\b经验\b/i,
+  },
+  { fieldType: "resumeUpload", pattern: /resume|\bcv\b|upload|简历/i },
+  {
+    fieldType: "emergencyContactName",
+    pattern: /emergency\s*contact\s*name/i,
+  },
+  {
+    fieldType: "emergencyContactRelationship",
+    pattern: /emergency\s*contact\s*relationship/i,
+  },
+  {
+    fieldType: "emergencyContactPhone",
+    pattern: /emergency\s*contact\s*(phone|number|cell)/i,
+  },
+  { fieldType: "bloodType", pattern: /blood\s*(type|group)/i },
+  { fieldType: "allergies", pattern: /allergies|allergy/i },
+  {
+    fieldType: "medicalConditions",
+    pattern: /medical\s*(conditions|history|illness)/i,
+  },
+  { fieldType: "medications", pattern: /medications|medicine|drugs/i },
+  {
+    fieldType: "insuranceProvider",
+    pattern: /insurance\s*(provider|carrier|company)/i,
+  },
+  { fieldType: "policyNumber", pattern: /policy\s*(number|no|id)/i },
+  {
+    fieldType: "occupation",
+    pattern:
+      /\b(occupation|job\s*title|profession|position\s*applied\s*for)\b|\bposition\b(?!\s*in\s*table)/i,
+  },
+  { fieldType: "industry", pattern: /industry|sector/i },
+  {
+    fieldType: "educationLevel",
+    pattern: /education\s*level|highest\s*degree|education/i,
+  },
+  {
+    fieldType: "maritalStatus",
+    pattern: /marital\s*status|relationship\s*status|married/i,
+  },
+];
+
+// Input types that say what they hold, whatever the label
+export const INPUT_TYPE_FIELDS: Record<string, string> = {
+  email: "email",
+  tel: "phone",
+  url: "portfolio",
+  file: "resumeUpload",
 };
 
 /**
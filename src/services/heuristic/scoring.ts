@@ -0,0 +1,144 @@
+import type { FormField, MatchCandidate } from "../../types";
+import { isDynamicId } from "./idUtils";
+import { parseAutocomplete } from "./autocomplete";
+import {
+  INPUT_TYPE_FIELDS,
+  SCORING_RULES,
+  SIGNAL_WEIGHTS,
+  type MatchSignal,
+} from "./rules";
+
+/**
+ * Scores every standard field type against all of a field's signals
+ * instead of taking the first regex hit. Each rule adds the weight of
+ * every signal it matches and loses it again for every negative rule
+ * that matches, so "Email Address" ends up as email without special
+ * cases. The ranking keeps its evidence for the "why?" view.
+ */
+
+// A lone section heading is not enough to fill a field
+export const MIN_MATCH_SCORE = 1;
+
+// Candidates kept on a mapping for the explanation
+export const MAX_CANDIDATES = 3;
+
+const SIGNAL_NAMES: Record<MatchSignal, string> = {
+  label: "label",
+  ariaLabel: "aria-label",
+  placeholder: "placeholder",
+  name: "name",
+  id: "id",
+  section: "section",
+  type: "input type",
+  autocomplete: "autocomplete",
+};
+
+/** "first_name", "applicant.firstName" → "first name" */
+const humanize = (value: string) =>
+  value
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_\-.:[\]]+/g, " ")
+    .trim();
+
+const quote = (text: string) =>
+  `"${text.length > 40 ? `${text.slice(0, 39)}…` : text}"`;
+
+const points = (weight: number) =>
+  `(${weight > 0 ? "+" : "-"}${Math.abs(weight)})`;
+
+function textSignals(field: FormField): [MatchSignal, string][] {
+  const signals: [MatchSignal, string][] = [
+    ["label", field.label],
+    ["ariaLabel", field.ariaLabel !== field.label ? field.ariaLabel : ""],
+    ["placeholder", field.placeholder],
+    [
+      "name",
+      field.name && !isDynamicId(field.name) ? humanize(field.name) : "",
+    ],
+    ["id", field.id && !isDynamicId(field.id) ? humanize(field.id) : ""],
+    ["section", field.section || field.context || ""],
+  ];
+  return signals.filter(([, text]) => !!text?.trim());
+}
+
+/**
+ * All field types with any evidence for them, best first. Candidates
+ * whose negatives outweigh their evidence stay in the list (with a
+ * score ≤ 0) so the explanation can show why they lost.
+ */
+export function rankFieldTypes(field: FormField): MatchCandidate[] {
+  const byType = new Map<string, MatchCandidate>();
+  const add = (fieldType: string, weight: number, reason: string) => {
+    const candidate = byType.get(fieldType) ?? {
+      fieldType,
+      score: 0,
+      reasons: [],
+    };
+    candidate.score += weight;
+    candidate.reasons.push(`${reason} ${points(weight)}`);
+    byType.set(fieldType, candidate);
+  };
+
+  const signals = textSignals(field);
+  for (const rule of SCORING_RULES) {
+    const hits = signals.filter(([, text]) => rule.pattern.test(text));
+    if (hits.length === 0) continue;
+    for (const [signal, text] of hits) {
+      add(
+        rule.fieldType,
+        SIGNAL_WEIGHTS[signal],
+        `${SIGNAL_NAMES[signal]} ${quote(text)}`,
+      );
+    }
+    for (const negative of rule.not ?? []) {
+      for (const [signal, text] of signals) {
+        if (!negative.pattern.test(text)) continue;
+        add(
+          rule.fieldType,
+          -SIGNAL_WEIGHTS[signal] * (negative.weight ?? 1),
+          `${SIGNAL_NAMES[signal]} ${negative.reason}`,
+        );
+      }
+    }
+  }
+
+  const typeHint = INPUT_TYPE_FIELDS[field.type];
+  if (typeHint) {
+    add(typeHint, SIGNAL_WEIGHTS.type, `input type ${quote(field.type)}`);
+  }
+
+  const autofill = parseAutocomplete(field.autocomplete);
+  if (autofill?.fieldType) {
+    add(
+      autofill.fieldType,
+      SIGNAL_WEIGHTS.autocomplete,
+      `autocomplete ${quote(field.autocomplete.trim())}`,
+    );
+  }
+
+  // Stable sort: ties keep rule order
+  return [...byType.values()].sort((a, b) => b.score - a.score);
+}
+
+/** The winning candidate, or null when nothing scored high enough. */
+export function pickCandidate(ranked: MatchCandidate[]): MatchCandidate | null {
+  const best = ranked[0];
+  return best && best.score >= MIN_MATCH_SCORE ? best : null;
+}
+
+/**
+ * Confidence from the winning score, lowered when the runner-up is
+ * within a point — a close call is worth a look in the preview.
+ */
+export function candidateConfidence(ranked: MatchCandidate[]): number {
+  const [best, next] = ranked;
+  if (!best) return 0;
+  const close = !!next && next.score > 0 && best.score - next.score < 1;
+  const confidence = Math.min(0.95, 0.6 + best.score * 0.05);
+  return Math.round((close ? confidence - 0.15 : confidence) * 100) / 100;
+}
+
+/** One-line summary of why `best` won, for FieldMapping.reasoning. */
+export function explainCandidate(best: MatchCandidate): string {
+  return `${best.fieldType}: ${best.reasons.join(", ")}`;
+}
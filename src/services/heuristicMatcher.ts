@@ -1,8 +1,17 @@
 import type { FormField, CustomField, FieldMapping, UserData } from "../types";
-import { STANDARD_RULES, EDUCATION_RULES } from "./heuristic/rules";
+import { EDUCATION_RULES } from "./heuristic/rules";
 import { isDynamicId } from "./heuristic/idUtils";
 import { matchCustomField } from "./heuristic/customFieldMatcher";
 import { matchMemory, matchSavedLink } from "./heuristic/memoryMatcher";
+import { parseAutocomplete } from "./heuristic/autocomplete";
+import { labelKey, type LearnedFieldTypes } from "./heuristic/corrections";
+import {
+  MAX_CANDIDATES,
+  candidateConfidence,
+  explainCandidate,
+  pickCandidate,
+  rankFieldTypes,
+} from "./heuristic/scoring";
 
 // Re-export all submodules so consumers can access rule sets and utilities directly if needed
 export * from "./heuristic";
@@ -11,7 +20,11 @@ export * from "./heuristic";
  * Heuristically classifies and maps form fields to user data, custom fields, memories, and saved links.
  * Priority order:
  *  1. Add buttons (click_add)
- *  2. Standard field rules (firstName, lastName, email, phone, ...)
+ *  1.5 HTML autocomplete tokens — the form's own declaration, never overridden
+ *  1.6 Labels the user corrected before (`learned`, see correctionService)
+ *  2. Standard fields, scored over label / aria-label / placeholder / name /
+ *     id / section / input type (see heuristic/scoring) — the ranked
+ *     candidates and their evidence travel on the mapping
  *  3. Education sub-field rules
  *  4. Custom fields — for non-standard labels only
  *  5. Memory / Link matching
@@ -21,6 +34,7 @@ export function matchFieldsHeuristically(
   fields: FormField[],
   customFields: CustomField[] = [],
   userData: Partial<UserData> = {},
+  learned: LearnedFieldTypes = {},
 ): FieldMapping[] {
   const mappings: FieldMapping[] = [];
 
@@ -68,6 +82,47 @@ export function matchFieldsHeuristically(
       continue;
     }
 
+    // ── Priority 1.5: autocomplete attribute ──
+    // "given-name", "postal-code", "bday-month"... name the profile field
+    // outright. Recognised tokens with no profile value (address-line2,
+    // passwords, cc-*) leave the field unmapped instead of falling through.
+    const ranked = rankFieldTypes(field);
+    const autofill = parseAutocomplete(field.autocomplete);
+    if (autofill) {
+      if (autofill.fieldType) {
+        mappings.push({
+          fieldId: field.id,
+          id: field.id,
+          name: field.name || undefined,
+          fieldType: autofill.fieldType,
+          confidence: 0.95,
+          reasoning: `autocomplete="${field.autocomplete.trim()}"`,
+          candidates: ranked.slice(0, MAX_CANDIDATES),
+          groupType: autofill.groupType,
+          groupIndex: autofill.groupIndex,
+        });
+      }
+      continue;
+    }
+
+    // ── Priority 1.6: Learned from the user's corrections ──
+    const learnedType = learned[labelKey(field.compoundLabel || field.label)];
+    if (learnedType) {
+      mappings.push({
+        fieldId: field.id,
+        id: field.id,
+        name: field.name || undefined,
+        rowHeader: field.rowHeader || undefined,
+        colHeader: field.colHeader || undefined,
+        compoundLabel: field.compoundLabel || undefined,
+        fieldType: learnedType,
+        confidence: 0.9,
+        reasoning: `you corrected "${field.compoundLabel || field.label}" to ${learnedType} before`,
+        candidates: ranked.slice(0, MAX_CANDIDATES),
+      });
+      continue;
+    }
+
     // Ignore dynamic/auto-generated IDs to prevent them from causing bad matches
     const idToUse = field.id && !isDynamicId(field.id) ? field.id : "";
     const nameToUse = field.name && !isDynamicId(field.name) ? field.name : "";
@@ -85,13 +140,6 @@ export function matchFieldsHeuristically(
       .join(" ")
       .toLowerCase();
 
-    // directText: ONLY direct field signals — label, aria-label, placeholder
-    // This is the primary signal for standard rule matching
-    const directText = [field.label, field.ariaLabel, field.placeholder]
-      .filter(Boolean)
-      .join(" ")
-      .toLowerCase();
-
     // Group type detection (experience / education repeating sections)
     let groupType: "experience" | "education" | "project" | "skill" | undefined;
     let groupIndex = 0;
@@ -120,14 +168,7 @@ export function matchFieldsHeuristically(
 
     // ── Priority 2: Custom Question Text Areas & Chat Inputs ──
     if (field.type === "textarea" || field.type === "contenteditable") {
-      let matchedRule: string | null = null;
-      for (const [key, regex] of Object.entries(STANDARD_RULES)) {
-        if (regex.test(directText) || regex.test(compositeText)) {
-          matchedRule = key;
-          break;
-        }
-      }
-      if (!matchedRule) {
+      if (!pickCandidate(ranked)) {
         if (
           field.type === "contenteditable" ||
           compositeText.includes("why") ||
@@ -188,6 +229,7 @@ export function matchFieldsHeuristically(
           compoundLabel: field.compoundLabel || undefined,
           fieldType: `custom_field:${matchedCustom.label}`,
           confidence: 0.9,
+          reasoning: `matrix cell matches custom field "${matchedCustom.label}"`,
           groupType,
           groupIndex: groupType ? groupIndex : undefined,
         });
@@ -200,52 +242,10 @@ export function matchFieldsHeuristically(
     }
 
     // ── Priority 3: Standard field matching ──
-    // Prefer directText (label/aria/placeholder) first to avoid context pollution.
-    // This runs BEFORE broad custom field matching to ensure First Name, Last Name, Email,
-    // Phone etc. are always correctly identified by their actual label.
-    let bestMatch: keyof typeof STANDARD_RULES | null = null;
-
-    if (directText) {
-      for (const [key, regex] of Object.entries(STANDARD_RULES)) {
-        if (regex.test(directText)) {
-          bestMatch = key as keyof typeof STANDARD_RULES;
-          break;
-        }
-      }
-    }
-
-    // Fallback: try compositeText if directText didn't match AND directText is empty
-    if (!bestMatch && !directText) {
-      for (const [key, regex] of Object.entries(STANDARD_RULES)) {
-        if (regex.test(compositeText)) {
-          if (bestMatch === "phone" && key === "phoneCountryCode") {
-            bestMatch = key;
-          } else if (bestMatch === "phoneCountryCode" && key === "phone") {
-            // skip — country code match already found
-          } else if (bestMatch === "email" && key === "address") {
-            // keep email — do not let "Email Address" get matched to address
-          } else if (
-            key === "address" &&
-            (compositeText.includes("email") ||
-              compositeText.includes("e-mail"))
-          ) {
-            if (
-              !compositeText.includes("street") &&
-              !compositeText.includes("home address") &&
-              !compositeText.includes("current address") &&
-              !compositeText.includes("postal")
-            ) {
-              continue;
-            }
-            bestMatch = key;
-          } else {
-            bestMatch = key as keyof typeof STANDARD_RULES;
-          }
-        }
-      }
-    }
-
-    if (bestMatch) {
+    // Runs BEFORE broad custom field matching so First Name, Last Name,
+    // Email, Phone etc. are always identified by their own signals.
+    const best = pickCandidate(ranked);
+    if (best) {
       mappings.push({
         fieldId: field.id,
         id: field.id,
@@ -253,8 +253,10 @@ export function matchFieldsHeuristically(
         rowHeader: field.rowHeader || undefined,
         colHeader: field.colHeader || undefined,
         compoundLabel: field.compoundLabel || undefined,
-        fieldType: bestMatch,
-        confidence: 0.9,
+        fieldType: best.fieldType,
+        confidence: candidateConfidence(ranked),
+        reasoning: explainCandidate(best),
+        candidates: ranked.slice(0, MAX_CANDIDATES),
         groupType,
         groupIndex: groupType ? groupIndex : undefined,
       });
@@ -277,6 +279,7 @@ export function matchFieldsHeuristically(
           id: field.id,
           fieldType: eduFieldType,
           confidence: 0.9,
+          reasoning: `education ${eduFieldType} rule`,
           groupType: "education",
           groupIndex: groupIndex,
         });
@@ -310,6 +313,7 @@ export function matchFieldsHeuristically(
         compoundLabel: field.compoundLabel || undefined,
         fieldType: `custom_field:${matchedCustom.label}`,
         confidence: 0.85,
+        reasoning: `matches custom field "${matchedCustom.label}"`,
         groupType,
         groupIndex: groupType ? groupIndex : undefined,
       });
@@ -328,6 +332,7 @@ export function matchFieldsHeuristically(
         compoundLabel: field.compoundLabel || undefined,
         fieldType: `memory:${matchedMemory.id}`,
         confidence: 0.85,
+        reasoning: `matches memory "${matchedMemory.title}"`,
         groupType,
         groupIndex: groupType ? groupIndex : undefined,
       });
@@ -345,6 +350,7 @@ export function matchFieldsHeuristically(
         compoundLabel: field.compoundLabel || undefined,
         fieldType: `link:${matchedLink.id}`,
         confidence: 0.85,
+        reasoning: `matches saved link "${matchedLink.title}"`,
         groupType,
         groupIndex: groupType ? groupIndex : undefined,
       });
@@ -357,8 +363,7 @@ export function matchFieldsHeuristically(
         field.type === "radio_group" ||
         field.type === "select" ||
         field.type === "custom_select" ||
-        field.type.includes("select")) &&
-      !bestMatch
+        field.type.includes("select"))
     ) {
       if (
         compositeText.includes("skill") ||
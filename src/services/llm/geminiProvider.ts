@@ -0,0 +1,242 @@
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import type { LLMGenerateOptions, LLMProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+interface TokenCount {
+  totalTokens: number;
+}
+
+interface GenerationConfig {
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+  responseMimeType: string;
+  responseJsonSchema?: Record<string, unknown>;
+}
+
+/** Message and HTTP status of whatever the SDK threw (an ApiError, an Error or a string). */
+function describeError(error: unknown): { message: string; status: number } {
+  if (typeof error === "string") return { message: error, status: 0 };
+  if (!error || typeof error !== "object") return { message: "", status: 0 };
+  const { message, status, code } = error as {
+    message?: unknown;
+    status?: unknown;
+    code?: unknown;
+  };
+  return {
+    message: typeof message === "string" ? message : "",
+    status:
+      typeof status === "number" && status
+        ? status
+        : typeof code === "number"
+          ? code
+          : 0,
+  };
+}
+
+/**
+ * LLMProvider backed by Google's Gemini API via @google/genai.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id = "gemini" as const;
+  readonly model: string;
+  private genAI: GoogleGenAI;
+  private generationConfig: GenerationConfig;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.model = model || DEFAULT_GEMINI_MODEL;
+    this.genAI = new GoogleGenAI({ apiKey: apiKey || "dummy_key" }); // Avoid crash on init if missing
+
+    // Default generation config
+    this.generationConfig = {
+      temperature: 0.7,
+      topP: 0.95,
+      topK: 40,
+      maxOutputTokens: 8192,
+      responseMimeType: "application/json",
+    };
+  }
+
+  /**
+   * Helper to count tokens
+   */
+  async countTokens(contents: string): Promise<TokenCount> {
+    try {
+      const result = await this.genAI.models.countTokens({
+        model: this.model,
+        contents: contents,
+      });
+      return result as TokenCount;
+    } catch (error) {
+      console.error("Token counting failed:", error);
+      return { totalTokens: 0 };
+    }
+  }
+
+  private formatGeminiError(error: unknown): Error {
+    const { message: rawMessage, status } = describeError(error);
+
+    // Check for leaked API key or PERMISSION_DENIED
+    if (
+      rawMessage.includes("leaked") ||
+      rawMessage.includes("PERMISSION_DENIED") ||
+      status === 403
+    ) {
+      return new Error(
+        "Your Gemini API key was reported as leaked by Google. Please create a new key at Google AI Studio (aistudio.google.com) and update your extension settings.",
+      );
+    }
+
+    // Check for invalid API key
+    if (
+      rawMessage.includes("API key not valid") ||
+      rawMessage.includes("API_KEY_INVALID")
+    ) {
+      return new Error(
+        "Invalid Gemini API Key. Please verify your API key in extension settings and ensure it is copied accurately from Google AI Studio (aistudio.google.com).",
+      );
+    }
+
+    // Try parsing embedded JSON error structure inside error.message
+    if (rawMessage.includes('{"error":')) {
+      try {
+        const jsonStart = rawMessage.indexOf("{");
+        const jsonStr = rawMessage.substring(jsonStart);
+        const parsed = JSON.parse(jsonStr) as {
+          error?: { message?: string };
+        };
+        if (parsed?.error?.message) {
+          const msg = parsed.error.message;
+          if (msg.includes("leaked")) {
+            return new Error(
+              "Your Gemini API key was reported as leaked by Google. Please create a new key at Google AI Studio (aistudio.google.com) and update your extension settings.",
+            );
+          }
+          if (
+            msg.includes("API key not valid") ||
+            msg.includes("API_KEY_INVALID")
+          ) {
+            return new Error(
+              "Invalid Gemini API Key. Please verify your API key in extension settings and ensure it is copied accurately from Google AI Studio (aistudio.google.com).",
+            );
+          }
+          return new Error(`Gemini API Error: ${msg}`);
+        }
+      } catch {
+        // Fallthrough if parsing fails
+      }
+    }
+
+    return new Error(rawMessage || "Gemini API request failed.");
+  }
+
+  /**
+   * Calls Gemini with exponential backoff and a hard timeout per attempt.
+   */
+  async generate(
+    prompt: string,
+    options: LLMGenerateOptions = {},
+  ): Promise<string> {
+    const mergedConfig: GenerationConfig = { ...this.generationConfig };
+    if (options.temperature !== undefined)
+      mergedConfig.temperature = options.temperature;
+    if (options.maxOutputTokens !== undefined)
+      mergedConfig.maxOutputTokens = options.maxOutputTokens;
+    if (options.responseFormat === "text")
+      mergedConfig.responseMimeType = "text/plain";
+    else if (options.responseSchema)
+      mergedConfig.responseJsonSchema = options.responseSchema;
+
+    const contents = prompt.trim();
+
+    if (!contents) {
+      throw new Error("No content provided to Gemini");
+    }
+
+    // Exponential backoff retry — up to 3 attempts
+    const MAX_RETRIES = 3;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        const generatePromise = this.genAI.models.generateContent({
+          model: this.model,
+          contents: contents,
+          config: mergedConfig,
+        });
+
+        const timeoutPromise = new Promise<never>((_, reject) =>
+          setTimeout(
+            () =>
+              reject(
+                new Error("Gemini API request timed out after 25 seconds."),
+              ),
+            25000,
+          ),
+        );
+
+        const result: GenerateContentResponse = await Promise.race([
+          generatePromise,
+          timeoutPromise,
+        ]);
+
+        if (!result?.candidates?.[0]?.content) {
+          throw new Error(`Empty/invalid response from Gemini`);
+        }
+
+        const responseText: string =
+          result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+        if (!responseText) throw new Error("No text in Gemini response");
+
+        const usage = result.usageMetadata;
+        console.log(
+          `✅ Gemini OK (${this.model}, attempt ${attempt}) | tokens: ${usage?.totalTokenCount ?? "?"}`,
+        );
+
+        return responseText;
+      } catch (error) {
+        lastError = error;
+        const { message: rawMessage, status } = describeError(error);
+
+        // Non-retryable errors: leaked key / 403 / permission denied / content blocked
+        if (
+          rawMessage.includes("leaked") ||
+          rawMessage.includes("PERMISSION_DENIED") ||
+          status === 403
+        ) {
+          throw this.formatGeminiError(error);
+        }
+        if (rawMessage.includes("blocked") || rawMessage.includes("HARM")) {
+          throw new Error("Content was blocked by safety filters.");
+        }
+        if (status === 400) {
+          throw new Error(`Bad request to Gemini: ${rawMessage}`);
+        }
+
+        // Retryable: 429 rate limit, 5xx server errors, or timeout
+        if (
+          attempt < MAX_RETRIES &&
+          (status === 429 || status >= 500 || rawMessage.includes("timed out"))
+        ) {
+          const delay = Math.pow(2, attempt) * 1000; // 2s, 4s
+          console.warn(
+            `⏳ Gemini attempt ${attempt} failed (${rawMessage || status}), retrying in ${delay}ms...`,
+          );
+          await new Promise((r) => setTimeout(r, delay));
+          continue;
+        }
+
+        // Raise friendly error after all retries
+        if (status === 429)
+          throw new Error("Rate limit exceeded. Please try again later.");
+        if (status >= 500)
+          throw new Error("Gemini server error. Please try again.");
+        throw this.formatGeminiError(error);
+      }
+    }
+
+    throw this.formatGeminiError(lastError);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * LLM Provider Layer Barrel Export
+ */
+
+export * from "./types";
+export * from "./geminiProvider";
+export * from "./openAICompatibleProvider";
+export * from "./settings";
+export * from "./schemas";
+export * from "./validation";
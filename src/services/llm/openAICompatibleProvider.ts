@@ -0,0 +1,144 @@
+import type { LLMGenerateOptions, LLMProvider } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+  usage?: { total_tokens?: number };
+}
+
+type HTTPError = Error & { status?: number };
+
+/** Local models on CPU are slow — allow far longer than the Gemini timeout. */
+const REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * LLMProvider that talks to any server implementing the OpenAI
+ * `/chat/completions` endpoint — Ollama, llama.cpp `server`, LM Studio, vLLM,
+ * or a stub server in tests. Candidate data never leaves the configured host.
+ *
+ * Plain JSON mode is requested through the system prompt rather than
+ * `response_format: json_object`, because that forces a top-level object and
+ * several of our prompts expect a top-level array. When a response schema is
+ * supplied it is sent as `json_schema`, which Ollama and llama.cpp enforce
+ * with grammar-constrained decoding.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = "openai" as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, model: string, apiKey = "") {
+    this.baseUrl = (baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+    this.model = model || DEFAULT_OPENAI_MODEL;
+    this.apiKey = apiKey;
+  }
+
+  async generate(
+    prompt: string,
+    options: LLMGenerateOptions = {},
+  ): Promise<string> {
+    const contents = prompt.trim();
+    if (!contents) {
+      throw new Error("No content provided to the local model");
+    }
+
+    const wantsJSON = options.responseFormat !== "text";
+    const body = {
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: wantsJSON
+            ? "You are a precise assistant. Respond with valid JSON only — no markdown fences, no commentary."
+            : "You are a helpful assistant. Respond with plain text only.",
+        },
+        { role: "user", content: contents },
+      ],
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxOutputTokens ?? 8192,
+      stream: false,
+      ...(wantsJSON && options.responseSchema
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "response", schema: options.responseSchema },
+            },
+          }
+        : {}),
+    };
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    // One retry for transient failures (server still loading the model, 5xx)
+    const MAX_RETRIES = 2;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      try {
+        const res = await fetch(`${this.baseUrl}/chat/completions`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+
+        if (!res.ok) {
+          const detail = await res.text().catch(() => "");
+          const error: HTTPError = new Error(
+            `Local model request failed (${res.status}): ${detail.slice(0, 200) || res.statusText}`,
+          );
+          error.status = res.status;
+          throw error;
+        }
+
+        const data = (await res.json()) as ChatCompletionResponse;
+        const responseText: string =
+          data?.choices?.[0]?.message?.content || "";
+        if (!responseText) throw new Error("No text in local model response");
+
+        console.log(
+          `✅ Local LLM OK (${this.model}, attempt ${attempt}) | tokens: ${data?.usage?.total_tokens ?? "?"}`,
+        );
+        return responseText;
+      } catch (error) {
+        const err = error as HTTPError;
+        lastError =
+          err.name === "AbortError"
+            ? new Error(
+                `Local model request timed out after ${REQUEST_TIMEOUT_MS / 1000} seconds.`,
+              )
+            : err;
+        const status = err.status || 0;
+
+        // 4xx means the request itself is wrong (bad model name, auth) — don't retry
+        if (status >= 400 && status < 500) throw lastError;
+
+        if (attempt < MAX_RETRIES) {
+          console.warn(
+            `⏳ Local LLM attempt ${attempt} failed (${lastError.message}), retrying...`,
+          );
+          await new Promise((r) => setTimeout(r, 2000));
+          continue;
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    if (lastError instanceof TypeError) {
+      // fetch() network failure: server not running or CORS rejected the origin
+      throw new Error(
+        `Could not reach the local model at ${this.baseUrl}. Make sure the server is running and allows requests from the extension.`,
+      );
+    }
+    throw lastError ?? new Error("Local model request failed.");
+  }
+}
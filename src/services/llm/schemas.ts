@@ -0,0 +1,161 @@
+/**
+ * Response schemas for structured model output.
+ *
+ * These are plain JSON Schema objects: Gemini receives them as
+ * `responseJsonSchema`, OpenAI-compatible servers as a `json_schema`
+ * response_format. The same constants drive the runtime validators in
+ * ./validation.ts, so the model is told exactly what will be accepted.
+ */
+
+/**
+ * Every fieldType the form-mapping prompt may return, besides the
+ * prefixed `custom_field:LABEL` form and `custom_question`.
+ */
+export const FIELD_MAPPING_TYPES = [
+  "firstName",
+  "middleName",
+  "lastName",
+  "fullName",
+  "email",
+  "phone",
+  "phoneCountryCode",
+  "phoneNational",
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "country",
+  "linkedin",
+  "portfolio",
+  "github",
+  "headline",
+  "dateOfBirth",
+  "dateOfBirthDay",
+  "dateOfBirthMonth",
+  "dateOfBirthYear",
+  "gender",
+  "summary",
+  "salaryExpectation",
+  "noticePeriod",
+  "workAuthorization",
+  "yearsOfExperience",
+  "emergencyContactName",
+  "emergencyContactRelationship",
+  "emergencyContactPhone",
+  "bloodType",
+  "allergies",
+  "medicalConditions",
+  "medications",
+  "insuranceProvider",
+  "policyNumber",
+  "occupation",
+  "industry",
+  "educationLevel",
+  "maritalStatus",
+  "position",
+  "company",
+  "salary",
+  "startDate",
+  "endDate",
+  "isCurrent",
+  "employmentType",
+  "location",
+  "description",
+  "school",
+  "degree",
+  "year",
+  "skill",
+  "resumeUpload",
+  "toggle",
+  "range",
+  "custom_question",
+] as const;
+
+export const GROUP_TYPES = [
+  "experience",
+  "education",
+  "project",
+  "skill",
+] as const;
+
+export const MAPPING_ACTIONS = ["fill", "click_add"] as const;
+
+/** Upper bound for groupIndex — no real form repeats a section this often. */
+export const MAX_GROUP_INDEX = 20;
+
+export const FIELD_MAPPINGS_JSON_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      fieldType: { type: "string" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      selectedValue: {
+        anyOf: [
+          { type: "string" },
+          { type: "array", items: { type: "string" } },
+        ],
+      },
+      originalQuestion: { type: "string" },
+      groupType: { type: "string", enum: [...GROUP_TYPES] },
+      groupIndex: { type: "integer", minimum: 0, maximum: MAX_GROUP_INDEX },
+      action: { type: "string", enum: [...MAPPING_ACTIONS] },
+    },
+    required: ["id", "confidence"],
+  },
+} as const;
+
+/** String-valued UserData keys the resume parser is allowed to fill. */
+export const RESUME_STRING_KEYS = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "country",
+  "linkedin",
+  "portfolio",
+  "github",
+  "summary",
+] as const;
+
+export const EXPERIENCE_KEYS = [
+  "company",
+  "position",
+  "duration",
+  "description",
+] as const;
+
+export const EDUCATION_KEYS = ["school", "degree", "year"] as const;
+
+const stringProps = (keys: readonly string[]) =>
+  Object.fromEntries(keys.map((k) => [k, { type: "string" }]));
+
+export const RESUME_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    ...stringProps(RESUME_STRING_KEYS),
+    skills: { type: "array", items: { type: "string" } },
+    experience: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: stringProps(EXPERIENCE_KEYS),
+        required: [...EXPERIENCE_KEYS],
+      },
+    },
+    education: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: stringProps(EDUCATION_KEYS),
+        required: [...EDUCATION_KEYS],
+      },
+    },
+  },
+  required: [...RESUME_STRING_KEYS, "skills", "experience", "education"],
+} as const;
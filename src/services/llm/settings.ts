@@ -0,0 +1,69 @@
+import type { LLMProvider, LLMSettings } from "./types";
+import { GeminiProvider } from "./geminiProvider";
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  OpenAICompatibleProvider,
+} from "./openAICompatibleProvider";
+
+/** chrome.storage.local keys that make up the provider configuration. */
+export const LLM_SETTINGS_KEYS = [
+  "llmProvider",
+  "geminiApiKey",
+  "llmBaseUrl",
+  "llmApiKey",
+  "llmModel",
+  "geminiModel",
+] as const;
+
+/**
+ * Reads the provider configuration from storage, filling in defaults.
+ * Installs that predate the provider setting keep using Gemini.
+ */
+export async function loadLLMSettings(): Promise<LLMSettings> {
+  const stored = await chrome.storage.local.get([...LLM_SETTINGS_KEYS]);
+  const provider = stored.llmProvider === "openai" ? "openai" : "gemini";
+  const llmModel = ((stored.llmModel || "") as string).trim();
+  // Before models were stored per provider, llmModel belonged to whichever
+  // provider was selected when it was saved
+  const legacyGemini =
+    stored.geminiModel === undefined && provider === "gemini";
+  return {
+    provider,
+    geminiApiKey: ((stored.geminiApiKey || "") as string).trim(),
+    baseUrl: ((stored.llmBaseUrl || DEFAULT_OPENAI_BASE_URL) as string).trim(),
+    apiKey: ((stored.llmApiKey || "") as string).trim(),
+    geminiModel: legacyGemini
+      ? llmModel
+      : ((stored.geminiModel || "") as string).trim(),
+    model: legacyGemini ? "" : llmModel,
+  };
+}
+
+/**
+ * Returns a user-facing error when the settings cannot produce a working
+ * provider, or null when they can.
+ */
+export function getLLMConfigError(settings: LLMSettings): string | null {
+  if (settings.provider === "openai") {
+    return settings.baseUrl
+      ? null
+      : "No local model URL configured. Set the server URL in the extension settings.";
+  }
+  return settings.geminiApiKey
+    ? null
+    : "No API key found. Save your Gemini API key in the extension settings.";
+}
+
+/**
+ * Builds the provider instance described by the settings.
+ */
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  if (settings.provider === "openai") {
+    return new OpenAICompatibleProvider(
+      settings.baseUrl,
+      settings.model,
+      settings.apiKey,
+    );
+  }
+  return new GeminiProvider(settings.geminiApiKey, settings.geminiModel);
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared types for the pluggable LLM provider layer.
+ */
+
+export type LLMProviderId = "gemini" | "openai";
+
+/**
+ * Per-request options. Providers map these onto their own wire format and
+ * ignore anything they cannot express.
+ */
+export interface LLMGenerateOptions {
+  /** "json" asks the model for a bare JSON payload, "text" for prose. */
+  responseFormat?: "json" | "text";
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** JSON schema the response must conform to (see ./schemas). */
+  responseSchema?: Record<string, unknown>;
+}
+
+/**
+ * A text-generation backend. Every AI task (form mapping, Q&A, chat replies,
+ * resume parsing, cover letters) is expressed as a single prompt → text call
+ * so that providers only have to implement this one method.
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+}
+
+/**
+ * User-facing provider configuration as persisted in chrome.storage.local.
+ */
+export interface LLMSettings {
+  provider: LLMProviderId;
+  /** Gemini API key (legacy `geminiApiKey` storage key). */
+  geminiApiKey: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Optional bearer token for the OpenAI-compatible server. */
+  apiKey: string;
+  /** Gemini model override. Empty string means "use the provider default". */
+  geminiModel: string;
+  /** Model for the OpenAI-compatible server. Empty string means "use the provider default". */
+  model: string;
+}
+
+/**
+ * One problem found while validating structured model output. `index` is
+ * the position in the raw response, `id` the form field it referred to.
+ */
+export interface ValidationIssue {
+  index?: number;
+  id?: string;
+  field?: string;
+  action: "dropped" | "repaired";
+  message: string;
+}
+
+export interface ValidatedResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+}
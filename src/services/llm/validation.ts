@@ -0,0 +1,391 @@
+import type {
+  CustomField,
+  Education,
+  Experience,
+  FieldMapping,
+  FormField,
+  UserData,
+} from "../../types";
+import type { ValidatedResult, ValidationIssue } from "./types";
+import {
+  EDUCATION_KEYS,
+  EXPERIENCE_KEYS,
+  FIELD_MAPPING_TYPES,
+  GROUP_TYPES,
+  MAX_GROUP_INDEX,
+  RESUME_STRING_KEYS,
+} from "./schemas";
+
+/**
+ * Parses a model response as JSON.
+ *
+ * Strips markdown fences, then reads exactly one JSON value starting at the
+ * first bracket — trailing tokens after the balanced close bracket (a common
+ * failure with small local models) are ignored instead of breaking the parse.
+ */
+export function parseModelJSON(text: string): unknown {
+  let cleaned = text.trim();
+  if (cleaned.startsWith("```")) {
+    cleaned = cleaned
+      .replace(/^```(?:json)?\s*/i, "")
+      .replace(/\s*```$/i, "");
+  }
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to bracket scanning
+  }
+
+  const start = cleaned.search(/[{[]/);
+  if (start === -1) {
+    throw new Error("Model response did not contain any JSON.");
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < cleaned.length; i++) {
+    const ch = cleaned[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") depth++;
+    else if (ch === "}" || ch === "]") {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(cleaned.substring(start, i + 1));
+        } catch (err) {
+          throw new Error(
+            `Model returned malformed JSON: ${(err as Error).message}`,
+          );
+        }
+      }
+    }
+  }
+
+  throw new Error("Model returned truncated JSON (unbalanced brackets).");
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const KNOWN_FIELD_TYPES = new Map<string, string>(
+  FIELD_MAPPING_TYPES.map((t) => [t.toLowerCase(), t]),
+);
+
+const CUSTOM_FIELD_PREFIX = "custom_field:";
+
+/**
+ * Validates raw model output against the FieldMapping schema and the fields
+ * actually present on the page.
+ *
+ * Repairs what can be repaired unambiguously (fieldType casing, custom field
+ * label casing, ids given as the field's `name`, numeric strings, out-of-range
+ * confidence/groupIndex) and drops everything else. Every repair or drop is
+ * recorded as a ValidationIssue so callers can explain a degraded fill.
+ */
+export function validateFieldMappings(
+  raw: unknown,
+  formFields: FormField[],
+  customFields: CustomField[] = [],
+): ValidatedResult<FieldMapping[]> {
+  const issues: ValidationIssue[] = [];
+
+  // Some models wrap the array in an object, e.g. { "mappings": [...] }
+  let items: unknown = raw;
+  if (isRecord(items)) {
+    const wrapped = Object.values(items).find(Array.isArray);
+    if (wrapped) {
+      issues.push({ action: "repaired", message: "Unwrapped array from object" });
+      items = wrapped;
+    }
+  }
+  if (!Array.isArray(items)) {
+    throw new Error("Model response is not a JSON array of mappings.");
+  }
+
+  const fieldIds = new Set(formFields.map((f) => f.id));
+  const customLabels = new Map(
+    customFields.map((cf) => [cf.label.toLowerCase().trim(), cf.label]),
+  );
+  const byId = new Map<string, FieldMapping>();
+
+  items.forEach((item, index) => {
+    const drop = (message: string, id?: string) =>
+      issues.push({ index, id, action: "dropped", message });
+    const repair = (message: string, id?: string) =>
+      issues.push({ index, id, action: "repaired", message });
+
+    if (!isRecord(item)) return drop("Mapping is not an object");
+
+    // ── id ──
+    const rawId = item.id ?? item.fieldId;
+    if (typeof rawId !== "string" && typeof rawId !== "number") {
+      return drop("Missing id");
+    }
+    let id = String(rawId);
+    if (!fieldIds.has(id)) {
+      const byName = formFields.find((f) => f.name && f.name === id);
+      const byCase = formFields.find(
+        (f) => f.id.toLowerCase() === id.toLowerCase(),
+      );
+      const resolved = byName || byCase;
+      if (!resolved) return drop(`Unknown id "${id}"`, id);
+      repair(`Resolved id "${id}" to "${resolved.id}"`, resolved.id);
+      id = resolved.id;
+    }
+
+    // ── action ──
+    let action: FieldMapping["action"] = "fill";
+    if (item.action !== undefined && item.action !== "fill") {
+      if (item.action === "click_add") action = "click_add";
+      else repair(`Unknown action "${String(item.action)}" → "fill"`, id);
+    }
+
+    // ── groupType / groupIndex ──
+    let groupType: FieldMapping["groupType"];
+    if (item.groupType !== undefined && item.groupType !== null && item.groupType !== "") {
+      const gt = String(item.groupType).toLowerCase();
+      if ((GROUP_TYPES as readonly string[]).includes(gt)) {
+        groupType = gt as FieldMapping["groupType"];
+      } else {
+        repair(`Removed unknown groupType "${String(item.groupType)}"`, id);
+      }
+    }
+
+    let groupIndex: number | undefined;
+    if (item.groupIndex !== undefined && item.groupIndex !== null) {
+      const n = Number(item.groupIndex);
+      if (!Number.isFinite(n)) {
+        repair(`Non-numeric groupIndex "${String(item.groupIndex)}" → 0`, id);
+        groupIndex = 0;
+      } else {
+        groupIndex = Math.floor(n);
+        if (groupIndex < 0 || groupIndex > MAX_GROUP_INDEX) {
+          const clamped = Math.min(Math.max(groupIndex, 0), MAX_GROUP_INDEX);
+          repair(`groupIndex ${groupIndex} clamped to ${clamped}`, id);
+          groupIndex = clamped;
+        }
+      }
+      if (!groupType) groupIndex = undefined;
+    }
+
+    if (action === "click_add") {
+      if (!groupType) return drop("click_add without a valid groupType", id);
+      const mapping: FieldMapping = {
+        fieldId: id,
+        id,
+        fieldType: "",
+        action,
+        groupType,
+        confidence: 0.9,
+      };
+      byId.set(`${id}::click_add`, mapping);
+      return;
+    }
+
+    // ── fieldType ──
+    if (typeof item.fieldType !== "string" || !item.fieldType.trim()) {
+      return drop("Missing fieldType", id);
+    }
+    let fieldType = item.fieldType.trim();
+    if (fieldType.toLowerCase().startsWith(CUSTOM_FIELD_PREFIX)) {
+      const label = fieldType.slice(CUSTOM_FIELD_PREFIX.length).trim();
+      const exact = customLabels.get(label.toLowerCase());
+      if (!exact) return drop(`Unknown custom field "${label}"`, id);
+      if (exact !== label) repair(`Custom field label "${label}" → "${exact}"`, id);
+      fieldType = `${CUSTOM_FIELD_PREFIX}${exact}`;
+    } else {
+      const known = KNOWN_FIELD_TYPES.get(fieldType.toLowerCase());
+      if (!known) return drop(`Unknown fieldType "${fieldType}"`, id);
+      if (known !== fieldType) repair(`fieldType "${fieldType}" → "${known}"`, id);
+      fieldType = known;
+    }
+
+    // ── confidence ──
+    let confidence = 1;
+    if (item.confidence !== undefined && item.confidence !== null) {
+      const c = Number(item.confidence);
+      if (!Number.isFinite(c)) {
+        repair(`Non-numeric confidence "${String(item.confidence)}" → 0.5`, id);
+        confidence = 0.5;
+      } else if (c > 1 && c <= 100) {
+        repair(`Percentage confidence ${c} → ${c / 100}`, id);
+        confidence = c / 100;
+      } else {
+        confidence = Math.min(Math.max(c, 0), 1);
+      }
+    }
+
+    const mapping: FieldMapping = { fieldId: id, id, fieldType, confidence, action };
+    if (groupType) {
+      mapping.groupType = groupType;
+      mapping.groupIndex = groupIndex ?? 0;
+    }
+
+    // ── selectedValue / originalQuestion ──
+    if (Array.isArray(item.selectedValue)) {
+      mapping.selectedValue = item.selectedValue.map(String);
+    } else if (
+      typeof item.selectedValue === "string" ||
+      typeof item.selectedValue === "number" ||
+      typeof item.selectedValue === "boolean"
+    ) {
+      mapping.selectedValue = String(item.selectedValue);
+    }
+    if (typeof item.originalQuestion === "string") {
+      mapping.originalQuestion = item.originalQuestion;
+    }
+
+    // ── duplicates: keep the most confident mapping per field ──
+    const existing = byId.get(id);
+    if (existing) {
+      if (existing.confidence >= confidence) {
+        return drop("Duplicate mapping for the same field", id);
+      }
+      issues.push({
+        id,
+        action: "dropped",
+        message: "Duplicate mapping for the same field (lower confidence)",
+      });
+    }
+    byId.set(id, mapping);
+  });
+
+  return { value: Array.from(byId.values()), issues };
+}
+
+const PLACEHOLDER_VALUE = /^[xX*]{3,}$/;
+
+function cleanString(value: unknown): string | null {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return PLACEHOLDER_VALUE.test(trimmed) ? "" : trimmed;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return null;
+}
+
+function validateEntries<K extends string>(
+  raw: unknown,
+  keys: readonly K[],
+  section: string,
+  issues: ValidationIssue[],
+): Record<K, string>[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    issues.push({ field: section, action: "dropped", message: `${section} is not an array` });
+    return [];
+  }
+
+  const entries: Record<K, string>[] = [];
+  raw.forEach((item, index) => {
+    if (!isRecord(item)) {
+      issues.push({ index, field: section, action: "dropped", message: "Entry is not an object" });
+      return;
+    }
+    const entry = {} as Record<K, string>;
+    for (const key of keys) {
+      const value = cleanString(item[key]);
+      if (value === null) {
+        issues.push({ index, field: `${section}.${key}`, action: "repaired", message: "Non-string value cleared" });
+      }
+      entry[key] = value ?? "";
+    }
+    if (keys.every((k) => !entry[k])) {
+      issues.push({ index, field: section, action: "dropped", message: "Empty entry" });
+      return;
+    }
+    entries.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * Validates raw model output against the resume schema, returning only the
+ * keys the parser is allowed to fill. Unknown keys are dropped, scalar
+ * values are coerced to strings, and a comma-separated `skills` string is
+ * split into an array.
+ */
+export function validateResumeData(
+  raw: unknown,
+): ValidatedResult<Partial<UserData>> {
+  if (!isRecord(raw)) {
+    throw new Error("Model response is not a JSON object.");
+  }
+
+  const issues: ValidationIssue[] = [];
+  const data: Partial<UserData> = {};
+  const allowed = new Set<string>([
+    ...RESUME_STRING_KEYS,
+    "skills",
+    "experience",
+    "education",
+  ]);
+
+  for (const key of Object.keys(raw)) {
+    if (!allowed.has(key)) {
+      issues.push({ field: key, action: "dropped", message: "Unknown key" });
+    }
+  }
+
+  for (const key of RESUME_STRING_KEYS) {
+    const value = cleanString(raw[key]);
+    if (value === null) {
+      issues.push({ field: key, action: "dropped", message: "Non-string value" });
+      continue;
+    }
+    data[key] = value;
+  }
+
+  if (typeof raw.skills === "string") {
+    issues.push({ field: "skills", action: "repaired", message: "Split comma-separated string" });
+    data.skills = raw.skills.split(/[,;\n]/).map((s) => s.trim()).filter(Boolean);
+  } else if (Array.isArray(raw.skills)) {
+    data.skills = raw.skills
+      .map((s) => cleanString(s))
+      .filter((s): s is string => !!s);
+  } else {
+    data.skills = [];
+  }
+
+  data.experience = validateEntries(
+    raw.experience,
+    EXPERIENCE_KEYS,
+    "experience",
+    issues,
+  ) as Experience[];
+  data.education = validateEntries(
+    raw.education,
+    EDUCATION_KEYS,
+    "education",
+    issues,
+  ) as Education[];
+
+  return { value: data, issues };
+}
+
+/**
+ * One-line human summary of validation issues for logs and status messages.
+ */
+export function summarizeIssues(issues: ValidationIssue[], limit = 3): string {
+  const dropped = issues.filter((i) => i.action === "dropped");
+  const repaired = issues.length - dropped.length;
+  const details = dropped
+    .slice(0, limit)
+    .map((i) => (i.id ? `${i.id}: ${i.message}` : i.message))
+    .join("; ");
+  const parts: string[] = [];
+  if (dropped.length) parts.push(`${dropped.length} dropped${details ? ` (${details}${dropped.length > limit ? "; …" : ""})` : ""}`);
+  if (repaired) parts.push(`${repaired} repaired`);
+  return parts.join(", ");
+}
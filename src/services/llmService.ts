@@ -1,224 +1,91 @@
-import { GoogleGenAI } from "@google/genai";
-import type { UserData, FormField, FieldMapping, CustomField } from "../types";
-
-interface TokenCount {
-  totalTokens: number;
-}
-
-interface GenerationConfig {
-  temperature: number;
-  topP: number;
-  topK: number;
-  maxOutputTokens: number;
-  responseMimeType: string;
-}
-
-class GeminiService {
-  private genAI: GoogleGenAI;
-  private apiKey: string;
-  private generationConfig: GenerationConfig;
+import type {
+  UserData,
+  FormField,
+  FieldMapping,
+  CustomField,
+  CoverLetterOptions,
+  CoverLetterTone,
+  CoverLetterLength,
+} from "../types";
+import {
+  createLLMProvider,
+  GeminiProvider,
+  FIELD_MAPPINGS_JSON_SCHEMA,
+  FIELD_MAPPING_TYPES,
+  RESUME_JSON_SCHEMA,
+  parseModelJSON,
+  summarizeIssues,
+  validateFieldMappings,
+  validateResumeData,
+  type LLMGenerateOptions,
+  type LLMProvider,
+  type LLMSettings,
+  type ValidatedResult,
+} from "./llm";
+import { mergeResumeData } from "./resumeExtractor";
+
+/**
+ * Task-level AI operations (resume parsing, form mapping, Q&A, chat replies,
+ * cover letters). Prompts live here; the actual model call is delegated to
+ * whichever LLMProvider is active, so every task works unchanged against
+ * Gemini or a local OpenAI-compatible server.
+ */
+class LLMService {
+  private provider: LLMProvider;
 
   constructor() {
-    this.apiKey = (import.meta as any).env?.VITE_GEMINI_API_KEY || "";
-    this.genAI = new GoogleGenAI({ apiKey: this.apiKey || "dummy_key" }); // Avoid crash on init if missing
-
-    // Default generation config
-    this.generationConfig = {
-      temperature: 0.7,
-      topP: 0.95,
-      topK: 40,
-      maxOutputTokens: 8192,
-      responseMimeType: "application/json",
-    };
+    const envKey = import.meta.env?.VITE_GEMINI_API_KEY || "";
+    this.provider = new GeminiProvider(envKey);
   }
 
-  setApiKey(key: string) {
-    this.apiKey = key;
-    this.genAI = new GoogleGenAI({ apiKey: this.apiKey });
-    console.log("Gemini API Key updated");
+  /**
+   * Switches to the provider described by the stored settings.
+   */
+  configure(settings: LLMSettings) {
+    this.provider = createLLMProvider(settings);
+    console.log(
+      `Aullevo: LLM provider set to ${this.provider.id} (${this.provider.model})`,
+    );
   }
 
   /**
-   * Helper to count tokens
+   * Swaps in an already-constructed provider (e.g. a stub in tests).
    */
-  async countTokens(
-    contents: string,
-    model: string = "gemini-3-flash-preview",
-  ): Promise<TokenCount> {
-    try {
-      const result = await this.genAI.models.countTokens({
-        model: model,
-        contents: contents,
-      });
-      return result as TokenCount;
-    } catch (error) {
-      console.error("Token counting failed:", error);
-      return { totalTokens: 0 };
-    }
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
   }
 
-  private formatGeminiError(error: any): Error {
-    const rawMessage =
-      error?.message || (typeof error === "string" ? error : "");
-
-    // Check for leaked API key or PERMISSION_DENIED
-    if (
-      rawMessage.includes("leaked") ||
-      rawMessage.includes("PERMISSION_DENIED") ||
-      error?.status === 403 ||
-      error?.code === 403
-    ) {
-      return new Error(
-        "Your Gemini API key was reported as leaked by Google. Please create a new key at Google AI Studio (aistudio.google.com) and update your extension settings.",
-      );
-    }
-
-    // Check for invalid API key
-    if (
-      rawMessage.includes("API key not valid") ||
-      rawMessage.includes("API_KEY_INVALID")
-    ) {
-      return new Error(
-        "Invalid Gemini API Key. Please verify your API key in extension settings and ensure it is copied accurately from Google AI Studio (aistudio.google.com).",
-      );
-    }
-
-    // Try parsing embedded JSON error structure inside error.message
-    if (rawMessage.includes('{"error":')) {
-      try {
-        const jsonStart = rawMessage.indexOf("{");
-        const jsonStr = rawMessage.substring(jsonStart);
-        const parsed = JSON.parse(jsonStr);
-        if (parsed?.error?.message) {
-          const msg = parsed.error.message;
-          if (msg.includes("leaked")) {
-            return new Error(
-              "Your Gemini API key was reported as leaked by Google. Please create a new key at Google AI Studio (aistudio.google.com) and update your extension settings.",
-            );
-          }
-          if (
-            msg.includes("API key not valid") ||
-            msg.includes("API_KEY_INVALID")
-          ) {
-            return new Error(
-              "Invalid Gemini API Key. Please verify your API key in extension settings and ensure it is copied accurately from Google AI Studio (aistudio.google.com).",
-            );
-          }
-          return new Error(`Gemini API Error: ${msg}`);
-        }
-      } catch (_) {
-        // Fallthrough if parsing fails
-      }
-    }
-
-    return new Error(rawMessage || "Gemini API request failed.");
+  getProvider(): LLMProvider {
+    return this.provider;
   }
 
   /**
-   * Generic method to call Gemini
+   * Generic method to call the active provider
    */
   async generateContent(
     prompt: string,
-    model: string = "gemini-3-flash-preview",
-    customConfig: Partial<GenerationConfig> = {},
+    options: LLMGenerateOptions = {},
   ): Promise<string> {
-    const mergedConfig = { ...this.generationConfig, ...customConfig };
-    const contents = prompt.trim();
-
-    if (!contents) {
-      throw new Error("No content provided to Gemini");
-    }
-
-    // Exponential backoff retry — up to 3 attempts
-    const MAX_RETRIES = 3;
-    let lastError: any;
-
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        const generatePromise = this.genAI.models.generateContent({
-          model: model,
-          contents: contents,
-          config: mergedConfig,
-        });
-
-        const timeoutPromise = new Promise<never>((_, reject) =>
-          setTimeout(
-            () =>
-              reject(
-                new Error("Gemini API request timed out after 25 seconds."),
-              ),
-            25000,
-          ),
-        );
-
-        const result: any = await Promise.race([
-          generatePromise,
-          timeoutPromise,
-        ]);
-
-        if (!result?.candidates?.[0]?.content) {
-          throw new Error(`Empty/invalid response from Gemini`);
-        }
-
-        const responseText: string =
-          result.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        if (!responseText) throw new Error("No text in Gemini response");
-
-        const usage = result.usageMetadata;
-        console.log(
-          `✅ Gemini OK (${model}, attempt ${attempt}) | tokens: ${usage?.totalTokenCount ?? "?"}`,
-        );
-
-        return responseText;
-      } catch (error: any) {
-        lastError = error;
-        const status = error.status || error.code || 0;
-        const rawMessage = error.message || "";
-
-        // Non-retryable errors: leaked key / 403 / permission denied / content blocked
-        if (
-          rawMessage.includes("leaked") ||
-          rawMessage.includes("PERMISSION_DENIED") ||
-          status === 403
-        ) {
-          throw this.formatGeminiError(error);
-        }
-        if (rawMessage.includes("blocked") || rawMessage.includes("HARM")) {
-          throw new Error("Content was blocked by safety filters.");
-        }
-        if (status === 400) {
-          throw new Error(`Bad request to Gemini: ${error.message}`);
-        }
-
-        // Retryable: 429 rate limit, 5xx server errors, or timeout
-        if (
-          attempt < MAX_RETRIES &&
-          (status === 429 || status >= 500 || rawMessage.includes("timed out"))
-        ) {
-          const delay = Math.pow(2, attempt) * 1000; // 2s, 4s
-          console.warn(
-            `⏳ Gemini attempt ${attempt} failed (${rawMessage || status}), retrying in ${delay}ms...`,
-          );
-          await new Promise((r) => setTimeout(r, delay));
-          continue;
-        }
-
-        // Raise friendly error after all retries
-        if (status === 429)
-          throw new Error("Rate limit exceeded. Please try again later.");
-        if (status >= 500)
-          throw new Error("Gemini server error. Please try again.");
-        throw this.formatGeminiError(error);
-      }
-    }
-
-    throw this.formatGeminiError(lastError);
+    return this.provider.generate(prompt, options);
   }
 
   /**
-   * Parse resume text and extract structured data using Gemini
+   * Parses resume text into profile data. When a rule-based `draft` is given
+   * (see resumeExtractor), the model is asked to correct and complete it, and
+   * any field the model leaves empty falls back to the draft value.
    */
-  async parseResume(resumeText: string): Promise<Partial<UserData>> {
+  async parseResume(
+    resumeText: string,
+    draft?: Partial<UserData>,
+  ): Promise<Partial<UserData>> {
+    const draftHint =
+      draft && Object.keys(draft).length > 0
+        ? `
+        A rule-based parser produced this draft. Use it as a starting point: keep correct values, fix wrong ones, and fill in anything missing.
+        ${JSON.stringify(draft)}
+`
+        : "";
+
     const prompt = `
         You are a resume parser. Extract the following information from this resume and return ONLY a valid JSON object with these exact fields:
 
@@ -256,7 +123,7 @@ class GeminiService {
 
         If any field is not found or is redacted/placeholder (e.g. "XXXX"), use an empty string "" or empty array [].
         Do not return "XXXX" as a value.
-
+${draftHint}
         Resume text:
         ${resumeText}
 
@@ -264,17 +131,23 @@ class GeminiService {
         `;
 
     try {
-      const responseText = await this.generateContent(
-        prompt,
-        "gemini-3-flash-preview",
-      );
-      const jsonText = this.extractJSON(responseText);
-      return JSON.parse(jsonText) as Partial<UserData>;
-    } catch (error: any) {
-      console.error("Gemini parsing error:", error);
+      const responseText = await this.generateContent(prompt, {
+        responseSchema: RESUME_JSON_SCHEMA,
+      });
+      const { value, issues } = validateResumeData(parseModelJSON(responseText));
+      if (issues.length > 0) {
+        console.warn(
+          `Aullevo: resume response ${summarizeIssues(issues)}`,
+          issues,
+        );
+      }
+      return draft ? mergeResumeData(draft, value) : value;
+    } catch (error) {
+      console.error("LLM parsing error:", error);
       // Enhance error message to be visible to user
-      const msg = error.message || String(error);
-      if (msg.includes("SyntaxError")) {
+      const msg =
+        (error instanceof Error && error.message) || String(error);
+      if (msg.includes("SyntaxError") || msg.includes("JSON")) {
         throw new Error(
           `Failed to parse AI response. The resume might be too complex or malformed.`,
         );
@@ -284,12 +157,16 @@ class GeminiService {
   }
 
   /**
-   * Analyze a webpage's form fields using Gemini
+   * Analyze a webpage's form fields using the active LLM.
+   *
+   * The response is validated against the input fields: items with unknown
+   * ids or fieldTypes are dropped, fixable ones repaired, and every such
+   * change is returned in `issues` so callers can report why a fill degraded.
    */
   async analyzeFormFields(
     formFields: FormField[],
     customFields: CustomField[] = [],
-  ): Promise<FieldMapping[]> {
+  ): Promise<ValidatedResult<FieldMapping[]>> {
     let customFieldsPrompt = "";
     if (customFields.length > 0) {
       const fieldList = customFields
@@ -309,6 +186,7 @@ class GeminiService {
         You will receive a JSON array of form fields. Each field contains:
         - id (unique identifier, or name for groups)
         - name, type, placeholder, label, ariaLabel
+        - autocomplete (the HTML autofill token, e.g. "given-name", "postal-code" — only when the page set one)
         - context (surrounding text/header, e.g. "Project 1", "Add Experience")
         - section (visual section name)
         - options (for select fields, radio_group, and checkbox_group)
@@ -325,13 +203,7 @@ class GeminiService {
         - **Add Buttons**: If you see an "Add" button (e.g. "Add Project", "+ Add Another"), map it with action="click_add".
 
         **Allowed field types:**
-        firstName, lastName, email, phone, phoneCountryCode, address, city, state, zipCode, country, 
-        linkedin, portfolio, github, headline, dateOfBirth, gender, summary,
-        salaryExpectation, noticePeriod, workAuthorization, yearsOfExperience,
-        emergencyContactName, emergencyContactRelationship, emergencyContactPhone, bloodType, allergies,
-        medicalConditions, medications, insuranceProvider, policyNumber, occupation, industry,
-        educationLevel, maritalStatus, position, company, salary, startDate, endDate, description,
-        skill, resumeUpload, toggle, range${customFieldsPrompt}
+        ${FIELD_MAPPING_TYPES.filter((t) => t !== "custom_question").join(", ")}${customFieldsPrompt}
         OR "custom_question" (for questions the AI should answer using the user's profile, OR for chat automation)
 
         **Allowed group types:**
@@ -350,6 +222,8 @@ class GeminiService {
         10. "Work authorization" / "Are you authorized to work" / "Visa status" → workAuthorization
         11. "Years of experience" / "Total experience" → yearsOfExperience
         12. For custom fields: Match by comparing the field's label/context with each custom field's context description.
+        13. "autocomplete" is the form's own declaration and beats the label: given-name → firstName, family-name → lastName, additional-name → middleName, name → fullName, tel → phone, tel-national → phoneNational, tel-country-code → phoneCountryCode, street-address / address-line1 → address, address-level2 → city, address-level1 → state, postal-code → zipCode, bday → dateOfBirth, bday-day / bday-month / bday-year → dateOfBirthDay / dateOfBirthMonth / dateOfBirthYear, organization → company and organization-title → position (groupType experience, groupIndex 0). Ignore "section-*", "shipping", "billing", "home", "work" and "mobile" prefixes.
+        14. Inside an experience or education group: "Start date" / "From" → startDate, "End date" / "To" → endDate, "I currently work here" / "Current role" / "Still studying" → isCurrent, "Employment type" → employmentType, "Location" / "City" → location. Split month and year dropdowns of one date both map to that date.
 
         **Special Rules:**
         1. **Select/Radio/Checkbox/Toggle/Range**: DO NOT pick a "selectedValue". Only return the "fieldType" and any necessary grouping metadata. The extension will automatically map your selected "fieldType" to the user's saved profile data.
@@ -377,12 +251,13 @@ class GeminiService {
         Form fields:
         ${JSON.stringify(
           formFields.map((f) => {
-            const compact: Record<string, any> = { id: f.id };
+            const compact: Record<string, unknown> = { id: f.id };
             if (f.name) compact.name = f.name;
             if (f.type) compact.type = f.type;
             if (f.placeholder) compact.placeholder = f.placeholder;
             if (f.label) compact.label = f.label;
             if (f.ariaLabel) compact.ariaLabel = f.ariaLabel;
+            if (f.autocomplete && !/^(on|off)$/i.test(f.autocomplete.trim())) compact.autocomplete = f.autocomplete;
             if (f.context) compact.context = f.context;
             if (f.section) compact.section = f.section;
             if (f.options?.length) compact.options = f.options;
@@ -397,20 +272,32 @@ class GeminiService {
         `;
 
     try {
-      const responseText = await this.generateContent(
-        prompt,
-        "gemini-3-flash-preview",
+      const responseText = await this.generateContent(prompt, {
+        responseSchema: FIELD_MAPPINGS_JSON_SCHEMA,
+      });
+      const { value, issues } = validateFieldMappings(
+        parseModelJSON(responseText),
+        formFields,
+        customFields,
       );
-      const jsonText = this.extractJSON(responseText);
-      const mappings = JSON.parse(jsonText) as FieldMapping[];
+      if (issues.length > 0) {
+        console.warn(
+          `Aullevo: form mapping response ${summarizeIssues(issues)}`,
+          issues,
+        );
+      }
       // Filter out low-confidence mappings (< 0.5) to avoid wrong fills
-      return mappings.filter((m) => (m.confidence ?? 1) >= 0.5);
-    } catch (error: any) {
-      console.warn("Gemini form analysis notice:", error.message || error);
+      return {
+        value: value.filter((m) => (m.confidence ?? 1) >= 0.5),
+        issues,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      console.warn("LLM form analysis notice:", message || error);
       // If we caught an error, bubble it up so the UI reflects that the AI actually crashed/failed
       // instead of silently pretending 0 fields were matched!
       throw new Error(
-        `AI processing failed: ${error.message || "The form could not be parsed"}`,
+        `AI processing failed: ${message || "The form could not be parsed"}`,
       );
     }
   }
@@ -478,14 +365,12 @@ Return ONLY the answer text, nothing else.
 `;
 
     try {
-      const responseText = await this.generateContent(
-        prompt,
-        "gemini-3-flash-preview",
-        { responseMimeType: "text/plain" },
-      );
+      const responseText = await this.generateContent(prompt, {
+        responseFormat: "text",
+      });
       return responseText.trim();
     } catch (error) {
-      console.error("Gemini answer error:", error);
+      console.error("LLM answer error:", error);
       return "[ERROR]";
     }
   }
@@ -528,80 +413,84 @@ Draft a natural, context-aware reply to the latest message on behalf of the user
     `;
 
     try {
-      const responseText = await this.generateContent(
-        prompt,
-        "gemini-3-flash-preview",
-        {
-          responseMimeType: "text/plain",
-          temperature: 0.7, // Keeps the model creative but grounded
-        },
-      );
+      const responseText = await this.generateContent(prompt, {
+        responseFormat: "text",
+        temperature: 0.7, // Keeps the model creative but grounded
+      });
       return responseText.trim();
     } catch (error) {
-      console.error("Gemini conversational engine execution error:", error);
+      console.error("LLM conversational engine execution error:", error);
       return "[Error generating automated response]";
     }
   }
 
   /**
-   * Generate cover letter based on job description
+   * Generate cover letter based on job description, in the requested tone
+   * and length, using the candidate's summary, recent roles and skills.
    */
   async generateCoverLetter(
     jobDescription: string,
     userData: Partial<UserData>,
+    options: CoverLetterOptions = {},
   ): Promise<string> {
+    const tone = COVER_LETTER_TONES[options.tone ?? "professional"];
+    const words = COVER_LETTER_WORDS[options.length ?? "medium"];
+    const name = `${userData.firstName || ""} ${userData.lastName || ""}`.trim();
+    const roles =
+      (userData.experience || [])
+        .slice(0, 3)
+        .map(
+          (e) =>
+            `${e.position} at ${e.company}${e.duration ? ` (${e.duration})` : ""}${e.description ? `: ${e.description}` : ""}`,
+        )
+        .join("\n") || "Not provided";
+    const target = [options.role, options.company].filter(Boolean).join(" at ");
+
     const prompt = `
-Write a professional cover letter for this job posting:
+Write a cover letter for this job posting${target ? ` (${target})` : ""}:
 
 ${jobDescription}
 
 Candidate information:
-- Name: ${userData.firstName} ${userData.lastName}
-- Email: ${userData.email}
+- Name: ${name || "Not provided"}
+- Email: ${userData.email || "Not provided"}
+- Headline: ${userData.headline || "Not provided"}
+- Summary: ${userData.summary || "Not provided"}
 - Skills: ${userData.skills?.join(", ") || "Not provided"}
-- Experience: ${userData.experience?.[0]?.position || "Not provided"}
-
-Write a compelling, personalized cover letter (200-300 words).
+- Recent roles:
+${roles}
+
+Tone: ${tone}
+Length: ${words} words.
+Connect the candidate's real experience to the posting's key requirements.
+Do not invent employers, degrees, numbers or skills that are not listed above.
+Sign off with the candidate's name. Do not include a date or postal addresses.
 Return ONLY the cover letter text.
 `;
 
     try {
-      const responseText = await this.generateContent(
-        prompt,
-        "gemini-3-flash-preview",
-        { responseMimeType: "text/plain" },
-      );
-      return responseText;
+      const responseText = await this.generateContent(prompt, {
+        responseFormat: "text",
+      });
+      return responseText.trim();
     } catch (error) {
-      console.error("Gemini cover letter error:", error);
+      console.error("LLM cover letter error:", error);
       throw error;
     }
   }
-
-  /**
-   * Helper function to extract JSON from Gemini response
-   */
-  private extractJSON(text: string): string {
-    let cleaned = text.trim();
-    if (cleaned.startsWith("```")) {
-      cleaned = cleaned
-        .replace(/^```(?:json)?\s*/i, "")
-        .replace(/\s*```$/i, "");
-    }
-    const firstBracket = cleaned.search(/[\{\[]/);
-    const lastBracket = Math.max(
-      cleaned.lastIndexOf("}"),
-      cleaned.lastIndexOf("]"),
-    );
-    if (
-      firstBracket !== -1 &&
-      lastBracket !== -1 &&
-      lastBracket > firstBracket
-    ) {
-      return cleaned.substring(firstBracket, lastBracket + 1);
-    }
-    return cleaned;
-  }
 }
 
-export const geminiService = new GeminiService();
+const COVER_LETTER_TONES: Record<CoverLetterTone, string> = {
+  professional: "professional and polished",
+  warm: "warm and personable, still professional",
+  enthusiastic: "energetic and enthusiastic about the role",
+  direct: "direct and confident, no filler phrases",
+};
+
+const COVER_LETTER_WORDS: Record<CoverLetterLength, string> = {
+  short: "150-200",
+  medium: "250-320",
+  long: "380-450",
+};
+
+export const llmService = new LLMService();
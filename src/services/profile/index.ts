@@ -0,0 +1,5 @@
+/**
+ * Profile Schema Barrel Export
+ */
+
+export * from "./migrations";
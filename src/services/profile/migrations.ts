@@ -0,0 +1,190 @@
+/**
+ * Versioned profile schema.
+ *
+ * Every vault profile carries a `schemaVersion`. Profiles written before
+ * versioning existed count as version 0. On load (and on import of old
+ * exports) storageService runs every migration whose `version` is above the
+ * profile's version, in order, then stamps the profile with
+ * CURRENT_SCHEMA_VERSION.
+ *
+ * To change the profile shape, append a migration — never edit or reorder
+ * existing ones, since stored profiles may be at any earlier version.
+ * Migrations are pure functions of the raw profile object so each one can be
+ * exercised on its own.
+ */
+
+import type { CustomField, UserData } from "../../types";
+import { parseDuration, withEntryDates } from "../formats/dates";
+
+/** A stored profile before migration: any JSON object. */
+export type RawProfile = Record<string, unknown>;
+
+export interface ProfileMigration {
+  /** Schema version the profile is at after this migration has run. */
+  version: number;
+  description: string;
+  migrate: (profile: RawProfile) => RawProfile;
+}
+
+/**
+ * Normalises customFields to CustomField[]. Older versions stored a plain
+ * `{ label: value }` object.
+ */
+export function migrateCustomFields(raw: unknown): CustomField[] {
+  if (Array.isArray(raw)) return raw as CustomField[];
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw).map(([key, value]) => ({
+      label: key,
+      value: String(value),
+      context: "",
+    }));
+  }
+  return [];
+}
+
+const LIST_FIELDS = ["skills", "experience", "education", "memories", "savedLinks"] as const;
+
+/* ── Migrations (append only) ── */
+
+/** v1: customFields object shape → CustomField[]. */
+export function migrateV1CustomFieldsArray(profile: RawProfile): RawProfile {
+  return { ...profile, customFields: migrateCustomFields(profile.customFields) };
+}
+
+/**
+ * v2: list fields added over time (memories, savedLinks) are always arrays,
+ * skills stored as a comma-separated string are split, and profiles without
+ * a type default to "job".
+ */
+export function migrateV2ListFieldsAndType(profile: RawProfile): RawProfile {
+  const next: RawProfile = { ...profile };
+  for (const field of LIST_FIELDS) {
+    const value = next[field];
+    if (field === "skills" && typeof value === "string") {
+      next.skills = value.split(",").map((s) => s.trim()).filter(Boolean);
+    } else if (!Array.isArray(value)) {
+      next[field] = [];
+    }
+  }
+  if (typeof next.profileType !== "string") next.profileType = "job";
+  return next;
+}
+
+/**
+ * Adds structured start / end / isCurrent to one experience or education
+ * entry, parsed from its free-text date. Entries that already have
+ * structured dates, or whose text holds none, are returned as they are.
+ */
+function withStructuredDates(entry: unknown, textKey: "duration" | "year"): unknown {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return entry;
+  const raw = entry as RawProfile;
+  if (raw.start || raw.end || typeof raw.isCurrent === "boolean") return entry;
+  const text = typeof raw[textKey] === "string" ? (raw[textKey] as string) : "";
+  const { start, end, isCurrent } = parseDuration(text, {
+    loneDate: textKey === "year" ? "end" : "start",
+  });
+  if (!start && !end && !isCurrent) return entry;
+  return {
+    ...raw,
+    ...(start ? { start } : {}),
+    ...(end ? { end } : {}),
+    isCurrent,
+  };
+}
+
+/**
+ * v3: experience durations and education years gain structured dates
+ * ("Jan 2020 – Present" → start { year: 2020, month: 1 }, isCurrent), so
+ * start / end date fields can be filled. The free text is kept.
+ */
+export function migrateV3StructuredDates(profile: RawProfile): RawProfile {
+  const next: RawProfile = { ...profile };
+  if (Array.isArray(next.experience)) {
+    next.experience = next.experience.map((e) => withStructuredDates(e, "duration"));
+  }
+  if (Array.isArray(next.education)) {
+    next.education = next.education.map((e) => withStructuredDates(e, "year"));
+  }
+  return next;
+}
+
+export const PROFILE_MIGRATIONS: readonly ProfileMigration[] = [
+  {
+    version: 1,
+    description: "customFields object → CustomField[]",
+    migrate: migrateV1CustomFieldsArray,
+  },
+  {
+    version: 2,
+    description: "Default list fields and profileType",
+    migrate: migrateV2ListFieldsAndType,
+  },
+  {
+    version: 3,
+    description: "Structured start / end dates on experience and education",
+    migrate: migrateV3StructuredDates,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = PROFILE_MIGRATIONS[PROFILE_MIGRATIONS.length - 1].version;
+
+/** Schema version of a stored profile; unversioned profiles are version 0. */
+export function getSchemaVersion(profile: unknown): number {
+  if (!profile || typeof profile !== "object") return 0;
+  const version = (profile as RawProfile).schemaVersion;
+  return typeof version === "number" && Number.isFinite(version) ? version : 0;
+}
+
+/**
+ * Brings one stored profile up to CURRENT_SCHEMA_VERSION.
+ * `changed` is false when the profile was already current, so callers can
+ * skip re-writing storage. Profiles from a newer version of the extension
+ * are returned untouched rather than downgraded.
+ */
+export function migrateProfile(raw: unknown): { profile: UserData; changed: boolean } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Invalid profile: expected an object.");
+  }
+
+  const from = getSchemaVersion(raw);
+  if (from >= CURRENT_SCHEMA_VERSION) {
+    return { profile: raw as UserData, changed: false };
+  }
+
+  let profile = raw as RawProfile;
+  for (const migration of PROFILE_MIGRATIONS) {
+    if (migration.version > from) profile = migration.migrate(profile);
+  }
+  return {
+    profile: { ...profile, schemaVersion: CURRENT_SCHEMA_VERSION } as unknown as UserData,
+    changed: true,
+  };
+}
+
+/** Migrates every profile in a vault (name → profile). */
+export function migrateVault(vault: Record<string, unknown>): {
+  vault: Record<string, UserData>;
+  changed: boolean;
+} {
+  let changed = false;
+  const migrated: Record<string, UserData> = {};
+  for (const [name, raw] of Object.entries(vault)) {
+    const result = migrateProfile(raw);
+    migrated[name] = result.profile;
+    changed ||= result.changed;
+  }
+  return { vault: migrated, changed };
+}
+
+/**
+ * Re-derives the structured dates of every experience / education entry
+ * from its free text. Run on every save, since the sidebar, imports and
+ * resume parsing only ever edit the text.
+ */
+export function refreshProfileDates(profile: UserData): UserData {
+  return {
+    ...profile,
+    experience: (profile.experience ?? []).map((entry) => withEntryDates(entry)),
+    education: (profile.education ?? []).map((entry) => withEntryDates(entry)),
+  };
+}
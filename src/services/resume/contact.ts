@@ -0,0 +1,141 @@
+/**
+ * Contact-detail extraction (name, email, phone, profile URLs, location)
+ * from the header block of a resume.
+ */
+
+import { detectHeading } from "./sections";
+
+export const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+export const LINKEDIN_RE =
+  /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(?:in|pub)\/[\w%.-]+\/?/i;
+export const GITHUB_RE = /(?:https?:\/\/)?(?:www\.)?github\.com\/[\w-]+\/?/i;
+const URL_RE =
+  /(?:https?:\/\/|www\.)[\w.-]+\.[a-z]{2,}(?:\/[^\s|,;]*)?|\b[\w-]+\.(?:dev|io|me|com|net|org|app|site|xyz|co)(?:\/[^\s|,;]*)?\b/i;
+const PHONE_RE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{5,14}\d/;
+const LOCATION_RE =
+  /^([A-Z][A-Za-z .'-]{1,30}),\s*([A-Z]{2}|[A-Z][A-Za-z .'-]{2,30})(?:\s+(\d{4,6}(?:-\d{4})?))?$/;
+
+/** Separators commonly used between contact items on one line. */
+const SEGMENT_SPLIT_RE = /\s*(?:[|•·⋅◦]|\s{2,}|\t)\s*/;
+
+export interface Scored<T = string> {
+  value: T;
+  confidence: number;
+}
+
+export interface ContactInfo {
+  firstName?: Scored;
+  lastName?: Scored;
+  email?: Scored;
+  phone?: Scored;
+  linkedin?: Scored;
+  github?: Scored;
+  portfolio?: Scored;
+  city?: Scored;
+  state?: Scored;
+  zipCode?: Scored;
+  headline?: Scored;
+}
+
+const TITLE_HINT_RE =
+  /\b(?:engineer|developer|manager|designer|analyst|consultant|scientist|architect|specialist|administrator|intern|student|lead|director|officer|coordinator|assistant|accountant|nurse|teacher|writer|marketer|technician|programmer)\b/i;
+
+const withProtocol = (url: string) =>
+  /^https?:\/\//i.test(url) ? url : `https://${url.replace(/^\/+/, "")}`;
+
+function extractPhone(text: string): Scored | undefined {
+  const match = text.match(PHONE_RE);
+  if (!match) return undefined;
+  const digits = match[0].replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 15) return undefined;
+  // Avoid year ranges like "2019 - 2021" masquerading as phone numbers
+  if (/^(?:19|20)\d{2}[\s.-]+(?:19|20)\d{2}$/.test(match[0].trim())) {
+    return undefined;
+  }
+  return {
+    value: match[0].trim(),
+    confidence: match[0].trim().startsWith("+") || /phone|mobile|tel/i.test(text)
+      ? 0.95
+      : 0.85,
+  };
+}
+
+function looksLikeName(line: string): boolean {
+  if (line.length > 50 || /[@\d/:]/.test(line)) return false;
+  const words = line.split(/\s+/);
+  if (words.length < 2 || words.length > 4) return false;
+  return words.every((w) => /^[A-Z][\p{L}'.-]*$/u.test(w) || /^[A-Z]+$/.test(w));
+}
+
+const toTitleCase = (word: string) =>
+  word === word.toUpperCase()
+    ? word.charAt(0) + word.slice(1).toLowerCase()
+    : word;
+
+/**
+ * Extracts contact details. Searches the header block first, then falls
+ * back to the full document for items that often live in a footer or
+ * sidebar column (email, phone, URLs).
+ */
+export function extractContactInfo(
+  header: string[],
+  allLines: string[],
+): ContactInfo {
+  const info: ContactInfo = {};
+  const headerText = header.join(" \n ");
+  const fullText = allLines.join(" \n ");
+
+  // ── Email / phone / profile URLs ──
+  const email = headerText.match(EMAIL_RE) || fullText.match(EMAIL_RE);
+  if (email) info.email = { value: email[0], confidence: 0.99 };
+
+  const linkedin = fullText.match(LINKEDIN_RE);
+  if (linkedin) info.linkedin = { value: withProtocol(linkedin[0]), confidence: 0.98 };
+
+  const github = fullText.match(GITHUB_RE);
+  if (github) info.github = { value: withProtocol(github[0]), confidence: 0.98 };
+
+  const segments = header.flatMap((l) => l.split(SEGMENT_SPLIT_RE)).filter(Boolean);
+
+  for (const seg of segments) {
+    if (!info.phone) info.phone = extractPhone(seg);
+    if (!info.portfolio) {
+      const stripped = seg.replace(EMAIL_RE, " ");
+      const url = stripped.match(URL_RE);
+      if (url && !LINKEDIN_RE.test(url[0]) && !GITHUB_RE.test(url[0])) {
+        info.portfolio = { value: withProtocol(url[0]), confidence: 0.7 };
+      }
+    }
+    if (!info.city) {
+      const loc = seg.replace(/^(?:address|location)\s*:\s*/i, "").match(LOCATION_RE);
+      if (loc && !EMAIL_RE.test(seg)) {
+        info.city = { value: loc[1].trim(), confidence: 0.6 };
+        info.state = { value: loc[2].trim(), confidence: 0.55 };
+        if (loc[3]) info.zipCode = { value: loc[3], confidence: 0.6 };
+      }
+    }
+  }
+  if (!info.phone) info.phone = extractPhone(fullText);
+
+  // ── Name: first header line shaped like a personal name ──
+  const nameIndex = header.findIndex(
+    (l) =>
+      looksLikeName(l) &&
+      (detectHeading(l) ?? "other") === "other" &&
+      !TITLE_HINT_RE.test(l),
+  );
+  if (nameIndex !== -1) {
+    const words = header[nameIndex].split(/\s+/).map(toTitleCase);
+    const confidence = nameIndex === 0 ? 0.85 : 0.6;
+    info.firstName = { value: words[0], confidence };
+    info.lastName = { value: words[words.length - 1], confidence };
+
+    // ── Headline: a job-title line right below the name ──
+    const next = header[nameIndex + 1];
+    if (next && TITLE_HINT_RE.test(next) && next.length <= 80 && !EMAIL_RE.test(next)) {
+      info.headline = { value: next.split(SEGMENT_SPLIT_RE)[0], confidence: 0.5 };
+    }
+  }
+
+  return info;
+}
@@ -0,0 +1,99 @@
+/**
+ * Date and date-range recognition for resume text.
+ */
+
+export const MONTH_PATTERN =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+const DATE_TOKEN = `(?:${MONTH_PATTERN}\\s*'?\\d{2,4}|\\d{1,2}\\s*[/.-]\\s*\\d{4}|(?:19|20)\\d{2})`;
+const CURRENT_TOKEN = "(?:present|current(?:ly)?|now|today|ongoing|to\\s+date)";
+
+const RANGE_RE = new RegExp(
+  `(${DATE_TOKEN})\\s*(?:-|–|—|~|to|until|till)\\s*(${DATE_TOKEN}|${CURRENT_TOKEN})`,
+  "i",
+);
+const CURRENT_RE = new RegExp(`^${CURRENT_TOKEN}$`, "i");
+const YEAR_RE = /\b(?:19|20)\d{2}\b/g;
+
+const MONTH_INDEX: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+export interface ParsedDate {
+  year?: number;
+  month?: number; // 1-12
+}
+
+export interface DateRange {
+  /** The exact matched text, e.g. "Jan 2020 – Present". */
+  text: string;
+  start: ParsedDate;
+  end: ParsedDate;
+  isCurrent: boolean;
+  /** Character offset of the match inside the source line. */
+  index: number;
+}
+
+/**
+ * Parses a single date token ("Jan 2020", "01/2020", "2020", "Sept '19").
+ */
+export function parseDateToken(token: string): ParsedDate {
+  const t = token.trim().toLowerCase();
+
+  const monthMatch = t.match(new RegExp(`^(${MONTH_PATTERN})\\s*'?(\\d{2,4})$`, "i"));
+  if (monthMatch) {
+    const month = MONTH_INDEX[monthMatch[1].slice(0, 3)];
+    let year = parseInt(monthMatch[2], 10);
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+    return { year, month };
+  }
+
+  const numeric = t.match(/^(\d{1,2})\s*[/.-]\s*(\d{4})$/);
+  if (numeric) {
+    const month = parseInt(numeric[1], 10);
+    return {
+      year: parseInt(numeric[2], 10),
+      month: month >= 1 && month <= 12 ? month : undefined,
+    };
+  }
+
+  const yearOnly = t.match(/^(?:19|20)\d{2}$/);
+  if (yearOnly) return { year: parseInt(yearOnly[0], 10) };
+
+  return {};
+}
+
+/**
+ * Finds the first date range in a line of text, or null.
+ */
+export function findDateRange(line: string): DateRange | null {
+  const match = RANGE_RE.exec(line);
+  if (!match) return null;
+
+  const isCurrent = CURRENT_RE.test(match[2].trim());
+  return {
+    text: match[0].trim(),
+    start: parseDateToken(match[1]),
+    end: isCurrent ? {} : parseDateToken(match[2]),
+    isCurrent,
+    index: match.index,
+  };
+}
+
+/**
+ * Returns every four-digit year (1900–2099) mentioned in a line.
+ */
+export function findYears(line: string): number[] {
+  return (line.match(YEAR_RE) || []).map((y) => parseInt(y, 10));
+}
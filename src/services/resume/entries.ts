@@ -0,0 +1,269 @@
+/**
+ * Experience, education, skills and summary extraction from sectioned
+ * resume text. Each extracted value carries a confidence in 0..1 so the UI
+ * can flag guesses for review.
+ */
+
+import type { Education, Experience } from "../../types";
+import { findDateRange, findYears, type DateRange } from "./dateRanges";
+import type { Scored } from "./contact";
+
+export type ScoredEntry<T> = { [K in keyof T]?: Scored };
+
+export const TITLE_KEYWORDS_RE =
+  /\b(?:engineer|developer|manager|designer|analyst|consultant|scientist|architect|specialist|administrator|intern(?:ship)?|lead|head|director|officer|coordinator|assistant|associate|accountant|nurse|teacher|tutor|writer|editor|marketer|technician|programmer|founder|co-?founder|owner|president|vp|cto|ceo|cfo|researcher|representative|advisor|supervisor|executive|strategist|volunteer|fellow|trainee|apprentice|clerk|cashier|agent|instructor|professor)\b/i;
+
+const COMPANY_HINT_RE =
+  /\b(?:inc|llc|ltd|gmbh|corp(?:oration)?|co|company|group|technologies|solutions|labs?|systems|studios?|agency|partners|consulting|bank|university|hospital|foundation|ventures|holdings|plc|s\.?a\.?)\b\.?/i;
+
+const SCHOOL_RE =
+  /\b(?:university|universit[éeà]|college|school|institute|academy|polytechnic|conservatory|seminary|iit|mit)\b/i;
+
+const DEGREE_RE =
+  /\b(?:bachelor(?:'?s)?|master(?:'?s)?|doctor(?:ate)?|ph\.?\s?d|mba|b\.?\s?(?:sc|s|a|e|tech|eng|com)\b\.?|m\.?\s?(?:sc|s|a|e|tech|eng|phil)\b\.?|associate(?:'?s)?\s+(?:degree|of)|diploma|certificate|high\s+school|ged|a-levels?|bsc|msc|ba|ma|bs|ms|beng|meng|btech|mtech)\b/i;
+
+const BULLET_RE = /^[•▪●◦■►‣∙*\-–]\s*/;
+const LOCATION_PART_RE =
+  /^(?:remote|hybrid|on-?site|[A-Z][A-Za-z .'-]+,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?:\s[A-Z][a-z]+)?))$/;
+const TITLE_SPLIT_RE = /\s+(?:\||•|·|–|—|-)\s+|\s+(?:at|@)\s+/i;
+const PLACE_NAME_RE =
+  /^(?:[Rr]emote|[Hh]ybrid|[A-Z][a-z.'-]+(?:\s[A-Z][a-z.'-]+){0,2})$/;
+const REGION_CODE_RE = /^[A-Z]{2}$/; // "CA", "UK"
+
+/** A comma part that names a place rather than a company or a title. */
+const isPlaceName = (part: string) =>
+  PLACE_NAME_RE.test(part) &&
+  !COMPANY_HINT_RE.test(part) &&
+  !TITLE_KEYWORDS_RE.test(part);
+
+/**
+ * Drops a trailing location from comma-separated title parts:
+ * "Globex, Austin, TX" → ["Globex"], "Acme Corp, San Francisco" →
+ * ["Acme Corp"]. A lone trailing name only counts as a place after a part
+ * with a company suffix, so "Software Engineer, Globex" keeps its company.
+ */
+function withoutTrailingLocation(parts: string[]): string[] {
+  const n = parts.length;
+  if (n >= 3 && REGION_CODE_RE.test(parts[n - 1]) && isPlaceName(parts[n - 2])) {
+    return parts.slice(0, -2);
+  }
+  if (
+    n >= 2 &&
+    isPlaceName(parts[n - 1]) &&
+    parts.slice(0, -1).some((p) => COMPANY_HINT_RE.test(p))
+  ) {
+    return parts.slice(0, -1);
+  }
+  return parts;
+}
+
+const isBullet = (line: string) => BULLET_RE.test(line);
+const stripBullet = (line: string) => line.replace(BULLET_RE, "").trim();
+
+/** A short, non-bullet line that could belong to an entry's title block. */
+const isTitleCandidate = (line: string) =>
+  !isBullet(line) && line.length <= 90 && !/[.!]$/.test(line);
+
+function removeRange(line: string, range: DateRange): string {
+  return (
+    line.slice(0, range.index) + " " + line.slice(range.index + range.text.length)
+  )
+    .replace(/[(),|•·\s–—-]+$/, "")
+    .replace(/^[(),|•·\s–—-]+/, "")
+    .replace(/\(\s*\)/g, "")
+    .trim();
+}
+
+/**
+ * Splits the text around a date range ("Senior Engineer at Acme | Berlin")
+ * into position and company, using title keywords and company suffixes to
+ * decide which part is which.
+ */
+function splitTitleParts(
+  parts: string[],
+): Pick<ScoredEntry<Experience>, "position" | "company"> {
+  const pieces = parts
+    .flatMap((p) => p.split(TITLE_SPLIT_RE))
+    .flatMap((p) => {
+      // "Software Engineer, Acme Corp" — split on comma unless it's a
+      // location; "Acme Corp, San Francisco" loses its trailing city
+      const commaParts = p.split(/\s*,\s*/);
+      const isLocation =
+        commaParts.length === 2 &&
+        commaParts.every((c) => isPlaceName(c) || REGION_CODE_RE.test(c));
+      if (isLocation) return [p];
+      const kept = withoutTrailingLocation(commaParts);
+      return kept.length <= 2 ? kept : [kept.join(", ")];
+    })
+    .map((p) => p.trim())
+    .filter((p) => p && !LOCATION_PART_RE.test(p));
+
+  if (pieces.length === 0) return {};
+
+  const titleIdx = pieces.findIndex(
+    (p) => TITLE_KEYWORDS_RE.test(p) && !COMPANY_HINT_RE.test(p),
+  );
+  let companyIdx = pieces.findIndex(
+    (p, i) => i !== titleIdx && COMPANY_HINT_RE.test(p),
+  );
+  if (companyIdx === -1) companyIdx = pieces.findIndex((_, i) => i !== titleIdx);
+
+  const result: Pick<ScoredEntry<Experience>, "position" | "company"> = {};
+  if (titleIdx !== -1) {
+    result.position = { value: pieces[titleIdx], confidence: 0.8 };
+  }
+  if (companyIdx !== -1) {
+    result.company = {
+      value: pieces[companyIdx],
+      confidence: COMPANY_HINT_RE.test(pieces[companyIdx]) ? 0.8 : 0.6,
+    };
+  }
+  // No title keyword anywhere: assume the common "Position / Company" order
+  if (titleIdx === -1 && pieces.length >= 2) {
+    result.position = { value: pieces[0], confidence: 0.45 };
+    result.company = { value: pieces[1], confidence: 0.45 };
+  }
+  return result;
+}
+
+/**
+ * Extracts work-experience entries. Each entry is anchored on a line that
+ * contains a date range; up to two short lines before it (and, if needed,
+ * one after it) form the title block, and the remaining lines until the
+ * next entry become the description.
+ */
+export function extractExperience(lines: string[]): ScoredEntry<Experience>[] {
+  const anchors = lines
+    .map((line, i) => ({ i, range: findDateRange(line) }))
+    .filter((a): a is { i: number; range: DateRange } => a.range !== null);
+
+  if (anchors.length === 0) return [];
+
+  // Title block boundaries for each anchor
+  const blocks = anchors.map((anchor, k) => {
+    const floor = k === 0 ? 0 : anchors[k - 1].i + 1;
+    let start = anchor.i;
+    while (
+      start > floor &&
+      anchor.i - start < 2 &&
+      isTitleCandidate(lines[start - 1])
+    ) {
+      start--;
+    }
+    return { start, anchor };
+  });
+
+  return blocks.map(({ start, anchor }, k) => {
+    const titleParts = lines.slice(start, anchor.i);
+    const rest = removeRange(lines[anchor.i], anchor.range);
+    if (rest) titleParts.push(rest);
+
+    const nextStart = k + 1 < blocks.length ? blocks[k + 1].start : lines.length;
+    let descStart = anchor.i + 1;
+    // "Company / dates / Position" layouts put the title below the dates
+    if (
+      titleParts.length < 2 &&
+      descStart < nextStart &&
+      isTitleCandidate(lines[descStart])
+    ) {
+      titleParts.push(lines[descStart]);
+      descStart++;
+    }
+
+    const entry: ScoredEntry<Experience> = {
+      ...splitTitleParts(titleParts),
+      duration: { value: anchor.range.text, confidence: 0.95 },
+    };
+
+    const description = lines
+      .slice(descStart, nextStart)
+      .map(stripBullet)
+      .filter(Boolean)
+      .join("\n");
+    if (description) entry.description = { value: description, confidence: 0.7 };
+
+    return entry;
+  });
+}
+
+/**
+ * Extracts education entries. A new entry starts whenever a school or degree
+ * line appears that the current entry already has. A date range is kept as
+ * written ("Sep 2012 – May 2016"), so the start date survives; otherwise
+ * the latest year found is the year.
+ */
+export function extractEducation(lines: string[]): ScoredEntry<Education>[] {
+  const entries: ScoredEntry<Education>[] = [];
+  let current: ScoredEntry<Education> = {};
+  let years: number[] = [];
+  let dates: DateRange | null = null;
+
+  const flush = () => {
+    if (!current.school && !current.degree) return;
+    if (dates?.start.year) {
+      current.year = { value: dates.text, confidence: 0.85 };
+    } else if (years.length > 0) {
+      current.year = { value: String(Math.max(...years)), confidence: 0.85 };
+    }
+    entries.push(current);
+    current = {};
+    years = [];
+    dates = null;
+  };
+
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    const range = findDateRange(line);
+    const text = range ? removeRange(line, range) : line;
+    const parts = text.split(/\s+(?:\||•|·|–|—|-)\s+|\s*,\s+(?=[A-Z])/);
+
+    const schoolPart = parts.find((p) => SCHOOL_RE.test(p));
+    const degreePart = parts.find((p) => DEGREE_RE.test(p) && p !== schoolPart);
+
+    if ((schoolPart && current.school) || (degreePart && current.degree)) flush();
+
+    if (schoolPart) current.school = { value: schoolPart.trim(), confidence: 0.85 };
+    if (degreePart) current.degree = { value: degreePart.trim(), confidence: 0.8 };
+    if (!schoolPart && !degreePart && !current.school && parts[0] && isTitleCandidate(line)) {
+      current.school = { value: parts[0].trim(), confidence: 0.4 };
+    }
+
+    if (range) {
+      dates = range;
+      if (range.end.year) years.push(range.end.year);
+      else if (range.start.year) years.push(range.start.year);
+    } else {
+      years.push(...findYears(line));
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Splits a skills section into individual skills. "Languages: Go, Rust"
+ * style category prefixes are dropped.
+ */
+export function extractSkills(lines: string[]): Scored<string[]> | undefined {
+  const seen = new Set<string>();
+  const skills: string[] = [];
+
+  for (const raw of lines) {
+    const line = stripBullet(raw).replace(/^[A-Za-z &/]{2,30}:\s*/, "");
+    for (const piece of line.split(/\s*[,;•|·]\s*/)) {
+      const skill = piece.replace(/\.$/, "").trim();
+      const key = skill.toLowerCase();
+      if (!skill || skill.length > 40 || seen.has(key)) continue;
+      seen.add(key);
+      skills.push(skill);
+    }
+  }
+
+  return skills.length > 0 ? { value: skills, confidence: 0.8 } : undefined;
+}
+
+export function extractSummary(lines: string[]): Scored | undefined {
+  const summary = lines.map(stripBullet).join(" ").trim();
+  return summary ? { value: summary, confidence: 0.8 } : undefined;
+}
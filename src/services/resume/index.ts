@@ -0,0 +1,9 @@
+/**
+ * Rule-based Resume Extractor Submodules Barrel Export
+ */
+
+export * from "./dateRanges";
+export * from "./sections";
+export * from "./contact";
+export * from "./entries";
+export * from "./layout";
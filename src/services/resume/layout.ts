@@ -0,0 +1,304 @@
+/**
+ * Reading-order reconstruction for resume documents.
+ *
+ * pdf.js returns text items in content-stream order, which on two-column
+ * templates interleaves the sidebar with the main column. This module
+ * rebuilds lines from item positions, detects a vertical gutter between
+ * columns, and emits structured blocks (headings and paragraphs) in the
+ * order a person would read them.
+ */
+
+import type { ResumeBlock } from "../../types";
+import { detectHeading } from "./sections";
+
+/** A text run with its position on the page (PDF units, origin bottom-left). */
+export interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+type Column = ResumeBlock["column"];
+
+interface TextLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  column: Column;
+}
+
+/** Bins used to build the horizontal coverage histogram. */
+const GUTTER_BINS = 200;
+/** The gutter must sit within this fraction of the page width. */
+const GUTTER_MIN_X = 0.2;
+const GUTTER_MAX_X = 0.8;
+/** Minimum gutter width as a fraction of the page width. */
+const GUTTER_MIN_WIDTH = 0.015;
+/** Each column must hold at least this share of the page's text items. */
+const MIN_COLUMN_SHARE = 0.15;
+/** Lines at least this much larger than body text are headings. */
+const HEADING_SIZE_RATIO = 1.2;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** A vertical gap between two text columns, and the band where both run. */
+interface Gutter {
+  from: number;
+  to: number;
+  top: number;
+  bottom: number;
+}
+
+const maxY = (items: PositionedText[]) => Math.max(...items.map((i) => i.y));
+const minY = (items: PositionedText[]) => Math.min(...items.map((i) => i.y));
+
+/**
+ * Finds the widest vertical strip that almost no text crosses, or null when
+ * the page is single-column.
+ */
+function findGutter(items: PositionedText[], pageWidth: number): Gutter | null {
+  if (items.length < 10 || pageWidth <= 0) return null;
+
+  const binWidth = pageWidth / GUTTER_BINS;
+  const coverage = new Array<number>(GUTTER_BINS).fill(0);
+  for (const item of items) {
+    const from = Math.max(0, Math.floor(item.x / binWidth));
+    const to = Math.min(GUTTER_BINS - 1, Math.floor((item.x + item.width) / binWidth));
+    for (let b = from; b <= to; b++) coverage[b]++;
+  }
+
+  // Headers and full-width rules may cross the gutter; tolerate a few.
+  const maxCrossing = Math.max(2, Math.floor(items.length * 0.08));
+  const minBin = Math.floor(GUTTER_BINS * GUTTER_MIN_X);
+  const maxBin = Math.ceil(GUTTER_BINS * GUTTER_MAX_X);
+
+  const runs: [number, number][] = [];
+  let runStart = -1;
+  for (let b = minBin; b <= maxBin; b++) {
+    const open = b < maxBin && coverage[b] <= maxCrossing;
+    if (open && runStart === -1) runStart = b;
+    if (!open && runStart !== -1) {
+      runs.push([runStart * binWidth, b * binWidth]);
+      runStart = -1;
+    }
+  }
+
+  let best: Gutter | null = null;
+  for (const [runFrom, runTo] of runs) {
+    const left = items.filter((i) => i.x < runFrom && i.x + i.width < runTo);
+    const right = items.filter((i) => i.x > runFrom && i.x + i.width > runTo);
+    if (left.length / items.length < MIN_COLUMN_SHARE || right.length / items.length < MIN_COLUMN_SHARE) {
+      continue;
+    }
+
+    // Columns start where both sides have text; a centred name or contact
+    // row above that doesn't constrain the gutter.
+    const top = Math.min(maxY(left), maxY(right));
+    const bottom = Math.min(minY(left), minY(right));
+
+    // Items inside the band that poke into the run are column edges
+    let from = runFrom;
+    let to = runTo;
+    for (const item of items) {
+      if (item.y > top || item.y < bottom) continue;
+      const end = item.x + item.width;
+      if (end <= runFrom || item.x >= runTo) continue;
+      if (item.x <= runFrom && end >= runTo) continue;
+      if (item.x + item.width / 2 < (runFrom + runTo) / 2) from = Math.max(from, end);
+      else to = Math.min(to, item.x);
+    }
+    if ((to - from) / pageWidth < GUTTER_MIN_WIDTH) continue;
+    if (!best || to - from > best.to - best.from) best = { from, to, top, bottom };
+  }
+  return best;
+}
+
+/**
+ * Groups items of one column into lines (same baseline, within half a font
+ * size) and joins each line left to right, inserting spaces at visible gaps.
+ */
+function buildLines(items: PositionedText[], column: Column): TextLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const last = groups[groups.length - 1];
+    const tolerance = Math.max(item.fontSize, 1) * 0.5;
+    if (last && Math.abs(last[0].y - item.y) <= tolerance) last.push(item);
+    else groups.push([item]);
+  }
+
+  return groups
+    .map((group) => {
+      group.sort((a, b) => a.x - b.x);
+      let text = "";
+      let prevEnd = -Infinity;
+      for (const item of group) {
+        const gap = item.x - prevEnd;
+        if (text && gap > item.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+          text += " ";
+        }
+        text += item.str;
+        prevEnd = item.x + item.width;
+      }
+      return {
+        text: text.replace(/\s+/g, " ").trim(),
+        x: group[0].x,
+        y: group[0].y,
+        fontSize: Math.max(...group.map((i) => i.fontSize)),
+        column,
+      };
+    })
+    .filter((line) => line.text.length > 0);
+}
+
+/**
+ * Orders lines for reading: full-width lines act as horizontal bands, and
+ * between two bands the left column is read before the right one.
+ */
+function orderLines(full: TextLine[], left: TextLine[], right: TextLine[]): TextLine[] {
+  const ordered: TextLine[] = [];
+  const byTop = (a: TextLine, b: TextLine) => b.y - a.y;
+  const bands = [...full].sort(byTop);
+  const pendingLeft = [...left].sort(byTop);
+  const pendingRight = [...right].sort(byTop);
+
+  const flushAbove = (y: number) => {
+    while (pendingLeft.length && pendingLeft[0].y > y) ordered.push(pendingLeft.shift()!);
+    while (pendingRight.length && pendingRight[0].y > y) ordered.push(pendingRight.shift()!);
+  };
+
+  for (const band of bands) {
+    flushAbove(band.y);
+    ordered.push(band);
+  }
+  flushAbove(-Infinity);
+  return ordered;
+}
+
+/**
+ * Splits ordered lines into heading and paragraph blocks. A heading is a
+ * short line set noticeably larger than body text, or one that reads as a
+ * section title; paragraphs break on headings, column changes and large
+ * vertical gaps.
+ */
+function linesToBlocks(lines: TextLine[], page: number): ResumeBlock[] {
+  const bodySize = median(lines.map((l) => l.fontSize));
+  const blocks: ResumeBlock[] = [];
+  let paragraph: TextLine[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    blocks.push({
+      type: "paragraph",
+      text: paragraph.map((l) => l.text).join("\n"),
+      page,
+      column: paragraph[0].column,
+    });
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    const isHeading =
+      line.text.length <= 60 &&
+      (line.fontSize >= bodySize * HEADING_SIZE_RATIO || detectHeading(line.text) !== null);
+
+    if (isHeading) {
+      flush();
+      blocks.push({ type: "heading", text: line.text, page, column: line.column });
+      continue;
+    }
+
+    const prev = paragraph[paragraph.length - 1];
+    if (
+      prev &&
+      (prev.column !== line.column || prev.y - line.y > Math.max(prev.fontSize, line.fontSize) * 2)
+    ) {
+      flush();
+    }
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Reconstructs reading order for one PDF page and returns its blocks.
+ */
+export function layoutPdfPage(
+  items: PositionedText[],
+  pageWidth: number,
+  page: number,
+): ResumeBlock[] {
+  const visible = items.filter((i) => i.str.trim().length > 0);
+  const gutter = findGutter(visible, pageWidth);
+
+  if (!gutter) {
+    return linesToBlocks(orderLines(buildLines(visible, "full"), [], []), page);
+  }
+
+  const inBand = (i: PositionedText) => {
+    const tolerance = Math.max(i.fontSize, 1) * 0.5;
+    return i.y <= gutter.top + tolerance && i.y >= gutter.bottom - tolerance;
+  };
+  const isLeft = (i: PositionedText) => inBand(i) && i.x + i.width <= gutter.from;
+  const isRight = (i: PositionedText) => inBand(i) && i.x >= gutter.to;
+
+  // Rows above or below the columns, or with an item crossing the gutter
+  // (e.g. "email | phone | city"), stay together as full-width bands.
+  const crossing = visible.filter((i) => !isLeft(i) && !isRight(i));
+  const inCrossingRow = (i: PositionedText) =>
+    crossing.some((c) => Math.abs(c.y - i.y) <= Math.max(c.fontSize, 1) * 0.5);
+
+  const full = visible.filter(inCrossingRow);
+  const left = visible.filter((i) => isLeft(i) && !full.includes(i));
+  const right = visible.filter((i) => isRight(i) && !full.includes(i));
+
+  return linesToBlocks(
+    orderLines(buildLines(full, "full"), buildLines(left, "left"), buildLines(right, "right")),
+    page,
+  );
+}
+
+/**
+ * Builds blocks from already-linear text (DOCX, plain text). Blank lines
+ * separate paragraphs and section titles become heading blocks.
+ */
+export function textToBlocks(text: string): ResumeBlock[] {
+  const blocks: ResumeBlock[] = [];
+  for (const chunk of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    let paragraph: string[] = [];
+    const flush = () => {
+      if (paragraph.length === 0) return;
+      blocks.push({ type: "paragraph", text: paragraph.join("\n"), page: 1, column: "full" });
+      paragraph = [];
+    };
+    for (const raw of chunk.split("\n")) {
+      const line = raw.trim();
+      if (!line) continue;
+      if (detectHeading(line) !== null) {
+        flush();
+        blocks.push({ type: "heading", text: line, page: 1, column: "full" });
+      } else {
+        paragraph.push(line);
+      }
+    }
+    flush();
+  }
+  return blocks;
+}
+
+/**
+ * Flattens blocks back into text with one line per visual line and a blank
+ * line between blocks.
+ */
+export function blocksToText(blocks: ResumeBlock[]): string {
+  return blocks.map((b) => b.text).join("\n\n");
+}
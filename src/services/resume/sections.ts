@@ -0,0 +1,128 @@
+/**
+ * Section heading detection and line normalisation for resume text.
+ */
+
+export type ResumeSection =
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "languages"
+  | "awards"
+  | "references"
+  | "other";
+
+export const SECTION_HEADINGS: Record<Exclude<ResumeSection, "other">, RegExp> = {
+  summary:
+    /^(?:professional\s+|career\s+|executive\s+)?(?:summary|profile|objective|about(?:\s+me)?|overview)$/i,
+  experience:
+    /^(?:(?:work|professional|relevant|employment|career|volunteer(?:ing)?|other|additional|previous)\s+)?(?:experience|history|employment(?:\s+history)?|work\s+history|career\s+history)$/i,
+  education:
+    /^(?:education(?:al)?(?:\s+(?:background|history|&\s+training|and\s+training))?|academic\s+(?:background|history|qualifications)|qualifications)$/i,
+  skills:
+    /^(?:(?:technical|core|key|professional)\s+)?(?:skills|competencies|expertise|technologies|tech\s+stack|skills\s+(?:&|and)\s+\w+)$/i,
+  projects: /^(?:personal\s+|selected\s+|key\s+)?projects$/i,
+  certifications:
+    /^(?:certifications?|licen[cs]es?(?:\s+(?:&|and)\s+certifications?)?|certificates?)$/i,
+  languages: /^languages?$/i,
+  awards: /^(?:awards?|honou?rs?|achievements?)(?:\s+(?:&|and)\s+\w+)?$/i,
+  references: /^references?$/i,
+};
+
+/** Words that commonly open a heading — used to split flattened text. */
+const HEADING_SPLIT_RE =
+  /\s+((?:PROFESSIONAL\s+|WORK\s+|CAREER\s+|TECHNICAL\s+|VOLUNTEER\s+|OTHER\s+)?(?:SUMMARY|PROFILE|OBJECTIVE|EXPERIENCE|EMPLOYMENT(?:\s+HISTORY)?|EDUCATION|SKILLS|PROJECTS|CERTIFICATIONS?|LANGUAGES|AWARDS|REFERENCES))\b:?/g;
+
+const BULLET_SPLIT_RE = /\s+(?=[•▪●◦■►‣∙]\s)/g;
+
+/**
+ * Splits raw text into trimmed, non-empty lines.
+ *
+ * Some extractors return a page as one long run of text. When lines are
+ * suspiciously long, ALL-CAPS headings and bullet characters are used as
+ * extra line breaks so section detection still has something to work with.
+ */
+export function normalizeLines(text: string): string[] {
+  let lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const avgLength =
+    lines.reduce((sum, l) => sum + l.length, 0) / Math.max(lines.length, 1);
+  if (avgLength > 160) {
+    lines = lines.flatMap((l) =>
+      l
+        .replace(HEADING_SPLIT_RE, "\n$1\n")
+        .replace(BULLET_SPLIT_RE, "\n")
+        .split("\n")
+        .map((s) => s.trim())
+        .filter(Boolean),
+    );
+  }
+  return lines;
+}
+
+/**
+ * Classifies a line as a section heading, or returns null.
+ * Known headings are matched by name; other short ALL-CAPS lines become
+ * "other" so that unrelated sections don't bleed into the previous one.
+ */
+export function detectHeading(line: string): ResumeSection | null {
+  const cleaned = line
+    .replace(/^[\s#*_=•\-–—]+|[\s:*_=\-–—]+$/g, "")
+    .trim();
+  if (!cleaned || cleaned.length > 40) return null;
+
+  for (const [section, re] of Object.entries(SECTION_HEADINGS)) {
+    if (re.test(cleaned)) return section as ResumeSection;
+  }
+
+  const letters = cleaned.replace(/[^a-z]/gi, "");
+  const words = cleaned.split(/\s+/);
+  if (
+    letters.length >= 4 &&
+    words.length <= 4 &&
+    cleaned === cleaned.toUpperCase() &&
+    !/\d/.test(cleaned) &&
+    !/[@|,]/.test(cleaned)
+  ) {
+    return "other";
+  }
+  return null;
+}
+
+export interface SectionedResume {
+  /** Lines before the first heading — usually name and contact details. */
+  header: string[];
+  sections: Partial<Record<ResumeSection, string[]>>;
+}
+
+/**
+ * Groups lines under the heading they follow. Repeated headings of the same
+ * kind (e.g. "Work Experience" and "Volunteer Experience") are concatenated.
+ */
+export function splitSections(lines: string[]): SectionedResume {
+  const result: SectionedResume = { header: [], sections: {} };
+  let current: ResumeSection | null = null;
+
+  for (const line of lines) {
+    const heading = detectHeading(line);
+    // An ALL-CAPS line before any known heading is usually the candidate's name
+    if (heading === "other" && current === null) {
+      result.header.push(line);
+      continue;
+    }
+    if (heading) {
+      current = heading;
+      result.sections[current] = result.sections[current] || [];
+      continue;
+    }
+    if (current) result.sections[current]!.push(line);
+    else result.header.push(line);
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+import type {
+  Education,
+  Experience,
+  ResumeExtraction,
+  UserData,
+} from "../types";
+import { normalizeLines, splitSections } from "./resume/sections";
+import { extractContactInfo, type Scored } from "./resume/contact";
+import {
+  extractEducation,
+  extractExperience,
+  extractSkills,
+  extractSummary,
+  type ScoredEntry,
+} from "./resume/entries";
+
+// Re-export all submodules so consumers can reuse the date/section helpers
+export * from "./resume";
+
+/** Fields below this confidence are flagged for review in the UI. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+function unscoreEntry<T extends object>(
+  entry: ScoredEntry<T>,
+  keys: (keyof T)[],
+): { value: T; confidence: Partial<Record<keyof T, number>> } {
+  const value = {} as Record<keyof T, string>;
+  const confidence: Partial<Record<keyof T, number>> = {};
+  for (const key of keys) {
+    const scored = entry[key];
+    value[key] = scored?.value ?? "";
+    if (scored) confidence[key] = scored.confidence;
+  }
+  return { value: value as T, confidence };
+}
+
+/**
+ * Deterministically extracts profile data from plain resume text — no AI
+ * key or network access required.
+ *
+ * Only keys that were actually found are present in `data`, so the result
+ * can be merged over an existing profile without blanking anything.
+ */
+export function extractResumeData(text: string): ResumeExtraction {
+  const lines = normalizeLines(text);
+  const { header, sections } = splitSections(lines);
+
+  const result: ResumeExtraction = {
+    data: {},
+    confidence: { fields: {}, experience: [], education: [] },
+  };
+  const data = result.data as Record<string, unknown>;
+
+  const setField = (key: keyof UserData, scored?: Scored<unknown>) => {
+    if (!scored) return;
+    data[key] = scored.value;
+    result.confidence.fields[key] = scored.confidence;
+  };
+
+  // Resumes without headings still have contact details in the first lines
+  const contactHeader = header.length > 0 ? header : lines.slice(0, 8);
+  const contact = extractContactInfo(contactHeader, lines);
+  for (const [key, scored] of Object.entries(contact)) {
+    setField(key as keyof UserData, scored);
+  }
+
+  setField("summary", extractSummary(sections.summary || []));
+  setField("skills", extractSkills(sections.skills || []));
+
+  const experience = extractExperience(sections.experience || []).map((e) =>
+    unscoreEntry<Experience>(e, ["company", "position", "duration", "description"]),
+  );
+  if (experience.length > 0) {
+    data.experience = experience.map((e) => e.value);
+    result.confidence.experience = experience.map((e) => e.confidence);
+  }
+
+  const education = extractEducation(sections.education || []).map((e) =>
+    unscoreEntry<Education>(e, ["school", "degree", "year"]),
+  );
+  if (education.length > 0) {
+    data.education = education.map((e) => e.value);
+    result.confidence.education = education.map((e) => e.confidence);
+  }
+
+  return result;
+}
+
+/**
+ * Counts extracted values whose confidence is below the review threshold.
+ */
+export function countLowConfidence(
+  extraction: ResumeExtraction,
+  threshold = LOW_CONFIDENCE_THRESHOLD,
+): number {
+  const { fields, experience, education } = extraction.confidence;
+  return [
+    ...Object.values(fields),
+    ...experience.flatMap((e) => Object.values(e)),
+    ...education.flatMap((e) => Object.values(e)),
+  ].filter((c) => (c ?? 1) < threshold).length;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Overlays an AI-refined result on the rule-based draft. Refined values win
+ * when non-empty; the draft fills any gaps the model left.
+ */
+export function mergeResumeData(
+  draft: Partial<UserData>,
+  refined: Partial<UserData>,
+): Partial<UserData> {
+  const merged: Record<string, unknown> = { ...draft };
+  for (const [key, value] of Object.entries(refined)) {
+    if (!isEmpty(value)) merged[key] = value;
+  }
+  return merged as Partial<UserData>;
+}
@@ -1,31 +1,34 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
 import mammoth from 'mammoth';
+import type { ParsedResume, ResumeBlock } from '../types';
+import { layoutPdfPage, textToBlocks, blocksToText, type PositionedText } from './resume/layout';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.js');
 
 export class ResumeParser {
     /**
-     * Main entry point - parse any file type
+     * Main entry point - parse any file type into reading-order text and blocks
      */
-    async parseFile(file: File): Promise<string> {
+    async parseFile(file: File): Promise<ParsedResume> {
         const fileType = file.type;
-        let text = '';
+        let blocks: ResumeBlock[] = [];
 
         try {
             if (fileType === 'application/pdf') {
-                text = await this.parsePDF(file);
+                blocks = await this.parsePDF(file);
             } else if (
                 fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                 fileType === 'application/msword'
             ) {
-                text = await this.parseDOCX(file);
+                blocks = textToBlocks(await this.parseDOCX(file));
             } else if (fileType === 'text/plain') {
-                text = await this.parseText(file);
+                blocks = textToBlocks(await this.parseText(file));
             } else {
                 throw new Error('Unsupported file type');
             }
 
-            return text;
+            return { text: blocksToText(blocks), blocks };
         } catch (error) {
             console.error('Error parsing file:', error);
             throw error;
@@ -33,23 +36,31 @@ export class ResumeParser {
     }
 
     /**
-     * Parse PDF file
+     * Parse PDF file, rebuilding lines and column order from item positions
      */
-    private async parsePDF(file: File): Promise<string> {
+    private async parsePDF(file: File): Promise<ResumeBlock[]> {
         const arrayBuffer = await file.arrayBuffer();
         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        let fullText = '';
+        const blocks: ResumeBlock[] = [];
 
         for (let i = 1; i <= pdf.numPages; i++) {
             const page = await pdf.getPage(i);
+            const { width } = page.getViewport({ scale: 1 });
             const textContent = await page.getTextContent();
-            const pageText = textContent.items
-                .map((item: any) => item.str)
-                .join(' ');
-            fullText += pageText + '\n';
+            const items: PositionedText[] = textContent.items
+                .filter((item): item is TextItem => 'str' in item)
+                .map((item) => ({
+                    str: item.str,
+                    x: item.transform[4],
+                    y: item.transform[5],
+                    width: item.width,
+                    // Vertical scale of the text matrix is the rendered font size
+                    fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+                }));
+            blocks.push(...layoutPdfPage(items, width, i));
         }
 
-        return fullText;
+        return blocks;
     }
 
     /**
@@ -69,4 +80,4 @@ export class ResumeParser {
     }
 }
 
-export const resumeParser = new ResumeParser();
\ No newline at end of file
+export const resumeParser = new ResumeParser();
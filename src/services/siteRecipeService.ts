@@ -0,0 +1,363 @@
+/**
+ * siteRecipeService.ts
+ *
+ * Persistent "site recipes": the field mappings that were actually filled on a
+ * form, keyed by hostname + URL path pattern + field signature. On a later
+ * visit to the same form the recipe is replayed instead of calling the AI or
+ * the heuristic matcher.
+ *
+ * Recipes store field types, not profile values — values are resolved from the
+ * active profile at fill time. The exception is a pinned mapping (a user
+ * override), whose value is stored and filled verbatim.
+ *
+ * Stored in chrome.storage.local under `siteRecipes`. Pinned values are
+ * sealed with the vault key (storageService.sealValues); reseal() carries
+ * them over when the vault key changes.
+ *
+ * Architecture Design System — Layer 4: Data Layer
+ */
+
+import type { FieldMapping, SiteRecipe } from '../types';
+import { storageService } from './storageService';
+
+const RECIPES_KEY = 'siteRecipes';
+const MAX_RECIPES = 300; // least recently used recipes are evicted beyond this
+const EXPORT_VERSION = 1;
+
+/* 
+   KEYS
+ */
+
+/** Path segments that look like record IDs rather than routes. */
+function isIdSegment(segment: string): boolean {
+    return (
+        /^\d+$/.test(segment) ||                          // 12345
+        /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(segment) || // uuid
+        /^[0-9a-f]{12,}$/i.test(segment) ||               // hex hashes
+        (segment.length >= 8 && /\d.*\d/.test(segment) && /^[\w-]+$/.test(segment)) // R0012345, JR-102938
+    );
+}
+
+// URL → path pattern with ID-like segments replaced by "*", so every posting
+// on the same ATS tenant shares one recipe. Query and hash are ignored.
+//   https://jobs.lever.co/acme/4f1c9a2e-…/apply?src=x  →  /acme/*/apply
+export function toPathPattern(url: string): string {
+    let path: string;
+    try {
+        path = new URL(url).pathname;
+    } catch {
+        path = url.split(/[?#]/)[0];
+    }
+    const segments = path
+        .split('/')
+        .filter(Boolean)
+        .map(s => (isIdSegment(decodeURIComponentSafe(s)) ? '*' : s.toLowerCase()));
+    return '/' + segments.join('/');
+}
+
+function decodeURIComponentSafe(s: string): string {
+    try {
+        return decodeURIComponent(s);
+    } catch {
+        return s;
+    }
+}
+
+function hostnameOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
+
+/** Short stable hash (FNV-1a, 32-bit) so long signatures make compact keys. */
+function hashSignature(signature: string): string {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < signature.length; i++) {
+        h ^= signature.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+export function recipeKey(url: string, fieldSignature: string): string {
+    return `${hostnameOf(url)}${toPathPattern(url)}#${hashSignature(fieldSignature)}`;
+}
+
+/* 
+   MAPPINGS
+ */
+
+/** Strip resolved values (and file payloads) — a recipe keeps what to fill, not with what. */
+function toRecipeMapping(mapping: FieldMapping): FieldMapping {
+    const copy: FieldMapping = { ...mapping };
+    delete copy.fileData;
+    delete copy.fileName;
+    delete copy.files;
+    delete copy.reasoning;
+    delete copy.candidates;
+    delete copy.locator; // Re-taken from the next scan — the page layout may have changed
+    delete copy.locatedBy;
+    if (!copy.pinned || copy.selectedValue === undefined) {
+        delete copy.pinned;
+        delete copy.selectedValue;
+    }
+    return copy;
+}
+
+const mappingId = (m: FieldMapping) => m.id || m.fieldId;
+
+function isRecipe(value: unknown): value is SiteRecipe {
+    const r = value as SiteRecipe;
+    return !!r && typeof r === 'object' &&
+        typeof r.hostname === 'string' &&
+        typeof r.pathPattern === 'string' &&
+        typeof r.fieldSignature === 'string' &&
+        Array.isArray(r.mappings);
+}
+
+/* 
+   PINNED VALUES (sealed with the vault key)
+ */
+
+/** Seals pinned values for storage. The value is kept as JSON, since it may be a list. */
+async function sealPinned(mappings: FieldMapping[]): Promise<FieldMapping[]> {
+    const pinned = mappings.filter(m => m.pinned && m.selectedValue !== undefined);
+    const sealed = await storageService.sealValues(pinned.map(m => JSON.stringify(m.selectedValue)));
+    const byMapping = new Map(pinned.map((m, i) => [m, sealed[i]]));
+    return mappings.map(m => (byMapping.has(m) ? { ...m, selectedValue: byMapping.get(m) } : m));
+}
+
+/**
+ * Opens pinned values. One sealed under an older key loses its pin, so the
+ * field is resolved from the profile again. Throws VaultLockedError while
+ * the vault is locked.
+ */
+async function openPinned(mappings: FieldMapping[]): Promise<FieldMapping[]> {
+    const pinned = mappings.filter(m => m.pinned && typeof m.selectedValue === 'string');
+    const opened = await storageService.openValues(pinned.map(m => m.selectedValue as string));
+    const byMapping = new Map(pinned.map((m, i) => [m, opened[i]]));
+    return mappings.map(m => {
+        if (!byMapping.has(m)) return m;
+        const value = byMapping.get(m);
+        if (value != null) return { ...m, selectedValue: JSON.parse(value) as FieldMapping['selectedValue'] };
+        const copy = { ...m };
+        delete copy.pinned;
+        delete copy.selectedValue;
+        return copy;
+    });
+}
+
+/* 
+   STORAGE
+ */
+
+async function readRecipes(): Promise<Record<string, SiteRecipe>> {
+    const result = await chrome.storage.local.get([RECIPES_KEY]);
+    return (result[RECIPES_KEY] as Record<string, SiteRecipe> | undefined) ?? {};
+}
+
+async function writeRecipes(recipes: Record<string, SiteRecipe>): Promise<void> {
+    const keys = Object.keys(recipes);
+    if (keys.length > MAX_RECIPES) {
+        keys.sort((a, b) => recipes[a].lastUsedAt - recipes[b].lastUsedAt)
+            .slice(0, keys.length - MAX_RECIPES)
+            .forEach(k => delete recipes[k]);
+    }
+    await chrome.storage.local.set({ [RECIPES_KEY]: recipes });
+}
+
+/**
+ * Read-modify-write calls are chained so a fill's record() and the hand
+ * corrections that follow it never overwrite each other.
+ */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = writeQueue.then(task);
+    writeQueue = next.catch(() => undefined);
+    return next;
+}
+
+export const siteRecipeService = {
+    /* ── Find the recipe for this form and mark it used (unless `markUsed` is false). Returns fresh mapping copies. ── */
+    async replay(url: string, fieldSignature: string, { markUsed = true } = {}): Promise<FieldMapping[] | null> {
+        const mappings = await enqueue(async () => {
+            const recipes = await readRecipes();
+            const key = recipeKey(url, fieldSignature);
+            const recipe = recipes[key];
+            if (!recipe || recipe.fieldSignature !== fieldSignature || recipe.mappings.length === 0) return null;
+            if (!markUsed) return JSON.parse(JSON.stringify(recipe.mappings)) as FieldMapping[];
+
+            recipe.uses += 1;
+            recipe.lastUsedAt = Date.now();
+            await writeRecipes(recipes);
+            console.log(`Aullevo recipe HIT for ${key} (${recipe.mappings.length} mappings, used ${recipe.uses}×)`);
+            return JSON.parse(JSON.stringify(recipe.mappings)) as FieldMapping[];
+        });
+        return mappings && openPinned(mappings);
+    },
+
+    /**
+     * Save the mappings that were actually filled (plus "Add row" buttons).
+     * This fill's mappings replace the stored ones, pins included: a value
+     * edited again in the preview is the one kept, and a pinned field the
+     * fill left out (skipped) loses its pin. `labels` holds every field of
+     * the scanned form; only pins on fields outside it are carried over.
+     */
+    async record(url: string, fieldSignature: string, mappings: FieldMapping[], labels: Record<string, string> = {}): Promise<void> {
+        if (mappings.length === 0) return;
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            const key = recipeKey(url, fieldSignature);
+            const existing = recipes[key];
+            const previous = new Map((existing?.mappings ?? []).map(m => [mappingId(m), m]));
+            const pinned = new Map([...previous].filter(([, m]) => m.pinned)); // Still sealed
+
+            const now = Date.now();
+            const recorded = await sealPinned(mappings.map(m => toRecipeMapping({
+                ...m,
+                label: m.label || labels[mappingId(m)] || previous.get(mappingId(m))?.label,
+            })));
+            const next = [...recorded];
+            // Keep pins on fields this scan didn't see; a field on the form
+            // that the fill left out was skipped
+            for (const [id, m] of pinned) {
+                if (!Object.hasOwn(labels, id) && !next.some(n => mappingId(n) === id)) next.push(m);
+            }
+
+            recipes[key] = {
+                key,
+                hostname: hostnameOf(url),
+                pathPattern: toPathPattern(url),
+                fieldSignature,
+                mappings: next,
+                createdAt: existing?.createdAt ?? now,
+                updatedAt: now,
+                lastUsedAt: now,
+                uses: existing?.uses ?? 0,
+            };
+            await writeRecipes(recipes);
+        });
+    },
+
+    /**
+     * Apply a hand correction to one recorded field: a new field type when
+     * the typed value is in the profile, otherwise a pinned value.
+     * Returns false when the form or field has no recipe.
+     */
+    async correctMapping(url: string, fieldSignature: string, fieldId: string, fix: { fieldType: string } | { value: string }): Promise<boolean> {
+        const [sealed] = 'value' in fix ? await storageService.sealValues([JSON.stringify(fix.value)]) : [];
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            const recipe = recipes[recipeKey(url, fieldSignature)];
+            const mapping = recipe?.mappings.find(m => mappingId(m) === fieldId);
+            if (!recipe || !mapping) return false;
+
+            if ('fieldType' in fix) {
+                mapping.fieldType = fix.fieldType;
+                delete mapping.groupType;
+                delete mapping.groupIndex;
+                delete mapping.pinned;
+                delete mapping.selectedValue;
+            } else {
+                mapping.pinned = true;
+                mapping.selectedValue = sealed;
+            }
+            recipe.updatedAt = Date.now();
+            await writeRecipes(recipes);
+            return true;
+        });
+    },
+
+    /* ── Management (options page) ── */
+    /** Recipes with their pinned values opened. Throws VaultLockedError while the vault is locked. */
+    async list(): Promise<SiteRecipe[]> {
+        const recipes = await Promise.all(Object.values(await readRecipes()).map(async r => ({
+            ...r,
+            mappings: await openPinned(r.mappings),
+        })));
+        return recipes.sort((a, b) =>
+            a.hostname.localeCompare(b.hostname) || a.pathPattern.localeCompare(b.pathPattern)
+        );
+    },
+
+    /** Replace a recipe's mappings after the user edited them (field types / pinned values). */
+    async updateMappings(key: string, mappings: FieldMapping[]): Promise<void> {
+        const sealed = await sealPinned(mappings.map(toRecipeMapping));
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            const recipe = recipes[key];
+            if (!recipe) throw new Error('Recipe not found.');
+            recipe.mappings = sealed;
+            recipe.updatedAt = Date.now();
+            await writeRecipes(recipes);
+        });
+    },
+
+    async delete(key: string): Promise<void> {
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            delete recipes[key];
+            await chrome.storage.local.set({ [RECIPES_KEY]: recipes });
+        });
+    },
+
+    async clear(): Promise<void> {
+        return enqueue(() => chrome.storage.local.remove(RECIPES_KEY));
+    },
+
+    /**
+     * Runs `rekey` (a vault passphrase change) and re-seals every pinned
+     * value under the new key. Needs the current key, i.e. an unlocked vault.
+     */
+    async reseal(rekey: () => Promise<void>): Promise<void> {
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            const entries = await Promise.all(Object.entries(recipes).map(async ([key, r]) =>
+                [key, await openPinned(r.mappings)] as const));
+            await rekey();
+            for (const [key, mappings] of entries) {
+                recipes[key] = { ...recipes[key], mappings: await sealPinned(mappings) };
+            }
+            await writeRecipes(recipes);
+        });
+    },
+
+    async exportRecipes(): Promise<string> {
+        const recipes = await this.list();
+        return JSON.stringify({ version: EXPORT_VERSION, recipes, exportedAt: new Date().toISOString() }, null, 2);
+    },
+
+    /** Merge recipes from an export file. Keys are recomputed; imported recipes win on conflict. Returns the count. */
+    async importRecipes(json: string): Promise<number> {
+        const parsed = JSON.parse(json);
+        if (!Array.isArray(parsed.recipes)) {
+            throw new Error('Invalid recipe file: missing "recipes" array.');
+        }
+        const imported: SiteRecipe[] = [];
+        for (const r of parsed.recipes as unknown[]) {
+            if (!isRecipe(r)) continue;
+            const key = `${r.hostname}${r.pathPattern}#${hashSignature(r.fieldSignature)}`;
+            const now = Date.now();
+            imported.push({
+                key,
+                hostname: r.hostname,
+                pathPattern: r.pathPattern,
+                fieldSignature: r.fieldSignature,
+                mappings: await sealPinned(r.mappings.map(toRecipeMapping)), // Exports hold them opened
+                createdAt: r.createdAt || now,
+                updatedAt: now,
+                lastUsedAt: r.lastUsedAt || now,
+                uses: r.uses || 0,
+            });
+        }
+        return enqueue(async () => {
+            const recipes = await readRecipes();
+            for (const r of imported) recipes[r.key] = r;
+            await writeRecipes(recipes);
+            return imported.length;
+        });
+    },
+};
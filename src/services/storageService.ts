@@ -4,18 +4,73 @@
  * AES-256-GCM encrypted storage for all user profile data.
  * Multi-profile vault with import/export support.
  *
+ * Key modes:
+ *   • device     — a random key stored in chrome.storage.local (default; protects
+ *                  against casual inspection only).
+ *   • passphrase — the key is derived with PBKDF2 from a master passphrase; only the
+ *                  salt is stored. While unlocked the derived key is held in
+ *                  chrome.storage.session (memory only) and auto-locks when idle.
+ *
+ * Profiles carry a schemaVersion; older profiles are upgraded through the
+ * ordered migrations in services/profile when read or imported.
+ *
  * Architecture Design System — Layer 4: Data Layer
  * 
  */
 
 import type { UserData } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateProfile, migrateVault, refreshProfileDates } from './profile';
 
 const PROFILES_KEY = 'aullevo_profiles';       // encrypted profiles vault
 const ACTIVE_KEY = 'aullevo_active_profile'; // name of active profile
-const CRYPTO_KEY_RAW = 'aullevo_ck';           // raw key material (base64)
+const CRYPTO_KEY_RAW = 'aullevo_ck';           // raw key material (base64) — device-key mode only
+const KDF_KEY = 'aullevo_vault_kdf';           // PBKDF2 salt + verifier — passphrase mode only
+const AUTO_LOCK_KEY = 'vaultAutoLockMinutes';  // idle minutes before the vault re-locks (0 = never)
+
+// chrome.storage.session — in memory only, cleared when the browser closes
+const SESSION_KEY_RAW = 'aullevo_session_key';     // derived key while unlocked
+const SESSION_ACTIVITY = 'aullevo_vault_activity'; // last vault access (ms)
+
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+interface KdfParams {
+    salt: string;       // base64
+    iterations: number;
+    check: string;      // encrypt({ ok: true }) with the derived key — verifies the passphrase
+}
+
+export interface VaultStatus {
+    mode: 'device' | 'passphrase';
+    locked: boolean;
+    autoLockMinutes: number;
+}
+
+/** Thrown by vault operations while passphrase mode is on and the vault is locked. */
+export class VaultLockedError extends Error {
+    constructor() {
+        super('Your profile vault is locked. Unlock it in Aullevo settings to continue.');
+        this.name = 'VaultLockedError';
+    }
+}
+
+export const isVaultLockedError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'VaultLockedError';
+
+/** Thrown when the stored vault does not decrypt with the current key. The vault is left untouched. */
+export class VaultDecryptError extends Error {
+    constructor() {
+        super('Your profile vault could not be decrypted with the current key. Nothing was changed.');
+        this.name = 'VaultDecryptError';
+    }
+}
+
+export const isVaultDecryptError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'VaultDecryptError';
 
 /* 
-   KEY MANAGEMENT — derive/load a persistent AES-256 key
+   KEY MANAGEMENT — device key (default) or passphrase-derived key
  */
 
 async function getOrCreateKey(): Promise<CryptoKey> {
@@ -35,7 +90,7 @@ async function getOrCreateKey(): Promise<CryptoKey> {
                         { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']
                     );
                     const raw = await crypto.subtle.exportKey('raw', key);
-                    chrome.storage.local.set({ [CRYPTO_KEY_RAW]: bufferToBase64(raw) });
+                    await chrome.storage.local.set({ [CRYPTO_KEY_RAW]: bufferToBase64(raw) });
                     resolve(key);
                 }
             } catch (err) {
@@ -45,6 +100,70 @@ async function getOrCreateKey(): Promise<CryptoKey> {
     });
 }
 
+/** KDF params, or null in device mode. A stored null also means device mode (see disablePassphrase). */
+async function readKdfParams(): Promise<KdfParams | null> {
+    const result = await chrome.storage.local.get([KDF_KEY]);
+    return (result[KDF_KEY] as KdfParams | null | undefined) ?? null;
+}
+
+/** Derive an AES-256-GCM key from a passphrase. Extractable so it can be kept in session storage. */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(passphrase) as unknown as BufferSource, 'PBKDF2', false, ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as unknown as BufferSource, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/** Derive a key for new KDF params (fresh salt) and build its verifier. */
+async function createKdfParams(passphrase: string): Promise<{ params: KdfParams; key: CryptoKey }> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const check = await encrypt({ ok: true }, key);
+    return { params: { salt: bufferToBase64(salt), iterations: PBKDF2_ITERATIONS, check }, key };
+}
+
+/** Derive the key for existing KDF params, rejecting a wrong passphrase. */
+async function verifyPassphrase(passphrase: string, params: KdfParams): Promise<CryptoKey> {
+    const key = await deriveKey(passphrase, base64ToBuffer(params.salt), params.iterations);
+    try {
+        await decrypt(params.check, key);
+    } catch {
+        throw new Error('Incorrect passphrase.');
+    }
+    return key;
+}
+
+async function storeSessionKey(key: CryptoKey): Promise<void> {
+    const raw = await crypto.subtle.exportKey('raw', key);
+    await chrome.storage.session.set({ [SESSION_KEY_RAW]: bufferToBase64(raw), [SESSION_ACTIVITY]: Date.now() });
+}
+
+/**
+ * Resolve the key that encrypts the vault.
+ * Passphrase mode: the unlocked key from session storage (throws VaultLockedError when locked).
+ * Device mode: the stored device key.
+ */
+async function getVaultKey(): Promise<CryptoKey> {
+    if (!(await readKdfParams())) return getOrCreateKey();
+
+    const session = await chrome.storage.session.get([SESSION_KEY_RAW]);
+    const raw = session[SESSION_KEY_RAW] as string | undefined;
+    if (!raw) throw new VaultLockedError();
+
+    chrome.storage.session.set({ [SESSION_ACTIVITY]: Date.now() });
+    const bytes = base64ToBuffer(raw);
+    return crypto.subtle.importKey('raw', bytes.buffer as ArrayBuffer, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
 /* 
    ENCRYPT / DECRYPT
  */
@@ -78,21 +197,34 @@ async function decrypt(ciphertext: string, key: CryptoKey): Promise<object> {
    PROFILE CRUD
  */
 
-/** Read the raw encrypted vault from storage */
+/** Read the encrypted vault from storage, upgrading outdated profiles to the current schema */
 async function readVault(key: CryptoKey): Promise<Record<string, UserData>> {
-    return new Promise((resolve) => {
-        chrome.storage.local.get([PROFILES_KEY], async (result) => {
-            const raw = result[PROFILES_KEY] as string | undefined;
-            if (!raw) return resolve({});
-            try {
-                const vault = await decrypt(raw, key) as Record<string, UserData>;
-                resolve(vault);
-            } catch {
-                // Decryption failed (e.g. key rotation) — return empty
-                resolve({});
-            }
-        });
-    });
+    const result = await chrome.storage.local.get([PROFILES_KEY]);
+    const raw = result[PROFILES_KEY] as string | undefined;
+    if (!raw) return {};
+    let stored: Record<string, unknown>;
+    try {
+        stored = await decrypt(raw, key) as Record<string, unknown>;
+    } catch {
+        // Never hand back an empty vault here: the next save would overwrite the user's data
+        throw new VaultDecryptError();
+    }
+    const { vault, changed } = migrateVault(stored);
+    // Persist once so migrations don't re-run on every read
+    if (changed) await writeVault(vault, key);
+    return vault;
+}
+
+/** Read the vault, throwing if it exists but can't be decrypted (used when switching keys) */
+async function readVaultStrict(key: CryptoKey): Promise<Record<string, UserData>> {
+    const result = await chrome.storage.local.get([PROFILES_KEY]);
+    const raw = result[PROFILES_KEY] as string | undefined;
+    if (!raw) return {};
+    try {
+        return await decrypt(raw, key) as Record<string, UserData>;
+    } catch {
+        throw new VaultDecryptError();
+    }
 }
 
 /** Write the encrypted vault back to storage */
@@ -106,35 +238,38 @@ async function writeVault(vault: Record<string, UserData>, key: CryptoKey): Prom
 export const storageService = {
     /* ── Save a profile (creates or overwrites) ── */
     async saveProfile(name: string, data: UserData): Promise<void> {
-        const key = await getOrCreateKey();
+        const key = await getVaultKey();
         const vault = await readVault(key);
-        vault[name] = data;
+        // Callers may hand in an older shape (imports, the sidebar's cached copy),
+        // and structured dates must follow any edited duration / year text
+        const profile = refreshProfileDates(migrateProfile(data).profile);
+        vault[name] = { ...profile, schemaVersion: CURRENT_SCHEMA_VERSION };
         await writeVault(vault, key);
 
-        // Keep chrome.storage.local.userData in sync if this is the active profile
+        // Keep the userData mirror in sync if this is the active profile
         const activeName = await this.getActiveProfileName();
         if (name === activeName && typeof chrome !== 'undefined' && chrome.storage) {
-            await chrome.storage.local.set({ userData: data });
+            await this.mirrorUserData(vault[name]);
         }
     },
 
     /* ── Load a named profile ── */
     async loadProfile(name: string): Promise<UserData | null> {
-        const key = await getOrCreateKey();
+        const key = await getVaultKey();
         const vault = await readVault(key);
         return vault[name] ?? null;
     },
 
     /* ── List all saved profile names ── */
     async listProfiles(): Promise<string[]> {
-        const key = await getOrCreateKey();
+        const key = await getVaultKey();
         const vault = await readVault(key);
         return Object.keys(vault);
     },
 
     /* ── Delete a profile ── */
     async deleteProfile(name: string): Promise<void> {
-        const key = await getOrCreateKey();
+        const key = await getVaultKey();
         const vault = await readVault(key);
         delete vault[name];
         await writeVault(vault, key);
@@ -151,7 +286,7 @@ export const storageService = {
         await new Promise<void>(resolve => chrome.storage.local.set({ [ACTIVE_KEY]: name }, () => resolve()));
         const data = await this.loadProfile(name);
         if (data && typeof chrome !== 'undefined' && chrome.storage) {
-            await chrome.storage.local.set({ userData: data });
+            await this.mirrorUserData(data);
         }
     },
 
@@ -163,38 +298,167 @@ export const storageService = {
 
     /* ── Export all profiles as a JSON string (for download) ── */
     async exportAllProfiles(): Promise<string> {
-        const key = await getOrCreateKey();
+        const key = await getVaultKey();
         const vault = await readVault(key);
-        return JSON.stringify({ version: 1, profiles: vault, exportedAt: new Date().toISOString() }, null, 2);
+        return JSON.stringify({
+            version: 1,
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            profiles: vault,
+            exportedAt: new Date().toISOString(),
+        }, null, 2);
     },
 
-    /* ── Import profiles from a JSON string ── */
+    /* ── Import profiles from a JSON string (older exports are migrated) ── */
     async importProfiles(json: string, merge = true): Promise<void> {
         const parsed = JSON.parse(json);
         if (!parsed.profiles || typeof parsed.profiles !== 'object') {
             throw new Error('Invalid export format: missing "profiles" object.');
         }
-        const key = await getOrCreateKey();
+        let imported: Record<string, UserData>;
+        try {
+            imported = migrateVault(parsed.profiles).vault;
+        } catch (err) {
+            throw new Error(`Invalid export format: ${(err as Error).message}`);
+        }
+        const key = await getVaultKey();
         const existing = merge ? await readVault(key) : {};
-        const merged = { ...existing, ...parsed.profiles };
+        const merged = { ...existing, ...imported };
         await writeVault(merged, key);
     },
 
-    /* ── Migrate legacy unencrypted userData to vault ── */
+    /* ── Migrate legacy unencrypted userData to vault ──
+       One-shot: only runs before a vault exists, so the mirror never overwrites a saved profile. */
     async migrateLegacyData(): Promise<void> {
-        return new Promise(resolve => {
-            chrome.storage.local.get(['userData'], async (result) => {
-                if (result.userData) {
-                    const legacyData = result.userData as UserData;
-                    // Save it under 'Default' profile in encrypted vault
-                    await this.saveProfile('Default', legacyData);
-                    // Keep userData synced in local storage
-                    chrome.storage.local.set({ userData: legacyData }, resolve);
-                } else {
-                    resolve();
-                }
-            });
+        // Passphrase mode never keeps a plaintext copy in local storage
+        if (await readKdfParams()) return;
+        const result = await chrome.storage.local.get([PROFILES_KEY, 'userData']);
+        if (result[PROFILES_KEY] || !result.userData) return;
+        const { profile } = migrateProfile(result.userData);
+        // Save it under the 'Default' profile in the encrypted vault
+        await this.saveProfile('Default', profile);
+        await chrome.storage.local.set({ userData: profile });
+    },
+
+    /* ── Plaintext userData mirror ──
+       Fast-read copy of the active profile for the popup, sidebar and fill engine.
+       In passphrase mode it lives in session storage so nothing readable is left on disk. */
+    async mirrorUserData(data: Partial<UserData>): Promise<void> {
+        if (await readKdfParams()) {
+            await chrome.storage.session.set({ userData: data });
+            await chrome.storage.local.remove('userData');
+        } else {
+            await chrome.storage.local.set({ userData: data });
+        }
+    },
+
+    async readUserDataMirror(): Promise<Partial<UserData> | null> {
+        const area = (await readKdfParams()) ? chrome.storage.session : chrome.storage.local;
+        const result = await area.get(['userData']);
+        // The mirror may predate schema versioning — upgrade in memory
+        return result.userData ? migrateProfile(result.userData).profile : null;
+    },
+
+    /* ── Values kept outside the vault (e.g. application log answers), sealed with the vault key ── */
+    async sealValues(values: string[]): Promise<string[]> {
+        if (values.length === 0) return [];
+        const key = await getVaultKey();
+        return Promise.all(values.map(value => encrypt({ value }, key)));
+    },
+
+    /** Open sealValues() output. A value that no longer decrypts (the key has changed) comes back as null. */
+    async openValues(sealed: string[]): Promise<(string | null)[]> {
+        if (sealed.length === 0) return [];
+        const key = await getVaultKey();
+        return Promise.all(sealed.map(s =>
+            decrypt(s, key).then(plain => (plain as { value?: string }).value ?? null, () => null)
+        ));
+    },
+
+    /* ── Vault passphrase ── */
+    async getVaultStatus(): Promise<VaultStatus> {
+        const params = await readKdfParams();
+        const local = await chrome.storage.local.get([AUTO_LOCK_KEY]);
+        const autoLockMinutes = (local[AUTO_LOCK_KEY] as number | undefined) ?? DEFAULT_AUTO_LOCK_MINUTES;
+        if (!params) return { mode: 'device', locked: false, autoLockMinutes };
+        const session = await chrome.storage.session.get([SESSION_KEY_RAW]);
+        return { mode: 'passphrase', locked: !session[SESSION_KEY_RAW], autoLockMinutes };
+    },
+
+    /** Switch from the stored device key to a passphrase-derived key. The device key is deleted. */
+    async enablePassphrase(passphrase: string): Promise<void> {
+        if (await readKdfParams()) throw new Error('A vault passphrase is already set.');
+        const vault = await readVaultStrict(await getOrCreateKey());
+        const { params, key } = await createKdfParams(passphrase);
+
+        // Vault and params in one write, so a killed worker can't leave them out of step
+        await chrome.storage.local.set({ [PROFILES_KEY]: await encrypt(vault, key), [KDF_KEY]: params });
+        await chrome.storage.local.remove(CRYPTO_KEY_RAW);
+        await storeSessionKey(key);
+
+        // Move the plaintext mirror out of persistent storage
+        const { userData } = await chrome.storage.local.get(['userData']);
+        if (userData) await this.mirrorUserData(userData as UserData);
+    },
+
+    /** Go back to a stored device key. Requires the current passphrase. */
+    async disablePassphrase(passphrase: string): Promise<void> {
+        const params = await readKdfParams();
+        if (!params) return;
+        const vault = await readVaultStrict(await verifyPassphrase(passphrase, params));
+
+        const deviceKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+        const deviceRaw = await crypto.subtle.exportKey('raw', deviceKey);
+        // One write: the new device key, the vault under it, and params cleared (null = device mode)
+        await chrome.storage.local.set({
+            [CRYPTO_KEY_RAW]: bufferToBase64(deviceRaw),
+            [PROFILES_KEY]: await encrypt(vault, deviceKey),
+            [KDF_KEY]: null,
         });
+        await chrome.storage.local.remove(KDF_KEY);
+
+        const session = await chrome.storage.session.get(['userData']);
+        await chrome.storage.session.remove([SESSION_KEY_RAW, SESSION_ACTIVITY, 'userData']);
+        if (session.userData) await this.mirrorUserData(session.userData as UserData);
+    },
+
+    /** Re-encrypt the vault under a new passphrase (and a fresh salt). */
+    async changePassphrase(current: string, next: string): Promise<void> {
+        const params = await readKdfParams();
+        if (!params) throw new Error('No vault passphrase is set.');
+        const vault = await readVaultStrict(await verifyPassphrase(current, params));
+        const { params: nextParams, key } = await createKdfParams(next);
+
+        await chrome.storage.local.set({ [PROFILES_KEY]: await encrypt(vault, key), [KDF_KEY]: nextParams });
+        await storeSessionKey(key);
+    },
+
+    async unlock(passphrase: string): Promise<void> {
+        const params = await readKdfParams();
+        if (!params) return;
+        const key = await verifyPassphrase(passphrase, params);
+        await storeSessionKey(key);
+        const active = await this.loadActiveProfile();
+        if (active) await this.mirrorUserData(active);
+    },
+
+    async lock(): Promise<void> {
+        if (!(await readKdfParams())) return;
+        await chrome.storage.session.remove([SESSION_KEY_RAW, SESSION_ACTIVITY, 'userData']);
+    },
+
+    async setAutoLockMinutes(minutes: number): Promise<void> {
+        await chrome.storage.local.set({ [AUTO_LOCK_KEY]: Math.max(0, Math.floor(minutes)) });
+    },
+
+    /** Lock the vault if it has not been used for the configured idle time. Called from a background alarm. */
+    async autoLockIfIdle(): Promise<boolean> {
+        const status = await this.getVaultStatus();
+        if (status.mode !== 'passphrase' || status.locked || status.autoLockMinutes <= 0) return false;
+        const session = await chrome.storage.session.get([SESSION_ACTIVITY]);
+        const lastActivity = (session[SESSION_ACTIVITY] as number | undefined) ?? 0;
+        if (Date.now() - lastActivity < status.autoLockMinutes * 60_000) return false;
+        await this.lock();
+        return true;
     },
 };
 
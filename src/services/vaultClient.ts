@@ -0,0 +1,56 @@
+/**
+ * vaultClient.ts
+ *
+ * The profile vault as seen from content scripts (the sidebar).
+ * Session storage — the unlocked passphrase key and the decrypted userData
+ * mirror — is only open to extension pages, so each call is sent to the
+ * background, which runs it through storageService (background/modules/vaultBridge).
+ *
+ * Mirrors the storageService methods the sidebar uses, plus the correction
+ * prompts, whose values are sealed with the vault key. Errors are rebuilt
+ * with their original name, so isVaultLockedError() keeps working.
+ */
+
+import type { CorrectionSuggestion, UserData } from '../types';
+
+export type VaultOp =
+    | 'migrateLegacyData'
+    | 'listProfiles'
+    | 'getActiveProfileName'
+    | 'setActiveProfileName'
+    | 'loadProfile'
+    | 'saveProfile'
+    | 'deleteProfile'
+    | 'mirrorUserData'
+    | 'readUserDataMirror'
+    | 'correctionSuggestions';
+
+interface VaultResponse {
+    success: boolean;
+    result?: unknown;
+    error?: string;
+    errorName?: string;
+}
+
+async function call<T>(op: VaultOp, ...args: unknown[]): Promise<T> {
+    const response = (await chrome.runtime.sendMessage({ action: 'vault', op, args })) as VaultResponse | undefined;
+    if (!response?.success) {
+        const err = new Error(response?.error || 'The profile vault did not answer.');
+        if (response?.errorName) err.name = response.errorName;
+        throw err;
+    }
+    return response.result as T;
+}
+
+export const vaultClient = {
+    migrateLegacyData: () => call<void>('migrateLegacyData'),
+    listProfiles: () => call<string[]>('listProfiles'),
+    getActiveProfileName: () => call<string>('getActiveProfileName'),
+    setActiveProfileName: (name: string) => call<void>('setActiveProfileName', name),
+    loadProfile: (name: string) => call<UserData | null>('loadProfile', name),
+    saveProfile: (name: string, data: UserData) => call<void>('saveProfile', name, data),
+    deleteProfile: (name: string) => call<void>('deleteProfile', name),
+    mirrorUserData: (data: Partial<UserData>) => call<void>('mirrorUserData', data),
+    readUserDataMirror: () => call<Partial<UserData> | null>('readUserDataMirror'),
+    correctionSuggestions: () => call<CorrectionSuggestion[]>('correctionSuggestions'),
+};
@@ -19,6 +19,8 @@ export interface SavedLink {
 
 // User data structure
 export interface UserData {
+  // Profile schema version, stamped by storageService (see services/profile/migrations)
+  schemaVersion?: number;
   profileType?: 'job' | 'medical' | 'survey' | 'custom';
   firstName: string;
   middleName?: string;
@@ -66,17 +68,68 @@ export interface UserData {
   savedLinks: SavedLink[];
 }
 
+// A month on the calendar; month is omitted when only the year is known
+export interface YearMonth {
+  year: number;
+  month?: number; // 1-12
+}
+
+export type EmploymentType =
+  | 'full_time'
+  | 'part_time'
+  | 'contract'
+  | 'internship'
+  | 'freelance'
+  | 'temporary';
+
 export interface Experience {
   company: string;
   position: string;
-  duration: string;
+  duration: string; // As written, e.g. "Jan 2020 – Present"
   description: string;
+  // Structured form of duration, filled by migration / parsing
+  start?: YearMonth;
+  end?: YearMonth;
+  isCurrent?: boolean;
+  lengthMonths?: number; // Duration was only a length ("3 yrs 2 mos")
+  location?: string;
+  employmentType?: EmploymentType;
 }
 
 export interface Education {
   school: string;
   degree: string;
-  year: string;
+  year: string; // As written, e.g. "2020" or "2016 - 2020"
+  start?: YearMonth;
+  end?: YearMonth;
+  isCurrent?: boolean;
+  lengthMonths?: number;
+  location?: string;
+}
+
+// Resume document text in reading order. Blocks keep the visual structure
+// (headings vs. body text, and which column on multi-column layouts).
+export interface ResumeBlock {
+  type: 'heading' | 'paragraph';
+  text: string;
+  page: number;
+  column: 'full' | 'left' | 'right';
+}
+
+export interface ParsedResume {
+  text: string;
+  blocks: ResumeBlock[];
+}
+
+// Rule-based resume extraction result. Confidence values are 0..1 and only
+// present for fields that were actually extracted.
+export interface ResumeExtraction {
+  data: Partial<UserData>;
+  confidence: {
+    fields: Partial<Record<keyof UserData, number>>;
+    experience: Partial<Record<keyof Experience, number>>[];
+    education: Partial<Record<keyof Education, number>>[];
+  };
 }
 
 // Form field types
@@ -109,6 +162,43 @@ export interface FormField {
   rowHeader?: string; // e.g. "Mon", "React"
   colHeader?: string; // e.g. "From", "Morning", "Expert"
   compoundLabel?: string; // e.g. "Availability > Mon > From"
+  ats?: AtsFieldHint; // Deterministic mapping from an ATS adapter (services/ats)
+  frameId?: number; // Frame the field lives in, set by the background (see frameRegistry)
+  locator?: LocatorStep[]; // Ways to find the element again after a re-render, best first
+}
+
+// How a field's element can be found again (see form/locator.ts)
+export type LocatorStrategy =
+  | "id"
+  | "name"
+  | "automationId" // data-automation-id, data-testid, …
+  | "label" // text of a <label> or aria-labelledby target
+  | "aria" // aria-label
+  | "cssPath"
+  | "shadowPath"; // cssPath per shadow root, host by host
+
+export interface LocatorStep {
+  strategy: LocatorStrategy;
+  value: string;
+}
+
+// Applicant tracking systems with a dedicated adapter (see services/ats)
+export type AtsId = "workday" | "greenhouse" | "lever" | "ashby" | "smartrecruiters";
+
+// What an ATS adapter knows about a field from its stable attributes
+export interface AtsFieldHint {
+  adapter: AtsId;
+  fieldType?: string; // Omitted when the adapter only relabelled the field
+  groupType?: "experience" | "education";
+  groupIndex?: number;
+  action?: "click_add";
+}
+
+// One ranked guess of the heuristic matcher, with the evidence behind it
+export interface MatchCandidate {
+  fieldType: string;
+  score: number;
+  reasons: string[]; // e.g. 'label "Email Address" (+3)', "label mentions e-mail (-3)"
 }
 
 export interface FieldMapping {
@@ -116,6 +206,7 @@ export interface FieldMapping {
   fieldType: keyof UserData | "custom_question" | string;
   confidence: number;
   reasoning?: string;
+  candidates?: MatchCandidate[]; // Heuristic ranking, best first ("why did it pick this?")
   id?: string;
   name?: string;
   selectedValue?: string | string[]; // For select fields, radio_group, and checkbox_group
@@ -136,6 +227,188 @@ export interface FieldMapping {
   rowHeader?: string;
   colHeader?: string;
   compoundLabel?: string;
+
+  // Site recipes
+  label?: string; // Field label when the recipe was recorded (for display)
+  pinned?: boolean; // selectedValue is a user override — replayed as-is, never re-resolved
+
+  // Fill preview
+  valueSource?: FillValueSource; // Where selectedValue came from
+  sourceDetail?: string; // e.g. "experience[0].company", custom field label, file name
+
+  // Re-finding the element at fill time
+  locator?: LocatorStep[]; // Copied from the FormField
+  locatedBy?: LocatorStrategy; // Set by the filler: the strategy that found the element
+}
+
+// Autopilot state machine (persisted as "autopilotSession" in chrome.storage.local)
+export type AutopilotPhase =
+  | "waiting" // Tab is still loading (opened by openAutopilotLink)
+  | "scanning"
+  | "matching"
+  | "filling"
+  | "verifying"
+  | "advancing" // Clicked Next / Add row — waiting for the page to settle
+  | "paused"
+  | "review" // Stopped before the final submit button — the user submits
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface AutopilotTransition {
+  phase: AutopilotPhase;
+  step: number;
+  at: number;
+  note?: string;
+}
+
+// Labels and outcomes only — values stay out of storage (the vault may be locked)
+export interface AutopilotFilledField {
+  step: number;
+  label: string;
+  status: FieldVerification["status"];
+}
+
+export interface AutopilotSession {
+  id: string;
+  tabId: number;
+  hostname: string;
+  phase: AutopilotPhase;
+  step: number;
+  autoSubmit: boolean; // false = fill the current page only
+  resumeAt?: number; // advancing / waiting: earliest time to scan again
+  pauseRequested?: boolean; // Pause asked for mid-step; applied at the next phase boundary
+  fingerprints: { step: number; hash: string }[]; // Stuck-step detection
+  filled: AutopilotFilledField[]; // Everything filled so far, for the final review
+  submitted?: boolean; // Clicked the final submit button (allowed for the site)
+  history: AutopilotTransition[];
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Post-fill verification: one entry per field fillForm reported as filled
+export interface FieldVerification {
+  fieldId: string;
+  label?: string;
+  status: "ok" | "mismatch" | "empty" | "invalid" | "unverified" | "missing";
+  expected: string;
+  actual?: string;
+  message?: string; // Validation text, or why the read-back differs
+  locatedBy?: LocatorStrategy; // Set when the element was found by a fallback
+}
+
+// Origin of a resolved value, shown in the fill preview
+export type FillValueSource =
+  | "profile"
+  | "custom_field"
+  | "memory"
+  | "link"
+  | "ai_answer"
+  | "file"
+  | "recipe"
+  | "matcher"
+  | "manual";
+
+// Company / role scraped from an application page (see form/jobPosting.ts)
+export interface JobPostingInfo {
+  company: string;
+  role: string;
+  url: string;
+}
+
+// Cover letter generation (sidebar Letter tab → llmService.generateCoverLetter)
+export type CoverLetterTone = "professional" | "warm" | "enthusiastic" | "direct";
+export type CoverLetterLength = "short" | "medium" | "long";
+
+export interface CoverLetterOptions {
+  tone?: CoverLetterTone;
+  length?: CoverLetterLength;
+  company?: string;
+  role?: string;
+}
+
+// Application tracker (IndexedDB, see applicationTracker.ts)
+export type ApplicationStatus = "pending" | "applied" | "interviewing" | "offer" | "rejected";
+
+export interface TrackedAnswer {
+  question: string;
+  answer: string; // Sealed with the vault key in IndexedDB
+}
+
+export interface TrackedApplication {
+  id: string; // Autopilot session id
+  company: string;
+  role: string;
+  url: string;
+  hostname: string;
+  appliedAt: number;
+  profile: string; // Profile the form was filled from
+  files: string[]; // Uploaded file names
+  answers: TrackedAnswer[]; // Free-text questions and the answers given
+  status: ApplicationStatus;
+  statusHistory: { status: ApplicationStatus; at: number }[];
+  notes?: string;
+  updatedAt: number;
+}
+
+// A learned set of field mappings for one form, replayed on later visits
+// instead of running the AI / heuristic matcher (see siteRecipeService).
+export interface SiteRecipe {
+  key: string;
+  hostname: string;
+  pathPattern: string; // URL path with IDs replaced by "*", e.g. "/acme/jobs/*/apply"
+  fieldSignature: string;
+  mappings: FieldMapping[]; // Resolved values are stripped unless pinned (sealed in storage)
+  createdAt: number;
+  updatedAt: number;
+  lastUsedAt: number;
+  uses: number;
+}
+
+// A value the user typed over a field Aullevo had just filled
+// (see content/modules/contents/correctionWatcher)
+export interface FieldEdit {
+  fieldId: string;
+  label: string;
+  fieldType: string; // What the fill mapped the field to
+  groupType?: FieldMapping["groupType"];
+  groupIndex?: number;
+  value: string; // What the user typed / picked instead
+}
+
+// One learned correction (see correctionService)
+export interface FieldCorrection {
+  id: string;
+  hostname: string;
+  pathPattern: string;
+  fieldSignature: string;
+  fieldId: string;
+  label: string;
+  from: string; // fieldType the fill used
+  to: string | null; // fieldType the new value belongs to; null = not in the profile
+  value?: string; // Only kept when `to` is null — drives the custom-field prompt. Sealed in storage
+  createdAt: number;
+}
+
+// Repeated corrections to the same question with no profile value behind
+// them: the sidebar offers to save the answer as a custom field
+export interface CorrectionSuggestion {
+  key: string; // Normalised label
+  label: string;
+  value: string; // Sealed in storage; opened by correctionService.suggestions()
+  context: string;
+  count: number;
+}
+
+// A field the user mapped by hand in the field inspector. Applies on its
+// site before any matcher runs (see fieldOverrideService)
+export interface FieldOverride {
+  fieldId: string;
+  label: string; // Finds the field again when generated ids shift
+  section?: string; // With occurrence, tells repeated labels apart ("Company" in entry 1 vs 2)
+  occurrence?: number; // Index among the fields with this label in `section`
+  fieldType: string; // Matcher vocabulary, "file:<savedFileId>" or "skip"
+  createdAt: number;
 }
 
 export interface SavedFile {
@@ -147,6 +420,15 @@ export interface SavedFile {
   savedAt: string;
 }
 
+// Where a field found in an embedded frame lives (see frameRegistry)
+export interface FrameFieldRef {
+  frameId: number;
+  localId: string; // The field's id inside its own frame
+}
+
+// Global field id → frame; plain object so it survives messaging
+export type FrameFieldRoutes = Record<string, FrameFieldRef>;
+
 // Message types for Chrome extension
 export interface ChromeMessage {
   action:
@@ -160,15 +442,38 @@ export interface ChromeMessage {
     | "triggerFillFromPopup"
     | "triggerFillFromSidebar"
     | "processFieldsAI"
-    | "openAutopilotLink";
+    | "recordSiteRecipe"
+    | "previewFill"
+    | "autopilotControl"
+    | "extractJobInfo"
+    | "openAutopilotLink"
+    | "recordCorrection"
+    | "inspectFields"
+    | "scanFrames"
+    | "fillFrames"
+    | "clickNextInFrame"
+    | "countFrameFields"
+    | "countFields"
+    | "undoLastFill"
+    | "undoInfo"
+    | "undoBatch";
   data?: {
     fieldMappings?: FieldMapping[];
     userData?: Partial<UserData>;
     resumeFileData?: string;
     resumeFileName?: string;
+    fieldSignature?: string; // fillForm: identifies the form for corrections
+    fillBatch?: string; // fillForm: one fill across frames, undone together
   };
+  edit?: FieldEdit; // recordCorrection
   fields?: FormField[];
-  tabUrl?: string; // Current URL for AI domain cache
+  tabUrl?: string; // Current page URL (site recipe lookup)
+  filledIds?: string[]; // recordSiteRecipe: mapping ids that were filled
+  command?: "pause" | "resume" | "cancel" | "dismiss"; // autopilotControl
+  allowSubmit?: boolean; // clickNext: may click a final submit button
+  frameId?: number; // clickNext / clickNextInFrame: the one frame it is sent to
+  frameRoutes?: FrameFieldRoutes; // fillFrames: from the scanFrames reply
+  batchId?: string; // undoBatch: only undo this fill
   url?: string; // Used by urlChanged
 }
 
@@ -179,13 +484,26 @@ export interface ChromeResponse {
   total?: number;
   message?: string;
   nextButtonFound?: boolean;
+  blocked?: boolean; // clickNext: stopped before a final submit button
+  submitted?: boolean; // clickNext: the clicked button submits the application
+  job?: JobPostingInfo; // extractJobInfo
   prevButtonFound?: boolean;
   error?: string;
+  filledIds?: string[]; // Mapping ids that fillForm actually filled
+  cancelled?: boolean; // previewFill: user dismissed the preview
+  verification?: FieldVerification[]; // fillForm: values read back after filling
   mappings?: FieldMapping[];
   addButtons?: FieldMapping[];
   userData?: Partial<UserData>;
   resumeFileData?: string;
   resumeFileName?: string;
+  fieldSignature?: string; // processFieldsAI: identifies the form for corrections
+  frameRoutes?: FrameFieldRoutes; // scanFrames: where each sub-frame field lives
+  formFrameId?: number; // scanFrames: the frame holding most fields (its Next button)
+  fieldCount?: number; // countFields / countFrameFields
+  undo?: { batchId: string; at: number; depth: number }; // undoInfo: latest fill in the frame
+  restored?: number; // undoBatch / undoLastFill: fields put back
+  canUndo?: boolean; // undoLastFill: some frame still has a fill to undo
 }
 
 // Status for UI
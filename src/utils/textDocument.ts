@@ -0,0 +1,238 @@
+/**
+ * textDocument.ts
+ * Plain-text → PDF / DOCX, for documents Aullevo generates itself
+ * (cover letters) and stores in the file library.
+ *
+ * Both writers are dependency-free and deliberately minimal:
+ * - PDF: Helvetica 11pt on US Letter, word-wrapped, multi-page,
+ *   WinAnsi text (characters outside Latin-1 are replaced).
+ * - DOCX: one <w:p> per line in an uncompressed (stored) zip.
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 15;
+
+/*
+   PDF
+    */
+
+// Approximate Helvetica advance widths (em fraction) — good enough to wrap
+function charWidth(ch: string): number {
+  if (" il.,;:'!|".includes(ch)) return 0.28;
+  if ("ftjrI()-".includes(ch)) return 0.33;
+  if ("mwMW".includes(ch)) return 0.85;
+  if (ch >= "A" && ch <= "Z") return 0.67;
+  return 0.55;
+}
+
+const textWidth = (text: string) =>
+  [...text].reduce((sum, ch) => sum + charWidth(ch), 0) * FONT_SIZE;
+
+/** Greedy word wrap of one paragraph to the printable width. */
+function wrapLine(paragraph: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+/** Latin-1 only, with typographic punctuation mapped to ASCII. */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/•/g, "-")
+    .replace(/\t/g, " ")
+    .replace(/[^\n\r\x20-\xff]/g, "?");
+}
+
+const escapePdf = (text: string) => text.replace(/([\\()])/g, "\\$1");
+
+/** Binary string → bytes (every char is already < 256). */
+const toBytes = (binary: string) =>
+  Uint8Array.from(binary, (ch) => ch.charCodeAt(0) & 0xff);
+
+export function textToPdf(text: string): Blob {
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+  const linesPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+  const lines = toWinAnsi(text)
+    .split(/\r?\n/)
+    .flatMap((p) => (p.trim() ? wrapLine(p, maxWidth) : [""]));
+
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+  if (pages.length === 0) pages.push([""]);
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then (page, content) pairs
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  pages.forEach((pageLines, i) => {
+    const body = pageLines
+      .map((line) => `(${escapePdf(line)}) Tj T*`)
+      .join("\n");
+    const stream = `BT /F1 ${FONT_SIZE} Tf ${LINE_HEIGHT} TL ${MARGIN} ${PAGE_HEIGHT - MARGIN} Td\n${body}\nET`;
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] =
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([toBytes(pdf)], { type: "application/pdf" });
+}
+
+/*
+   DOCX
+    */
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+function documentXml(text: string): string {
+  const paragraphs = text
+    .split(/\r?\n/)
+    .map((line) =>
+      line.trim()
+        ? `<w:p><w:r><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`
+        : "<w:p/>",
+    )
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/></w:sectPr></w:body></w:document>`;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Uncompressed zip archive (method 0) — all a DOCX reader requires. */
+function storedZip(
+  files: { name: string; data: Uint8Array }[],
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  const header = (size: number) => {
+    const buf = new Uint8Array(size);
+    return { buf, view: new DataView(buf.buffer) };
+  };
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = header(30);
+    local.view.setUint32(0, 0x04034b50, true);
+    local.view.setUint16(4, 20, true); // Version needed
+    local.view.setUint32(14, crc, true);
+    local.view.setUint32(18, file.data.length, true);
+    local.view.setUint32(22, file.data.length, true);
+    local.view.setUint16(26, name.length, true);
+    chunks.push(local.buf, name, file.data);
+
+    const entry = header(46);
+    entry.view.setUint32(0, 0x02014b50, true);
+    entry.view.setUint16(4, 20, true); // Version made by
+    entry.view.setUint16(6, 20, true); // Version needed
+    entry.view.setUint32(16, crc, true);
+    entry.view.setUint32(20, file.data.length, true);
+    entry.view.setUint32(24, file.data.length, true);
+    entry.view.setUint16(28, name.length, true);
+    entry.view.setUint32(42, offset, true);
+    central.push(entry.buf, name);
+
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = header(22);
+  end.view.setUint32(0, 0x06054b50, true);
+  end.view.setUint16(8, files.length, true);
+  end.view.setUint16(10, files.length, true);
+  end.view.setUint32(12, centralSize, true);
+  end.view.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, end.buf];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+export function textToDocx(text: string): Blob {
+  const encoder = new TextEncoder();
+  const zip = storedZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: encoder.encode(ROOT_RELS) },
+    { name: "word/document.xml", data: encoder.encode(documentXml(text)) },
+  ]);
+  return new Blob([zip], {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
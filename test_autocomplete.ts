@@ -0,0 +1,96 @@
+import { parseAutocomplete } from "./src/services/heuristic/autocomplete";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Autocomplete Test Suite...\n");
+
+  // =========================================================================
+  // Field names
+  // =========================================================================
+  console.log("--- Field names ---");
+
+  assert(
+    parseAutocomplete("given-name")?.fieldType === "firstName",
+    `"given-name" → firstName`,
+  );
+  assert(
+    parseAutocomplete("  Postal-Code ")?.fieldType === "zipCode",
+    "Tokens are trimmed and case-insensitive",
+  );
+  assert(
+    parseAutocomplete("email webauthn")?.fieldType === "email",
+    "A trailing webauthn token is ignored",
+  );
+
+  const title = parseAutocomplete("organization-title");
+  assert(
+    title?.fieldType === "position" &&
+      title.groupType === "experience" &&
+      title.groupIndex === 0,
+    `"organization-title" → the current job's position`,
+  );
+
+  const line2 = parseAutocomplete("address-line2");
+  assert(
+    !!line2 && line2.fieldType === null,
+    "A recognised token the profile can't fill gives a null fieldType",
+  );
+  assert(
+    parseAutocomplete("cc-number")?.fieldType === null,
+    "Payment card fields are never filled",
+  );
+
+  // =========================================================================
+  // Prefix tokens
+  // =========================================================================
+  console.log("\n--- Prefix tokens ---");
+
+  const shipping = parseAutocomplete("section-apply shipping postal-code");
+  assert(
+    shipping?.section === "section-apply" &&
+      shipping.addressType === "shipping" &&
+      shipping.fieldType === "zipCode",
+    "section-* and shipping prefixes are parsed",
+  );
+  const work = parseAutocomplete("work tel");
+  assert(
+    work?.contact === "work" && work.fieldType === "phone",
+    `"work tel" is still the phone`,
+  );
+  assert(
+    parseAutocomplete("fax tel")?.fieldType === null,
+    "A fax number is not the candidate's phone",
+  );
+
+  // =========================================================================
+  // No field name
+  // =========================================================================
+  console.log("\n--- No field name ---");
+
+  assert(parseAutocomplete("on") === null, `"on" defers to the labels`);
+  assert(parseAutocomplete("off") === null, `"off" defers to the labels`);
+  assert(parseAutocomplete("") === null, "An empty attribute gives no hint");
+  assert(parseAutocomplete(undefined) === null, "A missing attribute too");
+  assert(
+    parseAutocomplete("nonsense given-name") === null,
+    "Tokens outside the autofill grammar are rejected",
+  );
+  for (const token of ["constructor", "toString", "__proto__", "valueOf"]) {
+    assert(
+      parseAutocomplete(token) === null,
+      `"${token}" is not looked up on the object prototype`,
+    );
+  }
+
+  console.log("\n🎉 ALL AUTOCOMPLETE TESTS PASSED! 🚀\n");
+}
+
+runTests();
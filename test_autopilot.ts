@@ -0,0 +1,365 @@
+import {
+  controlAutopilot,
+  handleAutopilotTabRemoved,
+  handleAutopilotTabUpdated,
+  handleAutopilotWatchdog,
+  startAutopilot,
+} from "./src/background/modules/autopilot";
+import { storageService } from "./src/services/storageService";
+import type { AutopilotSession, FormField, UserData } from "./src/types";
+
+// In-memory chrome.storage: promise and callback styles, like the real API
+function storageArea() {
+  const data: Record<string, unknown> = {};
+  return {
+    get: async (
+      keys: string[],
+      callback?: (r: Record<string, unknown>) => void,
+    ) => {
+      const result: Record<string, unknown> = {};
+      for (const k of keys) if (k in data) result[k] = data[k];
+      callback?.(result);
+      return result;
+    },
+    set: async (items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, JSON.parse(JSON.stringify(items)));
+      callback?.();
+    },
+    remove: async (keys: string | string[]) => {
+      for (const k of ([] as string[]).concat(keys)) delete data[k];
+    },
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const TAB = 7;
+const PAGE = "https://jobs.example.com/acme/apply";
+
+const field = (id: string, label: string, autocomplete = ""): FormField => ({
+  id,
+  name: id,
+  type: "text",
+  placeholder: "",
+  label,
+  ariaLabel: "",
+  autocomplete,
+  required: false,
+  context: "",
+  section: "",
+});
+
+// A two-step application: "Next" on step 1, "Submit" on step 2
+const STEPS: FormField[][] = [
+  [
+    field("first", "First name", "given-name"),
+    field("last", "Last name", "family-name"),
+    field("email", "Email", "email"),
+  ],
+  [field("phone", "Phone", "tel"), field("city", "City", "address-level2")],
+];
+
+// The tab as the content script would answer for it
+const tab = {
+  url: PAGE,
+  step: 0,
+  open: true,
+  clicks: [] as boolean[], // allowSubmit of each "clickNext"
+};
+
+function respond(message: {
+  action: string;
+  allowSubmit?: boolean;
+  data?: { fieldMappings?: { id?: string; fieldId: string }[] };
+}) {
+  switch (message.action) {
+    case "analyzeForm":
+      return { success: true, fields: STEPS[tab.step] ?? [] };
+    case "fillForm": {
+      const ids = (message.data?.fieldMappings ?? []).map(
+        (m) => m.id || m.fieldId,
+      );
+      return {
+        success: true,
+        filledCount: ids.length,
+        filledIds: ids,
+        total: ids.length,
+        verification: ids.map((id) => ({
+          fieldId: id,
+          label: id,
+          status: "ok",
+          expected: "",
+        })),
+      };
+    }
+    case "clickNext":
+      tab.clicks.push(!!message.allowSubmit);
+      if (tab.step < STEPS.length - 1) {
+        tab.step++;
+        return { success: true };
+      }
+      if (message.allowSubmit) {
+        tab.step++; // The confirmation page has no fields
+        return { success: true, submitted: true };
+      }
+      return {
+        success: false,
+        blocked: true,
+        message: `Stopped before "Submit".`,
+      };
+    case "extractJobInfo":
+      return {
+        success: true,
+        job: { company: "Acme", role: "Engineer", url: tab.url },
+      };
+    default:
+      return { success: true };
+  }
+}
+
+// The extension APIs autopilot touches. The application tracker needs
+// IndexedDB, which Node lacks; its warnings are expected and never stop a run.
+function installChrome() {
+  const local = storageArea();
+  Object.assign(globalThis, {
+    chrome: {
+      storage: { local, session: storageArea() },
+      runtime: { lastError: undefined },
+      alarms: { create: () => {}, clear: () => {} },
+      action: { setBadgeText: () => {}, setBadgeBackgroundColor: () => {} },
+      webNavigation: {
+        getAllFrames: async () => [{ frameId: 0, url: tab.url }],
+      },
+      tabs: {
+        get: async () => {
+          if (!tab.open) throw new Error("No tab with id");
+          return { id: TAB, url: tab.url, status: "complete" };
+        },
+        sendMessage: (
+          _tabId: number,
+          message: Parameters<typeof respond>[0],
+          _options: unknown,
+          callback: (response: unknown) => void,
+        ) => setTimeout(() => callback(respond(message)), 0),
+      },
+    },
+  });
+  return local;
+}
+
+async function session(): Promise<AutopilotSession | null> {
+  const stored = await chrome.storage.local.get(["autopilotSession"]);
+  return (stored.autopilotSession as AutopilotSession | undefined) ?? null;
+}
+
+/** Polls the stored session until `done` holds (or gives up after 20 s). */
+async function waitFor(
+  done: (s: AutopilotSession) => boolean,
+): Promise<AutopilotSession | null> {
+  for (let waited = 0; waited < 20000; waited += 100) {
+    const s = await session();
+    if (s && done(s)) return s;
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  return session();
+}
+
+const ended = (s: AutopilotSession) =>
+  ["review", "done", "failed", "cancelled"].includes(s.phase);
+const phases = (s: AutopilotSession | null) =>
+  (s?.history ?? []).map((h) => h.phase);
+
+function reset(local: ReturnType<typeof storageArea>, autoSubmit: boolean) {
+  Object.assign(tab, { url: PAGE, step: 0, open: true, clicks: [] });
+  return Promise.all([
+    local.set({ autoSubmit, matchingMode: "heuristic" }),
+    local.remove("autopilotSession"),
+  ]);
+}
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Autopilot State Machine Test Suite...\n");
+
+  const local = installChrome();
+  await storageService.saveProfile("Default", {
+    firstName: "Jane",
+    lastName: "Doe",
+    email: "jane@example.com",
+    phone: "555-0100",
+    city: "Austin",
+  } as UserData);
+
+  // =========================================================================
+  // One page, autoSubmit off
+  // =========================================================================
+  console.log("--- Single page ---");
+
+  await reset(local, false);
+  await startAutopilot(TAB, PAGE);
+  let s = await waitFor(ended);
+  assert(s?.phase === "done", `Without autoSubmit the run ends in "done"`);
+  assert(
+    phases(s).join(",") === "scanning,matching,filling,verifying,done",
+    `Every phase is recorded in order (${phases(s).join(" → ")})`,
+  );
+  assert(
+    s?.filled.length === 3 && tab.clicks.length === 0,
+    "The page is filled and Next is never clicked",
+  );
+
+  // =========================================================================
+  // Multi-step run up to the final submit
+  // =========================================================================
+  console.log("\n--- Multi-step run ---");
+
+  await reset(local, true);
+  await startAutopilot(TAB, PAGE);
+  s = await waitFor(ended);
+  assert(
+    s?.phase === "review",
+    `The run stops for review before Submit (${s?.phase})`,
+  );
+  assert(
+    s?.step === 1 && phases(s).includes("advancing"),
+    "It advanced once, to the second step",
+  );
+  assert(
+    tab.clicks.length === 2 && tab.clicks.every((allow) => !allow),
+    "Next is clicked without permission to submit",
+  );
+  assert(
+    new Set(s?.filled.map((f) => f.step)).size === 2 && !s?.submitted,
+    "The review summary covers both steps and nothing was submitted",
+  );
+  assert(
+    (s?.history.at(-1)?.note ?? "").includes("5 field(s) across 2 step(s)"),
+    "The review note summarises what was filled",
+  );
+  await local.set({ submitAllowedSites: ["jobs.example.com"] });
+  await reset(local, true);
+  await startAutopilot(TAB, PAGE);
+  s = await waitFor(ended);
+  assert(
+    s?.phase === "done" && s.submitted === true && tab.clicks.at(-1) === true,
+    "On a site allowed to submit, the final button is clicked",
+  );
+  await local.remove("submitAllowedSites");
+
+  // =========================================================================
+  // Sidebar controls
+  // =========================================================================
+  console.log("\n--- Controls ---");
+
+  await reset(local, false);
+  await startAutopilot(TAB, PAGE, { waitForLoad: true });
+  s = await session();
+  assert(s?.phase === "waiting", "A link run waits for the page to load");
+  assert(
+    !(await controlAutopilot("pause", TAB + 1)).success,
+    "Another tab cannot control the session",
+  );
+  assert(
+    !(await controlAutopilot("dismiss", TAB)).success,
+    "A running session cannot be dismissed",
+  );
+  await controlAutopilot("pause", TAB);
+  assert((await session())?.phase === "paused", "Pause parks the session");
+  await handleAutopilotTabUpdated(TAB, PAGE);
+  assert(
+    (await session())?.phase === "paused",
+    "A page load does not wake a paused session",
+  );
+  await controlAutopilot("resume", TAB);
+  s = await waitFor(ended);
+  assert(
+    s?.phase === "done" && phases(s).includes("paused"),
+    "Resume scans the step again and finishes it",
+  );
+  await controlAutopilot("dismiss", TAB);
+  assert((await session()) === null, "Dismiss removes a finished session");
+
+  await reset(local, false);
+  await startAutopilot(TAB, PAGE, { waitForLoad: true });
+  await controlAutopilot("cancel", TAB);
+  assert((await session())?.phase === "cancelled", "Cancel ends the session");
+
+  // =========================================================================
+  // Tab events
+  // =========================================================================
+  console.log("\n--- Tab events ---");
+
+  await reset(local, false);
+  await startAutopilot(TAB, "https://board.example.net/job/1", {
+    waitForLoad: true,
+  });
+  await handleAutopilotTabUpdated(TAB, PAGE);
+  s = await session();
+  assert(
+    s?.phase === "advancing" && s.hostname === "jobs.example.com",
+    "A waiting run adopts the hostname the job board redirected to",
+  );
+  await handleAutopilotTabUpdated(TAB, "https://elsewhere.example.org/");
+  assert(
+    (await session())?.phase === "cancelled",
+    "Leaving the application site cancels the run",
+  );
+
+  await reset(local, false);
+  await startAutopilot(TAB, PAGE, { waitForLoad: true });
+  await handleAutopilotTabRemoved(TAB);
+  assert(
+    (await session())?.phase === "cancelled",
+    "Closing the tab cancels the run",
+  );
+
+  // =========================================================================
+  // Service worker restart
+  // =========================================================================
+  console.log("\n--- Restart ---");
+
+  // A session left mid-step by a worker that was terminated
+  await reset(local, false);
+  const now = Date.now();
+  await local.set({
+    autopilotSession: {
+      id: "orphan",
+      tabId: TAB,
+      hostname: "jobs.example.com",
+      phase: "filling",
+      step: 0,
+      autoSubmit: false,
+      fingerprints: [],
+      filled: [],
+      history: [{ phase: "filling", step: 0, at: now }],
+      startedAt: now,
+      updatedAt: now,
+    },
+  });
+  await handleAutopilotWatchdog();
+  s = await waitFor(ended);
+  assert(
+    s?.phase === "done" &&
+      s.history.some((h) => h.note === "Resumed after restart"),
+    "The watchdog restarts an orphaned step from a fresh scan",
+  );
+
+  await local.set({ autopilotSession: { ...s, phase: "advancing" } });
+  tab.open = false;
+  await handleAutopilotWatchdog();
+  assert(
+    (await session())?.phase === "cancelled",
+    "The watchdog cancels a session whose tab is gone",
+  );
+
+  console.log("\n🎉 ALL AUTOPILOT STATE MACHINE TESTS PASSED! 🚀\n");
+  process.exit(0); // Badge timers would otherwise keep the process alive
+}
+
+runTests();
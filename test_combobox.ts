@@ -0,0 +1,221 @@
+import { JSDOM } from "jsdom";
+import {
+  fillCombobox,
+  isTypeahead,
+  typeaheadQueries,
+} from "./src/services/form/combobox";
+
+function setupDom(html: string) {
+  const dom = new JSDOM(html, {
+    url: "https://example.com/apply",
+    pretendToBeVisual: true,
+  });
+  const w = dom.window;
+  Object.assign(globalThis, {
+    window: w,
+    document: w.document,
+    HTMLElement: w.HTMLElement,
+    HTMLButtonElement: w.HTMLButtonElement,
+    HTMLInputElement: w.HTMLInputElement,
+    HTMLSelectElement: w.HTMLSelectElement,
+    HTMLTextAreaElement: w.HTMLTextAreaElement,
+    // Events must come from the same window as the elements they go to
+    Event: w.Event,
+    InputEvent: w.InputEvent,
+    KeyboardEvent: w.KeyboardEvent,
+    MouseEvent: w.MouseEvent,
+    MutationObserver: w.MutationObserver,
+  });
+  return dom;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const CITIES = [
+  "San Francisco, California",
+  "San Diego, California",
+  "Santa Fe, New Mexico",
+  "Boston, Massachusetts",
+];
+
+/**
+ * A city picker whose suggestions arrive from a "server" a little after
+ * each keystroke. `answers` decides what a query returns; every query
+ * typed is recorded. Clicking an option puts its text in the input.
+ */
+function cityPicker(
+  html: string,
+  answers = (q: string) =>
+    CITIES.filter((c) => c.toLowerCase().startsWith(q.toLowerCase())),
+  latency = 40,
+) {
+  setupDom(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  const input = document.querySelector("input")!;
+  const list = document.querySelector<HTMLElement>("ul")!;
+  const queries: string[] = [];
+  input.addEventListener("input", () => {
+    if (!input.value) return;
+    queries.push(input.value);
+    const query = input.value;
+    setTimeout(() => {
+      list.innerHTML = answers(query)
+        .map((c) => `<li role="option">${c}</li>`)
+        .join("");
+    }, latency);
+  });
+  list.addEventListener("click", (e) => {
+    input.value = (e.target as HTMLElement).textContent || "";
+  });
+  return { input, list, queries };
+}
+
+const PICKER = `<input type="text" role="combobox" aria-controls="cities" /><ul id="cities" role="listbox"></ul>`;
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Typeahead Combobox Test Suite...\n");
+
+  // =========================================================================
+  // isTypeahead
+  // =========================================================================
+  console.log("--- isTypeahead ---");
+
+  setupDom(`<!DOCTYPE html><html><body>
+    <input id="a" type="text" role="combobox" />
+    <input id="b" type="search" aria-autocomplete="list" />
+    <input id="c" type="text" aria-haspopup="listbox" />
+    <div role="combobox"><input id="d" type="text" /></div>
+    <input id="e" type="text" />
+    <input id="f" type="checkbox" role="combobox" />
+  </body></html>`);
+  const byId = (id: string) => document.getElementById(id)!;
+  assert(
+    ["a", "b", "c", "d"].every((id) => isTypeahead(byId(id))),
+    "role, aria-autocomplete, aria-haspopup and ARIA 1.1 wrappers count",
+  );
+  assert(
+    !isTypeahead(byId("e")) && !isTypeahead(byId("f")),
+    "Plain text inputs and non-text inputs do not",
+  );
+
+  // =========================================================================
+  // typeaheadQueries
+  // =========================================================================
+  console.log("\n--- typeaheadQueries ---");
+
+  assert(
+    same(typeaheadQueries("San Francisco,  CA, USA"), [
+      "San Francisco, CA, USA",
+      "San Francisco, CA",
+      "San Francisco",
+      "San",
+    ]),
+    "Comma parts, then words, are dropped one by one",
+  );
+  assert(
+    same(typeaheadQueries("University of Texas"), [
+      "University of Texas",
+      "University",
+    ]),
+    `A query ending in "of" is skipped`,
+  );
+  assert(
+    same(typeaheadQueries("NY"), []),
+    "Queries shorter than three characters are not typed",
+  );
+
+  // =========================================================================
+  // Picking a suggestion
+  // =========================================================================
+  console.log("\n--- fillCombobox ---");
+
+  let picker = cityPicker(PICKER);
+  assert(
+    (await fillCombobox(picker.input, "San Francisco, California")) &&
+      picker.input.value === "San Francisco, California",
+    "The option matching the value is clicked",
+  );
+  assert(
+    same(picker.queries, ["San Francisco, California"]),
+    "The full value is typed first",
+  );
+
+  picker = cityPicker(PICKER, (q) =>
+    q.includes(",") ? [] : CITIES.filter((c) => c.startsWith(q)),
+  );
+  assert(
+    (await fillCombobox(picker.input, "San Diego, California")) &&
+      picker.input.value === "San Diego, California",
+    "A shorter query finds the option the full value did not",
+  );
+  assert(
+    same(picker.queries, ["San Diego, California", "San Diego"]),
+    "Queries get shorter only until a match shows up",
+  );
+
+  // A slow server, and the list still shows the suggestions loaded on focus
+  picker = cityPicker(PICKER, undefined, 600);
+  picker.list.innerHTML = `<li role="option">Boston, Massachusetts</li>`;
+  assert(
+    (await fillCombobox(picker.input, "Santa Fe, New Mexico")) &&
+      picker.input.value === "Santa Fe, New Mexico" &&
+      same(picker.queries, ["Santa Fe, New Mexico"]),
+    "A list left from before the query is not taken as its answer",
+  );
+
+  setupDom(`<!DOCTYPE html><html><body>
+    <div class="field"><input type="text" aria-autocomplete="list" /></div>
+    <nav><ul class="dropdown"><li>Jobs</li><li>Boston, Massachusetts</li></ul></nav>
+  </body></html>`);
+  const input = document.querySelector("input")!;
+  const field = document.querySelector(".field")!;
+  input.addEventListener("input", () => {
+    if (!input.value || field.querySelector("ul")) return;
+    setTimeout(() => {
+      field.insertAdjacentHTML(
+        "beforeend",
+        `<ul class="autocomplete-results"><li>Boston, Massachusetts</li></ul>`,
+      );
+      field.querySelector("li")!.addEventListener("click", () => {
+        input.value = "Boston, MA";
+      });
+    }, 40);
+  });
+  assert(
+    (await fillCombobox(input, "Boston, Massachusetts")) &&
+      input.value === "Boston, MA",
+    "Without aria-controls the popup next to the input is used, not site navigation",
+  );
+
+  // =========================================================================
+  // No suggestion
+  // =========================================================================
+  console.log("\n--- No suggestion ---");
+
+  picker = cityPicker(PICKER, () => []);
+  assert(
+    (await fillCombobox(picker.input, "Atlantis")) &&
+      picker.input.value === "Atlantis",
+    "A free-text typeahead keeps the value as typed",
+  );
+
+  picker = cityPicker(`<div class="react-select__control">${PICKER}</div>`);
+  assert(
+    !(await fillCombobox(picker.input, "Springfield")) &&
+      picker.input.value === "",
+    "A select-like widget is cleared and the fill reports failure",
+  );
+
+  console.log("\n🎉 ALL TYPEAHEAD COMBOBOX TESTS PASSED! 🚀\n");
+}
+
+runTests();
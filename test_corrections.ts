@@ -0,0 +1,98 @@
+import { correctionService } from "./src/services/correctionService";
+import { labelKey } from "./src/services/heuristic/corrections";
+
+// In-memory chrome.storage: promise and callback styles, like the real API
+function storageArea() {
+  const data: Record<string, unknown> = {};
+  return {
+    get: async (
+      keys: string[],
+      callback?: (r: Record<string, unknown>) => void,
+    ) => {
+      const result: Record<string, unknown> = {};
+      for (const k of keys) if (k in data) result[k] = data[k];
+      callback?.(result);
+      return result;
+    },
+    set: async (items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, JSON.parse(JSON.stringify(items)));
+      callback?.();
+    },
+    remove: async (keys: string | string[]) => {
+      for (const k of ([] as string[]).concat(keys)) delete data[k];
+    },
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const URL = "https://jobs.example.com/apply/123";
+const edit = (fieldId: string, label: string, value: string) => ({
+  fieldId,
+  label,
+  value,
+  fieldType: "",
+});
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Correction Learning Test Suite...\n");
+
+  Object.assign(globalThis, {
+    chrome: { storage: { local: storageArea(), session: storageArea() } },
+  });
+
+  // =========================================================================
+  // learnedFieldTypes
+  // =========================================================================
+  console.log("--- learnedFieldTypes ---");
+
+  await correctionService.record(
+    URL,
+    "sig-a",
+    edit("pref", "Preferred name", "Jane"),
+    "firstName",
+  );
+  let learned = await correctionService.learnedFieldTypes();
+  assert(
+    learned[labelKey("Preferred name")] === "firstName",
+    "A correction to a profile value is learned for its label",
+  );
+
+  await correctionService.record(
+    "https://other.example.org/form",
+    "sig-b",
+    edit("nick", "Preferred name", "JD"),
+    null,
+  );
+  learned = await correctionService.learnedFieldTypes();
+  assert(
+    !(labelKey("Preferred name") in learned),
+    "A newer correction to a value not in the profile unlearns the label",
+  );
+
+  await correctionService.record(
+    URL,
+    "sig-c",
+    edit("pref2", "Preferred name", "Jane"),
+    "firstName",
+  );
+  learned = await correctionService.learnedFieldTypes();
+  assert(
+    learned[labelKey("Preferred name")] === "firstName",
+    "A still newer profile correction teaches it again",
+  );
+
+  const typed = (await correctionService.list()).find((c) => c.to === null);
+  assert(typed?.value === "JD", "The sealed typed value opens back to text");
+
+  console.log("\n🎉 ALL CORRECTION LEARNING TESTS PASSED! 🚀\n");
+}
+
+runTests();
@@ -0,0 +1,264 @@
+import { JSDOM } from "jsdom";
+import {
+  fillDateWidget,
+  fillSplitDate,
+  findSplitDateParts,
+  formatDateAs,
+  splitDatePartMatches,
+} from "./src/services/form/datePicker";
+
+function setupDom(html: string) {
+  const dom = new JSDOM(html, {
+    url: "https://example.com/apply",
+    pretendToBeVisual: true,
+  });
+  const w = dom.window;
+  Object.assign(globalThis, {
+    window: w,
+    document: w.document,
+    HTMLElement: w.HTMLElement,
+    HTMLButtonElement: w.HTMLButtonElement,
+    HTMLInputElement: w.HTMLInputElement,
+    HTMLSelectElement: w.HTMLSelectElement,
+    HTMLTextAreaElement: w.HTMLTextAreaElement,
+    // Events must come from the same window as the elements they go to
+    Event: w.Event,
+    PointerEvent: "PointerEvent" in w ? w.PointerEvent : w.MouseEvent,
+    MouseEvent: w.MouseEvent,
+    KeyboardEvent: w.KeyboardEvent,
+    requestAnimationFrame: w.requestAnimationFrame,
+  });
+  return dom;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const options = (values: string[], texts = values) =>
+  `<option value="">--</option>` +
+  values.map((v, i) => `<option value="${v}">${texts[i]}</option>`).join("");
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+
+/**
+ * A react-datepicker style calendar: opens on click showing March 2024,
+ * moves a month per prev / next click, and writes MM/DD/YYYY into the
+ * input when a day is clicked. Each month starts with two greyed-out days
+ * of the month before.
+ */
+function calendarInput(attributes: string) {
+  setupDom(`<!DOCTYPE html><html><body>
+    <div class="react-datepicker-wrapper"><div class="react-datepicker__input-container">
+      <input type="text" ${attributes} />
+    </div></div></body></html>`);
+  const input = document.querySelector("input")!;
+  const shown = { year: 2024, month: 3 };
+  const state = { steps: 0, picked: 0 };
+
+  const render = () => {
+    document.querySelector(".react-datepicker")?.remove();
+    const days = new Date(shown.year, shown.month, 0).getDate();
+    document.body.insertAdjacentHTML(
+      "beforeend",
+      `<div class="react-datepicker">
+        <button class="react-datepicker__navigation--previous"></button>
+        <div class="react-datepicker__current-month">${MONTHS[shown.month - 1]} ${shown.year}</div>
+        <button class="react-datepicker__navigation--next"></button>
+        <div class="react-datepicker__day react-datepicker__day--outside-month">30</div>
+        <div class="react-datepicker__day react-datepicker__day--outside-month">31</div>
+        ${range(1, days)
+          .map((d) => `<div class="react-datepicker__day">${d}</div>`)
+          .join("")}
+      </div>`,
+    );
+    const popup = document.querySelector(".react-datepicker")!;
+    const move = (delta: number) => () => {
+      const at = shown.year * 12 + shown.month - 1 + delta;
+      Object.assign(shown, { year: Math.floor(at / 12), month: (at % 12) + 1 });
+      state.steps++;
+      render();
+    };
+    popup
+      .querySelector(".react-datepicker__navigation--previous")!
+      .addEventListener("click", move(-1));
+    popup
+      .querySelector(".react-datepicker__navigation--next")!
+      .addEventListener("click", move(1));
+    popup.querySelectorAll(".react-datepicker__day").forEach((cell) =>
+      cell.addEventListener("click", () => {
+        const pad = (n: number | string) => String(n).padStart(2, "0");
+        const outside = cell.className.includes("outside");
+        const month = outside ? shown.month - 1 : shown.month;
+        input.value = `${pad(month)}/${pad(cell.textContent!)}/${shown.year}`;
+        state.picked++;
+        popup.remove();
+      }),
+    );
+  };
+  input.addEventListener("click", render);
+  return { input, state };
+}
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Date Picker Test Suite...\n");
+
+  // =========================================================================
+  // Split day / month / year controls
+  // =========================================================================
+  console.log("--- Split dates ---");
+
+  setupDom(`<!DOCTYPE html><html><body><form>
+    <input name="email" />
+    <fieldset><legend>Date of birth</legend>
+      <select name="dob_day">${options(range(1, 31))}</select>
+      <select name="dob_month">${options(range(1, 12), MONTHS)}</select>
+      <input name="dob_year" maxlength="2" />
+    </fieldset>
+  </form></body></html>`);
+  const byName = (name: string) =>
+    document.querySelector<HTMLElement>(`[name=${name}]`)!;
+  let parts = findSplitDateParts(byName("dob_month"));
+  assert(
+    parts?.day === byName("dob_day") &&
+      parts.month === byName("dob_month") &&
+      parts.year === byName("dob_year"),
+    "Day, month and year controls are found from any one of them",
+  );
+  assert(
+    findSplitDateParts(byName("email")) === null,
+    "A control that is no date part has no split date",
+  );
+
+  assert(
+    fillSplitDate(parts!, { year: 2003, month: 11, day: 7 }),
+    "A split date is filled",
+  );
+  assert(
+    (byName("dob_day") as HTMLSelectElement).value === "7" &&
+      (byName("dob_month") as HTMLSelectElement).value === "11" &&
+      (byName("dob_year") as HTMLInputElement).value === "03",
+    "Each part gets its option, and a two-digit year input gets two digits",
+  );
+  assert(
+    splitDatePartMatches(byName("dob_year"), "2003-11-07") === true &&
+      splitDatePartMatches(byName("dob_month"), "2003-12-07") === false &&
+      splitDatePartMatches(byName("email"), "2003-11-07") === null,
+    "Verification checks each part on its own",
+  );
+
+  setupDom(`<!DOCTYPE html><html><body><div>
+    <select name="a">${options(range(1, 12), MONTHS)}</select>
+    <select name="b">${options(range(1990, 2010))}</select>
+  </div><div>
+    <select name="c" autocomplete="cc-exp-month">${options(range(1, 12))}</select>
+    <select name="d" autocomplete="cc-exp-year">${options(range(2025, 2035))}</select>
+  </div></body></html>`);
+  parts = findSplitDateParts(byName("b"));
+  assert(
+    parts?.month === byName("a") && parts.day === undefined,
+    "Unnamed selects are told apart by their options",
+  );
+  assert(
+    fillSplitDate(parts!, { year: 2020, month: 3 }) === false,
+    "A year with no option fails the fill",
+  );
+  assert(
+    findSplitDateParts(byName("c")) === null,
+    "Card expiry dates are left alone",
+  );
+
+  // =========================================================================
+  // Text formats
+  // =========================================================================
+  console.log("\n--- Text formats ---");
+
+  const date = { year: 2024, month: 3, day: 5 };
+  assert(
+    formatDateAs(date, "DD/MM/YYYY") === "05/03/2024" &&
+      formatDateAs(date, "M/D/YY") === "3/5/24",
+    "Formats are filled token by token",
+  );
+  assert(
+    formatDateAs({ year: 2020, month: 9 }, "DD.MM.YYYY") === "01.09.2020",
+    "A date without a day becomes the 1st",
+  );
+
+  setupDom(`<!DOCTYPE html><html><body>
+    <input id="m" type="month" /><input id="d" type="date" />
+    <input id="eu" type="text" placeholder="DD.MM.YYYY" />
+    <input id="plain" type="text" />
+  </body></html>`);
+  const input = (id: string) => document.getElementById(id) as HTMLInputElement;
+  await fillDateWidget(input("m"), date);
+  await fillDateWidget(input("d"), date);
+  await fillDateWidget(input("eu"), date);
+  assert(
+    input("m").value === "2024-03" &&
+      input("d").value === "2024-03-05" &&
+      input("eu").value === "05.03.2024",
+    "Month, date and text inputs get the format they ask for",
+  );
+  assert(
+    !(await fillDateWidget(input("plain"), date)) &&
+      input("plain").value === "",
+    "A text input with no format and no widget is left to the caller",
+  );
+
+  // =========================================================================
+  // Calendar popups
+  // =========================================================================
+  console.log("\n--- Calendars ---");
+
+  let picker = calendarInput("");
+  assert(
+    (await fillDateWidget(picker.input, date)) &&
+      picker.input.value === "03/05/2024" &&
+      picker.state.picked === 0,
+    "Text a picker accepts is kept without clicking through the calendar",
+  );
+
+  picker = calendarInput("readonly");
+  assert(
+    (await fillDateWidget(picker.input, { year: 2023, month: 12, day: 31 })) &&
+      picker.input.value === "12/31/2023",
+    "A read-only picker is driven through its calendar",
+  );
+  assert(
+    picker.state.steps === 3,
+    "It steps back month by month to the target",
+  );
+
+  picker = calendarInput("");
+  picker.input.addEventListener("input", () => (picker.input.value = ""));
+  assert(
+    (await fillDateWidget(picker.input, { year: 2024, month: 5, day: 30 })) &&
+      picker.input.value === "05/30/2024" &&
+      picker.state.picked === 1,
+    "Typed text the picker rejects falls back to the calendar, skipping days of other months",
+  );
+
+  console.log("\n🎉 ALL DATE PICKER TESTS PASSED! 🚀\n");
+}
+
+runTests();
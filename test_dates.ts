@@ -0,0 +1,133 @@
+import {
+  entryDates,
+  parseDuration,
+  parseDurationLength,
+} from "./src/services/formats/dates";
+import type { Experience } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// A fixed "today" so lengths counted back from now are stable
+const today = new Date(2026, 5, 15); // Jun 2026
+
+const job = (
+  duration: string,
+  extra: Partial<Experience> = {},
+): Experience => ({
+  company: "Acme",
+  position: "Engineer",
+  description: "",
+  duration,
+  ...extra,
+});
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Date Parser Test Suite...\n");
+
+  // =========================================================================
+  // parseDuration
+  // =========================================================================
+  console.log("--- parseDuration ---");
+
+  let d = parseDuration("Jan 2020 – Present", { today });
+  assert(
+    same(d.start, { year: 2020, month: 1 }) && !d.end && d.isCurrent,
+    `"Jan 2020 – Present" → start Jan 2020, current`,
+  );
+
+  d = parseDuration("03/2018 - 06/2021");
+  assert(
+    same(d.start, { year: 2018, month: 3 }) &&
+      same(d.end, { year: 2021, month: 6 }) &&
+      !d.isCurrent,
+    `"03/2018 - 06/2021" → Mar 2018 to Jun 2021`,
+  );
+
+  d = parseDuration("2016-2019");
+  assert(
+    same(d.start, { year: 2016 }) && same(d.end, { year: 2019 }),
+    `"2016-2019" → year-only range`,
+  );
+
+  d = parseDuration("2019");
+  assert(
+    same(d.start, { year: 2019 }) && !d.end,
+    "A lone job date is the start",
+  );
+  d = parseDuration("2019", { loneDate: "end" });
+  assert(
+    same(d.end, { year: 2019 }) && !d.start,
+    `loneDate "end" makes it the end`,
+  );
+
+  d = parseDuration("Jan 2020 · 3 yrs 2 mos");
+  assert(
+    same(d.start, { year: 2020, month: 1 }) &&
+      same(d.end, { year: 2023, month: 3 }),
+    "A start plus a length gives the end date",
+  );
+
+  d = parseDuration("Current · 1 yr 6 mos", { today });
+  assert(
+    same(d.start, { year: 2024, month: 12 }) && d.isCurrent,
+    "A current role's length counts back from today",
+  );
+
+  d = parseDuration("3 yrs 2 mos", { today });
+  assert(
+    !d.start && !d.end && d.lengthMonths === 38,
+    `A bare "3 yrs 2 mos" keeps its length (38 months) and no dates`,
+  );
+
+  assert(parseDurationLength("1.5 years") === 18, `"1.5 years" is 18 months`);
+  assert(parseDurationLength("6 months") === 6, `"6 months" is 6 months`);
+  assert(parseDurationLength("Jan 2020") === null, "No length in a plain date");
+
+  d = parseDuration("", { today });
+  assert(!d.start && !d.end && !d.isCurrent, "An empty duration has no dates");
+
+  // =========================================================================
+  // entryDates — structured dates of an entry
+  // =========================================================================
+  console.log("\n--- entryDates ---");
+
+  d = entryDates(job("3 yrs 2 mos", { end: { year: 2024, month: 6 } }), {
+    today,
+  });
+  assert(
+    same(d.start, { year: 2021, month: 4 }),
+    "A bare length counts back from the stored end date",
+  );
+
+  d = entryDates(job("2 yrs", { isCurrent: true }), { today });
+  assert(
+    same(d.start, { year: 2024, month: 6 }) && d.isCurrent,
+    "A bare length on a current entry counts back from today",
+  );
+
+  d = entryDates(job("2019 - 2021", { start: { year: 2010 } }));
+  assert(
+    same(d.start, { year: 2019 }) && same(d.end, { year: 2021 }),
+    "Text with dates wins over stale structured dates",
+  );
+
+  d = entryDates(job("details on request", { start: { year: 2010 } }));
+  assert(
+    same(d.start, { year: 2010 }),
+    "Structured dates stand in when the text has none",
+  );
+
+  console.log("\n🎉 ALL DATE PARSER TESTS PASSED! 🚀\n");
+}
+
+runTests();
@@ -0,0 +1,334 @@
+import {
+  analyzeFrames,
+  clickNextInFrame,
+  fillFrames,
+  formFrame,
+} from "./src/background/modules/frameRegistry";
+import type { FieldMapping, FormField } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const TAB = 3;
+const EMBED = "https://boards.greenhouse.io/embed/job_app";
+
+const field = (id: string, label: string, name = id): FormField => ({
+  id,
+  name,
+  type: "text",
+  placeholder: "",
+  label,
+  ariaLabel: "",
+  autocomplete: "",
+  required: false,
+  context: "",
+  section: "",
+  locator: [{ strategy: "name", value: name }],
+});
+
+interface Frame {
+  frameId: number;
+  url: string;
+  errorOccurred?: boolean;
+  fields?: FormField[];
+  answers?: boolean; // false: no content script in the frame
+}
+
+// The tab's frames, as webNavigation and each frame's content script see them
+let frames: Frame[] = [];
+const sent: {
+  to?: number; // The frame the message was addressed to
+  action: string;
+  data?: unknown;
+  frameId?: number;
+}[] = [];
+
+function respond(
+  frame: Frame,
+  message: {
+    action: string;
+    data?: { fieldMappings?: FieldMapping[] };
+    frameId?: number;
+  },
+) {
+  switch (message.action) {
+    case "analyzeForm":
+      return { success: true, fields: frame.fields ?? [] };
+    case "fillForm": {
+      const ids = (message.data?.fieldMappings ?? []).map((m) => m.fieldId);
+      return {
+        success: true,
+        filledCount: ids.length,
+        filledIds: ids,
+        total: ids.length,
+        verification: ids.map((id) => ({
+          fieldId: id,
+          label: id,
+          status: "ok",
+          expected: "",
+        })),
+      };
+    }
+    default:
+      return { success: true };
+  }
+}
+
+function installChrome() {
+  const runtime: { lastError?: { message: string } } = {};
+  Object.assign(globalThis, {
+    chrome: {
+      runtime,
+      webNavigation: {
+        getAllFrames: async () =>
+          frames.map(({ frameId, url, errorOccurred }) => ({
+            frameId,
+            url,
+            errorOccurred: !!errorOccurred,
+          })),
+      },
+      tabs: {
+        sendMessage: (
+          _tabId: number,
+          message: Parameters<typeof respond>[1],
+          options: { frameId?: number },
+          callback: (response: unknown) => void,
+        ) => {
+          sent.push({ to: options.frameId, ...message });
+          const frame = frames.find((f) => f.frameId === options.frameId);
+          if (!frame || frame.answers === false) {
+            runtime.lastError = { message: "Receiving end does not exist." };
+            callback(undefined);
+            delete runtime.lastError;
+            return;
+          }
+          callback(respond(frame, message));
+        },
+      },
+    },
+  });
+}
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Frame Routing Test Suite...\n");
+
+  installChrome();
+  const warn = console.warn;
+  console.warn = () => {}; // sendToTab reports frames that don't answer
+
+  // =========================================================================
+  // Scanning every frame
+  // =========================================================================
+  console.log("--- analyzeFrames ---");
+
+  frames = [
+    { frameId: 0, url: "https://careers.acme.com/jobs/1", fields: [] },
+    {
+      frameId: 4,
+      url: `${EMBED}?token=abc`,
+      fields: [
+        field("field_0", "First name", "first_name"),
+        field("field_1", "Email", "email"),
+      ],
+    },
+    { frameId: 7, url: "https://ads.example.net/slot", answers: false },
+    { frameId: 9, url: "https://broken.example.net/", errorOccurred: true },
+    { frameId: 11, url: "chrome-extension://abc/sidebar.html" },
+  ];
+  let scan = await analyzeFrames(TAB);
+  assert(
+    scan.success && scan.fields.length === 2,
+    "The embedded form's fields are found through the top frame",
+  );
+  assert(
+    scan.fields.every((f) => f.frameId === 4 && /^f[0-9a-f]{8}::/.test(f.id)),
+    "Sub-frame fields get a global id and are tagged with their frame",
+  );
+  assert(
+    scan.routes[scan.fields[0].id]?.frameId === 4 &&
+      scan.routes[scan.fields[0].id]?.localId === "field_0",
+    "Routes lead a global id back to the frame's own id",
+  );
+  assert(
+    !sent.some((m) => m.to === 9 || m.to === 11),
+    "Frames that failed to load or hold no web page are not asked",
+  );
+  const firstIds = scan.fields.map((f) => f.id);
+
+  // The same embed after a reload: another frame id, session token and order
+  frames = [
+    {
+      frameId: 0,
+      url: "https://careers.acme.com/jobs/1",
+      fields: [field("search", "Search jobs")],
+    },
+    {
+      frameId: 12,
+      url: `${EMBED}?token=xyz`,
+      fields: [
+        field("field_5", "Email", "email"),
+        field("field_6", "First name", "first_name"),
+      ],
+    },
+  ];
+  scan = await analyzeFrames(TAB);
+  const byLabel = new Map(scan.fields.map((f) => [f.label, f.id]));
+  assert(
+    byLabel.get("First name") === firstIds[0] &&
+      byLabel.get("Email") === firstIds[1],
+    "Global ids stay the same across scans, frame ids and field order",
+  );
+  assert(
+    byLabel.get("Search jobs") === "search" &&
+      scan.routes.search?.frameId === 0,
+    "Top-frame ids are left as they are",
+  );
+
+  frames = [
+    { frameId: 0, url: "https://careers.acme.com/jobs/1" },
+    { frameId: 4, url: EMBED, fields: [field("field_0", "Email", "email")] },
+    { frameId: 5, url: EMBED, fields: [field("field_0", "Email", "email")] },
+  ];
+  scan = await analyzeFrames(TAB);
+  assert(
+    scan.fields.length === 2 && scan.fields[0].id !== scan.fields[1].id,
+    "Two embeds of the same page are told apart",
+  );
+
+  frames = [
+    { frameId: 0, url: "https://jobs.example.com/apply" },
+    { frameId: 4, url: EMBED, fields: [field("c", "A"), field("d", "B")] },
+  ];
+  frames[1].fields![1].locator = frames[1].fields![0].locator;
+  scan = await analyzeFrames(TAB);
+  assert(
+    new Set(scan.fields.map((f) => f.id)).size === 2,
+    "Sub-frame fields sharing a locator step still get distinct ids",
+  );
+
+  frames = [
+    { frameId: 0, url: "https://jobs.example.com/apply", answers: false },
+  ];
+  scan = await analyzeFrames(TAB);
+  assert(
+    !scan.success && scan.fields.length === 0,
+    "A top frame that does not answer fails the scan",
+  );
+
+  // =========================================================================
+  // Filling
+  // =========================================================================
+  console.log("\n--- fillFrames ---");
+
+  frames = [
+    {
+      frameId: 0,
+      url: "https://careers.acme.com/jobs/1",
+      fields: [field("search", "Search jobs")],
+    },
+    {
+      frameId: 4,
+      url: EMBED,
+      fields: [
+        field("field_0", "First name", "first_name"),
+        field("field_1", "Email", "email"),
+        field("field_2", "Phone", "phone"),
+      ],
+    },
+  ];
+  scan = await analyzeFrames(TAB);
+  const mappings: FieldMapping[] = scan.fields.map((f) => ({
+    fieldId: f.id,
+    id: f.id,
+    fieldType: f.name,
+    confidence: 0.9,
+  }));
+  sent.length = 0;
+  const filled = await fillFrames(TAB, mappings, scan.routes, {
+    userData: { firstName: "Jane" },
+  });
+  const fills = sent.filter((m) => m.action === "fillForm");
+  assert(
+    fills.length === 2 && fills.map((m) => m.to).join() === "0,4",
+    "Each frame is sent only its own mappings",
+  );
+  const embedFill = fills[1].data as {
+    fieldMappings: FieldMapping[];
+    fillBatch: string;
+    userData: unknown;
+  };
+  assert(
+    embedFill.fieldMappings.map((m) => m.fieldId).join() ===
+      "field_0,field_1,field_2" &&
+      embedFill.fieldMappings.every((m) => m.id === m.fieldId),
+    "Mappings reach the frame with its own field ids",
+  );
+  assert(
+    !!embedFill.userData &&
+      embedFill.fillBatch === (fills[0].data as typeof embedFill).fillBatch,
+    "Every frame gets the payload and one shared undo batch",
+  );
+  assert(
+    filled.success &&
+      filled.filledCount === 4 &&
+      same(
+        filled.filledIds,
+        scan.fields.map((f) => f.id),
+      ) &&
+      same(
+        filled.verification?.map((v) => v.fieldId),
+        scan.fields.map((f) => f.id),
+      ),
+    "Filled ids and verification come back as global ids",
+  );
+
+  frames[1].answers = false;
+  const partial = await fillFrames(TAB, mappings, scan.routes);
+  assert(
+    partial.success && partial.filledCount === 1,
+    "A frame that stopped answering does not fail the others",
+  );
+  frames[0].answers = false;
+  assert(
+    !(await fillFrames(TAB, mappings, scan.routes)).success,
+    "The fill fails when no frame answers",
+  );
+  assert(
+    (await fillFrames(TAB, [], scan.routes)).success,
+    "Nothing to fill is not a failure",
+  );
+
+  // =========================================================================
+  // Next button
+  // =========================================================================
+  console.log("\n--- Next button ---");
+
+  frames[0].answers = true;
+  frames[1].answers = true;
+  assert(
+    formFrame(scan.fields) === 4,
+    "The frame holding most fields is the form's",
+  );
+  assert(formFrame([]) === 0, "The top frame when nothing was found");
+
+  sent.length = 0;
+  await clickNextInFrame(TAB, 4, false);
+  assert(
+    sent.length === 1 && sent[0].to === 4 && sent[0].frameId === 4,
+    "clickNext goes to that one frame only and names it",
+  );
+
+  console.warn = warn;
+  console.log("\n🎉 ALL FRAME ROUTING TESTS PASSED! 🚀\n");
+}
+
+runTests();
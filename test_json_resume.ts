@@ -0,0 +1,127 @@
+import {
+  isJSONResume,
+  jsonResumeToUserData,
+  userDataToJSONResume,
+} from "./src/services/formats/jsonResume";
+import type { Experience, UserData } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const job = (
+  duration: string,
+  extra: Partial<Experience> = {},
+): Experience => ({
+  company: "Acme",
+  position: "Engineer",
+  description: "",
+  duration,
+  ...extra,
+});
+
+function runTests() {
+  console.log("🧪 Starting Aullevo JSON Resume Test Suite...\n");
+
+  // =========================================================================
+  // JSON Resume round trip
+  // =========================================================================
+  console.log("--- JSON Resume round trip ---");
+
+  const profile = {
+    firstName: "Jane",
+    lastName: "Doe",
+    email: "jane@example.com",
+    phone: "555-0100",
+    city: "Austin",
+    state: "TX",
+    country: "US",
+    linkedin: "https://www.linkedin.com/in/janedoe",
+    summary: "Engineer.",
+    skills: ["TypeScript", "Go"],
+    experience: [
+      job("Mar 2020 - Present", {
+        start: { year: 2020, month: 3 },
+        isCurrent: true,
+      }),
+      job("Jun 2016 - Feb 2020", {
+        company: "Globex",
+        start: { year: 2016, month: 6 },
+        end: { year: 2020, month: 2 },
+        isCurrent: false,
+      }),
+    ],
+    education: [
+      {
+        school: "State U",
+        degree: "B.S. in Computer Science",
+        year: "2012 - 2016",
+        start: { year: 2012, month: 9 },
+        end: { year: 2016, month: 5 },
+        isCurrent: false,
+      },
+    ],
+  } as Partial<UserData>;
+
+  const doc = userDataToJSONResume(profile);
+  assert(isJSONResume(doc), "Export is recognised as a JSON Resume document");
+  assert(doc.basics?.name === "Jane Doe", "basics.name joins the name parts");
+  assert(
+    doc.work?.[0].startDate === "2020-03" &&
+      doc.work?.[0].endDate === undefined,
+    "A current job exports a start date and no end date",
+  );
+  assert(
+    doc.education?.[0].startDate === "2012-09" &&
+      doc.education?.[0].endDate === "2016-05",
+    "Education exports its structured start and end",
+  );
+  assert(
+    doc.education?.[0].studyType === "B.S." &&
+      doc.education?.[0].area === "Computer Science",
+    `"B.S. in Computer Science" splits into studyType and area`,
+  );
+
+  const back = jsonResumeToUserData(JSON.parse(JSON.stringify(doc)));
+  assert(
+    back.firstName === "Jane" && back.lastName === "Doe",
+    "Import splits the name",
+  );
+  assert(
+    back.email === "jane@example.com" && back.linkedin === profile.linkedin,
+    "Contact details and profiles survive the round trip",
+  );
+  assert(
+    same(back.skills, ["TypeScript", "Go"]),
+    "Skills survive the round trip",
+  );
+  assert(
+    back.experience?.[0].duration === "Mar 2020 - Present" &&
+      same(back.experience?.[0].start, { year: 2020, month: 3 }) &&
+      back.experience?.[0].isCurrent === true,
+    "Import sets the duration text and structured dates of a current job",
+  );
+  assert(
+    same(back.experience?.[1].end, { year: 2020, month: 2 }) &&
+      back.experience?.[1].isCurrent === false,
+    "A finished job imports its end date",
+  );
+  assert(
+    back.education?.[0].year === "2012 - 2016" &&
+      same(back.education?.[0].start, { year: 2012, month: 9 }) &&
+      same(back.education?.[0].end, { year: 2016, month: 5 }),
+    "Education keeps its start and end through the round trip",
+  );
+
+  console.log("\n🎉 ALL JSON RESUME TESTS PASSED! 🚀\n");
+}
+
+runTests();
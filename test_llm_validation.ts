@@ -0,0 +1,167 @@
+import {
+  parseModelJSON,
+  validateFieldMappings,
+} from "./src/services/llm/validation";
+import type { FormField } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const field = (id: string, label: string, name = ""): FormField => ({
+  id,
+  name,
+  type: "text",
+  placeholder: "",
+  label,
+  ariaLabel: "",
+  autocomplete: "",
+  required: false,
+  context: "",
+  section: "",
+});
+
+function throws(fn: () => unknown, pattern: RegExp): boolean {
+  try {
+    fn();
+    return false;
+  } catch (err) {
+    return pattern.test((err as Error).message);
+  }
+}
+
+function runTests() {
+  console.log("🧪 Starting Aullevo LLM Validation Test Suite...\n");
+
+  // =========================================================================
+  // parseModelJSON
+  // =========================================================================
+  console.log("--- parseModelJSON ---");
+
+  assert(
+    same(parseModelJSON('[{"id":"a"}]'), [{ id: "a" }]),
+    "Plain JSON parses",
+  );
+  assert(
+    same(parseModelJSON('```json\n{"ok":true}\n```'), { ok: true }),
+    "Markdown fences are stripped",
+  );
+  assert(
+    same(parseModelJSON('Sure! [{"id":"a"}] Hope this helps ]'), [{ id: "a" }]),
+    "Chatter around the JSON and trailing tokens are ignored",
+  );
+  assert(
+    same(parseModelJSON('{"text":"a ] in a string"} extra'), {
+      text: "a ] in a string",
+    }),
+    "Brackets inside strings don't end the value",
+  );
+  assert(
+    throws(() => parseModelJSON("no json here"), /did not contain any JSON/),
+    "Text without JSON is rejected",
+  );
+  assert(
+    throws(() => parseModelJSON('[{"id":"a"'), /truncated/),
+    "Truncated JSON is reported as truncated",
+  );
+
+  // =========================================================================
+  // validateFieldMappings
+  // =========================================================================
+  console.log("\n--- validateFieldMappings ---");
+
+  const fields = [
+    field("f_email", "Email", "applicant_email"),
+    field("f_color", "Favorite color"),
+    field("f_company", "Company"),
+    field("f_add", "Add another job"),
+  ];
+  const customFields = [
+    { label: "Favorite Color", value: "blue", context: "" },
+  ];
+
+  const { value, issues } = validateFieldMappings(
+    {
+      mappings: [
+        { id: "applicant_email", fieldType: "EMAIL", confidence: "0.9" },
+        { id: "f_color", fieldType: "custom_field:favorite color" },
+        {
+          id: "f_company",
+          fieldType: "company",
+          groupType: "Experience",
+          groupIndex: 99,
+        },
+        { id: "f_add", action: "click_add", groupType: "experience" },
+        { id: "missing", fieldType: "email" },
+        { id: "f_company", fieldType: "not_a_type" },
+        "garbage",
+      ],
+    },
+    fields,
+    customFields,
+  );
+
+  const byId = new Map(value.map((m) => [`${m.id}:${m.action}`, m]));
+  assert(
+    issues.some((i) => i.message === "Unwrapped array from object"),
+    "An array wrapped in an object is unwrapped",
+  );
+  const email = byId.get("f_email:fill");
+  assert(
+    !!email && email.fieldType === "email",
+    "An id given as the field's name resolves, and fieldType casing is repaired",
+  );
+  assert(email?.confidence === 0.9, "A numeric-string confidence is converted");
+  assert(
+    byId.get("f_color:fill")?.fieldType === "custom_field:Favorite Color",
+    "Custom field labels take the saved field's casing",
+  );
+  const company = byId.get("f_company:fill");
+  assert(
+    company?.groupType === "experience" &&
+      (company?.groupIndex ?? 0) < 99 &&
+      issues.some((i) => /clamped/.test(i.message)),
+    "groupType casing is repaired and an out-of-range groupIndex clamped",
+  );
+  assert(
+    byId.get("f_add:click_add")?.groupType === "experience",
+    "click_add mappings with a groupType are kept",
+  );
+  assert(
+    issues.some((i) => i.action === "dropped" && i.id === "missing"),
+    "Mappings for unknown fields are dropped",
+  );
+  assert(
+    issues.some(
+      (i) => i.action === "dropped" && /Unknown fieldType/.test(i.message),
+    ),
+    "Unknown field types are dropped",
+  );
+  assert(
+    issues.some(
+      (i) => i.action === "dropped" && /not an object/.test(i.message),
+    ),
+    "Non-object entries are dropped",
+  );
+  assert(
+    value.every((m) => fields.some((f) => f.id === m.id)),
+    "Every surviving mapping points at a field on the page",
+  );
+
+  assert(
+    throws(() => validateFieldMappings("nope", fields), /not a JSON array/),
+    "A response that isn't an array is rejected",
+  );
+
+  console.log("\n🎉 ALL LLM VALIDATION TESTS PASSED! 🚀\n");
+}
+
+runTests();
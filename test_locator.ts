@@ -0,0 +1,195 @@
+import { JSDOM } from "jsdom";
+import { buildLocator, locateField } from "./src/services/form/locator";
+import type { LocatorStep } from "./src/types";
+
+function setupDom(html: string) {
+  const dom = new JSDOM(html, {
+    url: "https://example.com/apply",
+    pretendToBeVisual: true,
+  });
+  Object.assign(globalThis, {
+    window: dom.window,
+    document: dom.window.document,
+    HTMLElement: dom.window.HTMLElement,
+    HTMLButtonElement: dom.window.HTMLButtonElement,
+    HTMLInputElement: dom.window.HTMLInputElement,
+    HTMLSelectElement: dom.window.HTMLSelectElement,
+    HTMLTextAreaElement: dom.window.HTMLTextAreaElement,
+  });
+  return dom;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const strategies = (steps: LocatorStep[]) =>
+  steps.map((s) => s.strategy).join(",");
+
+/**
+ * Scans the form the way the extractor does (locator first, then the
+ * fallback id), then replaces it with a fresh copy of the same markup,
+ * as a framework re-render would.
+ */
+function scanThenRerender(html: string, selector: string) {
+  setupDom(`<!DOCTYPE html><html><body><main>${html}</main></body></html>`);
+  const el = document.querySelector<HTMLElement>(selector)!;
+  const locator = buildLocator(el);
+  const id = el.id || "field_0";
+  el.id = id;
+  document.querySelector("main")!.innerHTML = html;
+  return { id, locator };
+}
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Field Locator Test Suite...\n");
+
+  // =========================================================================
+  // buildLocator
+  // =========================================================================
+  console.log("--- buildLocator ---");
+
+  setupDom(`<!DOCTYPE html><html><body><form>
+    <label for="email">Email address *</label>
+    <input id="email" name="email" data-testid="email-input" aria-label="Your email" />
+  </form></body></html>`);
+  let steps = buildLocator(document.querySelector("input")!);
+  assert(
+    strategies(steps) === "id,name,automationId,label,aria,cssPath",
+    `Every handle is kept, most specific first (${strategies(steps)})`,
+  );
+  assert(
+    steps[3].value === "email address",
+    "Label text is cleaned of required markers and case",
+  );
+
+  setupDom(`<!DOCTYPE html><html><body><form>
+    <input id="field_3" name="city" />
+    <input id="react-aria-12" name="zip" />
+    <input name="phone[]" /><input name="phone[]" />
+  </form></body></html>`);
+  const inputs = document.querySelectorAll("input");
+  assert(
+    strategies(buildLocator(inputs[0])) === "name,cssPath" &&
+      strategies(buildLocator(inputs[1])) === "name,cssPath",
+    "Generated and framework ids are not relied on",
+  );
+  steps = buildLocator(inputs[2]);
+  assert(
+    strategies(steps) === "cssPath" &&
+      steps[0].value === "html > body > form > input:nth-of-type(3)",
+    "A name shared by several fields is skipped for the structural path",
+  );
+
+  setupDom(`<!DOCTYPE html><html><body><section id="profile"><div>
+    <input /><input />
+  </div></section></body></html>`);
+  assert(
+    buildLocator(document.querySelectorAll("input")[1])[0].value ===
+      "#profile > div > input:nth-of-type(2)",
+    "The structural path starts at the nearest stable id",
+  );
+
+  // =========================================================================
+  // locateField after a re-render
+  // =========================================================================
+  console.log("\n--- locateField ---");
+
+  let scanned = scanThenRerender(`<input name="first_name" />`, "input");
+  let found = locateField(scanned);
+  assert(
+    found?.strategy === "name" &&
+      found.element === document.querySelector("input"),
+    "A re-rendered field is found again by its name",
+  );
+  assert(
+    found?.element.id === "field_0" && locateField(scanned)?.strategy === "id",
+    "The node found gets the field id back, so the next lookup is by id",
+  );
+
+  scanned = scanThenRerender(
+    `<label>Why do you want to work here? <textarea></textarea></label>`,
+    "textarea",
+  );
+  assert(
+    locateField(scanned)?.strategy === "label",
+    "A field with no name is found by its label text",
+  );
+
+  scanned = scanThenRerender(
+    `<span id="q7">Years of experience</span><input aria-labelledby="q7" />`,
+    "input",
+  );
+  assert(
+    locateField(scanned)?.strategy === "aria",
+    "aria-labelledby text finds a field without a <label>",
+  );
+
+  scanned = scanThenRerender(
+    `<div><input data-qa="salary" /></div><div><input data-qa="notice" /></div>`,
+    "[data-qa=notice]",
+  );
+  found = locateField(scanned);
+  assert(
+    found?.strategy === "automationId" &&
+      found.element.getAttribute("data-qa") === "notice",
+    "A test-automation attribute finds the right one of two fields",
+  );
+
+  scanned = scanThenRerender(
+    `<label>City <input name="city" /></label>`,
+    "input",
+  );
+  document.querySelector("main")!.innerHTML += `<label>City <input /></label>`;
+  document.querySelector<HTMLInputElement>("input[name=city]")!.name = "town";
+  assert(
+    locateField(scanned)?.strategy === "cssPath",
+    "A label two fields share is skipped for the next step",
+  );
+
+  // =========================================================================
+  // Shadow DOM
+  // =========================================================================
+  console.log("\n--- Shadow DOM ---");
+
+  setupDom(
+    `<!DOCTYPE html><html><body><apply-form id="app"></apply-form></body></html>`,
+  );
+  const shadowForm = `<div><input /><input /></div>`;
+  const shadow = document.getElementById("app")!.attachShadow({ mode: "open" });
+  shadow.innerHTML = shadowForm;
+  const locator = buildLocator(shadow.querySelectorAll("input")[1]);
+  assert(
+    strategies(locator) === "shadowPath" &&
+      locator[0].value ===
+        "html > body > apply-form >>> div > input:nth-of-type(2)",
+    "A field inside a shadow root gets a path through its host",
+  );
+  shadow.innerHTML = shadowForm;
+  found = locateField({ id: "field_1", locator });
+  assert(
+    found?.strategy === "shadowPath" &&
+      found.element === shadow.querySelectorAll("input")[1],
+    "The shadow path finds the re-rendered field",
+  );
+
+  assert(
+    locateField({
+      id: "gone",
+      locator: [
+        { strategy: "name", value: `input[name="gone"]` },
+        { strategy: "cssPath", value: "form >>> ??" },
+      ],
+    }) === null,
+    "A field no step can find is reported missing",
+  );
+
+  console.log("\n🎉 ALL FIELD LOCATOR TESTS PASSED! 🚀\n");
+}
+
+runTests();
@@ -0,0 +1,167 @@
+import { JSDOM } from "jsdom";
+import {
+  classifyNavigationButton,
+  clickNextButton,
+} from "./src/services/form/navigation";
+
+function setupDom(html: string) {
+  const dom = new JSDOM(html, {
+    url: "https://example.com/apply",
+    pretendToBeVisual: true,
+  });
+  Object.assign(globalThis, {
+    window: dom.window,
+    document: dom.window.document,
+    HTMLElement: dom.window.HTMLElement,
+    HTMLButtonElement: dom.window.HTMLButtonElement,
+    HTMLInputElement: dom.window.HTMLInputElement,
+    HTMLSelectElement: dom.window.HTMLSelectElement,
+    HTMLTextAreaElement: dom.window.HTMLTextAreaElement,
+  });
+  return dom;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+/** Classifies the page's only button, without a wizard step indicator. */
+function classify(html: string) {
+  setupDom(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  const btn = document.querySelector<HTMLElement>(
+    "button, input[type=submit]",
+  )!;
+  return classifyNavigationButton(btn, null);
+}
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Submit Gate Test Suite...\n");
+
+  // =========================================================================
+  // Labels
+  // =========================================================================
+  console.log("--- Labels ---");
+
+  assert(
+    classify(`<form><button type="submit">Next</button></form>`).kind ===
+      "next",
+    `"Next" steps forward`,
+  );
+  assert(
+    classify(`<form><button>Save and continue</button></form>`).kind === "next",
+    `"Save and continue" steps forward`,
+  );
+  for (const label of ["Submit application", "Finish", "Pay now"]) {
+    assert(
+      classify(`<form><button type="submit">${label}</button></form>`).kind ===
+        "submit",
+      `"${label}" is a final submit`,
+    );
+  }
+  assert(
+    classify(`<form><button type="submit">Reapply</button></form>`).kind ===
+      "submit",
+    `"Reapply" is no "apply" label, but a submit button still submits`,
+  );
+
+  // =========================================================================
+  // Submit buttons with unrecognised labels
+  // =========================================================================
+  console.log("\n--- Unrecognised submit labels ---");
+
+  for (const label of ["Send", "Done", "Save"]) {
+    const result = classify(
+      `<form><button type="submit">${label}</button></form>`,
+    );
+    assert(
+      result.kind === "submit" && result.reason.includes(label),
+      `A type="submit" "${label}" button is a submit (${result.reason})`,
+    );
+  }
+  assert(
+    classify(`<form><input type="submit" value="Done" /></form>`).kind ===
+      "submit",
+    `<input type="submit" value="Done"> is a submit`,
+  );
+  assert(
+    classify(`<form><button>Send</button></form>`).kind === "submit",
+    "A form button without a type defaults to submit",
+  );
+  assert(
+    classify(`<form><button type="submit" class="btn-next">→</button></form>`)
+      .kind === "next",
+    "A next-style class and arrow mark a submit button as a step",
+  );
+  assert(
+    classify(`<button type="button" class="btn-next">Go</button>`).kind ===
+      "next",
+    "A plain button outside a form steps forward",
+  );
+
+  // =========================================================================
+  // Where the click leads
+  // =========================================================================
+  console.log("\n--- Destination ---");
+
+  assert(
+    classify(
+      `<form action="/applications/123/submit"><button type="submit">Continue</button></form>`,
+    ).kind === "submit",
+    "Posting to a submit endpoint makes Continue a submit",
+  );
+  setupDom(
+    `<!DOCTYPE html><html><body><form><button type="submit">Continue</button></form></body></html>`,
+  );
+  assert(
+    classifyNavigationButton(document.querySelector("button")!, {
+      current: 3,
+      total: 3,
+    }).kind === "submit",
+    "Continue on the last wizard step is a submit",
+  );
+  assert(
+    classify(`<form><input name="email" /><button>Apply now</button></form>`)
+      .kind === "next",
+    `"Apply now" on an empty form opens the application`,
+  );
+  assert(
+    classify(
+      `<form><input name="email" value="jane@example.com" /><button>Apply now</button></form>`,
+    ).kind === "submit",
+    `"Apply now" on a filled form sends it`,
+  );
+
+  // =========================================================================
+  // clickNextButton
+  // =========================================================================
+  console.log("\n--- clickNextButton ---");
+
+  setupDom(
+    `<!DOCTYPE html><html><body><form><input name="q1" value="yes" /><button type="submit" class="btn-submit">Done</button></form></body></html>`,
+  );
+  let clicked = false;
+  document
+    .querySelector("form")!
+    .addEventListener("submit", (e) => e.preventDefault());
+  document
+    .querySelector("button")!
+    .addEventListener("click", () => (clicked = true));
+  const blocked = clickNextButton();
+  assert(
+    blocked.blocked === true && !blocked.success && !clicked,
+    "A final button is reported as blocked and not clicked",
+  );
+  assert(
+    clickNextButton({ allowSubmit: true }).success && clicked,
+    "allowSubmit clicks it",
+  );
+
+  console.log("\n🎉 ALL SUBMIT GATE TESTS PASSED! 🚀\n");
+}
+
+runTests();
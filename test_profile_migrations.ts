@@ -0,0 +1,224 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateProfile,
+  migrateV1CustomFieldsArray,
+  migrateV2ListFieldsAndType,
+  migrateV3StructuredDates,
+  migrateVault,
+  refreshProfileDates,
+} from "./src/services/profile";
+import type { UserData } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Profile Migration Test Suite...\n");
+
+  // =========================================================================
+  // v1: customFields object → CustomField[]
+  // =========================================================================
+  console.log("--- v1: customFields array ---");
+
+  const v1 = migrateV1CustomFieldsArray({
+    customFields: { "Favorite color": "blue", Age: 30 },
+  });
+  assert(
+    same(v1.customFields, [
+      { label: "Favorite color", value: "blue", context: "" },
+      { label: "Age", value: "30", context: "" },
+    ]),
+    "Object customFields become labelled CustomField entries",
+  );
+
+  const kept = [{ label: "Pet", value: "cat", context: "ask about pets" }];
+  assert(
+    same(migrateV1CustomFieldsArray({ customFields: kept }).customFields, kept),
+    "An existing CustomField[] is kept as is",
+  );
+  assert(
+    same(migrateV1CustomFieldsArray({}).customFields, []),
+    "Missing customFields become an empty list",
+  );
+
+  // =========================================================================
+  // v2: list fields and profile type
+  // =========================================================================
+  console.log("\n--- v2: list fields and profileType ---");
+
+  const v2 = migrateV2ListFieldsAndType({
+    skills: "TypeScript, Go,  , SQL",
+    experience: null,
+  });
+  assert(
+    same(v2.skills, ["TypeScript", "Go", "SQL"]),
+    "Comma-separated skills are split and blanks dropped",
+  );
+  assert(same(v2.experience, []), "A non-array experience becomes []");
+  assert(
+    same(v2.education, []) && same(v2.memories, []) && same(v2.savedLinks, []),
+    "Missing education, memories and savedLinks default to []",
+  );
+  assert(v2.profileType === "job", `Missing profileType defaults to "job"`);
+  assert(
+    migrateV2ListFieldsAndType({ profileType: "school" }).profileType ===
+      "school",
+    "An existing profileType is kept",
+  );
+
+  // =========================================================================
+  // v3: structured experience / education dates
+  // =========================================================================
+  console.log("\n--- v3: structured dates ---");
+
+  const v3 = migrateV3StructuredDates({
+    experience: [
+      { company: "Acme", duration: "Jan 2020 – Present" },
+      { company: "Globex", duration: "2016 - 2019" },
+      { company: "Initech", duration: "sometime" },
+      {
+        company: "Hooli",
+        duration: "2010 - 2012",
+        start: { year: 2009 },
+        isCurrent: false,
+      },
+    ],
+    education: [{ school: "State U", year: "2016" }],
+  });
+  const [acme, globex, initech, hooli] = v3.experience as Record<
+    string,
+    unknown
+  >[];
+  assert(
+    same(acme.start, { year: 2020, month: 1 }) && acme.isCurrent === true,
+    `"Jan 2020 – Present" → start Jan 2020, current`,
+  );
+  assert(acme.end === undefined, "A current role gets no end date");
+  assert(
+    same(globex.start, { year: 2016 }) &&
+      same(globex.end, { year: 2019 }) &&
+      globex.isCurrent === false,
+    `"2016 - 2019" → start 2016, end 2019`,
+  );
+  assert(
+    !("start" in initech) && !("isCurrent" in initech),
+    "A duration without dates is left untouched",
+  );
+  assert(
+    same(hooli.start, { year: 2009 }),
+    "Entries that already have structured dates are not re-parsed",
+  );
+  const [stateU] = v3.education as Record<string, unknown>[];
+  assert(
+    same(stateU.end, { year: 2016 }) && stateU.start === undefined,
+    "A lone education year is the end date",
+  );
+
+  // =========================================================================
+  // migrateProfile / migrateVault
+  // =========================================================================
+  console.log("\n--- migrateProfile / migrateVault ---");
+
+  assert(getSchemaVersion({}) === 0, "Unversioned profiles are version 0");
+  const { profile, changed } = migrateProfile({
+    firstName: "Jane",
+    customFields: { Pet: "cat" },
+    skills: "Go",
+    experience: [{ company: "Acme", duration: "2020 - 2021" }],
+  });
+  assert(changed, "An unversioned profile is reported as changed");
+  assert(
+    profile.schemaVersion === CURRENT_SCHEMA_VERSION,
+    `Migrated profile is stamped v${CURRENT_SCHEMA_VERSION}`,
+  );
+  assert(
+    same(profile.customFields, [{ label: "Pet", value: "cat", context: "" }]) &&
+      same(profile.skills, ["Go"]) &&
+      same(profile.experience[0].start, { year: 2020 }),
+    "Every migration step runs in order",
+  );
+
+  const current = { firstName: "Jane", schemaVersion: CURRENT_SCHEMA_VERSION };
+  const again = migrateProfile(current);
+  assert(
+    !again.changed && again.profile === (current as unknown),
+    "A current profile is returned untouched",
+  );
+  const newer = {
+    firstName: "Jane",
+    schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+  };
+  assert(
+    migrateProfile(newer).profile === (newer as unknown),
+    "A profile from a newer version is not downgraded",
+  );
+
+  let threw = false;
+  try {
+    migrateProfile([]);
+  } catch {
+    threw = true;
+  }
+  assert(threw, "A non-object profile is rejected");
+
+  const vault = migrateVault({ Default: current, Old: { firstName: "Bob" } });
+  assert(
+    vault.changed &&
+      vault.vault.Old.schemaVersion === CURRENT_SCHEMA_VERSION &&
+      vault.vault.Default === (current as unknown),
+    "migrateVault migrates only the profiles that need it",
+  );
+
+  // =========================================================================
+  // refreshProfileDates (run on every save)
+  // =========================================================================
+  console.log("\n--- refreshProfileDates ---");
+
+  const refreshed = refreshProfileDates({
+    experience: [
+      {
+        company: "Acme",
+        position: "Engineer",
+        description: "",
+        duration: "Mar 2018 - Jun 2021",
+        start: { year: 2015 },
+        isCurrent: true,
+      },
+    ],
+    education: [
+      {
+        school: "State U",
+        degree: "B.S.",
+        year: "2012 - 2016",
+        start: { year: 2012, month: 9 },
+        end: { year: 2016, month: 5 },
+        isCurrent: false,
+      },
+    ],
+  } as unknown as UserData);
+  const [job] = refreshed.experience;
+  assert(
+    same(job.start, { year: 2018, month: 3 }) &&
+      same(job.end, { year: 2021, month: 6 }) &&
+      job.isCurrent === false,
+    "Dates stale after a duration edit follow the new text",
+  );
+  assert(
+    same(refreshed.education[0].start, { year: 2012, month: 9 }),
+    "Stored dates that agree with the text keep their months",
+  );
+
+  console.log("\n🎉 ALL PROFILE MIGRATION TESTS PASSED! 🚀\n");
+}
+
+runTests();
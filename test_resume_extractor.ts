@@ -0,0 +1,213 @@
+import {
+  extractEducation,
+  extractExperience,
+} from "./src/services/resume/entries";
+import { detectHeading } from "./src/services/resume/sections";
+import {
+  countLowConfidence,
+  extractResumeData,
+} from "./src/services/resumeExtractor";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const SAMPLE_RESUME = `Jane Doe
+jane.doe@example.com | (555) 010-0199 | San Francisco, CA
+linkedin.com/in/janedoe
+
+SUMMARY
+Backend engineer with eight years of experience building APIs.
+
+EXPERIENCE
+Senior Software Engineer
+Acme Corp
+Jan 2020 - Present
+- Led the payments platform migration.
+
+Software Engineer
+Globex
+Jun 2016 - Dec 2019
+- Built internal tooling.
+
+EDUCATION
+Stanford University
+B.S. in Computer Science
+2012 - 2016
+
+SKILLS
+TypeScript, Go, PostgreSQL, Kubernetes
+`;
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Resume Extractor Test Suite...\n");
+
+  const extraction = extractResumeData(SAMPLE_RESUME);
+  const { data, confidence } = extraction;
+
+  // =========================================================================
+  // Contact details
+  // =========================================================================
+  console.log("--- Contact details ---");
+
+  assert(
+    data.firstName === "Jane" && data.lastName === "Doe",
+    "Name from the first line",
+  );
+  assert(data.email === "jane.doe@example.com", "Email");
+  assert(data.phone === "(555) 010-0199", "Phone as written");
+  assert(
+    data.city === "San Francisco" && data.state === "CA",
+    "City and state from the contact line",
+  );
+  assert(
+    data.linkedin === "https://linkedin.com/in/janedoe",
+    "LinkedIn URL gains a scheme",
+  );
+  assert(
+    (confidence.fields.email ?? 0) > (confidence.fields.city ?? 1),
+    "An email match is more certain than a guessed city",
+  );
+
+  // =========================================================================
+  // Sections
+  // =========================================================================
+  console.log("\n--- Sections ---");
+
+  assert(
+    data.summary ===
+      "Backend engineer with eight years of experience building APIs.",
+    "Summary",
+  );
+  assert(
+    same(data.skills, ["TypeScript", "Go", "PostgreSQL", "Kubernetes"]),
+    "Comma-separated skills",
+  );
+
+  assert(data.experience?.length === 2, "Two experience entries");
+  const [acme, globex] = data.experience ?? [];
+  assert(
+    acme.company === "Acme Corp" &&
+      acme.position === "Senior Software Engineer" &&
+      acme.duration === "Jan 2020 - Present",
+    "First job: company, position and duration",
+  );
+  assert(
+    acme.description === "Led the payments platform migration.",
+    "Bullets become the description",
+  );
+  assert(
+    globex.company === "Globex" && globex.duration === "Jun 2016 - Dec 2019",
+    "Second job",
+  );
+
+  assert(data.education?.length === 1, "One education entry");
+  const [school] = data.education ?? [];
+  assert(
+    school.school === "Stanford University" &&
+      school.degree === "B.S. in Computer Science",
+    "School and degree",
+  );
+  assert(
+    school.year === "2012 - 2016",
+    "An education date range keeps its start",
+  );
+  assert(
+    confidence.experience.length === 2 && confidence.education.length === 1,
+    "Per-entry confidence for every entry",
+  );
+
+  // =========================================================================
+  // Company and location on one line
+  // =========================================================================
+  console.log("\n--- Company and location on one line ---");
+
+  const [located] = extractExperience([
+    "Senior Engineer",
+    "Acme Corp, San Francisco",
+    "2020 - 2021",
+  ]);
+  assert(
+    located.company?.value === "Acme Corp" &&
+      located.position?.value === "Senior Engineer",
+    `"Acme Corp, San Francisco" → company without the city`,
+  );
+  const [regional] = extractExperience(["Globex, Austin, TX", "2016 - 2019"]);
+  assert(
+    regional.company?.value === "Globex",
+    `"Globex, Austin, TX" → company without city and state`,
+  );
+  const [titled] = extractExperience([
+    "Software Engineer, Globex",
+    "2020 - 2021",
+  ]);
+  assert(
+    titled.position?.value === "Software Engineer" &&
+      titled.company?.value === "Globex",
+    `"Software Engineer, Globex" → position and company`,
+  );
+  assert(
+    !extractExperience(["San Francisco, CA", "2020 - 2021"])[0].company,
+    "A bare location line is not a company",
+  );
+  const [dated] = extractEducation(["State U", "B.S.", "Sep 2012 - May 2016"]);
+  assert(
+    dated.year?.value === "Sep 2012 - May 2016",
+    "A month range on an education entry is kept as written",
+  );
+
+  // =========================================================================
+  // Repeated experience headings
+  // =========================================================================
+  console.log("\n--- Repeated experience headings ---");
+
+  assert(
+    detectHeading("Volunteer Experience") === "experience" &&
+      detectHeading("OTHER EXPERIENCE:") === "experience",
+    "Volunteer and other experience headings are experience",
+  );
+  const volunteer = extractResumeData(`Jane Doe
+
+WORK EXPERIENCE
+Software Engineer
+Acme Corp
+2020 - 2021
+
+VOLUNTEER EXPERIENCE
+Mentor
+Code Club
+2018 - 2019
+`);
+  assert(
+    volunteer.data.experience?.length === 2 &&
+      volunteer.data.experience[1].company === "Code Club",
+    "Volunteer roles are concatenated into experience",
+  );
+
+  // =========================================================================
+  // Sparse input
+  // =========================================================================
+  console.log("\n--- Sparse input ---");
+
+  const sparse = extractResumeData("just some text without structure");
+  assert(
+    sparse.data.email === undefined && sparse.data.experience === undefined,
+    "Nothing found → nothing set, so a merge blanks nothing",
+  );
+  assert(
+    countLowConfidence(extraction) >= 1,
+    "Low-confidence guesses are counted for review",
+  );
+
+  console.log("\n🎉 ALL RESUME EXTRACTOR TESTS PASSED! 🚀\n");
+}
+
+runTests();
@@ -0,0 +1,109 @@
+import {
+  candidateConfidence,
+  explainCandidate,
+  pickCandidate,
+  rankFieldTypes,
+} from "./src/services/heuristic/scoring";
+import type { FormField } from "./src/types";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const field = (label: string, extra: Partial<FormField> = {}): FormField => ({
+  id: label.replace(/\W+/g, "_").toLowerCase(),
+  name: "",
+  type: "text",
+  placeholder: "",
+  label,
+  ariaLabel: "",
+  autocomplete: "",
+  required: false,
+  context: "",
+  section: "",
+  ...extra,
+});
+
+const winner = (f: FormField) => pickCandidate(rankFieldTypes(f))?.fieldType;
+
+function runTests() {
+  console.log("🧪 Starting Aullevo Ranked Scorer Test Suite...\n");
+
+  // =========================================================================
+  // Negative evidence: "Email Address" is not a street address
+  // =========================================================================
+  console.log('--- "Email Address" vs "address" ---');
+
+  const ranked = rankFieldTypes(field("Email Address"));
+  assert(ranked[0]?.fieldType === "email", `"Email Address" ranks email first`);
+  const address = ranked.find((c) => c.fieldType === "address");
+  assert(!!address, "address stays in the list as a losing candidate");
+  assert(
+    (address?.score ?? 1) <= 0,
+    "The e-mail negative cancels out address's evidence",
+  );
+  assert(
+    !!address?.reasons.some((r) => /e-mail/.test(r) && r.includes("(-")),
+    "address's explanation shows the negative evidence",
+  );
+  assert(winner(field("Address")) === "address", `Plain "Address" is address`);
+  assert(
+    winner(field("Street address")) === "address",
+    `"Street address" is address`,
+  );
+
+  // =========================================================================
+  // Signal weights and hints
+  // =========================================================================
+  console.log("\n--- Signals ---");
+
+  assert(
+    winner(field("First Name")) === "firstName",
+    `"First Name" → firstName`,
+  );
+  assert(winner(field("Phone Number")) === "phone", `"Phone Number" → phone`);
+  assert(
+    winner(field("", { id: "x1", type: "email" })) === "email",
+    "An email input type alone is enough",
+  );
+  assert(
+    winner(field("Your answer", { id: "q7", autocomplete: "given-name" })) ===
+      "firstName",
+    "The autocomplete token is evidence",
+  );
+  assert(
+    winner(field("Tell us something", { id: "q8" })) === undefined,
+    "No evidence → no candidate",
+  );
+
+  // =========================================================================
+  // Confidence and explanation
+  // =========================================================================
+  console.log("\n--- Confidence and explanation ---");
+
+  const email = rankFieldTypes(field("Email Address"));
+  const confidence = candidateConfidence(email);
+  assert(
+    confidence > 0.6 && confidence <= 0.95,
+    `Confidence grows with the score and is capped (${confidence})`,
+  );
+  assert(
+    candidateConfidence([
+      { fieldType: "a", score: 3, reasons: [] },
+      { fieldType: "b", score: 2.5, reasons: [] },
+    ]) < candidateConfidence([{ fieldType: "a", score: 3, reasons: [] }]),
+    "A close runner-up lowers the confidence",
+  );
+  assert(candidateConfidence([]) === 0, "No candidates → confidence 0");
+  const why = explainCandidate(email[0]);
+  assert(/Email Address/.test(why), `The explanation quotes the label: ${why}`);
+
+  console.log("\n🎉 ALL RANKED SCORER TESTS PASSED! 🚀\n");
+}
+
+runTests();
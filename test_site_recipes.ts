@@ -0,0 +1,279 @@
+import {
+  recipeKey,
+  siteRecipeService,
+  toPathPattern,
+} from "./src/services/siteRecipeService";
+import type { FieldMapping } from "./src/types";
+
+// In-memory chrome.storage: promise and callback styles, like the real API
+function storageArea() {
+  const data: Record<string, unknown> = {};
+  return {
+    get: async (
+      keys: string[],
+      callback?: (r: Record<string, unknown>) => void,
+    ) => {
+      const result: Record<string, unknown> = {};
+      for (const k of keys) if (k in data) result[k] = data[k];
+      callback?.(result);
+      return result;
+    },
+    set: async (items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, JSON.parse(JSON.stringify(items)));
+      callback?.();
+    },
+    remove: async (keys: string | string[]) => {
+      for (const k of ([] as string[]).concat(keys)) delete data[k];
+    },
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`❌ FAIL: ${message}`);
+    process.exit(1);
+  } else {
+    console.log(`✅ PASS: ${message}`);
+  }
+}
+
+const URL =
+  "https://jobs.example.com/acme/4f1c9a2e-1b2c-4d5e-8f90-123456789abc/apply";
+const SIGNATURE = "3:abc123";
+const LABELS = { f_name: "Name", f_city: "City", f_why: "Why us?" };
+
+const mapping = (
+  id: string,
+  fieldType: string,
+  extra: Partial<FieldMapping> = {},
+): FieldMapping => ({ fieldId: id, id, fieldType, confidence: 0.9, ...extra });
+
+async function replayed(): Promise<Map<string, FieldMapping>> {
+  const mappings = await siteRecipeService.replay(URL, SIGNATURE, {
+    markUsed: false,
+  });
+  return new Map((mappings ?? []).map((m) => [m.id || m.fieldId, m]));
+}
+
+async function runTests() {
+  console.log("🧪 Starting Aullevo Site Recipe Test Suite...\n");
+
+  Object.assign(globalThis, {
+    chrome: { storage: { local: storageArea(), session: storageArea() } },
+  });
+
+  // =========================================================================
+  // Recipe keys
+  // =========================================================================
+  console.log("--- Recipe keys ---");
+
+  assert(
+    toPathPattern(URL) === "/acme/*/apply",
+    "Record ids in the path become *",
+  );
+  assert(
+    toPathPattern("https://x.com/Jobs/12345/Apply?src=li#top") ===
+      "/jobs/*/apply",
+    "Numeric ids, query, hash and casing are ignored",
+  );
+  assert(
+    toPathPattern("https://x.com/careers/JR-102938/apply") ===
+      "/careers/*/apply",
+    "Requisition codes count as ids",
+  );
+  assert(
+    recipeKey(URL, SIGNATURE) ===
+      recipeKey(
+        "https://jobs.example.com/acme/0a1b2c3d-1b2c-4d5e-8f90-123456789abc/apply",
+        SIGNATURE,
+      ),
+    "Every posting of one form shares a recipe",
+  );
+  assert(
+    recipeKey(URL, SIGNATURE) !== recipeKey(URL, "4:abc123"),
+    "A different field signature is a different recipe",
+  );
+
+  // =========================================================================
+  // Record and replay
+  // =========================================================================
+  console.log("\n--- Record and replay ---");
+
+  assert(
+    (await siteRecipeService.replay(URL, SIGNATURE)) === null,
+    "No recipe before the first fill",
+  );
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [
+      mapping("f_name", "fullName", {
+        reasoning: "label match",
+        fileData: "data:...",
+      }),
+      mapping("f_city", "city"),
+    ],
+    LABELS,
+  );
+  const hit = await siteRecipeService.replay(URL, SIGNATURE);
+  assert(hit?.length === 2, "A recorded form replays its mappings");
+  assert(
+    hit?.[0].label === "Name" &&
+      hit[0].reasoning === undefined &&
+      hit[0].fileData === undefined,
+    "Recipes keep labels but not reasoning or file payloads",
+  );
+  let [stored] = await siteRecipeService.list();
+  assert(stored.uses === 1, "A replay counts as a use");
+  await siteRecipeService.replay(URL, SIGNATURE, { markUsed: false });
+  [stored] = await siteRecipeService.list();
+  assert(stored.uses === 1, "A dry-run replay is not counted");
+
+  assert(
+    await siteRecipeService.correctMapping(URL, SIGNATURE, "f_city", {
+      fieldType: "state",
+    }),
+    "A hand correction finds the recorded field",
+  );
+  assert(
+    (await replayed()).get("f_city")?.fieldType === "state",
+    "The corrected field type is replayed",
+  );
+  await siteRecipeService.correctMapping(URL, SIGNATURE, "f_city", {
+    value: "Springfield",
+  });
+  assert(
+    (await replayed()).get("f_city")?.selectedValue === "Springfield",
+    "A value not in the profile is pinned",
+  );
+  assert(
+    !(await siteRecipeService.correctMapping(URL, "9:none", "f_city", {
+      fieldType: "city",
+    })),
+    "A correction on an unknown form reports false",
+  );
+
+  const exported = await siteRecipeService.exportRecipes();
+  await siteRecipeService.clear();
+  assert(
+    (await siteRecipeService.list()).length === 0,
+    "clear() removes every recipe",
+  );
+  assert(
+    (await siteRecipeService.importRecipes(exported)) === 1,
+    "An export imports back",
+  );
+  assert(
+    (await replayed()).get("f_city")?.selectedValue === "Springfield",
+    "Pinned values survive export and import",
+  );
+  await siteRecipeService.clear();
+
+  // =========================================================================
+  // Pinned values across fills
+  // =========================================================================
+  console.log("\n--- Pinned values ---");
+
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [
+      mapping("f_name", "fullName"),
+      mapping("f_city", "city"),
+      mapping("f_why", "custom_question", {
+        pinned: true,
+        selectedValue: "I like rockets",
+      }),
+    ],
+    LABELS,
+  );
+  let recipe = await replayed();
+  assert(
+    recipe.get("f_why")?.pinned === true &&
+      recipe.get("f_why")?.selectedValue === "I like rockets",
+    "A value edited in the preview is pinned and replayed as typed",
+  );
+  assert(
+    recipe.get("f_name")?.selectedValue === undefined,
+    "Unpinned mappings store no value",
+  );
+
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [
+      mapping("f_name", "fullName"),
+      mapping("f_city", "city"),
+      mapping("f_why", "custom_question", {
+        pinned: true,
+        selectedValue: "I really like rockets",
+      }),
+    ],
+    LABELS,
+  );
+  recipe = await replayed();
+  assert(
+    recipe.get("f_why")?.selectedValue === "I really like rockets",
+    "Editing a pinned field again keeps the new value",
+  );
+
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [mapping("f_name", "fullName"), mapping("f_city", "city")],
+    LABELS,
+  );
+  recipe = await replayed();
+  assert(
+    !recipe.has("f_why"),
+    "A pinned field skipped on this fill loses its pin",
+  );
+
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [
+      mapping("f_why", "custom_question", {
+        pinned: true,
+        selectedValue: "Rockets",
+      }),
+    ],
+    LABELS,
+  );
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [mapping("f_why", "coverLetter")],
+    LABELS,
+  );
+  recipe = await replayed();
+  assert(
+    recipe.get("f_why")?.fieldType === "coverLetter" &&
+      !recipe.get("f_why")?.pinned,
+    "A fill that resolved a pinned field from the profile unpins it",
+  );
+
+  await siteRecipeService.record(
+    URL,
+    SIGNATURE,
+    [
+      mapping("f_why", "custom_question", {
+        pinned: true,
+        selectedValue: "Rockets",
+      }),
+    ],
+    LABELS,
+  );
+  await siteRecipeService.record(URL, SIGNATURE, [
+    mapping("f_name", "fullName"),
+  ]);
+  recipe = await replayed();
+  assert(
+    recipe.get("f_why")?.selectedValue === "Rockets",
+    "Pins on fields outside the scanned form are kept",
+  );
+
+  console.log("\n🎉 ALL SITE RECIPE TESTS PASSED! 🚀\n");
+}
+
+runTests();